@@ -1,30 +1,53 @@
 // iso-price public contract
 
 export { IsoCurrency } from '../domain.objects/IsoCurrency';
+export type { IsoCurrencyDefinition } from '../domain.objects/IsoCurrencyDefinition';
+export type { IsoCurrencyRegistry } from '../domain.objects/IsoCurrencyRegistry';
+export type { IsoExchangeRate } from '../domain.objects/IsoExchangeRate';
+export type { IsoExchangeRateProvider } from '../domain.objects/IsoExchangeRateProvider';
+export type { IsoExchangeRateSnapshot } from '../domain.objects/IsoExchangeRateSnapshot';
+export type { IsoExchangeRateSource } from '../domain.objects/IsoExchangeRateSource';
+export type { IsoExchangeRateTable } from '../domain.objects/IsoExchangeRateTable';
+export type { IsoExchangeRateWords } from '../domain.objects/IsoExchangeRateWords';
 export type { IsoPrice } from '../domain.objects/IsoPrice';
+export type { IsoPriceBag } from '../domain.objects/IsoPriceBag';
+export type { IsoPriceBagWords } from '../domain.objects/IsoPriceBagWords';
 // enums
 export { IsoPriceExponent } from '../domain.objects/IsoPriceExponent';
 export type { IsoPriceHuman } from '../domain.objects/IsoPriceHuman';
+export type { IsoPriceLocale } from '../domain.objects/IsoPriceLocale';
 export { IsoPriceRoundMode } from '../domain.objects/IsoPriceRoundMode';
 export type { IsoPriceShape } from '../domain.objects/IsoPriceShape';
 // domain types
 export type { IsoPriceWords } from '../domain.objects/IsoPriceWords';
+export type { IsoRatio } from '../domain.objects/IsoRatio';
+export type { IsoRatioInput } from '../domain.objects/IsoRatioInput';
+export type { IsoTaxRate } from '../domain.objects/IsoTaxRate';
 export {
   allocatePrice,
   priceAllocate,
 } from '../domain.operations/arithmetic/allocatePrice';
+export { applyPricePercent } from '../domain.operations/arithmetic/applyPricePercent';
+export { calcPricePercentOf } from '../domain.operations/arithmetic/calcPricePercentOf';
 export {
   dividePrice,
   priceDivide,
 } from '../domain.operations/arithmetic/dividePrice';
+export { extractPricePercent } from '../domain.operations/arithmetic/extractPricePercent';
 export {
   multiplyPrice,
   priceMultiply,
 } from '../domain.operations/arithmetic/multiplyPrice';
+export { negatePriceBag } from '../domain.operations/arithmetic/negatePriceBag';
+export { subPriceBags } from '../domain.operations/arithmetic/subPriceBags';
 export {
   priceSub,
   subPrices,
 } from '../domain.operations/arithmetic/subPrices';
+export {
+  addPriceBags,
+  sumPriceBags,
+} from '../domain.operations/arithmetic/sumPriceBags';
 // arithmetic operations
 export {
   addPrices,
@@ -33,19 +56,63 @@ export {
   sumPrices,
 } from '../domain.operations/arithmetic/sumPrices';
 // cast functions
+export { asIsoExchangeRate } from '../domain.operations/cast/asIsoExchangeRate';
+export { asIsoExchangeRates } from '../domain.operations/cast/asIsoExchangeRates';
+export { asIsoExchangeRateWords } from '../domain.operations/cast/asIsoExchangeRateWords';
 export { asIsoPrice } from '../domain.operations/cast/asIsoPrice';
+export { asIsoPriceBag } from '../domain.operations/cast/asIsoPriceBag';
+export { asIsoPriceBagWords } from '../domain.operations/cast/asIsoPriceBagWords';
+export { asIsoPriceExponent } from '../domain.operations/cast/asIsoPriceExponent';
 export { asIsoPriceHuman } from '../domain.operations/cast/asIsoPriceHuman';
 export { asIsoPriceShape } from '../domain.operations/cast/asIsoPriceShape';
 export { asIsoPriceWords } from '../domain.operations/cast/asIsoPriceWords';
+export { asIsoRatio } from '../domain.operations/cast/asIsoRatio';
+// currency registry
+export { createIsoCurrencyRegistry } from '../domain.operations/currency/createIsoCurrencyRegistry';
+export { getIsoCurrency } from '../domain.operations/currency/getIsoCurrency';
+export { withIsoCurrencyRegistry } from '../domain.operations/currency/getIsoCurrencyRegistry';
+export { getIsoCurrencySymbol } from '../domain.operations/currency/getIsoCurrencySymbol';
+export {
+  ISO_4217_AMENDMENT,
+  ISO_4217_CURRENCIES,
+} from '../domain.operations/currency/iso4217';
+export { ISO_CURRENCY_DENOMINATIONS } from '../domain.operations/currency/isoCurrencyDenominations';
+export { ISO_CURRENCY_SYMBOLS } from '../domain.operations/currency/isoCurrencySymbols';
+export { registerIsoCurrency } from '../domain.operations/currency/registerIsoCurrency';
+// exchange operations
+export { convertPrice } from '../domain.operations/exchange/convertPrice';
+export { convertPriceBag } from '../domain.operations/exchange/convertPriceBag';
+export { createIsoExchangeRateProvider } from '../domain.operations/exchange/createIsoExchangeRateProvider';
+export { createIsoExchangeRateTable } from '../domain.operations/exchange/createIsoExchangeRateTable';
+export { getIsoExchangeRate } from '../domain.operations/exchange/getIsoExchangeRate';
+export { loadIsoExchangeRateTable } from '../domain.operations/exchange/loadIsoExchangeRateTable';
+export { isIsoExchangeRateWords } from '../domain.operations/guard/isIsoExchangeRateWords';
 export { isIsoPrice } from '../domain.operations/guard/isIsoPrice';
+export { isIsoPriceBagWords } from '../domain.operations/guard/isIsoPriceBagWords';
+export { isIsoPriceBagZero } from '../domain.operations/guard/isIsoPriceBagZero';
+export { isIsoPriceExponent } from '../domain.operations/guard/isIsoPriceExponent';
 export { isIsoPriceHuman } from '../domain.operations/guard/isIsoPriceHuman';
 export { isIsoPriceShape } from '../domain.operations/guard/isIsoPriceShape';
 // type guards
 export { isIsoPriceWords } from '../domain.operations/guard/isIsoPriceWords';
+// locale conventions
+export { getIsoPriceLocale } from '../domain.operations/locale/getIsoPriceLocale';
+export {
+  ISO_PRICE_LOCALES,
+  ISO_PRICE_LOCALES_CLDR_VERSION,
+} from '../domain.operations/locale/isoPriceLocales';
 // precision operations
+export { getIsoPriceCashIncrementByCurrency } from '../domain.operations/precision/getIsoPriceCashIncrementByCurrency';
 export { getIsoPriceExponentByCurrency } from '../domain.operations/precision/getIsoPriceExponentByCurrency';
+export { getIsoPriceExponentValue } from '../domain.operations/precision/getIsoPriceExponentValue';
+export { roundBigintByMode } from '../domain.operations/precision/roundBigintByMode';
 export { roundPrice } from '../domain.operations/precision/roundPrice';
+export { roundPriceToIncrement } from '../domain.operations/precision/roundPriceToIncrement';
 export { setPricePrecision } from '../domain.operations/precision/setPricePrecision';
 // statistics operations
 export { calcPriceAvg } from '../domain.operations/statistics/calcPriceAvg';
+export { calcPriceDenominations } from '../domain.operations/statistics/calcPriceDenominations';
+export { calcPriceRatio } from '../domain.operations/statistics/calcPriceRatio';
 export { calcPriceStdev } from '../domain.operations/statistics/calcPriceStdev';
+// tax operations
+export { calcPriceTax } from '../domain.operations/tax/calcPriceTax';
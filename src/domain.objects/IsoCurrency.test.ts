@@ -1,3 +1,4 @@
+import { ISO_4217_CURRENCIES } from '../domain.operations/currency/iso4217';
 import { IsoCurrency } from './IsoCurrency';
 
 describe('IsoCurrency', () => {
@@ -26,10 +27,13 @@ describe('IsoCurrency', () => {
     { description: 'thb', given: { currency: 'THB' } },
   ];
 
-  // 4 currencies with 3-decimal exponent (milli.x10^-3)
+  // 7 currencies with 3-decimal exponent (milli.x10^-3)
   const THREE_DECIMAL_CURRENCIES = [
     { description: 'bhd (bahraini dinar)', given: { currency: 'BHD' } },
+    { description: 'iqd (iraqi dinar)', given: { currency: 'IQD' } },
+    { description: 'jod (jordanian dinar)', given: { currency: 'JOD' } },
     { description: 'kwd (kuwaiti dinar)', given: { currency: 'KWD' } },
+    { description: 'lyd (libyan dinar)', given: { currency: 'LYD' } },
     { description: 'omr (omani rial)', given: { currency: 'OMR' } },
     { description: 'tnd (tunisian dinar)', given: { currency: 'TND' } },
   ];
@@ -48,9 +52,15 @@ describe('IsoCurrency', () => {
     });
   });
 
-  test('enum has exactly 25 values', () => {
+  test('enum has exactly one value per iso 4217 registry entry', () => {
     const values = Object.values(IsoCurrency);
-    expect(values).toHaveLength(25);
+    expect(values).toHaveLength(ISO_4217_CURRENCIES.length);
+  });
+
+  test('enum values match the iso 4217 registry codes', () => {
+    const values = Object.values(IsoCurrency).sort();
+    const codes = ISO_4217_CURRENCIES.map((c) => c.code).sort();
+    expect(values).toEqual(codes);
   });
 
   test('enum values are uppercase 3-letter iso 4217 codes', () => {
@@ -1,10 +1,13 @@
 /**
  * .what = enum of iso 4217 currency codes for type-safe price operations
- * .why = provides compile-time safety for the most common currencies
+ * .why = provides compile-time safety for every active iso 4217 currency
  *
- * includes:
+ * includes every code of iso 4217 list one (see `ISO_4217_CURRENCIES`):
  * - top 21 currencies by forex trade volume (~$7 trillion daily)
- * - 4 currencies with 3-decimal exponent (BHD, KWD, OMR, TND)
+ * - currencies with 3-decimal exponent (BHD, IQD, JOD, KWD, LYD, OMR, TND)
+ * - all other national and regional currencies
+ * - fund codes (BOV, CLF, USN, etc)
+ * - precious metals and special codes (XAU, XDR, XTS, XXX, etc)
  *
  * note: custom currencies (BTC, ETH, etc) are supported via string generics
  * this enum is for convenience, not restriction
@@ -65,4 +68,317 @@ export enum IsoCurrency {
   OMR = 'OMR',
   /** Tunisian Dinar — 3-decimal, millimes */
   TND = 'TND',
+  /** Iraqi Dinar — 3-decimal, fils */
+  IQD = 'IQD',
+  /** Jordanian Dinar — 3-decimal, fils */
+  JOD = 'JOD',
+  /** Libyan Dinar — 3-decimal, fils */
+  LYD = 'LYD',
+
+  // other national and regional currencies
+
+  /** UAE Dirham */
+  AED = 'AED',
+  /** Afghani */
+  AFN = 'AFN',
+  /** Lek */
+  ALL = 'ALL',
+  /** Armenian Dram */
+  AMD = 'AMD',
+  /** Kwanza */
+  AOA = 'AOA',
+  /** Argentine Peso */
+  ARS = 'ARS',
+  /** Aruban Florin */
+  AWG = 'AWG',
+  /** Azerbaijan Manat */
+  AZN = 'AZN',
+  /** Convertible Mark */
+  BAM = 'BAM',
+  /** Barbados Dollar */
+  BBD = 'BBD',
+  /** Taka */
+  BDT = 'BDT',
+  /** Burundi Franc — 0-decimal */
+  BIF = 'BIF',
+  /** Bermudian Dollar */
+  BMD = 'BMD',
+  /** Brunei Dollar */
+  BND = 'BND',
+  /** Boliviano */
+  BOB = 'BOB',
+  /** Bahamian Dollar */
+  BSD = 'BSD',
+  /** Ngultrum */
+  BTN = 'BTN',
+  /** Pula */
+  BWP = 'BWP',
+  /** Belarusian Ruble */
+  BYN = 'BYN',
+  /** Belize Dollar */
+  BZD = 'BZD',
+  /** Congolese Franc */
+  CDF = 'CDF',
+  /** Chilean Peso — 0-decimal */
+  CLP = 'CLP',
+  /** Colombian Peso */
+  COP = 'COP',
+  /** Costa Rican Colon */
+  CRC = 'CRC',
+  /** Cuban Peso */
+  CUP = 'CUP',
+  /** Cabo Verde Escudo */
+  CVE = 'CVE',
+  /** Czech Koruna */
+  CZK = 'CZK',
+  /** Djibouti Franc — 0-decimal */
+  DJF = 'DJF',
+  /** Dominican Peso */
+  DOP = 'DOP',
+  /** Algerian Dinar */
+  DZD = 'DZD',
+  /** Egyptian Pound */
+  EGP = 'EGP',
+  /** Nakfa */
+  ERN = 'ERN',
+  /** Ethiopian Birr */
+  ETB = 'ETB',
+  /** Fiji Dollar */
+  FJD = 'FJD',
+  /** Falkland Islands Pound */
+  FKP = 'FKP',
+  /** Lari */
+  GEL = 'GEL',
+  /** Ghana Cedi */
+  GHS = 'GHS',
+  /** Gibraltar Pound */
+  GIP = 'GIP',
+  /** Dalasi */
+  GMD = 'GMD',
+  /** Guinean Franc — 0-decimal */
+  GNF = 'GNF',
+  /** Quetzal */
+  GTQ = 'GTQ',
+  /** Guyana Dollar */
+  GYD = 'GYD',
+  /** Lempira */
+  HNL = 'HNL',
+  /** Gourde */
+  HTG = 'HTG',
+  /** Forint */
+  HUF = 'HUF',
+  /** Rupiah */
+  IDR = 'IDR',
+  /** New Israeli Sheqel */
+  ILS = 'ILS',
+  /** Iranian Rial */
+  IRR = 'IRR',
+  /** Iceland Krona — 0-decimal */
+  ISK = 'ISK',
+  /** Jamaican Dollar */
+  JMD = 'JMD',
+  /** Kenyan Shilling */
+  KES = 'KES',
+  /** Som */
+  KGS = 'KGS',
+  /** Riel */
+  KHR = 'KHR',
+  /** Comorian Franc — 0-decimal */
+  KMF = 'KMF',
+  /** North Korean Won */
+  KPW = 'KPW',
+  /** Cayman Islands Dollar */
+  KYD = 'KYD',
+  /** Tenge */
+  KZT = 'KZT',
+  /** Lao Kip */
+  LAK = 'LAK',
+  /** Lebanese Pound */
+  LBP = 'LBP',
+  /** Sri Lanka Rupee */
+  LKR = 'LKR',
+  /** Liberian Dollar */
+  LRD = 'LRD',
+  /** Loti */
+  LSL = 'LSL',
+  /** Moroccan Dirham */
+  MAD = 'MAD',
+  /** Moldovan Leu */
+  MDL = 'MDL',
+  /** Malagasy Ariary */
+  MGA = 'MGA',
+  /** Denar */
+  MKD = 'MKD',
+  /** Kyat */
+  MMK = 'MMK',
+  /** Tugrik */
+  MNT = 'MNT',
+  /** Pataca */
+  MOP = 'MOP',
+  /** Ouguiya */
+  MRU = 'MRU',
+  /** Mauritius Rupee */
+  MUR = 'MUR',
+  /** Rufiyaa */
+  MVR = 'MVR',
+  /** Malawi Kwacha */
+  MWK = 'MWK',
+  /** Malaysian Ringgit */
+  MYR = 'MYR',
+  /** Mozambique Metical */
+  MZN = 'MZN',
+  /** Namibia Dollar */
+  NAD = 'NAD',
+  /** Naira */
+  NGN = 'NGN',
+  /** Cordoba Oro */
+  NIO = 'NIO',
+  /** Nepalese Rupee */
+  NPR = 'NPR',
+  /** Balboa */
+  PAB = 'PAB',
+  /** Sol */
+  PEN = 'PEN',
+  /** Kina */
+  PGK = 'PGK',
+  /** Philippine Peso */
+  PHP = 'PHP',
+  /** Pakistan Rupee */
+  PKR = 'PKR',
+  /** Guarani — 0-decimal */
+  PYG = 'PYG',
+  /** Qatari Rial */
+  QAR = 'QAR',
+  /** Romanian Leu */
+  RON = 'RON',
+  /** Serbian Dinar */
+  RSD = 'RSD',
+  /** Russian Ruble */
+  RUB = 'RUB',
+  /** Rwanda Franc — 0-decimal */
+  RWF = 'RWF',
+  /** Saudi Riyal */
+  SAR = 'SAR',
+  /** Solomon Islands Dollar */
+  SBD = 'SBD',
+  /** Seychelles Rupee */
+  SCR = 'SCR',
+  /** Sudanese Pound */
+  SDG = 'SDG',
+  /** Saint Helena Pound */
+  SHP = 'SHP',
+  /** Leone */
+  SLE = 'SLE',
+  /** Somali Shilling */
+  SOS = 'SOS',
+  /** Surinam Dollar */
+  SRD = 'SRD',
+  /** South Sudanese Pound */
+  SSP = 'SSP',
+  /** Dobra */
+  STN = 'STN',
+  /** El Salvador Colon */
+  SVC = 'SVC',
+  /** Syrian Pound */
+  SYP = 'SYP',
+  /** Lilangeni */
+  SZL = 'SZL',
+  /** Somoni */
+  TJS = 'TJS',
+  /** Turkmenistan New Manat */
+  TMT = 'TMT',
+  /** Pa'anga */
+  TOP = 'TOP',
+  /** Turkish Lira */
+  TRY = 'TRY',
+  /** Trinidad and Tobago Dollar */
+  TTD = 'TTD',
+  /** New Taiwan Dollar */
+  TWD = 'TWD',
+  /** Tanzanian Shilling */
+  TZS = 'TZS',
+  /** Hryvnia */
+  UAH = 'UAH',
+  /** Uganda Shilling — 0-decimal */
+  UGX = 'UGX',
+  /** Peso Uruguayo */
+  UYU = 'UYU',
+  /** Uzbekistan Sum */
+  UZS = 'UZS',
+  /** Bolívar Soberano */
+  VED = 'VED',
+  /** Bolívar Soberano */
+  VES = 'VES',
+  /** Dong — 0-decimal */
+  VND = 'VND',
+  /** Vatu — 0-decimal */
+  VUV = 'VUV',
+  /** Tala */
+  WST = 'WST',
+  /** CFA Franc BEAC — 0-decimal */
+  XAF = 'XAF',
+  /** East Caribbean Dollar */
+  XCD = 'XCD',
+  /** Caribbean Guilder */
+  XCG = 'XCG',
+  /** CFA Franc BCEAO — 0-decimal */
+  XOF = 'XOF',
+  /** CFP Franc — 0-decimal */
+  XPF = 'XPF',
+  /** Yemeni Rial */
+  YER = 'YER',
+  /** Zambian Kwacha */
+  ZMW = 'ZMW',
+  /** Zimbabwe Gold */
+  ZWG = 'ZWG',
+
+  // fund codes
+
+  /** Mvdol — fund */
+  BOV = 'BOV',
+  /** WIR Euro — fund */
+  CHE = 'CHE',
+  /** WIR Franc — fund */
+  CHW = 'CHW',
+  /** Unidad de Fomento — fund, 4-decimal */
+  CLF = 'CLF',
+  /** Unidad de Valor Real — fund */
+  COU = 'COU',
+  /** Mexican Unidad de Inversion (UDI) — fund */
+  MXV = 'MXV',
+  /** US Dollar (Next day) — fund */
+  USN = 'USN',
+  /** Uruguay Peso en Unidades Indexadas (UI) — fund, 0-decimal */
+  UYI = 'UYI',
+  /** Unidad Previsional — fund, 4-decimal */
+  UYW = 'UYW',
+
+  // precious metals and special codes
+
+  /** Silver — metal, no minor unit */
+  XAG = 'XAG',
+  /** Gold — metal, no minor unit */
+  XAU = 'XAU',
+  /** Bond Markets Unit European Composite Unit (EURCO) — no minor unit */
+  XBA = 'XBA',
+  /** Bond Markets Unit European Monetary Unit (E.M.U.-6) — no minor unit */
+  XBB = 'XBB',
+  /** Bond Markets Unit European Unit of Account 9 (E.U.A.-9) — no minor unit */
+  XBC = 'XBC',
+  /** Bond Markets Unit European Unit of Account 17 (E.U.A.-17) — no minor unit */
+  XBD = 'XBD',
+  /** SDR (Special Drawing Right) — no minor unit */
+  XDR = 'XDR',
+  /** Palladium — metal, no minor unit */
+  XPD = 'XPD',
+  /** Platinum — metal, no minor unit */
+  XPT = 'XPT',
+  /** Sucre — no minor unit */
+  XSU = 'XSU',
+  /** Codes specifically reserved for testing purposes — no minor unit */
+  XTS = 'XTS',
+  /** ADB Unit of Account — no minor unit */
+  XUA = 'XUA',
+  /** The codes assigned for transactions where no currency is involved — no minor unit */
+  XXX = 'XXX',
 }
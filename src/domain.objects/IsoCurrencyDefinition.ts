@@ -0,0 +1,39 @@
+import type { IsoPriceExponent } from './IsoPriceExponent';
+
+/**
+ * .what = registry entry that describes a currency
+ * .why = declares everything iso-price needs to know about a currency code in one place
+ *
+ * mirrors the columns of the iso 4217 list one:
+ * - `code` — alphabetic code (e.g., 'USD')
+ * - `numeric` — numeric code, zero-padded (e.g., '840', '008'), or null for custom currencies
+ * - `exponent` — minor unit precision, or null where iso 4217 declares 'N.A.'
+ * - `name` — english name per iso 4217
+ *
+ * custom currencies registered at runtime (see `registerIsoCurrency`) may also declare a `symbol`
+ *
+ * example:
+ * ```ts
+ * { code: 'CLF', numeric: '990', exponent: 'decimilli.x10^-4', name: 'Unidad de Fomento', isFund: true, isMetal: false }
+ * { code: 'XAU', numeric: '959', exponent: null, name: 'Gold', isFund: false, isMetal: true }
+ * { code: 'PTS', numeric: null, exponent: 'whole.x10^0', name: 'Loyalty Points', symbol: 'pts', isFund: false, isMetal: false }
+ * ```
+ *
+ * @template TCurrency - the currency code type (defaults to `string`)
+ */
+export interface IsoCurrencyDefinition<TCurrency extends string = string> {
+  /** iso 4217 alphabetic code, or the code of a registered custom currency */
+  code: TCurrency;
+  /** iso 4217 numeric code, zero-padded to 3 digits — null for custom currencies */
+  numeric: string | null;
+  /** minor unit precision — null when iso 4217 declares minor units as 'N.A.' */
+  exponent: IsoPriceExponent | null;
+  /** english name per iso 4217 */
+  name: string;
+  /** display symbol — declared by custom currencies (e.g., 'pts', '₮') */
+  symbol?: string;
+  /** fund codes — units of account for specific settlement (e.g., BOV, CLF, USN) */
+  isFund: boolean;
+  /** precious metal codes — measured in troy ounces (XAU, XAG, XPD, XPT) */
+  isMetal: boolean;
+}
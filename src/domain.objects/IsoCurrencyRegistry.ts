@@ -0,0 +1,15 @@
+import type { IsoCurrencyDefinition } from './IsoCurrencyDefinition';
+
+/**
+ * .what = a registry of custom currencies, keyed by code
+ * .why = lets applications declare currencies absent from iso 4217 (loyalty points, credits, USDC)
+ *
+ * iso 4217 currencies are always known; a registry only holds the additions.
+ *
+ * a process-wide default registry is active unless a scoped registry is
+ * activated via `withIsoCurrencyRegistry` (e.g., to isolate tests)
+ */
+export interface IsoCurrencyRegistry {
+  /** custom currency definitions by code */
+  definitions: Map<string, IsoCurrencyDefinition>;
+}
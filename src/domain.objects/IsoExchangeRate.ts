@@ -0,0 +1,32 @@
+/**
+ * .what = structured domain literal for an exchange rate between two currencies
+ * .why = enables exact, auditable currency conversion without float rates
+ *
+ * the rate reads as "one unit of `from` buys `rate` units of `to`":
+ * - `from: TFrom` — the base currency, which the converted price must be in
+ * - `to: TTo` — the quote currency, which the converted price lands in
+ * - `rate: string` — an exact, positive decimal (e.g., '0.912345'); never a float
+ * - `asOf?: string` — the iso 8601 date, or moment with `Z` or an offset, the rate was quoted at
+ *
+ * example:
+ * ```ts
+ * // one dollar buys 0.912345 euros, as of the close on 2025-06-02
+ * { from: 'USD', to: 'EUR', rate: '0.912345', asOf: '2025-06-02T16:00:00Z' }
+ * ```
+ *
+ * @template TFrom - the base currency code (defaults to `string`)
+ * @template TTo - the quote currency code (defaults to `string`)
+ */
+export interface IsoExchangeRate<
+  TFrom extends string = string,
+  TTo extends string = string,
+> {
+  /** base currency — the price converted must be in it */
+  from: TFrom;
+  /** quote currency — the converted price lands in it */
+  to: TTo;
+  /** exact positive decimal — units of `to` per unit of `from` */
+  rate: string;
+  /** iso 8601 moment the rate was quoted at */
+  asOf?: string;
+}
@@ -0,0 +1,12 @@
+import type { IsoExchangeRate } from './IsoExchangeRate';
+
+/**
+ * .what = a source of exchange rates, as of a moment
+ * .why = lets a live rate feed, a local file, or an in-memory stand-in be swapped without a change to the code that converts
+ *
+ * create one via `createIsoExchangeRateProvider`, or implement the interface against any feed
+ */
+export interface IsoExchangeRateProvider {
+  /** fetches the rates quoted as of a moment; the latest rates when `asOf` is omitted */
+  getRates: (input: { asOf?: string }) => Promise<IsoExchangeRate[]>;
+}
@@ -0,0 +1,24 @@
+/**
+ * .what = a snapshot of rates from one base currency, as rate feeds publish them
+ * .why = lets a daily feed (e.g., the ecb reference rates) load without reshaping
+ *
+ * each entry of `rates` reads as "one unit of `base` buys `rate` units of the keyed currency".
+ * rates should be exact decimal strings; numbers are read as the shortest decimal that round-trips them
+ *
+ * example:
+ * ```ts
+ * {
+ *   base: 'EUR',
+ *   asOf: '2025-06-02',
+ *   rates: { USD: '1.1374', JPY: '162.35', GBP: '0.84280' },
+ * }
+ * ```
+ */
+export interface IsoExchangeRateSnapshot {
+  /** base currency that every rate is quoted from */
+  base: string;
+  /** iso 8601 moment the snapshot was quoted at */
+  asOf?: string;
+  /** rate per quote currency code */
+  rates: Record<string, string | number>;
+}
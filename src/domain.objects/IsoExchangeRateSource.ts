@@ -0,0 +1,23 @@
+import type { IsoExchangeRate } from './IsoExchangeRate';
+import type { IsoExchangeRateSnapshot } from './IsoExchangeRateSnapshot';
+import type { IsoExchangeRateWords } from './IsoExchangeRateWords';
+
+/**
+ * .what = any source of exchange rates that a table can load from
+ * .why = feeds publish single rates, words, snapshots, json, and csv alike
+ *
+ * sources:
+ * - a snapshot `{ base, asOf?, rates: { [code]: rate } }`
+ * - an array of rates, rate words, or snapshots
+ * - a json string of either of the above
+ * - a csv string with a `from,to,rate[,asOf]` header
+ */
+export type IsoExchangeRateSource =
+  | IsoExchangeRateSnapshot
+  | (
+      | IsoExchangeRate
+      | IsoExchangeRateWords
+      | IsoExchangeRateSnapshot
+      | string
+    )[]
+  | string;
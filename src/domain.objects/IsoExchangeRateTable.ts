@@ -0,0 +1,21 @@
+import type { IsoExchangeRate } from './IsoExchangeRate';
+import type { IsoPriceExponent } from './IsoPriceExponent';
+
+/**
+ * .what = a table of exchange rates among many currencies, across many moments
+ * .why = lets reporting convert among dozens of currencies from one snapshot, or look back at history
+ *
+ * the table holds rates as quoted; inverse and cross rates are derived on lookup:
+ * - a rate `A/B` also answers `B/A`, by its inverse
+ * - rates `A/pivot` and `pivot/B` answer `A/B`, by triangulation through the pivot
+ *
+ * create one via `createIsoExchangeRateTable` or `loadIsoExchangeRateTable`
+ */
+export interface IsoExchangeRateTable {
+  /** quoted rates by pair (e.g., 'USD/EUR'), oldest first; undated rates sort before dated ones */
+  rates: Map<string, IsoExchangeRate[]>;
+  /** currency that cross rates triangulate through, or null to derive no cross rates */
+  pivot: string | null;
+  /** when set, conversions by triangulation round to a pivot price at this exponent before they go on */
+  pivotExponent: IsoPriceExponent | null;
+}
@@ -0,0 +1,23 @@
+import type { AsOfGlossary } from 'domain-glossaries';
+
+/**
+ * .what = branded type for an exchange rate in words format
+ * .why = ensures type safety for rate strings like 'USD/EUR 0.912_345'
+ *
+ * format: `{FROM}/{TO} {RATE}` or `{FROM}/{TO} {RATE} @ {AS_OF}`
+ * - from, to: currency codes, as in IsoPriceWords
+ * - rate: positive decimal with optional underscore separators
+ * - as of: iso 8601 moment, when known
+ *
+ * examples:
+ * - 'USD/EUR 0.912_345'
+ * - 'EUR/JPY 162.35'
+ * - 'USD/EUR 0.912_345 @ 2025-06-02T16:00:00Z'
+ *
+ * @template TFrom - the base currency code (defaults to `string`)
+ * @template TTo - the quote currency code (defaults to `string`)
+ */
+export type IsoExchangeRateWords<
+  TFrom extends string = string,
+  TTo extends string = string,
+> = AsOfGlossary<`${TFrom}/${TTo} ${string}`, 'iso-exchange-rate-words'>;
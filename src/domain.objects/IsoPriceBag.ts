@@ -0,0 +1,16 @@
+import type { IsoPriceShape } from './IsoPriceShape';
+
+/**
+ * .what = an immutable bag of prices across many currencies, one total per currency
+ * .why = lets carts and expense reports total mixed-currency prices without a bespoke map of running totals
+ *
+ * each total keeps the highest precision of the prices added to it, as `sumPrices` does.
+ * currencies are kept in the order they were first added; a total that reaches zero stays in the bag
+ *
+ * bags are never mutated; `sumPriceBags`, `subPriceBags`, and `negatePriceBag` return new ones.
+ * create one via `asIsoPriceBag`
+ */
+export interface IsoPriceBag {
+  /** total per currency code, in shape format */
+  readonly totals: ReadonlyMap<string, Readonly<IsoPriceShape>>;
+}
@@ -0,0 +1,16 @@
+import type { AsOfGlossary } from 'domain-glossaries';
+
+/**
+ * .what = branded type for a price bag in words format
+ * .why = ensures type safety for bag strings like 'USD 10.00 + EUR 5.00'
+ *
+ * format: IsoPriceWords per currency, joined by ` + `
+ * - each currency appears at most once
+ * - an empty bag is the empty string
+ *
+ * examples:
+ * - 'USD 10.00 + EUR 5.00'
+ * - 'USD -2.50 + JPY 1_000'
+ * - 'EUR 0.00'
+ */
+export type IsoPriceBagWords = AsOfGlossary<string, 'iso-price-bag-words'>;
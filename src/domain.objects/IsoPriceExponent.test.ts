@@ -17,6 +17,11 @@ describe('IsoPriceExponent', () => {
       given: { key: 'MILLI' },
       expect: { value: 'milli.x10^-3' },
     },
+    {
+      description: 'decimilli (unidad de fomento)',
+      given: { key: 'DECIMILLI' },
+      expect: { value: 'decimilli.x10^-4' },
+    },
     {
       description: 'micro',
       given: { key: 'MICRO' },
@@ -42,22 +47,23 @@ describe('IsoPriceExponent', () => {
     });
   });
 
-  test('enum has exactly 6 values', () => {
+  test('has exactly 7 named constants', () => {
     const values = Object.values(IsoPriceExponent);
-    expect(values).toHaveLength(6);
+    expect(values).toHaveLength(7);
   });
 
-  test('enum is iterable via Object.values()', () => {
+  test('named constants are iterable via Object.values()', () => {
     const values = Object.values(IsoPriceExponent);
     expect(values).toContain('whole.x10^0');
     expect(values).toContain('centi.x10^-2');
     expect(values).toContain('milli.x10^-3');
+    expect(values).toContain('decimilli.x10^-4');
     expect(values).toContain('micro.x10^-6');
     expect(values).toContain('nano.x10^-9');
     expect(values).toContain('pico.x10^-12');
   });
 
-  test('enum values follow si metric prefix pattern', () => {
+  test('named constants follow si metric prefix pattern', () => {
     const values = Object.values(IsoPriceExponent);
 
     for (const value of values) {
@@ -1,5 +1,5 @@
 /**
- * .what = enum of supported precision exponents for iso-price
+ * .what = named precision exponents for iso-price
  * .why = explicit exponent declarations avoid conflation between iso 4217 and scientific notation
  *
  * the `.x10^-N` suffix makes the math unambiguous:
@@ -8,21 +8,39 @@
  * the si metric prefix provides human readability:
  * - `centi` = hundredths (cents)
  * - `milli` = thousandths (fils)
+ * - `decimilli` = ten-thousandths (unidad de fomento)
  * - `micro` = millionths (llm token costs)
  * - `nano` = billionths (serverless costs)
  * - `pico` = trillionths (extreme precision)
+ *
+ * any other integer exponent may be declared without a prefix:
+ * - `'x10^-8'` = hundred-millionths (satoshis)
+ * - `'x10^-18'` = quintillionths (wei)
+ * - `'x10^3'` = thousands
  */
-export enum IsoPriceExponent {
+export const IsoPriceExponent = {
   /** whole units — JPY, KRW, VND, etc */
-  WHOLE = 'whole.x10^0',
+  WHOLE: 'whole.x10^0',
   /** standard cents — USD, EUR, GBP, most currencies */
-  CENTI = 'centi.x10^-2',
+  CENTI: 'centi.x10^-2',
   /** thousandths — BHD, KWD, OMR, TND (fils/baisa) */
-  MILLI = 'milli.x10^-3',
+  MILLI: 'milli.x10^-3',
+  /** ten-thousandths — CLF, UYW (iso 4217 units of account) */
+  DECIMILLI: 'decimilli.x10^-4',
   /** millionths — llm token costs, api rates */
-  MICRO = 'micro.x10^-6',
+  MICRO: 'micro.x10^-6',
   /** billionths — serverless invocation costs */
-  NANO = 'nano.x10^-9',
+  NANO: 'nano.x10^-9',
   /** trillionths — extreme precision, requires bigint */
-  PICO = 'pico.x10^-12',
-}
+  PICO: 'pico.x10^-12',
+} as const;
+
+/**
+ * .what = a precision exponent — a named si constant or any integer `x10^N`
+ * .why = enables exact representation of satoshis, wei, thousands, etc
+ *
+ * the named constants are aliases; e.g., `'centi.x10^-2'` and `'x10^-2'` declare the same precision
+ */
+export type IsoPriceExponent =
+  | (typeof IsoPriceExponent)[keyof typeof IsoPriceExponent]
+  | `x10^${number}`;
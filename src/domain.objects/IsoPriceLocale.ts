@@ -0,0 +1,45 @@
+/**
+ * .what = conventions for how a locale displays prices
+ * .why = declares symbol placement, separators, grouping, and minus style per locale, offline
+ *
+ * mirrors the currency format patterns of the unicode cldr:
+ * - `tag` — bcp 47 language tag (e.g., 'de-DE', 'en-IN')
+ * - `symbolPosition` — whether the symbol leads or trails the number
+ * - `symbolSpacing` — what separates the symbol from the number ('' or a no-break space)
+ * - `negativeSymbolSpacing` — what separates the symbol from a negative number, where it differs (e.g., 'de-CH' 'CHF-5.00')
+ * - `groupSeparator` / `decimalSeparator` — e.g., '.' and ',' in 'de-DE'
+ * - `grouping` — 'thousands' (1,000,000) or 'lakh' (10,00,000)
+ * - `minimumGroupingDigits` — 2 where 4-digit integers stay ungrouped (e.g., 'es-ES' 1234)
+ * - `minusSign` / `minusPosition` — e.g., '-$5' vs '$-5' vs '−5 kr'
+ * - `symbols` — symbol overrides per currency (e.g., 'en-CA' displays CAD as '$' and USD as 'US$')
+ *
+ * example:
+ * ```ts
+ * { tag: 'de-DE', symbolPosition: 'suffix', symbolSpacing: '\u00a0', groupSeparator: '.', decimalSeparator: ',', grouping: 'thousands', minimumGroupingDigits: 1, minusSign: '-', minusPosition: 'before-number' }
+ * // => '-1.234,56 €'
+ * ```
+ */
+export interface IsoPriceLocale {
+  /** bcp 47 language tag */
+  tag: string;
+  /** whether the symbol leads ('$5') or trails ('5 €') the number */
+  symbolPosition: 'prefix' | 'suffix';
+  /** separates the symbol from the number */
+  symbolSpacing: string;
+  /** separates the symbol from a negative number, when not `symbolSpacing` */
+  negativeSymbolSpacing?: string;
+  /** separates digit groups of the integer part */
+  groupSeparator: string;
+  /** separates the integer part from the decimal part */
+  decimalSeparator: string;
+  /** 'thousands' groups by 3; 'lakh' groups by 3 then by 2 (lakh, crore) */
+  grouping: 'thousands' | 'lakh';
+  /** integers with fewer digits than 3 + this value stay ungrouped */
+  minimumGroupingDigits: 1 | 2;
+  /** the minus sign character ('-' or '−') */
+  minusSign: string;
+  /** whether the minus sign leads the symbol ('-$5') or the number ('$-5', '-5 €') */
+  minusPosition: 'before-symbol' | 'before-number';
+  /** symbol overrides per currency code */
+  symbols?: Record<string, string>;
+}
@@ -27,6 +27,31 @@ describe('IsoPriceRoundMode', () => {
       given: { key: 'HALF_EVEN' },
       expect: { value: 'half-even' },
     },
+    {
+      description: 'trunc mode',
+      given: { key: 'TRUNC' },
+      expect: { value: 'trunc' },
+    },
+    {
+      description: 'away-from-zero mode',
+      given: { key: 'AWAY_FROM_ZERO' },
+      expect: { value: 'away-from-zero' },
+    },
+    {
+      description: 'half-odd mode',
+      given: { key: 'HALF_ODD' },
+      expect: { value: 'half-odd' },
+    },
+    {
+      description: 'half-away-from-zero mode',
+      given: { key: 'HALF_AWAY_FROM_ZERO' },
+      expect: { value: 'half-away-from-zero' },
+    },
+    {
+      description: 'half-toward-zero mode',
+      given: { key: 'HALF_TOWARD_ZERO' },
+      expect: { value: 'half-toward-zero' },
+    },
   ];
 
   EXPECTED_VALUES.forEach(({ description, given, expect: expected }) => {
@@ -37,9 +62,9 @@ describe('IsoPriceRoundMode', () => {
     });
   });
 
-  test('enum has exactly 5 values', () => {
+  test('enum has exactly 10 values', () => {
     const values = Object.values(IsoPriceRoundMode);
-    expect(values).toHaveLength(5);
+    expect(values).toHaveLength(10);
   });
 
   test('enum is iterable via Object.values()', () => {
@@ -49,13 +74,18 @@ describe('IsoPriceRoundMode', () => {
     expect(values).toContain('half-up');
     expect(values).toContain('half-down');
     expect(values).toContain('half-even');
+    expect(values).toContain('trunc');
+    expect(values).toContain('away-from-zero');
+    expect(values).toContain('half-odd');
+    expect(values).toContain('half-away-from-zero');
+    expect(values).toContain('half-toward-zero');
   });
 
   test('enum values are lowercase kebab-case', () => {
     const values = Object.values(IsoPriceRoundMode);
 
     for (const value of values) {
-      expect(value).toMatch(/^[a-z]+(-[a-z]+)?$/);
+      expect(value).toMatch(/^[a-z]+(-[a-z]+)*$/);
     }
   });
 });
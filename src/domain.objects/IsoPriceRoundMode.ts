@@ -5,19 +5,36 @@
  * round modes follow IEEE 754-2008 names for mathematical precision:
  * - `floor` = toward negative infinity
  * - `ceil` = toward positive infinity
+ * - `trunc` = toward zero
+ * - `away-from-zero` = away from zero
  * - `half-up` = ties go away from zero (most common expectation)
  * - `half-down` = ties go toward zero
  * - `half-even` = ties go to nearest even (banker's round)
+ * - `half-odd` = ties go to nearest odd
+ * - `half-away-from-zero` = explicit name for `half-up`
+ * - `half-toward-zero` = explicit name for `half-down`
+ *
+ * every mode rounds a value and its negation symmetrically, except `floor` and `ceil`
  */
 export enum IsoPriceRoundMode {
   /** round toward negative infinity — 5.5 → 5, -5.5 → -6 */
   FLOOR = 'floor',
   /** round toward positive infinity — 5.5 → 6, -5.5 → -5 */
   CEIL = 'ceil',
+  /** round toward zero — 5.9 → 5, -5.9 → -5 */
+  TRUNC = 'trunc',
+  /** round away from zero — 5.1 → 6, -5.1 → -6 */
+  AWAY_FROM_ZERO = 'away-from-zero',
   /** ties go away from zero — 5.5 → 6, -5.5 → -6 (most common) */
   HALF_UP = 'half-up',
   /** ties go toward zero — 5.5 → 5, -5.5 → -5 */
   HALF_DOWN = 'half-down',
   /** ties go to nearest even — 5.5 → 6, 4.5 → 4 (banker's round) */
   HALF_EVEN = 'half-even',
+  /** ties go to nearest odd — 5.5 → 5, 4.5 → 5 */
+  HALF_ODD = 'half-odd',
+  /** ties go away from zero — same as `half-up`, named for its behavior on negatives */
+  HALF_AWAY_FROM_ZERO = 'half-away-from-zero',
+  /** ties go toward zero — same as `half-down`, named for its behavior on negatives */
+  HALF_TOWARD_ZERO = 'half-toward-zero',
 }
@@ -0,0 +1,23 @@
+/**
+ * .what = exact rational number as a bigint numerator over a bigint denominator
+ * .why = enables multipliers, divisors, and ratios without float precision loss
+ *
+ * the ratio is always reduced, with a positive denominator:
+ * - `numerator: bigint` — carries the sign
+ * - `denominator: bigint` — always > 0n
+ *
+ * example:
+ * ```ts
+ * // 1.0825 (a sales tax markup)
+ * { numerator: 433n, denominator: 400n }
+ *
+ * // one third, which no decimal can express exactly
+ * { numerator: 1n, denominator: 3n }
+ * ```
+ */
+export interface IsoRatio {
+  /** signed integer numerator */
+  numerator: bigint;
+  /** positive integer denominator */
+  denominator: bigint;
+}
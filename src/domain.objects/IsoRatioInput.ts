@@ -0,0 +1,17 @@
+/**
+ * .what = any value that reads exactly as an IsoRatio
+ * .why = lets multipliers, divisors, percents, and allocation ratios accept one shared set of forms
+ *
+ * forms:
+ * - `number` — read as the shortest decimal that round-trips it (e.g., 0.1 → 1/10)
+ * - `bigint` — an integer
+ * - `string` — an exact decimal, e.g., '1.0825', '1_000', or '1e-15'
+ * - `{ numerator, denominator }` — an integer rational, e.g., `{ numerator: 1, denominator: 3 }`
+ *
+ * read one via `asIsoRatio`
+ */
+export type IsoRatioInput =
+  | number
+  | bigint
+  | string
+  | { numerator: number | bigint; denominator: number | bigint };
@@ -0,0 +1,30 @@
+import type { IsoRatioInput } from './IsoRatioInput';
+
+/**
+ * .what = a tax rate, as levied on a price
+ * .why = lets checkouts declare vat and sales taxes as data, instead of chained float factors
+ *
+ * example:
+ * ```ts
+ * // eu vat, already included in shelf prices
+ * { name: 'vat', percent: '19', inclusive: true }
+ *
+ * // a provincial tax levied on the price plus a prior federal tax
+ * { name: 'pst', percent: '9.975', compound: true }
+ *
+ * // a sales tax rounded on each line, rather than once per invoice
+ * { name: 'state', percent: '8.25', rounding: 'line' }
+ * ```
+ */
+export interface IsoTaxRate {
+  /** name of the tax, reported with its amount (e.g., 'vat', 'gst') */
+  name: string;
+  /** percent as a number, bigint, exact decimal string, or rational (e.g., '19', '8.25', { numerator: 29n, denominator: 3n }) */
+  percent: IsoRatioInput;
+  /** whether prices already include this tax — defaults to false */
+  inclusive?: boolean;
+  /** whether this tax applies to the net plus every prior tax — defaults to false */
+  compound?: boolean;
+  /** whether this tax rounds once per line or once per invoice — defaults to 'invoice' */
+  rounding?: 'line' | 'invoice';
+}
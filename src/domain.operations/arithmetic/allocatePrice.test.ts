@@ -1,5 +1,7 @@
+import { BadRequestError } from 'helpful-errors';
 import { getError } from 'test-fns';
 
+import { calcPriceRatio } from '../statistics/calcPriceRatio';
 import { allocatePrice } from './allocatePrice';
 import { sumPrices } from './sumPrices';
 
@@ -219,20 +221,161 @@ describe('allocatePrice', () => {
   });
 
   describe('.remainder-random', () => {
-    test('deterministic pseudo-random distribution', () => {
-      const result1 = allocatePrice({
+    test('unseeded random distribution preserves the sum', () => {
+      const result = allocatePrice({
         of: 'USD 1.00',
         into: { parts: 3 },
         remainder: 'random',
       });
+      expect(sumPrices(result)).toEqual('USD 1.00');
+    });
+
+    test('same seed replays the same distribution', () => {
+      const result1 = allocatePrice({
+        of: 'USD 1.00',
+        into: { parts: 3 },
+        remainder: { mode: 'random', seed: 'invoice-42' },
+      });
       const result2 = allocatePrice({
         of: 'USD 1.00',
         into: { parts: 3 },
-        remainder: 'random',
+        remainder: { mode: 'random', seed: 'invoice-42' },
       });
       expect(result1).toEqual(result2);
       expect(sumPrices(result1)).toEqual('USD 1.00');
     });
+
+    test('different seeds may pick different recipients', () => {
+      const recipients = new Set(
+        Array.from({ length: 20 }, (_, seed) =>
+          allocatePrice(
+            {
+              of: 'USD 0.01',
+              into: { parts: 3 },
+              remainder: { mode: 'random', seed },
+            },
+            { report: true },
+          ).report.recipients.join(','),
+        ),
+      );
+      expect(recipients.size).toEqual(3);
+    });
+
+    test('draws from a custom prng', () => {
+      const result = allocatePrice({
+        of: 'USD 0.02',
+        into: { parts: 4 },
+        remainder: { mode: 'random', prng: () => 0.99 },
+      });
+      // each draw swaps in the last index: [0,1,2,3] → [3,1,2,0] → [3,0,2,1]
+      expect(result).toEqual(['USD 0.01', 'USD 0.00', 'USD 0.00', 'USD 0.01']);
+    });
+
+    test('selection is unbiased across seeds', () => {
+      const counts = [0, 0, 0, 0];
+      for (let seed = 0; seed < 4000; seed++) {
+        const { report } = allocatePrice(
+          {
+            of: 'USD 0.01',
+            into: { parts: 4 },
+            remainder: { mode: 'random', seed },
+          },
+          { report: true },
+        );
+        const [recipient] = report.recipients;
+        if (recipient !== undefined)
+          counts[recipient] = (counts[recipient] ?? 0) + 1;
+      }
+      // expect ~1000 each; a biased pick would skew far past this band
+      counts.forEach((count) => {
+        expect(count).toBeGreaterThan(850);
+        expect(count).toBeLessThan(1150);
+      });
+    });
+
+    test('selection does not depend on the amount split', () => {
+      const counts = [0, 0, 0];
+      for (let cents = 1; cents <= 3000; cents += 3) {
+        const { report } = allocatePrice(
+          {
+            of: `USD ${(cents / 100).toFixed(2)}`,
+            into: { parts: 3 },
+            remainder: 'random',
+          },
+          { report: true },
+        );
+        const [recipient] = report.recipients;
+        if (recipient !== undefined)
+          counts[recipient] = (counts[recipient] ?? 0) + 1;
+      }
+      counts.forEach((count) => {
+        expect(count).toBeGreaterThan(250);
+        expect(count).toBeLessThan(420);
+      });
+    });
+
+    test('throws when the prng returns a value outside [0, 1)', () => {
+      const error = getError(() =>
+        allocatePrice({
+          of: 'USD 1.00',
+          into: { parts: 3 },
+          remainder: { mode: 'random', prng: () => 1 },
+        }),
+      );
+      expect(error.message).toContain('prng must return a number in [0, 1)');
+    });
+  });
+
+  describe('.report-option', () => {
+    test('reports the remainder and its recipients', () => {
+      const result = allocatePrice(
+        { of: 'USD 10.00', into: { parts: 3 }, remainder: 'first' },
+        { report: true },
+      );
+      expect(result).toEqual({
+        parts: ['USD 3.34', 'USD 3.33', 'USD 3.33'],
+        report: { remainder: 'USD 0.01', recipients: [0] },
+      });
+    });
+
+    test('reports recipients in ascending order', () => {
+      const result = allocatePrice(
+        { of: 'USD 0.02', into: { parts: 3 }, remainder: 'last' },
+        { report: true },
+      );
+      expect(result.report.recipients).toEqual([1, 2]);
+    });
+
+    test('reports a negative remainder for negative amounts', () => {
+      const result = allocatePrice(
+        { of: 'USD -10.00', into: { parts: 3 }, remainder: 'first' },
+        { report: true },
+      );
+      expect(result.report).toEqual({
+        remainder: 'USD -0.01',
+        recipients: [0],
+      });
+    });
+
+    test('reports no recipients for an even split', () => {
+      const result = allocatePrice(
+        { of: 'USD 9.00', into: { ratios: [1, 2] }, remainder: 'largest' },
+        { report: true },
+      );
+      expect(result.report).toEqual({ remainder: 'USD 0.00', recipients: [] });
+    });
+
+    test('reports shape parts with format shape', () => {
+      const result = allocatePrice(
+        { of: 'USD 1.00', into: { parts: 2 }, remainder: 'first' },
+        { format: 'shape', report: true },
+      );
+      expect(result.parts[0]).toEqual({
+        amount: 50n,
+        currency: 'USD',
+        exponent: 'centi.x10^-2',
+      });
+    });
   });
 
   describe('.negative-amounts', () => {
@@ -246,6 +389,742 @@ describe('allocatePrice', () => {
     });
   });
 
+  describe('.exact-ratios', () => {
+    const EXACT_CASES = [
+      {
+        description: 'float ratios [0.7, 0.3]',
+        given: { of: 'USD 5.00', ratios: [0.7, 0.3] },
+        expect: ['USD 3.50', 'USD 1.50'],
+      },
+      {
+        description: 'decimal string ratios [33.33, 66.67]',
+        given: { of: 'USD 100.00', ratios: ['33.33', '66.67'] },
+        expect: ['USD 33.33', 'USD 66.67'],
+      },
+      {
+        description: 'mixed precision decimal ratios [0.5, 0.25, 0.125]',
+        given: { of: 'USD 7.00', ratios: ['0.5', '0.25', '0.125'] },
+        expect: ['USD 4.00', 'USD 2.00', 'USD 1.00'],
+      },
+      {
+        description: 'bigint ratios [7n, 3n]',
+        given: { of: 'USD 5.00', ratios: [7n, 3n] },
+        expect: ['USD 3.50', 'USD 1.50'],
+      },
+      {
+        description: 'rational ratios [1/3, 2/3]',
+        given: {
+          of: 'USD 10.00',
+          ratios: [
+            { numerator: 1, denominator: 3 },
+            { numerator: 2n, denominator: 3n },
+          ],
+        },
+        expect: ['USD 3.33', 'USD 6.67'],
+      },
+      {
+        description: 'mixed rational and float ratios [1/3, 0.5]',
+        given: {
+          of: 'USD 10.00',
+          ratios: [{ numerator: 1, denominator: 3 }, 0.5],
+        },
+        expect: ['USD 4.00', 'USD 6.00'],
+      },
+      {
+        description: 'float ratios that do not sum to one [0.1, 0.2]',
+        given: { of: 'USD 1.00', ratios: [0.1, 0.2] },
+        expect: ['USD 0.33', 'USD 0.67'],
+      },
+    ];
+
+    EXACT_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        const result = allocatePrice({
+          of: given.of,
+          into: { ratios: given.ratios },
+          remainder: 'largest',
+        });
+        expect(result).toEqual(expected);
+        expect(sumPrices(result)).toEqual(given.of);
+      });
+    });
+
+    test('largest remainder compares exact fractions, not floats', () => {
+      // 1/3 and 0.333_333_333_333_333_3 differ only beyond float precision
+      const result = allocatePrice({
+        of: 'USD 0.02',
+        into: {
+          ratios: [
+            '0.3333333333333333333',
+            { numerator: 1, denominator: 3 },
+            '0.3333333333333333334',
+          ],
+        },
+        remainder: 'largest',
+      });
+      expect(result).toEqual(['USD 0.00', 'USD 0.01', 'USD 0.01']);
+    });
+
+    test('accepts a ratio from calcPriceRatio without loss', () => {
+      const share = calcPriceRatio({ of: 'USD 1.00', to: 'USD 3.00' });
+      const rest = {
+        numerator: share.denominator - share.numerator,
+        denominator: share.denominator,
+      };
+      const result = allocatePrice({
+        of: 'USD 30.00',
+        into: { ratios: [share, rest] },
+        remainder: 'largest',
+      });
+      expect(result).toEqual(['USD 10.00', 'USD 20.00']);
+    });
+
+    test('throws on a negative decimal string ratio', () => {
+      const error = getError(() =>
+        allocatePrice({
+          of: 'USD 10.00',
+          into: { ratios: ['0.7', '-0.3'] },
+          remainder: 'first',
+        }),
+      );
+      expect(error.message).toContain('ratios must be non-negative');
+    });
+
+    test('throws on a non-numeric ratio', () => {
+      const error = getError(() =>
+        allocatePrice({
+          of: 'USD 10.00',
+          into: { ratios: ['seven', '3'] },
+          remainder: 'first',
+        }),
+      );
+      expect(error).toBeDefined();
+    });
+
+    test('throws on all-zero rational ratios', () => {
+      const error = getError(() =>
+        allocatePrice({
+          of: 'USD 10.00',
+          into: {
+            ratios: [
+              { numerator: 0n, denominator: 3n },
+              { numerator: 0n, denominator: 7n },
+            ],
+          },
+          remainder: 'first',
+        }),
+      );
+      expect(error.message).toContain('total ratio cannot be zero');
+    });
+  });
+
+  describe('.constrained', () => {
+    const CONSTRAINED_CASES = [
+      {
+        description: 'caps a part and passes its excess to the rest',
+        given: {
+          of: 'USD 100.00',
+          into: {
+            weights: [8, 1, 1],
+            min: 'USD 10.00',
+            max: 'USD 50.00',
+            step: 'USD 0.05',
+          },
+        },
+        expect: ['USD 50.00', 'USD 25.00', 'USD 25.00'],
+      },
+      {
+        description: 'lifts parts to their floor at the expense of the rest',
+        given: {
+          of: 'USD 100.00',
+          into: { weights: [1, 1, 18], min: 'USD 10.00' },
+        },
+        expect: ['USD 10.00', 'USD 10.00', 'USD 80.00'],
+      },
+      {
+        description: 'cascades caps as the excess is reshared',
+        given: {
+          of: 'USD 100.00',
+          into: { weights: [6, 3, 1], max: 'USD 40.00' },
+        },
+        expect: ['USD 40.00', 'USD 40.00', 'USD 20.00'],
+      },
+      {
+        description: 'allocates in whole dollar lots',
+        given: {
+          of: 'USD 10.00',
+          into: { weights: [1, 1, 1], step: 'USD 1.00' },
+        },
+        expect: ['USD 4.00', 'USD 3.00', 'USD 3.00'],
+      },
+      {
+        description: 'applies per-part bounds, with null as unbounded',
+        given: {
+          of: 'USD 90.00',
+          into: { weights: [1, 1, 1], max: ['USD 20.00', null, null] },
+        },
+        expect: ['USD 20.00', 'USD 35.00', 'USD 35.00'],
+      },
+      {
+        description: 'rounds a min up to the next lot',
+        given: {
+          of: 'USD 1.00',
+          into: { weights: [1, 99], min: 'USD 0.03', step: 'USD 0.05' },
+        },
+        expect: ['USD 0.05', 'USD 0.95'],
+      },
+      {
+        description: 'never gives a remainder unit to a capped part',
+        given: {
+          of: 'USD 0.10',
+          into: { weights: [1, 1, 1], max: ['USD 0.03', null, null] },
+        },
+        expect: ['USD 0.03', 'USD 0.04', 'USD 0.03'],
+      },
+      {
+        description: 'reads constraints of a coarser precision',
+        given: {
+          of: 'USD 10.000',
+          into: { weights: [3, 1], max: 'USD 6.00', step: 'USD 0.5' },
+        },
+        expect: ['USD 6.000', 'USD 4.000'],
+      },
+    ];
+
+    CONSTRAINED_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        const result = allocatePrice({
+          of: given.of,
+          into: given.into,
+          remainder: 'first',
+        });
+        expect(result).toEqual(expected);
+        expect(sumPrices(result)).toEqual(given.of);
+      });
+    });
+
+    test('reports leftover lots and their recipients', () => {
+      const result = allocatePrice(
+        {
+          of: 'USD 10.00',
+          into: { weights: [1, 1, 1], step: 'USD 1.00' },
+          remainder: 'last',
+        },
+        { report: true },
+      );
+      expect(result).toEqual({
+        parts: ['USD 3.00', 'USD 3.00', 'USD 4.00'],
+        report: { remainder: 'USD 1.00', recipients: [2] },
+      });
+    });
+
+    test('preserves the sum and bounds across many splits', () => {
+      for (let cents = 500; cents <= 5000; cents += 35) {
+        const of = `USD ${(cents / 100).toFixed(2)}`;
+        const result = allocatePrice(
+          {
+            of,
+            into: {
+              weights: ['0.5', 3, { numerator: 1, denominator: 3 }, 1n],
+              min: 'USD 1.00',
+              max: ['USD 20.00', 'USD 12.50', null, 'USD 9.95'],
+              step: 'USD 0.05',
+            },
+            remainder: { mode: 'random', seed: cents },
+          },
+          { format: 'shape' },
+        );
+        expect(sumPrices(result)).toEqual(of);
+        result.forEach(({ amount }) => {
+          expect(amount % 5n).toEqual(0n);
+          expect(amount >= 100n).toBe(true);
+        });
+        const [first, second, , fourth] = result.map(({ amount }) => amount);
+        expect(first !== undefined && first <= 2000n).toBe(true);
+        expect(second !== undefined && second <= 1250n).toBe(true);
+        expect(fourth !== undefined && fourth <= 995n).toBe(true);
+      }
+    });
+
+    const INFEASIBLE_CASES = [
+      {
+        description: 'minimums exceed the price',
+        given: {
+          of: 'USD 10.00',
+          into: { weights: [1, 1], min: 'USD 6.00' },
+        },
+        expect: 'allocation is infeasible: the minimums exceed the price',
+      },
+      {
+        description: 'maximums fall short of the price',
+        given: {
+          of: 'USD 10.00',
+          into: { weights: [1, 1], max: 'USD 4.00' },
+        },
+        expect:
+          'allocation is infeasible: the maximums fall short of the price',
+      },
+      {
+        description: 'price is not a multiple of the step',
+        given: {
+          of: 'USD 10.03',
+          into: { weights: [1, 1], step: 'USD 0.05' },
+        },
+        expect:
+          'allocation is infeasible: the price is not a multiple of the step',
+      },
+      {
+        description: 'no lot fits between min and max',
+        given: {
+          of: 'USD 1.00',
+          into: {
+            weights: [1, 1],
+            min: ['USD 0.01', null],
+            max: ['USD 0.04', null],
+            step: 'USD 0.05',
+          },
+        },
+        expect:
+          'allocation is infeasible: a part has no multiple of the step between its min and max',
+      },
+      {
+        description: 'only zero-weight parts could take the rest',
+        given: {
+          of: 'USD 10.00',
+          into: { weights: [1, 0], max: ['USD 4.00', null] },
+        },
+        expect:
+          'allocation is infeasible: only zero-weight parts could take the rest',
+      },
+      {
+        description: 'constraint in another currency',
+        given: {
+          of: 'USD 10.00',
+          into: { weights: [1, 1], min: 'EUR 1.00' },
+        },
+        expect: 'cannot allocate with a min in another currency',
+      },
+      {
+        description: 'constraint more precise than the price',
+        given: {
+          of: 'USD 10.00',
+          into: { weights: [1, 1], step: 'USD 0.005' },
+        },
+        expect: 'step is more precise than the price allocated',
+      },
+      {
+        description: 'bound list of the wrong length',
+        given: {
+          of: 'USD 10.00',
+          into: { weights: [1, 1], max: ['USD 6.00'] },
+        },
+        expect: 'max must list one bound per weight',
+      },
+      {
+        description: 'zero step',
+        given: {
+          of: 'USD 10.00',
+          into: { weights: [1, 1], step: 'USD 0.00' },
+        },
+        expect: 'step must be positive',
+      },
+      {
+        description: 'negative price',
+        given: {
+          of: 'USD -10.00',
+          into: { weights: [1, 1], min: 'USD 1.00' },
+        },
+        expect: 'cannot allocate a negative price under constraints',
+      },
+    ];
+
+    INFEASIBLE_CASES.forEach(({ description, given, expect: expected }) => {
+      test(`throws when ${description}`, () => {
+        const error = getError(() =>
+          allocatePrice({
+            of: given.of,
+            into: given.into,
+            remainder: 'first',
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain(expected);
+      });
+    });
+  });
+
+  describe('.methods', () => {
+    const METHOD_CASES = [
+      {
+        description: 'hamilton gives the leftover to the largest remainders',
+        given: { of: 'USD 0.10', ratios: [90, 5, 5], method: 'hamilton' },
+        expect: ['USD 0.09', 'USD 0.01', 'USD 0.00'],
+      },
+      {
+        description: "d'hondt favors the largest part, beyond its quota",
+        given: { of: 'USD 0.10', ratios: [90, 5, 5], method: 'dhondt' },
+        expect: ['USD 0.10', 'USD 0.00', 'USD 0.00'],
+      },
+      {
+        description: 'sainte-laguë stays within quota',
+        given: { of: 'USD 0.10', ratios: [90, 5, 5], method: 'sainte-lague' },
+        expect: ['USD 0.09', 'USD 0.01', 'USD 0.00'],
+      },
+      {
+        description: 'huntington-hill gives every weighted part a unit first',
+        given: {
+          of: 'USD 0.10',
+          ratios: [90, 5, 5],
+          method: 'huntington-hill',
+        },
+        expect: ['USD 0.08', 'USD 0.01', 'USD 0.01'],
+      },
+      {
+        description: "banker's rounding rounds halves to even",
+        given: { of: 'USD 0.02', ratios: [1, 3], method: 'bankers' },
+        expect: ['USD 0.00', 'USD 0.02'],
+      },
+      {
+        description: "banker's rounding nudges the most under-rounded part",
+        given: { of: 'USD 0.01', ratios: [1, 1], method: 'bankers' },
+        expect: ['USD 0.01', 'USD 0.00'],
+      },
+      {
+        description: "d'hondt on a negative amount mirrors the positive one",
+        given: { of: 'USD -0.10', ratios: [90, 5, 5], method: 'dhondt' },
+        expect: ['USD -0.10', 'USD 0.00', 'USD 0.00'],
+      },
+      {
+        description: 'sainte-laguë on equal parts',
+        given: { of: 'USD 0.10', ratios: [1, 1, 1], method: 'sainte-lague' },
+        expect: ['USD 0.04', 'USD 0.03', 'USD 0.03'],
+      },
+    ] as const;
+
+    METHOD_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        const result = allocatePrice({
+          of: given.of,
+          into: { ratios: [...given.ratios] },
+          remainder: 'first',
+          method: given.method,
+        });
+        expect(result).toEqual(expected);
+      });
+    });
+
+    test('methods apply to equal parts', () => {
+      const result = allocatePrice({
+        of: 'USD 10.00',
+        into: { parts: 3 },
+        remainder: 'last',
+        method: 'dhondt',
+      });
+      expect(result).toEqual(['USD 3.33', 'USD 3.33', 'USD 3.34']);
+    });
+
+    test('ties go per the remainder mode', () => {
+      const first = allocatePrice({
+        of: 'USD 0.01',
+        into: { ratios: [1, 1] },
+        remainder: 'first',
+        method: 'sainte-lague',
+      });
+      const last = allocatePrice({
+        of: 'USD 0.01',
+        into: { ratios: [1, 1] },
+        remainder: 'last',
+        method: 'sainte-lague',
+      });
+      expect(first).toEqual(['USD 0.01', 'USD 0.00']);
+      expect(last).toEqual(['USD 0.00', 'USD 0.01']);
+    });
+
+    test('reports the units beyond each truncated share', () => {
+      const result = allocatePrice(
+        {
+          of: 'USD 0.10',
+          into: { ratios: [90, 5, 5] },
+          remainder: 'first',
+          method: 'huntington-hill',
+        },
+        { report: true },
+      );
+      expect(result.report).toEqual({
+        remainder: 'USD 0.01',
+        recipients: [1, 2],
+      });
+    });
+
+    test('every method preserves the sum', () => {
+      const methods = [
+        'hamilton',
+        'dhondt',
+        'sainte-lague',
+        'huntington-hill',
+        'bankers',
+      ] as const;
+      methods.forEach((method) => {
+        for (let cents = -250; cents <= 2500; cents += 37) {
+          const of = `USD ${(cents / 100).toFixed(2)}`;
+          const result = allocatePrice({
+            of,
+            into: { ratios: ['0.15', 7, { numerator: 2, denominator: 3 }, 0] },
+            remainder: { mode: 'random', seed: cents },
+            method,
+          });
+          expect(sumPrices(result)).toEqual(of);
+        }
+      });
+    });
+
+    test('apportions unconstrained numeric weights by a method', () => {
+      const result = allocatePrice({
+        of: 'USD 0.10',
+        into: { weights: [90, 5, 5] },
+        remainder: 'first',
+        method: 'dhondt',
+      });
+      expect(result).toEqual(['USD 0.10', 'USD 0.00', 'USD 0.00']);
+    });
+
+    test('apportions unconstrained price weights by a method', () => {
+      const result = allocatePrice({
+        of: 'USD 0.10',
+        into: { weights: ['USD 90.00', 'USD 5.00', 'USD 5.00'] },
+        remainder: 'first',
+        method: 'huntington-hill',
+      });
+      expect(result).toEqual(['USD 0.08', 'USD 0.01', 'USD 0.01']);
+    });
+
+    test('throws for a method on constrained weights', () => {
+      const error = getError(() =>
+        allocatePrice({
+          of: 'USD 10.00',
+          into: { weights: [1, 1], min: 'USD 1.00' },
+          remainder: 'first',
+          method: 'dhondt',
+        }),
+      );
+      expect(error.message).toContain(
+        'cannot allocate constrained weights by a method',
+      );
+    });
+  });
+
+  describe('.paradoxes', () => {
+    const allocateUnits = (
+      cents: number,
+      ratios: number[],
+      method:
+        | 'hamilton'
+        | 'dhondt'
+        | 'sainte-lague'
+        | 'huntington-hill'
+        | 'bankers',
+    ): bigint[] =>
+      allocatePrice(
+        {
+          of: `USD ${(cents / 100).toFixed(2)}`,
+          into: { ratios },
+          remainder: 'first',
+          method,
+        },
+        { format: 'shape' },
+      ).map(({ amount }) => amount);
+
+    test('hamilton shows the alabama paradox: a larger total takes a unit away', () => {
+      // quotas at 10: 4.29, 4.29, 1.43 → [4, 4, 2]; at 11: 4.71, 4.71, 1.57 → [5, 5, 1]
+      expect(allocateUnits(10, [6, 6, 2], 'hamilton')).toEqual([4n, 4n, 2n]);
+      expect(allocateUnits(11, [6, 6, 2], 'hamilton')).toEqual([5n, 5n, 1n]);
+    });
+
+    const DIVISOR_METHODS = [
+      'dhondt',
+      'sainte-lague',
+      'huntington-hill',
+    ] as const;
+    DIVISOR_METHODS.forEach((method) => {
+      test(`${method} is free of the alabama paradox`, () => {
+        [
+          [6, 6, 2],
+          [5, 3, 2, 1],
+          [47, 31, 13, 9],
+        ].forEach((ratios) => {
+          let previous = allocateUnits(1, ratios, method);
+          for (let cents = 2; cents <= 60; cents++) {
+            const current = allocateUnits(cents, ratios, method);
+            current.forEach((units, index) => {
+              expect(units >= (previous[index] ?? 0n)).toBe(true);
+            });
+            previous = current;
+          }
+        });
+      });
+    });
+
+    test('hamilton shows the population paradox: a growing part loses a unit to a shrinking one', () => {
+      // part a grows 20% and part b only 18%, yet a gives a unit up to b
+      expect(allocateUnits(10, [5, 11, 4], 'hamilton')).toEqual([3n, 5n, 2n]);
+      expect(allocateUnits(10, [6, 13, 4], 'hamilton')).toEqual([2n, 6n, 2n]);
+    });
+
+    test('divisor methods match the sequential highest averages process', () => {
+      // hand out one unit at a time to the largest weight / divisor(units), ties to the earlier part
+      const divisors = {
+        dhondt: (n: number) => n + 1,
+        'sainte-lague': (n: number) => 2 * n + 1,
+        'huntington-hill': (n: number) => Math.sqrt(n * (n + 1)),
+      };
+      const sequential = (
+        cents: number,
+        ratios: number[],
+        method: (typeof DIVISOR_METHODS)[number],
+      ): bigint[] => {
+        const units = ratios.map(() => 0);
+        for (let given = 0; given < cents; given++) {
+          const priorities = ratios.map((w, i) =>
+            w === 0 ? 0 : w / divisors[method](units[i] ?? 0),
+          );
+          const chosen = priorities.indexOf(Math.max(...priorities));
+          units[chosen] = (units[chosen] ?? 0) + 1;
+        }
+        return units.map(BigInt);
+      };
+      DIVISOR_METHODS.forEach((method) => {
+        [
+          [7, 5, 2],
+          [47, 31, 13, 9],
+          [100, 1, 1, 1],
+        ].forEach((ratios) => {
+          for (let cents = 1; cents <= 40; cents++) {
+            expect(allocateUnits(cents, ratios, method)).toEqual(
+              sequential(cents, ratios, method),
+            );
+          }
+        });
+      });
+    });
+
+    test("d'hondt violates quota where hamilton cannot", () => {
+      // quota of the first part is exactly 9, yet d'hondt gives it 10
+      expect(allocateUnits(10, [90, 5, 5], 'dhondt')).toEqual([10n, 0n, 0n]);
+      expect(allocateUnits(10, [90, 5, 5], 'hamilton')).toEqual([9n, 1n, 0n]);
+    });
+  });
+
+  describe('.price-weights', () => {
+    test('splits shipping across line items by their prices', () => {
+      const result = allocatePrice({
+        of: 'USD 12.00',
+        into: { weights: ['USD 29.99', 'USD 14.50', 'USD 5.99'] },
+        remainder: 'largest',
+      });
+      expect(result).toEqual(['USD 7.13', 'USD 3.45', 'USD 1.42']);
+      expect(sumPrices(result)).toEqual('USD 12.00');
+    });
+
+    test('normalizes weights across exponents', () => {
+      const result = allocatePrice({
+        of: 'USD 11.00',
+        into: {
+          weights: [
+            'USD 10',
+            'USD 0.500',
+            { amount: 50n, currency: 'USD', exponent: 'centi.x10^-2' },
+          ],
+        },
+        remainder: 'first',
+      });
+      expect(result).toEqual(['USD 10.00', 'USD 0.50', 'USD 0.50']);
+    });
+
+    test('accepts human format weights', () => {
+      const result = allocatePrice({
+        of: 'USD 3.00',
+        into: { weights: ['$2.00', '$1.00'] },
+        remainder: 'first',
+      });
+      expect(result).toEqual(['USD 2.00', 'USD 1.00']);
+    });
+
+    test('weighs by another currency when named', () => {
+      const result = allocatePrice({
+        of: 'EUR 9.00',
+        into: {
+          weights: ['USD 20.00', 'USD 10.00'],
+          weightCurrency: 'USD',
+        },
+        remainder: 'first',
+      });
+      expect(result).toEqual(['EUR 6.00', 'EUR 3.00']);
+    });
+
+    test('combines price weights with constraints', () => {
+      const result = allocatePrice({
+        of: 'USD 12.00',
+        into: {
+          weights: ['USD 29.99', 'USD 14.50', 'USD 5.99'],
+          min: 'USD 2.00',
+          step: 'USD 0.05',
+        },
+        remainder: 'largest',
+      });
+      expect(result).toEqual(['USD 6.75', 'USD 3.25', 'USD 2.00']);
+      expect(sumPrices(result)).toEqual('USD 12.00');
+    });
+
+    const PRICE_WEIGHT_ERROR_CASES = [
+      {
+        description: 'weights in another currency than the price',
+        given: { weights: ['USD 20.00', 'EUR 10.00'] },
+        expect: 'cannot weigh by prices in another currency',
+      },
+      {
+        description: 'weights in another currency than the one named',
+        given: { weights: ['USD 20.00', 'USD 10.00'], weightCurrency: 'EUR' },
+        expect: 'cannot weigh by prices in another currency',
+      },
+      {
+        description: 'a weight currency beside numeric weights',
+        given: { weights: [2, 1], weightCurrency: 'USD' },
+        expect: 'weightCurrency requires price weights',
+      },
+      {
+        description: 'price and numeric weights mixed',
+        given: { weights: ['USD 20.00', 1] },
+        expect: 'cannot mix price and numeric weights',
+      },
+      {
+        description: 'a negative price weight',
+        given: { weights: ['USD 20.00', 'USD -1.00'] },
+        expect: 'price weights must be non-negative',
+      },
+      {
+        description: 'all-zero price weights',
+        given: { weights: ['USD 0.00', 'USD 0.00'] },
+        expect: 'price weights cannot all be zero',
+      },
+    ];
+
+    PRICE_WEIGHT_ERROR_CASES.forEach(
+      ({ description, given, expect: expected }) => {
+        test(`throws on ${description}`, () => {
+          const error = getError(() =>
+            allocatePrice({
+              of: 'USD 9.00',
+              into: given,
+              remainder: 'first',
+            }),
+          );
+          expect(error).toBeInstanceOf(BadRequestError);
+          expect(error.message).toContain(expected);
+        });
+      },
+    );
+  });
+
   describe('.error', () => {
     test('throws on zero parts', () => {
       const error = getError(() =>
@@ -2,10 +2,16 @@ import { BadRequestError } from 'helpful-errors';
 
 import type { IsoPrice } from '../../domain.objects/IsoPrice';
 import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
 import type { IsoPriceShape } from '../../domain.objects/IsoPriceShape';
 import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import type { IsoRatioInput } from '../../domain.objects/IsoRatioInput';
 import { asIsoPriceShape } from '../cast/asIsoPriceShape';
 import { asIsoPriceWords } from '../cast/asIsoPriceWords';
+import { asIsoRatio, describeIsoRatioInput, gcd } from '../cast/asIsoRatio';
+import { isIsoPrice } from '../guard/isIsoPrice';
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
+import { roundBigintByMode } from '../precision/roundBigintByMode';
 
 /**
  * .what = remainder distribution mode
@@ -14,7 +20,78 @@ import { asIsoPriceWords } from '../cast/asIsoPriceWords';
 type AllocationRemainderMode = 'first' | 'last' | 'largest' | 'random';
 
 /**
- * .what = allocates a price into equal parts or by ratios
+ * .what = remainder distribution mode, or a reproducible random one
+ * .why = 'random' alone draws from Math.random; a seed or prng replays the same draw
+ */
+type AllocationRemainder =
+  | AllocationRemainderMode
+  | { mode: 'random'; seed: number | string }
+  | { mode: 'random'; prng: () => number };
+
+/**
+ * .what = apportionment method
+ * .why = regulated fee splits and seat-style apportionment each prescribe their own
+ *
+ * - 'hamilton' → largest remainder: truncated shares, leftover units to the largest fractions
+ * - 'dhondt' → highest averages with divisors 1, 2, 3, … (favors larger parts)
+ * - 'sainte-lague' → highest averages with divisors 1, 3, 5, … (neutral)
+ * - 'huntington-hill' → highest averages with divisors √(n(n+1)) (every weighted part gets a unit first)
+ * - 'bankers' → each share rounded half to even, then nudged by the largest rounding error to keep the sum
+ *
+ * without a method, leftover units of the truncated shares go per `remainder` alone; with one,
+ * `remainder` only breaks ties. the divisor methods are house monotone, so they never show the
+ * alabama paradox that hamilton can
+ *
+ * a method applies to parts, ratios, and weights (numeric or price), but not to weights under `min`, `max`, or `step`
+ */
+type AllocationMethod =
+  | 'hamilton'
+  | 'dhondt'
+  | 'sainte-lague'
+  | 'huntington-hill'
+  | 'bankers';
+
+/**
+ * .what = a per-part bound, as one price for every part or one per part
+ * .why = payouts often share a floor or cap, yet some recipients need their own (null = unbounded)
+ */
+type AllocationBound<TCurrency extends string> =
+  | IsoPrice<TCurrency>
+  | string
+  | (IsoPrice<TCurrency> | string | null)[];
+
+/**
+ * .what = how to split the price
+ * .why = equal parts, exact ratios, or weights under per-part minimums, maximums, and lot sizes
+ *
+ * weights may be prices (e.g., line items), in the currency allocated unless `weightCurrency` names another;
+ * `weightCurrency` is only valid beside price weights
+ */
+type AllocationInto<TCurrency extends string> =
+  | { parts: number }
+  | { ratios: IsoRatioInput[] }
+  | {
+      weights: (IsoRatioInput | IsoPrice)[];
+      weightCurrency?: string;
+      min?: AllocationBound<TCurrency>;
+      max?: AllocationBound<TCurrency>;
+      step?: IsoPrice<TCurrency> | string;
+    };
+
+/**
+ * .what = which parts received the leftover minor units
+ * .why = lets callers audit or persist a random draw
+ *
+ * `remainder` is the total handed out beyond the truncated shares; `recipients` are
+ * the indices of the parts that received one extra minor unit (or lot of `step`) each, ascending
+ */
+type AllocationReport<TCurrency extends string> = {
+  remainder: IsoPriceWords<TCurrency>;
+  recipients: number[];
+};
+
+/**
+ * .what = allocates a price into equal parts, by ratios, or by weights under constraints
  * .why = enables fair distribution without loss (sum always equals original)
  *
  * @example
@@ -24,81 +101,194 @@ type AllocationRemainderMode = 'first' | 'last' | 'largest' | 'random';
  * @example
  * allocatePrice({ of: 'USD 5.00', into: { ratios: [7, 3] }, remainder: 'first' })
  * // => ['USD 3.50', 'USD 1.50']
+ *
+ * @example
+ * // ratios may be floats, decimal strings, bigints, or rationals, read exactly
+ * allocatePrice({ of: 'USD 100.00', into: { ratios: ['33.33', '66.67'] }, remainder: 'largest' })
+ * // => ['USD 33.33', 'USD 66.67']
+ *
+ * @example
+ * // seeded random remainder, with a report of who got the extra cent
+ * allocatePrice({ of: 'USD 1.00', into: { parts: 3 }, remainder: { mode: 'random', seed: 'invoice-42' } }, { report: true })
+ * // => { parts: [...], report: { remainder: 'USD 0.01', recipients: [...] } }
+ *
+ * @example
+ * // weights under a floor, a cap, and a lot size; the excess over a cap goes to the rest
+ * allocatePrice({ of: 'USD 100.00', into: { weights: [8, 1, 1], min: 'USD 10.00', max: 'USD 50.00', step: 'USD 0.05' }, remainder: 'largest' })
+ * // => ['USD 50.00', 'USD 25.00', 'USD 25.00']
+ *
+ * @example
+ * // split shipping across line items, weighed by their prices
+ * allocatePrice({ of: 'USD 12.00', into: { weights: ['USD 29.99', 'USD 14.50', 'USD 5.99'] }, remainder: 'largest' })
+ * // => ['USD 7.13', 'USD 3.45', 'USD 1.42']
+ *
+ * @example
+ * // apportion by a divisor method instead of the largest remainder
+ * allocatePrice({ of: 'USD 0.10', into: { ratios: [90, 5, 5] }, remainder: 'first', method: 'dhondt' })
+ * // => ['USD 0.10', 'USD 0.00', 'USD 0.00']
+ *
+ * @throws BadRequestError if the constraints are infeasible (e.g., the minimums exceed the price), a method is given with min, max, or step, or weightCurrency is given without price weights
  */
 export function allocatePrice<TCurrency extends string = string>(
   input: {
     of: IsoPrice<TCurrency> | string;
-    into: { parts: number } | { ratios: number[] };
-    remainder: AllocationRemainderMode;
+    into: AllocationInto<TCurrency>;
+    remainder: AllocationRemainder;
+    method?: AllocationMethod;
   },
-  options?: { format?: 'words' },
+  options?: { format?: 'words'; report?: false },
 ): IsoPriceWords<TCurrency>[];
 export function allocatePrice<TCurrency extends string = string>(
   input: {
     of: IsoPrice<TCurrency> | string;
-    into: { parts: number } | { ratios: number[] };
-    remainder: AllocationRemainderMode;
+    into: AllocationInto<TCurrency>;
+    remainder: AllocationRemainder;
+    method?: AllocationMethod;
   },
-  options: { format: 'shape' },
+  options: { format: 'shape'; report?: false },
 ): IsoPriceShape<TCurrency>[];
 export function allocatePrice<TCurrency extends string = string>(
   input: {
     of: IsoPrice<TCurrency> | string;
-    into: { parts: number } | { ratios: number[] };
-    remainder: AllocationRemainderMode;
+    into: AllocationInto<TCurrency>;
+    remainder: AllocationRemainder;
+    method?: AllocationMethod;
   },
-  options?: { format?: 'words' | 'shape' },
-): IsoPriceWords<TCurrency>[] | IsoPriceShape<TCurrency>[] {
+  options: { format?: 'words'; report: true },
+): { parts: IsoPriceWords<TCurrency>[]; report: AllocationReport<TCurrency> };
+export function allocatePrice<TCurrency extends string = string>(
+  input: {
+    of: IsoPrice<TCurrency> | string;
+    into: AllocationInto<TCurrency>;
+    remainder: AllocationRemainder;
+    method?: AllocationMethod;
+  },
+  options: { format: 'shape'; report: true },
+): { parts: IsoPriceShape<TCurrency>[]; report: AllocationReport<TCurrency> };
+export function allocatePrice<TCurrency extends string = string>(
+  input: {
+    of: IsoPrice<TCurrency> | string;
+    into: AllocationInto<TCurrency>;
+    remainder: AllocationRemainder;
+    method?: AllocationMethod;
+  },
+  options?: { format?: 'words' | 'shape'; report?: boolean },
+):
+  | IsoPriceWords<TCurrency>[]
+  | IsoPriceShape<TCurrency>[]
+  | {
+      parts: IsoPriceWords<TCurrency>[] | IsoPriceShape<TCurrency>[];
+      report: AllocationReport<TCurrency>;
+    } {
   const shape = asIsoPriceShape(input.of);
+  const currency = shape.currency as TCurrency;
   const exponent = shape.exponent ?? IsoPriceExponent.CENTI;
 
-  // handle equal parts allocation
-  if ('parts' in input.into) {
-    const parts = input.into.parts;
-    if (parts < 1) {
-      throw new BadRequestError('cannot allocate into less than 1 part', {
-        input,
-      });
-    }
-    return allocateEqualParts(
-      shape.amount,
-      shape.currency as TCurrency,
-      exponent,
-      parts,
-      input.remainder,
-      options?.format,
-    );
-  }
-
-  // handle ratio allocation
-  const ratios = input.into.ratios;
-  if (ratios.length < 1) {
+  // validate part count
+  const count =
+    'parts' in input.into
+      ? input.into.parts
+      : 'ratios' in input.into
+        ? input.into.ratios.length
+        : input.into.weights.length;
+  if (count < 1) {
     throw new BadRequestError('cannot allocate into less than 1 part', {
       input,
     });
   }
-  return allocateByRatios(
+
+  // validate method
+  const method = input.method;
+  if (
+    method &&
+    'weights' in input.into &&
+    (input.into.min !== undefined ||
+      input.into.max !== undefined ||
+      input.into.step !== undefined)
+  ) {
+    throw new BadRequestError(
+      'cannot allocate constrained weights by a method',
+      {
+        method,
+      },
+    );
+  }
+
+  // allocate into equal parts, by ratios, or by weights under constraints
+  const { allocations, remainder, recipients } = allocateInto(
     shape.amount,
-    shape.currency as TCurrency,
+    currency,
     exponent,
-    ratios,
+    input.into,
     input.remainder,
+    method,
+  );
+  const parts = formatAllocations(
+    allocations,
+    currency,
+    exponent,
     options?.format,
   );
+  if (!options?.report) return parts;
+
+  return {
+    parts,
+    report: {
+      remainder: asIsoPriceWords<TCurrency>({
+        amount: remainder,
+        currency,
+        exponent,
+      }),
+      recipients: [...recipients].sort((a, b) => a - b),
+    },
+  };
 }
 
+/**
+ * .what = allocates amount per the shape of `into`
+ * .why = routes equal parts, ratios, and weights to their allocator, by method when one is given
+ *
+ * weights without a method go through the constrained allocator, even when unconstrained;
+ * with a method, the caller has already ruled out min, max, and step
+ */
+const allocateInto = (
+  amount: bigint,
+  currency: string,
+  exponent: IsoPriceExponent,
+  into: AllocationInto<string>,
+  remainderMode: AllocationRemainder,
+  method: AllocationMethod | undefined,
+): { allocations: bigint[]; remainder: bigint; recipients: number[] } => {
+  if ('parts' in into)
+    return method
+      ? allocateByRatios(
+          amount,
+          Array(into.parts).fill(1),
+          remainderMode,
+          method,
+        )
+      : allocateEqualParts(amount, into.parts, remainderMode);
+  if ('ratios' in into)
+    return allocateByRatios(amount, into.ratios, remainderMode, method);
+  if (method)
+    return apportionByMethod(
+      amount,
+      asWeightsOf(into, currency),
+      remainderMode,
+      method,
+    );
+  return allocateConstrained(amount, currency, exponent, into, remainderMode);
+};
+
 /**
  * .what = allocates amount into equal parts
  * .why = splits evenly with remainder distribution
  */
-const allocateEqualParts = <TCurrency extends string>(
+const allocateEqualParts = (
   amount: bigint,
-  currency: TCurrency,
-  exponent: IsoPriceExponent,
   parts: number,
-  remainderMode: AllocationRemainderMode,
-  format?: 'words' | 'shape',
-): IsoPriceWords<TCurrency>[] | IsoPriceShape<TCurrency>[] => {
+  remainderMode: AllocationRemainder,
+): { allocations: bigint[]; remainder: bigint; recipients: number[] } => {
   const divisor = BigInt(parts);
   const baseAmount = amount / divisor;
   const remainder = amount % divisor;
@@ -107,71 +297,749 @@ const allocateEqualParts = <TCurrency extends string>(
   const allocations: bigint[] = Array(parts).fill(baseAmount);
 
   // distribute remainder
-  distributeRemainder(allocations, remainder, remainderMode, baseAmount);
+  const recipients = distributeRemainder(
+    allocations,
+    remainder,
+    remainderMode,
+    baseAmount,
+  );
 
-  return formatAllocations(allocations, currency, exponent, format);
+  return { allocations, remainder, recipients };
 };
 
 /**
- * .what = allocates amount by ratios
- * .why = splits proportionally with remainder distribution
+ * .what = converts ratios to integer weights over their least common denominator
+ * .why = the largest remainder method needs exact integers, however the contract states the split
+ *
+ * e.g., ['33.33', '66.67'] → [3333n, 6667n]; [{ numerator: 1, denominator: 3 }, 0.5] → [2n, 3n]
  */
-const allocateByRatios = <TCurrency extends string>(
-  amount: bigint,
-  currency: TCurrency,
-  exponent: IsoPriceExponent,
-  ratios: number[],
-  remainderMode: AllocationRemainderMode,
-  format?: 'words' | 'shape',
-): IsoPriceWords<TCurrency>[] | IsoPriceShape<TCurrency>[] => {
+const asIntegerWeights = (ratios: IsoRatioInput[]): bigint[] => {
+  const exact = ratios.map((ratio) => asIsoRatio(ratio));
+  const commonDenominator = exact.reduce(
+    (lcm, { denominator }) => (lcm / gcd(lcm, denominator)) * denominator,
+    1n,
+  );
+  return exact.map(
+    ({ numerator, denominator }) =>
+      numerator * (commonDenominator / denominator),
+  );
+};
+
+/**
+ * .what = converts ratios to validated integer weights
+ * .why = ratios and constrained weights share one reading and one set of errors
+ */
+const asValidWeights = (ratios: IsoRatioInput[]): bigint[] => {
+  const weights = asIntegerWeights(ratios);
+
   // validate ratios
-  if (ratios.some((r) => r < 0)) {
-    throw new BadRequestError('ratios must be non-negative', { ratios });
+  if (weights.some((w) => w < 0n)) {
+    throw new BadRequestError('ratios must be non-negative', {
+      ratios: ratios.map(describeIsoRatioInput),
+    });
   }
 
-  const totalRatio = ratios.reduce((sum, r) => sum + r, 0);
-  if (totalRatio === 0) {
-    throw new BadRequestError('total ratio cannot be zero', { ratios });
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0n);
+  if (totalWeight === 0n) {
+    throw new BadRequestError('total ratio cannot be zero', {
+      ratios: ratios.map(describeIsoRatioInput),
+    });
   }
 
+  return weights;
+};
+
+/**
+ * .what = allocates amount by ratios
+ * .why = splits proportionally with remainder distribution
+ */
+const allocateByRatios = (
+  amount: bigint,
+  ratios: IsoRatioInput[],
+  remainderMode: AllocationRemainder,
+  method: AllocationMethod | undefined,
+): { allocations: bigint[]; remainder: bigint; recipients: number[] } => {
+  // normalize ratios exactly to integer weights
+  const weights = asValidWeights(ratios);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0n);
+  if (method) return apportionByMethod(amount, weights, remainderMode, method);
+
   // calculate base allocations via largest remainder method
-  const totalRatioBigInt = BigInt(totalRatio);
-  const allocations: bigint[] = [];
-  let allocated = 0n;
-
-  for (let i = 0; i < ratios.length; i++) {
-    const ratio = BigInt(ratios[i]!);
-    const allocation = (amount * ratio) / totalRatioBigInt;
-    allocations.push(allocation);
-    allocated += allocation;
-  }
+  const allocations = weights.map((w) => (amount * w) / totalWeight);
+  const allocated = allocations.reduce((sum, a) => sum + a, 0n);
 
   // calculate remainder from truncation
   const remainder = amount - allocated;
 
+  // exact fractional parts, scaled by the total weight, for the largest remainder method
+  const fractions = weights.map((w) => {
+    const fraction = (amount * w) % totalWeight;
+    return fraction < 0n ? -fraction : fraction;
+  });
+
   // distribute remainder
-  distributeRemainder(
+  const recipients = distributeRemainder(
     allocations,
     remainder,
     remainderMode,
     0n, // for ratio mode, pass 0 as baseAmount (not used for largest)
-    ratios, // pass ratios for largest remainder method
+    fractions, // pass fractional parts for largest remainder method
+  );
+
+  return { allocations, remainder, recipients };
+};
+
+/**
+ * .what = a part being apportioned, with the rank it holds in a tie
+ * .why = keeps each part's weight, units, and tie rank together while the stepwise search moves units
+ */
+type ApportionedPart = {
+  index: number;
+  weight: bigint;
+  units: bigint;
+  rank: number;
+};
+
+/**
+ * .what = ranks each weighted part by who wins a tie
+ * .why = keeps every method deterministic: 'last' favors later parts, 'random' a shuffled order, else earlier parts
+ *
+ * a lower rank wins a unit and a higher rank gives one up first; parts come back in index order
+ */
+const rankParts = (
+  weights: bigint[],
+  mode: AllocationRemainder,
+): { index: number; weight: bigint; rank: number }[] => {
+  const modeName = typeof mode === 'string' ? mode : mode.mode;
+  if (modeName !== 'random')
+    return weights.map((weight, index) => ({
+      index,
+      weight,
+      rank: modeName === 'last' ? weights.length - 1 - index : index,
+    }));
+  return pickRandomIndices(
+    weights.length,
+    weights.length,
+    getRemainderPrng(mode),
+  )
+    .flatMap((index, rank) => {
+      const weight = weights[index];
+      return weight === undefined ? [] : [{ index, weight, rank }];
+    })
+    .sort((a, b) => a.index - b.index);
+};
+
+/**
+ * .what = the priority of a part that holds `units`, per divisor method
+ * .why = highest averages methods give the next unit to the largest weight / divisor(units)
+ *
+ * kept as an exact fraction; huntington-hill compares squares to avoid the square root
+ */
+const getDivisorPriority = (
+  weight: bigint,
+  units: bigint,
+  method: 'dhondt' | 'sainte-lague' | 'huntington-hill',
+): { numerator: bigint; denominator: bigint } => {
+  if (method === 'dhondt')
+    return { numerator: weight, denominator: units + 1n };
+  if (method === 'sainte-lague')
+    return { numerator: weight, denominator: 2n * units + 1n };
+  return { numerator: weight * weight, denominator: units * (units + 1n) };
+};
+
+/**
+ * .what = compares two priorities exactly
+ * .why = a zero denominator is an infinite priority (huntington-hill's first unit)
+ */
+const comparePriority = (
+  a: { numerator: bigint; denominator: bigint },
+  b: { numerator: bigint; denominator: bigint },
+): number => {
+  const aIsInfinite = a.denominator === 0n && a.numerator > 0n;
+  const bIsInfinite = b.denominator === 0n && b.numerator > 0n;
+  if (aIsInfinite || bIsInfinite)
+    return Number(aIsInfinite) - Number(bIsInfinite);
+  const difference = a.numerator * b.denominator - b.numerator * a.denominator;
+  return difference > 0n ? 1 : difference < 0n ? -1 : 0;
+};
+
+/**
+ * .what = rounds an exact quota per method
+ * .why = gives the stepwise search a start that is already a valid apportionment of some size
+ *
+ * quota = numerator / denominator, both non-negative
+ */
+const roundQuota = (
+  numerator: bigint,
+  denominator: bigint,
+  method: AllocationMethod,
+): bigint => {
+  const floor = numerator / denominator;
+  switch (method) {
+    case 'hamilton':
+    case 'dhondt':
+      return floor;
+    case 'sainte-lague':
+      return roundBigintByMode(
+        { of: numerator, by: denominator },
+        { round: IsoPriceRoundMode.HALF_UP },
+      );
+    case 'huntington-hill':
+      // round up once the quota reaches the geometric mean √(floor(floor+1))
+      return numerator > 0n &&
+        numerator * numerator >=
+          floor * (floor + 1n) * denominator * denominator
+        ? floor + 1n
+        : floor;
+    case 'bankers':
+      return roundBigintByMode(
+        { of: numerator, by: denominator },
+        { round: IsoPriceRoundMode.HALF_EVEN },
+      );
+  }
+};
+
+/**
+ * .what = picks the part to gain or give up the next unit, per method
+ * .why = the divisor methods go by priority, while hamilton and banker's rounding go by rounding error
+ *
+ * returns null only when no part can move, which validated weights rule out
+ */
+const pickSteppedPart = (
+  parts: ApportionedPart[],
+  input: {
+    isShort: boolean;
+    size: bigint;
+    totalWeight: bigint;
+    method: AllocationMethod;
+  },
+): ApportionedPart | null => {
+  const { isShort, size, totalWeight, method } = input;
+  const score = (
+    part: ApportionedPart,
+  ): { numerator: bigint; denominator: bigint } =>
+    method === 'hamilton' || method === 'bankers'
+      ? // rounding error, scaled by the total weight
+        {
+          numerator: size * part.weight - part.units * totalWeight,
+          denominator: 1n,
+        }
+      : getDivisorPriority(
+          part.weight,
+          isShort ? part.units : part.units - 1n,
+          method,
+        );
+  const [chosen] = parts
+    .filter((part) => (isShort ? part.weight > 0n : part.units > 0n))
+    .sort((a, b) => {
+      const byScore = comparePriority(score(a), score(b));
+      if (byScore !== 0) return isShort ? -byScore : byScore;
+      return isShort ? a.rank - b.rank : b.rank - a.rank;
+    });
+  return chosen ?? null;
+};
+
+/**
+ * .what = apportions an amount by the chosen method
+ * .why = implements every method in exact bigint arithmetic
+ *
+ * rounds every quota per the method, then steps one unit at a time until the sum matches:
+ * the divisor methods add to the highest priority and remove from the lowest, while hamilton
+ * and banker's rounding add to the most under-rounded part and remove from the most over-rounded one.
+ * ties go per `rankParts`. negative amounts apportion their magnitude, then negate
+ */
+const apportionByMethod = (
+  amount: bigint,
+  weights: bigint[],
+  remainderMode: AllocationRemainder,
+  method: AllocationMethod,
+): { allocations: bigint[]; remainder: bigint; recipients: number[] } => {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0n);
+  const isNegative = amount < 0n;
+  const size = isNegative ? -amount : amount;
+
+  // round each quota per the method
+  const parts: ApportionedPart[] = rankParts(weights, remainderMode).map(
+    (part) => ({
+      ...part,
+      units: roundQuota(size * part.weight, totalWeight, method),
+    }),
+  );
+  let allocated = parts.reduce((sum, part) => sum + part.units, 0n);
+
+  // step toward the size, one unit at a time
+  while (allocated !== size) {
+    const isShort = allocated < size;
+    const chosen = pickSteppedPart(parts, {
+      isShort,
+      size,
+      totalWeight,
+      method,
+    });
+    if (!chosen) break;
+    chosen.units += isShort ? 1n : -1n;
+    allocated += isShort ? 1n : -1n;
+  }
+
+  // report the units beyond each truncated share
+  const truncate = (part: ApportionedPart): bigint =>
+    (size * part.weight) / totalWeight;
+  const remainder =
+    size - parts.reduce((sum, part) => sum + truncate(part), 0n);
+  const recipients = parts
+    .filter((part) => part.units > truncate(part))
+    .map((part) => part.index);
+  return {
+    allocations: parts.map((part) => (isNegative ? -part.units : part.units)),
+    remainder: isNegative ? -remainder : remainder,
+    recipients,
+  };
+};
+
+/**
+ * .what = floor division of bigints
+ * .why = bigint division truncates toward zero, yet bounds need floor and ceil
+ */
+const floorDiv = (a: bigint, b: bigint): bigint => {
+  const quotient = a / b;
+  return a % b !== 0n && a < 0n !== b < 0n ? quotient - 1n : quotient;
+};
+
+/**
+ * .what = expresses a constraint price in the minor units of the allocated price
+ * .why = constraints are compared and summed against the price exactly
+ */
+const asConstraintUnits = (
+  price: IsoPrice | string,
+  label: 'min' | 'max' | 'step',
+  currency: string,
+  exponent: IsoPriceExponent,
+): bigint => {
+  const shape = asIsoPriceShape(price);
+  if (shape.currency !== currency) {
+    throw new BadRequestError(
+      `cannot allocate with a ${label} in another currency`,
+      { currency, [label]: shape.currency },
+    );
+  }
+
+  // rescale to the exponent of the allocated price
+  const shift =
+    getIsoPriceExponentValue(shape.exponent ?? IsoPriceExponent.CENTI) -
+    getIsoPriceExponentValue(exponent);
+  if (shift >= 0) return shape.amount * 10n ** BigInt(shift);
+  const divisor = 10n ** BigInt(-shift);
+  if (shape.amount % divisor !== 0n) {
+    throw new BadRequestError(
+      `${label} is more precise than the price allocated`,
+      { [label]: asIsoPriceWords(shape), exponent },
+    );
+  }
+  return shape.amount / divisor;
+};
+
+/**
+ * .what = reads a per-part bound into minor units, one per part
+ * .why = a single bound applies to every part; a list sets each part's own
+ */
+const asConstraintBounds = (
+  bound: AllocationBound<string> | undefined,
+  label: 'min' | 'max',
+  count: number,
+  currency: string,
+  exponent: IsoPriceExponent,
+): (bigint | null)[] => {
+  if (bound === undefined) return Array(count).fill(null);
+  if (!Array.isArray(bound))
+    return Array(count).fill(
+      asConstraintUnits(bound, label, currency, exponent),
+    );
+  if (bound.length !== count) {
+    throw new BadRequestError(`${label} must list one bound per weight`, {
+      [label]: bound.length,
+      weights: count,
+    });
+  }
+  return bound.map((price) =>
+    price === null ? null : asConstraintUnits(price, label, currency, exponent),
+  );
+};
+
+/**
+ * .what = reads weights given as prices into integer weights
+ * .why = splits a charge across line items by their prices, without a manual cast to numbers
+ *
+ * normalizes every price to the most precise exponent among them, so 'USD 5' and 'USD 0.50' weigh 10:1.
+ * all prices must share `currency`: the one allocated, unless the caller names another
+ */
+const asPriceWeights = (prices: IsoPrice[], currency: string): bigint[] => {
+  const shapes = prices.map((price) => asIsoPriceShape(price));
+  const mismatch = shapes.find((shape) => shape.currency !== currency);
+  if (mismatch) {
+    throw new BadRequestError(
+      'cannot weigh by prices in another currency; name it as weightCurrency to allow it',
+      { currency, weight: mismatch.currency },
+    );
+  }
+
+  // normalize to the most precise exponent
+  const scaled = shapes.map((shape) => ({
+    amount: shape.amount,
+    exponentValue: getIsoPriceExponentValue(
+      shape.exponent ?? IsoPriceExponent.CENTI,
+    ),
+  }));
+  const targetExponentValue = Math.min(
+    ...scaled.map(({ exponentValue }) => exponentValue),
+  );
+  const weights = scaled.map(
+    ({ amount, exponentValue }) =>
+      amount * 10n ** BigInt(exponentValue - targetExponentValue),
   );
 
-  return formatAllocations(allocations, currency, exponent, format);
+  // validate weights
+  if (weights.some((w) => w < 0n)) {
+    throw new BadRequestError('price weights must be non-negative', {
+      weights: shapes.map((shape) => asIsoPriceWords(shape)),
+    });
+  }
+  if (weights.every((w) => w === 0n)) {
+    throw new BadRequestError('price weights cannot all be zero', {
+      weights: shapes.map((shape) => asIsoPriceWords(shape)),
+    });
+  }
+  return weights;
+};
+
+/**
+ * .what = reads weights given as ratios or as prices
+ * .why = one list must be all ratios or all prices, since a price has no proportion to a bare number
+ *
+ * `weightCurrency` only names the currency of price weights, so it is rejected beside numeric ones
+ */
+const asWeightsOf = (
+  into: { weights: (IsoRatioInput | IsoPrice)[]; weightCurrency?: string },
+  currency: string,
+): bigint[] => {
+  const { weights, weightCurrency } = into;
+  const prices = weights.filter((weight): weight is IsoPrice =>
+    isIsoPrice(weight),
+  );
+  if (prices.length === 0 && weightCurrency !== undefined) {
+    throw new BadRequestError('weightCurrency requires price weights', {
+      weightCurrency,
+    });
+  }
+  if (prices.length === 0) return asValidWeights(weights as IsoRatioInput[]);
+  if (prices.length !== weights.length) {
+    throw new BadRequestError('cannot mix price and numeric weights', {
+      prices: prices.length,
+      weights: weights.length,
+    });
+  }
+  return asPriceWeights(prices, weightCurrency ?? currency);
+};
+
+/**
+ * .what = a part of a constrained allocation, in lots of the step
+ * .why = keeps each part's weight and bounds beside its lots while the solver reshares the rest
+ *
+ * `lots` stays null while the part is free to take its proportional share
+ */
+type ConstrainedPart = {
+  index: number;
+  weight: bigint;
+  low: bigint;
+  high: bigint | null;
+  lots: bigint | null;
+};
+
+/**
+ * .what = reads the lot size of a constrained allocation
+ * .why = every part and bound is counted in whole lots, so the price must be one too
+ */
+const asConstraintStep = (
+  step: IsoPrice | string | undefined,
+  amount: bigint,
+  currency: string,
+  exponent: IsoPriceExponent,
+): bigint => {
+  const units =
+    step === undefined
+      ? 1n
+      : asConstraintUnits(step, 'step', currency, exponent);
+  if (units <= 0n) {
+    throw new BadRequestError('step must be positive', {
+      step: asIsoPriceWords({ amount: units, currency, exponent }),
+    });
+  }
+  if (amount % units !== 0n) {
+    throw new BadRequestError(
+      'allocation is infeasible: the price is not a multiple of the step',
+      {
+        of: asIsoPriceWords({ amount, currency, exponent }),
+        step: asIsoPriceWords({ amount: units, currency, exponent }),
+      },
+    );
+  }
+  return units;
+};
+
+/**
+ * .what = pairs each weight with its bounds, in lots
+ * .why = a min rounds up and a max rounds down to the nearest lot
+ */
+const asConstrainedParts = (
+  weights: bigint[],
+  bounds: { min?: AllocationBound<string>; max?: AllocationBound<string> },
+  step: bigint,
+  currency: string,
+  exponent: IsoPriceExponent,
+): ConstrainedPart[] => {
+  const mins = asConstraintBounds(
+    bounds.min,
+    'min',
+    weights.length,
+    currency,
+    exponent,
+  );
+  const maxes = asConstraintBounds(
+    bounds.max,
+    'max',
+    weights.length,
+    currency,
+    exponent,
+  );
+  return weights.map((weight, index) => {
+    const min = mins[index] ?? null;
+    const max = maxes[index] ?? null;
+    return {
+      index,
+      weight,
+      low: min === null ? 0n : -floorDiv(-min, step),
+      high: max === null ? null : floorDiv(max, step),
+      lots: null,
+    };
+  });
+};
+
+/**
+ * .what = checks that some allocation of the total fits every bound
+ * .why = reports an infeasible request up front, rather than a split that breaks a bound
+ */
+const assertConstrainedPartsFeasible = (
+  parts: ConstrainedPart[],
+  total: bigint,
+  asWords: (lots: bigint) => string,
+): void => {
+  for (const part of parts) {
+    if (part.high !== null && part.low > part.high) {
+      throw new BadRequestError(
+        'allocation is infeasible: a part has no multiple of the step between its min and max',
+        { part: part.index, min: asWords(part.low), max: asWords(part.high) },
+      );
+    }
+  }
+  const lowsTotal = parts.reduce((sum, part) => sum + part.low, 0n);
+  if (lowsTotal > total) {
+    throw new BadRequestError(
+      'allocation is infeasible: the minimums exceed the price',
+      { of: asWords(total), minimums: asWords(lowsTotal) },
+    );
+  }
+  const highs = parts.flatMap((part) =>
+    part.high === null ? [] : [part.high],
+  );
+  const highsTotal = highs.reduce((sum, high) => sum + high, 0n);
+  if (highs.length === parts.length && highsTotal < total) {
+    throw new BadRequestError(
+      'allocation is infeasible: the maximums fall short of the price',
+      { of: asWords(total), maximums: asWords(highsTotal) },
+    );
+  }
+};
+
+/**
+ * .what = the lots left for the free parts, after every clamped one
+ * .why = the free parts share whatever the clamped parts leave
+ */
+const getRestLots = (parts: ConstrainedPart[], total: bigint): bigint =>
+  parts.reduce((rest, part) => rest - (part.lots ?? 0n), total);
+
+/**
+ * .what = measures how far the proportional shares of the free parts overshoot their bounds
+ * .why = the side with more overshoot clamps first, so clamps never undo one another
+ *
+ * shares are scaled by the free weight, to stay exact
+ */
+const measureBoundOvershoot = (
+  free: ConstrainedPart[],
+  rest: bigint,
+  freeWeight: bigint,
+): { excess: bigint; deficit: bigint } =>
+  free.reduce(
+    (overshoot, part) => {
+      const share = rest * part.weight;
+      const high = part.high === null ? null : part.high * freeWeight;
+      const low = part.low * freeWeight;
+      return {
+        excess:
+          overshoot.excess +
+          (high !== null && share > high ? share - high : 0n),
+        deficit: overshoot.deficit + (share < low ? low - share : 0n),
+      };
+    },
+    { excess: 0n, deficit: 0n },
+  );
+
+/**
+ * .what = clamps the free parts whose shares overshoot one side of their bounds
+ * .why = clamping one side at a time keeps the reshared rest from undoing a clamp
+ */
+const clampOvershootingParts = (
+  free: ConstrainedPart[],
+  rest: bigint,
+  freeWeight: bigint,
+  side: 'high' | 'low',
+): void => {
+  for (const part of free) {
+    const share = rest * part.weight;
+    if (
+      side === 'high' &&
+      part.high !== null &&
+      share >= part.high * freeWeight
+    )
+      part.lots = part.high;
+    if (side === 'low' && share <= part.low * freeWeight) part.lots = part.low;
+  }
+};
+
+/**
+ * .what = clamps parts to their bounds until the proportional shares of the rest fit
+ * .why = a capped part passes its excess on, and a floored part takes its shortfall from the rest
+ *
+ * clamps the side that dominates on each pass; its parts stay clamped once the rest is reshared
+ */
+const clampConstrainedParts = (
+  parts: ConstrainedPart[],
+  total: bigint,
+): void => {
+  for (
+    let free: ConstrainedPart[] = parts.filter((part) => part.lots === null);
+    free.length > 0;
+    free = parts.filter((part) => part.lots === null)
+  ) {
+    const rest = getRestLots(parts, total);
+    const freeWeight = free.reduce((sum, part) => sum + part.weight, 0n);
+
+    // only zero-weight parts are left: they keep their minimums
+    if (freeWeight === 0n) {
+      for (const part of free) part.lots = part.low;
+      return;
+    }
+
+    // stop once every share fits its bounds, else clamp the side that dominates
+    const { excess, deficit } = measureBoundOvershoot(free, rest, freeWeight);
+    if (excess === 0n && deficit === 0n) return;
+    clampOvershootingParts(
+      free,
+      rest,
+      freeWeight,
+      excess >= deficit ? 'high' : 'low',
+    );
+  }
+};
+
+/**
+ * .what = allocates amount by weights under per-part minimums, maximums, and a lot size
+ * .why = payouts need floors, caps with the excess passed on to the rest, and round lots
+ *
+ * works in lots of `step`: each part is proportional to its weight, clamped to its bounds,
+ * with whatever a clamp frees up shared among the unclamped parts by weight. a min rounds
+ * up and a max rounds down to the nearest lot
+ */
+const allocateConstrained = (
+  amount: bigint,
+  currency: string,
+  exponent: IsoPriceExponent,
+  into: {
+    weights: (IsoRatioInput | IsoPrice)[];
+    weightCurrency?: string;
+    min?: AllocationBound<string>;
+    max?: AllocationBound<string>;
+    step?: IsoPrice | string;
+  },
+  remainderMode: AllocationRemainder,
+): { allocations: bigint[]; remainder: bigint; recipients: number[] } => {
+  const weights = asWeightsOf(into, currency);
+  if (amount < 0n) {
+    throw new BadRequestError(
+      'cannot allocate a negative price under constraints',
+      { of: asIsoPriceWords({ amount, currency, exponent }) },
+    );
+  }
+
+  // express the price and bounds in lots, and validate feasibility
+  const step = asConstraintStep(into.step, amount, currency, exponent);
+  const total = amount / step;
+  const parts = asConstrainedParts(weights, into, step, currency, exponent);
+  const asWords = (lots: bigint): string =>
+    asIsoPriceWords({ amount: lots * step, currency, exponent });
+  assertConstrainedPartsFeasible(parts, total, asWords);
+
+  // clamp parts to their bounds, then share the rest among the free parts by weight, in whole lots
+  clampConstrainedParts(parts, total);
+  const free = parts.filter((part) => part.lots === null);
+  const rest = getRestLots(parts, total);
+  const freeWeight = free.reduce((sum, part) => sum + part.weight, 0n);
+  const shares = free.map((part) => {
+    const share = rest * part.weight;
+    const lots = floorDiv(share, freeWeight);
+    return { part, lots, fraction: share - lots * freeWeight };
+  });
+  for (const { part, lots } of shares) part.lots = lots;
+  const remainder = getRestLots(parts, total);
+  if (remainder !== 0n && free.length === 0) {
+    throw new BadRequestError(
+      'allocation is infeasible: only zero-weight parts could take the rest',
+      { of: asWords(total), rest: asWords(remainder) },
+    );
+  }
+
+  // distribute the leftover lots among the parts with a fractional share, per mode
+  const eligible = shares.filter(({ fraction }) => fraction > 0n);
+  const picked = getDistributionIndices(
+    eligible.length,
+    Number(remainder),
+    remainderMode,
+    eligible.map(({ lots }) => lots),
+    eligible.map(({ fraction }) => fraction),
+  ).flatMap((position) => {
+    const share = eligible[position];
+    return share ? [share.part] : [];
+  });
+  for (const part of picked) part.lots = (part.lots ?? 0n) + 1n;
+
+  return {
+    allocations: parts.map((part) => (part.lots ?? 0n) * step),
+    remainder: remainder * step,
+    recipients: picked.map((part) => part.index),
+  };
 };
 
 /**
  * .what = distributes remainder per mode
  * .why = ensures no cent is lost in allocation
+ *
+ * returns the indices that received a unit, in order of distribution
  */
 const distributeRemainder = (
   allocations: bigint[],
   remainder: bigint,
-  mode: AllocationRemainderMode,
+  mode: AllocationRemainder,
   baseAmount: bigint,
-  ratios?: number[],
-): void => {
+  fractions?: bigint[],
+): number[] => {
   // handle negative remainder (can happen with negative amounts)
   const isNegative = remainder < 0n;
   const absRemainder = isNegative ? -remainder : remainder;
@@ -183,13 +1051,73 @@ const distributeRemainder = (
     Number(absRemainder),
     mode,
     allocations,
-    ratios,
+    fractions,
   );
 
   // apply remainder distribution
   for (const idx of indices) {
-    allocations[idx] = allocations[idx]! + increment;
+    const allocation = allocations[idx];
+    if (allocation !== undefined) allocations[idx] = allocation + increment;
   }
+  return indices;
+};
+
+/**
+ * .what = creates a seeded pseudo-random number generator
+ * .why = replays the same 'random' remainder draw for the same seed
+ *
+ * hashes the seed's text with fnv-1a, then steps mulberry32; returns floats in [0, 1) like Math.random
+ */
+const createSeededPrng = (seed: number | string): (() => number) => {
+  let state = 0x811c9dc5;
+  for (const char of String(seed)) {
+    state ^= char.codePointAt(0) ?? 0;
+    state = Math.imul(state, 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * .what = resolves the prng of a random remainder mode
+ * .why = 'random' draws from Math.random, a seed from a seeded prng, and a prng from itself
+ */
+const getRemainderPrng = (mode: AllocationRemainder): (() => number) => {
+  if (typeof mode === 'string') return Math.random;
+  if ('seed' in mode) return createSeededPrng(mode.seed);
+  return mode.prng;
+};
+
+/**
+ * .what = picks `count` distinct indices uniformly at random
+ * .why = every subset of recipients is equally likely, whatever the amount split
+ *
+ * partial fisher-yates shuffle over the index range
+ */
+const pickRandomIndices = (
+  length: number,
+  count: number,
+  prng: () => number,
+): number[] => {
+  const indices = Array.from({ length }, (_, i) => i);
+  for (let i = 0; i < count; i++) {
+    const draw = prng();
+    if (!(draw >= 0 && draw < 1)) {
+      throw new BadRequestError('prng must return a number in [0, 1)', {
+        draw,
+      });
+    }
+    const j = i + Math.floor(draw * (length - i));
+    const [current, drawn] = [indices[i], indices[j]];
+    if (current !== undefined && drawn !== undefined)
+      [indices[i], indices[j]] = [drawn, current];
+  }
+  return indices.slice(0, count);
 };
 
 /**
@@ -199,9 +1127,9 @@ const distributeRemainder = (
 const getDistributionIndices = (
   length: number,
   count: number,
-  mode: AllocationRemainderMode,
+  mode: AllocationRemainder,
   allocations: bigint[],
-  ratios?: number[],
+  fractions?: bigint[],
 ): number[] => {
   if (count === 0) return [];
   if (count >= length) {
@@ -215,7 +1143,7 @@ const getDistributionIndices = (
     return indices;
   }
 
-  switch (mode) {
+  switch (typeof mode === 'string' ? mode : mode.mode) {
     case 'first':
       return Array.from({ length: count }, (_, i) => i);
 
@@ -225,37 +1153,27 @@ const getDistributionIndices = (
     case 'largest': {
       // hamilton/largest remainder method: give to those with largest fractional parts
       // for equal parts, all have same fractional part, so fall back to first
-      // for ratios, calculate fractional remainders
-      if (!ratios) {
+      if (!fractions) {
         return Array.from({ length: count }, (_, i) => i);
       }
 
-      // calculate fractional remainders for each ratio
-      const totalRatio = ratios.reduce((sum, r) => sum + r, 0);
-      const fractions = ratios.map((r, i) => ({
-        index: i,
-        fraction:
-          (r / totalRatio) * Number(allocations.reduce((a, b) => a + b, 0n)) -
-          Number(allocations[i]!),
-      }));
-
-      // sort by fraction (largest first)
-      fractions.sort((a, b) => b.fraction - a.fraction);
-      return fractions.slice(0, count).map((f) => f.index);
+      // sort by exact fractional part (largest first), ties to the earlier index
+      return fractions
+        .map((fraction, index) => ({ index, fraction }))
+        .sort((a, b) =>
+          a.fraction === b.fraction
+            ? a.index - b.index
+            : a.fraction > b.fraction
+              ? -1
+              : 1,
+        )
+        .slice(0, count)
+        .map((f) => f.index);
     }
 
-    case 'random': {
-      // pseudo-random but deterministic based on allocation values
-      const indices = Array.from({ length }, (_, i) => i);
-      // use a simple deterministic shuffle based on allocation sum
-      const seed = Number(allocations.reduce((a, b) => a + b, 0n) % 1000000n);
-      indices.sort((a, b) => {
-        const hashA = (a * 31 + seed) % 1000;
-        const hashB = (b * 31 + seed) % 1000;
-        return hashA - hashB;
-      });
-      return indices.slice(0, count);
-    }
+    case 'random':
+      // unbiased draw: each part is equally likely to receive a unit
+      return pickRandomIndices(length, count, getRemainderPrng(mode));
 
     default:
       return Array.from({ length: count }, (_, i) => i);
@@ -0,0 +1,84 @@
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import { applyPricePercent } from './applyPricePercent';
+import { subPrices } from './subPrices';
+
+describe('applyPricePercent', () => {
+  const CASES = [
+    {
+      description: 'sales tax markup',
+      given: { input: { of: 'USD 100.00', percent: '8.25' } },
+      expect: { delta: 'USD 8.25', total: 'USD 108.25' },
+    },
+    {
+      description: 'explicit plus sign',
+      given: { input: { of: 'USD 100.00', percent: '+8.25' } },
+      expect: { delta: 'USD 8.25', total: 'USD 108.25' },
+    },
+    {
+      description: 'discount',
+      given: { input: { of: 'USD 40.00', percent: '-15' } },
+      expect: { delta: 'USD -6.00', total: 'USD 34.00' },
+    },
+    {
+      description: 'full discount',
+      given: { input: { of: 'USD 40.00', percent: -100 } },
+      expect: { delta: 'USD -40.00', total: 'USD 0.00' },
+    },
+    {
+      description: 'zero percent',
+      given: { input: { of: 'USD 40.00', percent: 0 } },
+      expect: { delta: 'USD 0.00', total: 'USD 40.00' },
+    },
+    {
+      description: 'rounds the delta half-up by default',
+      given: { input: { of: 'USD 19.99', percent: '8.25' } },
+      expect: { delta: 'USD 1.65', total: 'USD 21.64' },
+    },
+    {
+      description: 'honors the round mode on the delta',
+      given: {
+        input: { of: 'USD 19.99', percent: '8.25' },
+        options: { round: IsoPriceRoundMode.FLOOR },
+      },
+      expect: { delta: 'USD 1.64', total: 'USD 21.63' },
+    },
+    {
+      description: 'rounds a discount tie away from zero under half-up',
+      given: { input: { of: 'USD 0.10', percent: '-25' } },
+      expect: { delta: 'USD -0.03', total: 'USD 0.07' },
+    },
+    {
+      description: 'rounds a discount tie toward zero under half-down',
+      given: {
+        input: { of: 'USD 0.10', percent: '-25' },
+        options: { round: IsoPriceRoundMode.HALF_DOWN },
+      },
+      expect: { delta: 'USD -0.02', total: 'USD 0.08' },
+    },
+    {
+      description: 'keeps input precision',
+      given: { input: { of: 'JPY 1_000', percent: '10' } },
+      expect: { delta: 'JPY 100', total: 'JPY 1_100' },
+    },
+    {
+      description: 'shape input without an exponent',
+      given: {
+        input: { of: { amount: 1000n, currency: 'USD' }, percent: '5' },
+      },
+      expect: { delta: 'USD 0.50', total: 'USD 10.50' },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(applyPricePercent(given.input, given.options)).toEqual(expected);
+    });
+  });
+
+  test('total minus the price always equals the delta', () => {
+    ['0.01', '8.25', '-33.333', '7.5', '-0.5'].forEach((percent) => {
+      const { delta, total } = applyPricePercent({ of: 'USD 12.34', percent });
+      expect(subPrices(total, 'USD 12.34')).toEqual(delta);
+    });
+  });
+});
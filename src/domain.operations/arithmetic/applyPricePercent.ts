@@ -0,0 +1,62 @@
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import type { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import type { IsoRatioInput } from '../../domain.objects/IsoRatioInput';
+import { asIsoPriceShape } from '../cast/asIsoPriceShape';
+import { asIsoPriceWords } from '../cast/asIsoPriceWords';
+import { asIsoRatio } from '../cast/asIsoRatio';
+import { multiplyPrice } from './multiplyPrice';
+
+/**
+ * .what = applies a percent markup or discount to a price
+ * .why = enables `+8.25%` tax or `-15%` discount from an exact percent, without a hand-computed `1.0825` float
+ *
+ * a positive percent marks up; a negative percent discounts.
+ * the delta is rounded once, back to input precision, and the total is the price plus that delta,
+ * so `total − of = delta` always holds exactly
+ *
+ * @example
+ * applyPricePercent({ of: 'USD 100.00', percent: '8.25' })
+ * // => { delta: 'USD 8.25', total: 'USD 108.25' }
+ *
+ * @example
+ * applyPricePercent({ of: 'USD 40.00', percent: '-15' })
+ * // => { delta: 'USD -6.00', total: 'USD 34.00' }
+ *
+ * @example
+ * applyPricePercent({ of: 'USD 19.99', percent: '8.25' }, { round: 'half-even' })
+ * // => { delta: 'USD 1.65', total: 'USD 21.64' }
+ */
+export const applyPricePercent = <TCurrency extends string = string>(
+  input: {
+    of: IsoPrice<TCurrency> | string;
+    percent: IsoRatioInput;
+  },
+  options?: { round?: IsoPriceRoundMode },
+): {
+  delta: IsoPriceWords<TCurrency>;
+  total: IsoPriceWords<TCurrency>;
+} => {
+  // round the delta once, at input precision
+  const percent = asIsoRatio(input.percent);
+  const delta = multiplyPrice<TCurrency>(
+    {
+      of: input.of,
+      by: {
+        numerator: percent.numerator,
+        denominator: percent.denominator * 100n,
+      },
+    },
+    { round: options?.round, format: 'shape' },
+  );
+
+  // add it to the price, which shares its precision
+  const of = asIsoPriceShape(input.of);
+  return {
+    delta: asIsoPriceWords<TCurrency>(delta),
+    total: asIsoPriceWords<TCurrency>({
+      ...delta,
+      amount: of.amount + delta.amount,
+    }),
+  };
+};
@@ -0,0 +1,65 @@
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import { calcPricePercentOf } from './calcPricePercentOf';
+
+describe('calcPricePercentOf', () => {
+  const CASES = [
+    {
+      description: 'whole percent',
+      given: { input: { of: 'USD 40.00', percent: '15' } },
+      expect: { output: 'USD 6.00' },
+    },
+    {
+      description: 'exact decimal percent',
+      given: { input: { of: 'USD 100.00', percent: '8.25' } },
+      expect: { output: 'USD 8.25' },
+    },
+    {
+      description: 'number percent',
+      given: { input: { of: 'USD 100.00', percent: 12.5 } },
+      expect: { output: 'USD 12.50' },
+    },
+    {
+      description: 'rational percent',
+      given: {
+        input: { of: 'USD 30.00', percent: { numerator: 100, denominator: 3 } },
+      },
+      expect: { output: 'USD 10.00' },
+    },
+    {
+      description: 'percent above 100',
+      given: { input: { of: 'USD 20.00', percent: '250' } },
+      expect: { output: 'USD 50.00' },
+    },
+    {
+      description: 'rounds half-up by default',
+      given: { input: { of: 'USD 19.99', percent: '8.25' } },
+      expect: { output: 'USD 1.65' },
+    },
+    {
+      description: 'honors the round mode',
+      given: {
+        input: { of: 'USD 19.99', percent: '8.25' },
+        options: { round: IsoPriceRoundMode.FLOOR },
+      },
+      expect: { output: 'USD 1.64' },
+    },
+    {
+      description: 'keeps input precision',
+      given: { input: { of: 'USD 0.100_000', percent: '0.5' } },
+      expect: { output: 'USD 0.000_500' },
+    },
+    {
+      description: 'negative price',
+      given: { input: { of: 'USD -40.00', percent: '15' } },
+      expect: { output: 'USD -6.00' },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(calcPricePercentOf(given.input, given.options)).toEqual(
+        expected.output,
+      );
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import type { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import type { IsoRatioInput } from '../../domain.objects/IsoRatioInput';
+import { asIsoRatio } from '../cast/asIsoRatio';
+import { multiplyPrice } from './multiplyPrice';
+
+/**
+ * .what = calculates a percent of a price
+ * .why = enables commissions, tips, and fees from an exact percent, without a hand-computed float
+ *
+ * the percent may be a number, a bigint, an exact decimal string, or a `{ numerator, denominator }` rational.
+ * the portion is computed in bigint and rounded once, back to input precision
+ *
+ * @example
+ * calcPricePercentOf({ of: 'USD 40.00', percent: '15' })
+ * // => 'USD 6.00'
+ *
+ * @example
+ * calcPricePercentOf({ of: 'USD 19.99', percent: '8.25' }, { round: 'floor' })
+ * // => 'USD 1.64'
+ */
+export const calcPricePercentOf = <TCurrency extends string = string>(
+  input: {
+    of: IsoPrice<TCurrency> | string;
+    percent: IsoRatioInput;
+  },
+  options?: { round?: IsoPriceRoundMode },
+): IsoPriceWords<TCurrency> => {
+  const percent = asIsoRatio(input.percent);
+  return multiplyPrice<TCurrency>(
+    {
+      of: input.of,
+      by: {
+        numerator: percent.numerator,
+        denominator: percent.denominator * 100n,
+      },
+    },
+    { round: options?.round },
+  );
+};
@@ -72,6 +72,16 @@ describe('dividePrice', () => {
       },
       expect: { output: 'USD 0.000_007' },
     },
+    {
+      description: 'keeps wei precision (x10^-18) for large divisors',
+      given: {
+        input: {
+          of: { amount: 3_000n, currency: 'ETH', exponent: 'x10^-18' as const },
+          by: 1_000,
+        },
+      },
+      expect: { output: 'ETH 0.000_000_000_000_000_003' },
+    },
   ];
 
   CASES.forEach(({ description, given, expect: expected }) => {
@@ -118,6 +128,23 @@ describe('dividePrice', () => {
         },
         expect: { output: 'USD 3.33' },
       },
+      {
+        description:
+          'floor with a negative divisor rounds toward negative infinity',
+        given: {
+          input: { of: 'USD 10.00', by: -3 },
+          options: { round: IsoPriceRoundMode.FLOOR },
+        },
+        expect: { output: 'USD -3.34' },
+      },
+      {
+        description: 'half-even tie with a negative result goes to even',
+        given: {
+          input: { of: 'USD -0.03', by: 2 },
+          options: { round: IsoPriceRoundMode.HALF_EVEN },
+        },
+        expect: { output: 'USD -0.02' },
+      },
     ];
 
     ROUND_CASES.forEach(({ description, given, expect: expected }) => {
@@ -128,6 +155,59 @@ describe('dividePrice', () => {
     });
   });
 
+  describe('.fractional-divisors', () => {
+    const FRACTIONAL_CASES = [
+      {
+        description: 'float divisor 2.5',
+        given: { input: { of: 'USD 10.00', by: 2.5 } },
+        expect: { output: 'USD 4.00' },
+      },
+      {
+        description: 'float divisor below one (0.4)',
+        given: { input: { of: 'USD 10.00', by: 0.4 } },
+        expect: { output: 'USD 25.00' },
+      },
+      {
+        description: 'decimal string divisor',
+        given: { input: { of: 'USD 100.00', by: '1.0825' } },
+        expect: { output: 'USD 92.38' },
+      },
+      {
+        description: 'rational divisor',
+        given: {
+          input: { of: 'USD 10.00', by: { numerator: 2, denominator: 3 } },
+        },
+        expect: { output: 'USD 15.00' },
+      },
+      {
+        description: 'bigint divisor',
+        given: { input: { of: 'USD 10.00', by: 4n } },
+        expect: { output: 'USD 2.50' },
+      },
+      {
+        description: 'negative fractional divisor',
+        given: { input: { of: 'USD 10.00', by: '-0.5' } },
+        expect: { output: 'USD -20.00' },
+      },
+      {
+        description: 'large fractional divisor scales like its value',
+        given: { input: { of: 'USD 1.00', by: '1500.5' } },
+        expect: { output: 'USD 0.001' },
+      },
+      {
+        description: 'divisor just below 100 keeps input precision',
+        given: { input: { of: 'USD 1.00', by: 99.5 } },
+        expect: { output: 'USD 0.01' },
+      },
+    ];
+
+    FRACTIONAL_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        expect(dividePrice(given.input)).toEqual(expected.output);
+      });
+    });
+  });
+
   describe('.error', () => {
     test('throws on divide by zero', async () => {
       const error = await getError(async () =>
@@ -136,5 +216,60 @@ describe('dividePrice', () => {
       expect(error).toBeInstanceOf(BadRequestError);
       expect(error.message).toContain('divide by zero');
     });
+
+    test('throws on a float divisor that underflows to zero', async () => {
+      const error = await getError(async () =>
+        dividePrice({ of: 'USD 10.00', by: 1e-200 * 1e-200 }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('divide by zero');
+    });
+
+    test('throws on a zero decimal string', async () => {
+      const error = await getError(async () =>
+        dividePrice({ of: 'USD 10.00', by: '0.000' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('divide by zero');
+    });
+
+    test('throws on a zero bigint divisor', async () => {
+      const error = await getError(async () =>
+        dividePrice({ of: 'USD 10.00', by: 0n }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('divide by zero');
+    });
+
+    test('throws on a zero rational denominator', async () => {
+      const error = await getError(async () =>
+        dividePrice({ of: 'USD 10.00', by: { numerator: 1, denominator: 0 } }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+    });
+  });
+
+  describe('.round-modes-on-negatives', () => {
+    // a tie at -0.025, whose toward-zero neighbor (2) is even
+    const MODE_CASES = [
+      { round: IsoPriceRoundMode.FLOOR, output: 'USD -0.03' },
+      { round: IsoPriceRoundMode.CEIL, output: 'USD -0.02' },
+      { round: IsoPriceRoundMode.TRUNC, output: 'USD -0.02' },
+      { round: IsoPriceRoundMode.AWAY_FROM_ZERO, output: 'USD -0.03' },
+      { round: IsoPriceRoundMode.HALF_UP, output: 'USD -0.03' },
+      { round: IsoPriceRoundMode.HALF_AWAY_FROM_ZERO, output: 'USD -0.03' },
+      { round: IsoPriceRoundMode.HALF_DOWN, output: 'USD -0.02' },
+      { round: IsoPriceRoundMode.HALF_TOWARD_ZERO, output: 'USD -0.02' },
+      { round: IsoPriceRoundMode.HALF_EVEN, output: 'USD -0.02' },
+      { round: IsoPriceRoundMode.HALF_ODD, output: 'USD -0.03' },
+    ];
+
+    MODE_CASES.forEach(({ round, output }) => {
+      test(`${round}: USD -0.05 ÷ 2`, () => {
+        expect(dividePrice({ of: 'USD -0.05', by: 2 }, { round })).toEqual(
+          output,
+        );
+      });
+    });
   });
 });
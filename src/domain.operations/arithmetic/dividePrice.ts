@@ -5,40 +5,42 @@ import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
 import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
 import type { IsoPriceShape } from '../../domain.objects/IsoPriceShape';
 import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import type { IsoRatio } from '../../domain.objects/IsoRatio';
+import type { IsoRatioInput } from '../../domain.objects/IsoRatioInput';
 import { asIsoPriceShape } from '../cast/asIsoPriceShape';
 import { asIsoPriceWords } from '../cast/asIsoPriceWords';
-
-/**
- * .what = gets the numeric exponent value from exponent string
- * .why = needed for precision calculation
- */
-const getExponentValue = (exponent: IsoPriceExponent): number => {
-  const match = exponent.match(/\^(-?\d+)$/);
-  if (!match) return -2; // default to centi
-  return parseInt(match[1]!, 10);
-};
+import { asIsoRatio, describeIsoRatioInput } from '../cast/asIsoRatio';
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
+import { roundBigintByMode } from '../precision/roundBigintByMode';
 
 /**
  * .what = determines required precision based on divisor
  * .why = ensures result has meaningful precision for large divisors
+ *
+ * compares the exact magnitude of the divisor, so fractional divisors scale like their value
  */
 const getRequiredExponent = (
   inputExponent: IsoPriceExponent,
-  divisor: number,
+  divisor: IsoRatio,
 ): IsoPriceExponent => {
-  const absDivisor = Math.abs(divisor);
+  const absNumerator =
+    divisor.numerator < 0n ? -divisor.numerator : divisor.numerator;
+  const isBelow = (threshold: bigint): boolean =>
+    absNumerator < threshold * divisor.denominator;
 
   // for small divisors (< 100), maintain input precision with round
-  if (absDivisor < 100) return inputExponent as IsoPriceExponent;
-
-  // for medium divisors (100 - 999,999), use milli precision
-  if (absDivisor < 1_000_000) return IsoPriceExponent.MILLI;
-
-  // for large divisors (1M - 999M), use nano precision
-  if (absDivisor < 1_000_000_000) return IsoPriceExponent.NANO;
-
-  // for huge divisors, use pico precision
-  return IsoPriceExponent.PICO;
+  if (isBelow(100n)) return inputExponent as IsoPriceExponent;
+
+  // never scale to less precision than the input already has (e.g., x10^-18)
+  const scaledExponent = isBelow(1_000_000n)
+    ? IsoPriceExponent.MILLI // medium divisors (100 - 999,999)
+    : isBelow(1_000_000_000n)
+      ? IsoPriceExponent.NANO // large divisors (1M - 999M)
+      : IsoPriceExponent.PICO; // huge divisors
+  return getIsoPriceExponentValue(inputExponent) <
+    getIsoPriceExponentValue(scaledExponent)
+    ? inputExponent
+    : scaledExponent;
 };
 
 /**
@@ -48,7 +50,11 @@ const getRequiredExponent = (
  * auto-scales precision when divisors are large.
  * for small divisors, maintains input precision with round.
  *
- * @throws BadRequestError if divisor is zero
+ * the divisor may be a number, a bigint, an exact decimal string, or a
+ * `{ numerator, denominator }` rational; the quotient is computed entirely in bigint
+ * and rounded once.
+ *
+ * @throws BadRequestError if divisor is zero (including floats that underflow to zero, e.g., 1e-200 * 1e-200)
  *
  * @example
  * dividePrice({ of: 'USD 10.00', by: 4 })
@@ -57,21 +63,41 @@ const getRequiredExponent = (
  * @example
  * dividePrice({ of: '$0.25', by: 1_000_000 })
  * // => 'USD 0.000_000_250' (nano precision)
+ *
+ * @example
+ * dividePrice({ of: 'USD 10.00', by: 2.5 })
+ * // => 'USD 4.00'
+ *
+ * @example
+ * dividePrice({ of: 'USD 10.00', by: { numerator: 2, denominator: 3 } })
+ * // => 'USD 15.00'
  */
 export function dividePrice<TCurrency extends string = string>(
-  input: { of: IsoPrice<TCurrency> | string; by: number },
+  input: {
+    of: IsoPrice<TCurrency> | string;
+    by: IsoRatioInput;
+  },
   options?: { format?: 'words'; round?: IsoPriceRoundMode },
 ): IsoPriceWords<TCurrency>;
 export function dividePrice<TCurrency extends string = string>(
-  input: { of: IsoPrice<TCurrency> | string; by: number },
+  input: {
+    of: IsoPrice<TCurrency> | string;
+    by: IsoRatioInput;
+  },
   options: { format: 'shape'; round?: IsoPriceRoundMode },
 ): IsoPriceShape<TCurrency>;
 export function dividePrice<TCurrency extends string = string>(
-  input: { of: IsoPrice<TCurrency> | string; by: number },
+  input: {
+    of: IsoPrice<TCurrency> | string;
+    by: IsoRatioInput;
+  },
   options?: { format?: 'words' | 'shape'; round?: IsoPriceRoundMode },
 ): IsoPriceWords<TCurrency> | IsoPriceShape<TCurrency> {
-  if (input.by === 0) {
-    throw new BadRequestError('cannot divide by zero', { input });
+  const divisorRatio = asIsoRatio(input.by);
+  if (divisorRatio.numerator === 0n) {
+    throw new BadRequestError('cannot divide by zero', {
+      by: describeIsoRatioInput(input.by),
+    });
   }
 
   const shape = asIsoPriceShape(input.of);
@@ -79,73 +105,22 @@ export function dividePrice<TCurrency extends string = string>(
   const roundMode = options?.round ?? IsoPriceRoundMode.HALF_UP;
 
   // determine output precision based on divisor
-  const outputExponent = getRequiredExponent(inputExponent, input.by);
-  const outputExpValue = getExponentValue(outputExponent);
-  const inputExpValue = getExponentValue(inputExponent);
+  const outputExponent = getRequiredExponent(inputExponent, divisorRatio);
+  const outputExpValue = getIsoPriceExponentValue(outputExponent);
+  const inputExpValue = getIsoPriceExponentValue(inputExponent);
 
   // scale amount to output precision
   const scaleDiff = inputExpValue - outputExpValue;
   const scaledAmount = shape.amount * 10n ** BigInt(scaleDiff);
 
-  // perform division with round
-  const divisor = BigInt(Math.round(Math.abs(input.by)));
-  const sign = input.by < 0 ? -1n : 1n;
-
-  let quotient: bigint;
-  const remainder = scaledAmount % divisor;
-
-  // apply round mode
-  if (remainder === 0n) {
-    quotient = scaledAmount / divisor;
-  } else {
-    const baseQuotient = scaledAmount / divisor;
-    const isNegative = scaledAmount < 0n;
-    const absRemainder = remainder < 0n ? -remainder : remainder;
-    // use doubled remainder for accurate half comparison (avoids truncation from divisor/2)
-    const doubledRemainder = absRemainder * 2n;
-    const isExactlyHalf = doubledRemainder === divisor;
-    const isMoreThanHalf = doubledRemainder > divisor;
-
-    switch (roundMode) {
-      case IsoPriceRoundMode.FLOOR:
-        quotient = isNegative ? baseQuotient - 1n : baseQuotient;
-        break;
-      case IsoPriceRoundMode.CEIL:
-        quotient = isNegative ? baseQuotient : baseQuotient + 1n;
-        break;
-      case IsoPriceRoundMode.HALF_UP:
-        quotient =
-          isExactlyHalf || isMoreThanHalf
-            ? isNegative
-              ? baseQuotient - 1n
-              : baseQuotient + 1n
-            : baseQuotient;
-        break;
-      case IsoPriceRoundMode.HALF_DOWN:
-        quotient = isMoreThanHalf
-          ? isNegative
-            ? baseQuotient - 1n
-            : baseQuotient + 1n
-          : baseQuotient;
-        break;
-      case IsoPriceRoundMode.HALF_EVEN: {
-        const isEven = baseQuotient % 2n === 0n;
-        if (isExactlyHalf) {
-          quotient = isEven ? baseQuotient : baseQuotient + 1n;
-        } else if (isMoreThanHalf) {
-          quotient = isNegative ? baseQuotient - 1n : baseQuotient + 1n;
-        } else {
-          quotient = baseQuotient;
-        }
-        break;
-      }
-      default:
-        quotient = baseQuotient;
-    }
-  }
-
-  // apply divisor sign
-  quotient = quotient * sign;
+  // divide by the rational exactly: amount / (n / d) = amount × d / n, rounded once
+  const quotient = roundBigintByMode(
+    {
+      of: scaledAmount * divisorRatio.denominator,
+      by: divisorRatio.numerator,
+    },
+    { round: roundMode },
+  );
 
   // build result shape
   const resultShape: IsoPriceShape<TCurrency> = {
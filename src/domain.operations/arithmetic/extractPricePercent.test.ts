@@ -0,0 +1,85 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import { applyPricePercent } from './applyPricePercent';
+import { extractPricePercent } from './extractPricePercent';
+import { sumPrices } from './sumPrices';
+
+describe('extractPricePercent', () => {
+  const CASES = [
+    {
+      description: 'vat from an inclusive gross',
+      given: { input: { gross: 'EUR 119.00', percent: '19' } },
+      expect: { net: 'EUR 100.00', delta: 'EUR 19.00' },
+    },
+    {
+      description: 'net that does not divide evenly',
+      given: { input: { gross: 'EUR 10.00', percent: '19' } },
+      expect: { net: 'EUR 8.40', delta: 'EUR 1.60' },
+    },
+    {
+      description: 'decimal percent',
+      given: { input: { gross: 'USD 108.25', percent: '8.25' } },
+      expect: { net: 'USD 100.00', delta: 'USD 8.25' },
+    },
+    {
+      description: 'reverses a discount',
+      given: { input: { gross: 'USD 34.00', percent: '-15' } },
+      expect: { net: 'USD 40.00', delta: 'USD -6.00' },
+    },
+    {
+      description: 'zero percent',
+      given: { input: { gross: 'USD 34.00', percent: 0 } },
+      expect: { net: 'USD 34.00', delta: 'USD 0.00' },
+    },
+    {
+      description: 'honors the round mode on the net',
+      given: {
+        input: { gross: 'EUR 10.00', percent: '19' },
+        options: { round: IsoPriceRoundMode.CEIL },
+      },
+      expect: { net: 'EUR 8.41', delta: 'EUR 1.59' },
+    },
+    {
+      description: 'negative gross (a refund)',
+      given: { input: { gross: 'EUR -119.00', percent: '19' } },
+      expect: { net: 'EUR -100.00', delta: 'EUR -19.00' },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(extractPricePercent(given.input, given.options)).toEqual(expected);
+    });
+  });
+
+  test('net plus delta always equals the gross', () => {
+    ['0.01', '8.25', '19', '7.7', '-12.5'].forEach((percent) => {
+      const { net, delta } = extractPricePercent({
+        gross: 'CHF 99.95',
+        percent,
+      });
+      expect(sumPrices(net, delta)).toEqual('CHF 99.95');
+    });
+  });
+
+  test('recovers the net that applyPricePercent marked up', () => {
+    ['USD 100.00', 'USD 19.99', 'USD 0.07', 'USD 1_234.56'].forEach((of) => {
+      const { total } = applyPricePercent({ of, percent: '8.25' });
+      expect(
+        extractPricePercent({ gross: total, percent: '8.25' }).net,
+      ).toEqual(of);
+    });
+  });
+
+  describe('.error', () => {
+    test('throws on a percent of -100', () => {
+      const error = getError(() =>
+        extractPricePercent({ gross: 'USD 10.00', percent: '-100' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('cannot extract a percent of -100');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import type { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import type { IsoRatioInput } from '../../domain.objects/IsoRatioInput';
+import { asIsoPriceShape } from '../cast/asIsoPriceShape';
+import { asIsoPriceWords } from '../cast/asIsoPriceWords';
+import { asIsoRatio } from '../cast/asIsoRatio';
+import { multiplyPrice } from './multiplyPrice';
+
+/**
+ * .what = extracts a percent that a gross price already includes
+ * .why = enables net from a vat-inclusive gross, the reverse of `applyPricePercent`
+ *
+ * the net is the gross divided by (1 + percent / 100), rounded once, back to input precision.
+ * the delta is the gross minus that net, so `net + delta = gross` always holds exactly
+ *
+ * @throws BadRequestError if the percent is -100, which no net can mark up to a gross
+ *
+ * @example
+ * extractPricePercent({ gross: 'EUR 119.00', percent: '19' })
+ * // => { net: 'EUR 100.00', delta: 'EUR 19.00' }
+ *
+ * @example
+ * extractPricePercent({ gross: 'EUR 10.00', percent: '19' })
+ * // => { net: 'EUR 8.40', delta: 'EUR 1.60' }
+ */
+export const extractPricePercent = <TCurrency extends string = string>(
+  input: {
+    gross: IsoPrice<TCurrency> | string;
+    percent: IsoRatioInput;
+  },
+  options?: { round?: IsoPriceRoundMode },
+): {
+  net: IsoPriceWords<TCurrency>;
+  delta: IsoPriceWords<TCurrency>;
+} => {
+  // net = gross × 100 / (100 + percent)
+  const percent = asIsoRatio(input.percent);
+  const markup = percent.denominator * 100n + percent.numerator;
+  if (markup === 0n) {
+    throw new BadRequestError('cannot extract a percent of -100', {
+      gross: asIsoPriceWords(input.gross),
+      percent: `${percent.numerator}/${percent.denominator}`,
+    });
+  }
+  const net = multiplyPrice<TCurrency>(
+    {
+      of: input.gross,
+      by: { numerator: percent.denominator * 100n, denominator: markup },
+    },
+    { round: options?.round, format: 'shape' },
+  );
+
+  // the delta is whatever the net leaves of the gross
+  const gross = asIsoPriceShape(input.gross);
+  return {
+    net: asIsoPriceWords<TCurrency>(net),
+    delta: asIsoPriceWords<TCurrency>({
+      ...net,
+      amount: gross.amount - net.amount,
+    }),
+  };
+};
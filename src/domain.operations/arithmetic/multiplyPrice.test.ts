@@ -1,3 +1,6 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
 import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
 import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
 import { multiplyPrice } from './multiplyPrice';
@@ -83,6 +86,87 @@ describe('multiplyPrice', () => {
     });
   });
 
+  describe('.exact-multipliers', () => {
+    const EXACT_CASES = [
+      {
+        description: 'decimal string',
+        given: { input: { of: 'USD 100.00', by: '1.0825' } },
+        expect: { output: 'USD 108.25' },
+      },
+      {
+        description: 'decimal string beyond 12 decimals',
+        given: {
+          input: { of: 'USD 1_000_000_000.00', by: '0.000_000_000_000_5' },
+        },
+        expect: { output: 'USD 0.00' },
+      },
+      {
+        description: 'decimal string beyond 12 decimals at micro precision',
+        given: {
+          input: { of: 'USD 1_000_000_000.000000', by: '0.000_000_000_001_5' },
+        },
+        expect: { output: 'USD 0.001_500' },
+      },
+      {
+        description: 'bigint',
+        given: { input: { of: 'USD 0.01', by: 10n ** 30n } },
+        expect: { output: 'USD 10_000_000_000_000_000_000_000_000_000.00' },
+      },
+      {
+        description: 'huge float beyond the 1e12-scaled range',
+        given: { input: { of: 'USD 0.01', by: 1e20 } },
+        expect: { output: 'USD 1_000_000_000_000_000_000.00' },
+      },
+      {
+        description: 'rational one third',
+        given: {
+          input: { of: 'USD 100.00', by: { numerator: 1, denominator: 3 } },
+        },
+        expect: { output: 'USD 33.33' },
+      },
+      {
+        description: 'rational two thirds rounds once',
+        given: {
+          input: { of: 'USD 100.00', by: { numerator: 2n, denominator: 3n } },
+        },
+        expect: { output: 'USD 66.67' },
+      },
+      {
+        description: 'float artifacts do not leak',
+        given: { input: { of: 'USD 0.10', by: 0.1 * 3 } },
+        expect: { output: 'USD 0.03' },
+      },
+      {
+        description: 'negative decimal string',
+        given: { input: { of: 'USD 10.00', by: '-0.5' } },
+        expect: { output: 'USD -5.00' },
+      },
+    ];
+
+    EXACT_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        expect(multiplyPrice(given.input)).toEqual(expected.output);
+      });
+    });
+
+    test('odd denominators round at the true half', () => {
+      // 0.01 × 1/3 = 0.00333..., which is below half a cent
+      expect(
+        multiplyPrice({ of: 'USD 0.01', by: { numerator: 1, denominator: 3 } }),
+      ).toEqual('USD 0.00');
+    });
+
+    test('rejects a scientific exponent out of range, without stalling', () => {
+      const error = getError(() =>
+        multiplyPrice({ of: 'USD 1.00', by: '1e300000000' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'ratio scientific exponent is out of range',
+      );
+    });
+  });
+
   describe('.format-option', () => {
     test('default format is words', () => {
       const result = multiplyPrice({ of: 'USD 10.00', by: 3 });
@@ -138,4 +222,28 @@ describe('multiplyPrice', () => {
       });
     });
   });
+
+  describe('.round-modes-on-negatives', () => {
+    // a tie at -3.355, whose toward-zero neighbor (335) is odd
+    const MODE_CASES = [
+      { round: IsoPriceRoundMode.FLOOR, output: 'USD -3.36' },
+      { round: IsoPriceRoundMode.CEIL, output: 'USD -3.35' },
+      { round: IsoPriceRoundMode.TRUNC, output: 'USD -3.35' },
+      { round: IsoPriceRoundMode.AWAY_FROM_ZERO, output: 'USD -3.36' },
+      { round: IsoPriceRoundMode.HALF_UP, output: 'USD -3.36' },
+      { round: IsoPriceRoundMode.HALF_AWAY_FROM_ZERO, output: 'USD -3.36' },
+      { round: IsoPriceRoundMode.HALF_DOWN, output: 'USD -3.35' },
+      { round: IsoPriceRoundMode.HALF_TOWARD_ZERO, output: 'USD -3.35' },
+      { round: IsoPriceRoundMode.HALF_EVEN, output: 'USD -3.36' },
+      { round: IsoPriceRoundMode.HALF_ODD, output: 'USD -3.35' },
+    ];
+
+    MODE_CASES.forEach(({ round, output }) => {
+      test(`${round}: USD -10.00 × 0.3355`, () => {
+        expect(
+          multiplyPrice({ of: 'USD -10.00', by: '0.3355' }, { round }),
+        ).toEqual(output);
+      });
+    });
+  });
 });
@@ -0,0 +1,32 @@
+import { asIsoPriceBag } from '../cast/asIsoPriceBag';
+import { asIsoPriceBagWords } from '../cast/asIsoPriceBagWords';
+import { negatePriceBag } from './negatePriceBag';
+
+describe('negatePriceBag', () => {
+  test('negates every total', () => {
+    expect(
+      asIsoPriceBagWords(
+        negatePriceBag(asIsoPriceBag('USD 10.00 + EUR -5.00')),
+      ),
+    ).toEqual('USD -10.00 + EUR 5.00');
+  });
+
+  test('keeps each precision', () => {
+    expect(
+      asIsoPriceBagWords(negatePriceBag(asIsoPriceBag('USD 0.000_250'))),
+    ).toEqual('USD -0.000_250');
+  });
+
+  test('negates twice back to the input', () => {
+    const bag = asIsoPriceBag('USD 10.00 + JPY 1_000');
+    expect(asIsoPriceBagWords(negatePriceBag(negatePriceBag(bag)))).toEqual(
+      'USD 10.00 + JPY 1_000',
+    );
+  });
+
+  test('never mutates its input', () => {
+    const bag = asIsoPriceBag('USD 10.00');
+    negatePriceBag(bag);
+    expect(asIsoPriceBagWords(bag)).toEqual('USD 10.00');
+  });
+});
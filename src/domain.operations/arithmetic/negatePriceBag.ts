@@ -0,0 +1,24 @@
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import type { IsoPriceBag } from '../../domain.objects/IsoPriceBag';
+import { asIsoPriceBag } from '../cast/asIsoPriceBag';
+
+/**
+ * .what = negates every total in a bag
+ * .why = enables refunds and reversals of mixed-currency totals
+ *
+ * each total keeps its currency and precision; the input is never mutated
+ *
+ * @example
+ * negatePriceBag(asIsoPriceBag('USD 10.00 + EUR -5.00'))
+ * // => bag of 'USD -10.00 + EUR 5.00'
+ */
+export const negatePriceBag = (
+  bag: IsoPriceBag | IsoPrice | string,
+): IsoPriceBag => ({
+  totals: new Map(
+    [...asIsoPriceBag(bag).totals].map(([currency, total]) => [
+      currency,
+      { ...total, amount: -total.amount },
+    ]),
+  ),
+});
@@ -0,0 +1,52 @@
+import { asIsoPriceBag } from '../cast/asIsoPriceBag';
+import { asIsoPriceBagWords } from '../cast/asIsoPriceBagWords';
+import { subPriceBags } from './subPriceBags';
+
+describe('subPriceBags', () => {
+  const CASES = [
+    {
+      description: 'price from a bag',
+      given: { minuend: 'USD 10.00 + EUR 5.00', subtrahend: 'USD 2.50' },
+      expect: { output: 'USD 7.50 + EUR 5.00' },
+    },
+    {
+      description: 'currency only in the subtrahend',
+      given: { minuend: 'USD 10.00', subtrahend: 'EUR 5.00' },
+      expect: { output: 'USD 10.00 + EUR -5.00' },
+    },
+    {
+      description: 'bag from a bag, to zero',
+      given: {
+        minuend: 'USD 10.00 + EUR 5.00',
+        subtrahend: 'EUR 5.00 + USD 10.00',
+      },
+      expect: { output: 'USD 0.00 + EUR 0.00' },
+    },
+    {
+      description: 'mixed precision',
+      given: { minuend: 'USD 1.00', subtrahend: 'USD 0.000_250' },
+      expect: { output: 'USD 0.999_750' },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(
+        asIsoPriceBagWords(
+          subPriceBags(
+            asIsoPriceBag(given.minuend),
+            asIsoPriceBag(given.subtrahend),
+          ),
+        ),
+      ).toEqual(expected.output);
+    });
+  });
+
+  test('never mutates its inputs', () => {
+    const minuend = asIsoPriceBag('USD 10.00');
+    const subtrahend = asIsoPriceBag('USD 2.50');
+    subPriceBags(minuend, subtrahend);
+    expect(asIsoPriceBagWords(minuend)).toEqual('USD 10.00');
+    expect(asIsoPriceBagWords(subtrahend)).toEqual('USD 2.50');
+  });
+});
@@ -0,0 +1,23 @@
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import type { IsoPriceBag } from '../../domain.objects/IsoPriceBag';
+import { negatePriceBag } from './negatePriceBag';
+import { sumPriceBags } from './sumPriceBags';
+
+/**
+ * .what = subtracts a price or bag from another, per currency
+ * .why = enables mixed-currency differences, e.g., a budget less its expenses
+ *
+ * a currency only in the subtrahend enters the result negated; the inputs are never mutated
+ *
+ * @example
+ * subPriceBags(asIsoPriceBag('USD 10.00 + EUR 5.00'), 'USD 2.50')
+ * // => bag of 'USD 7.50 + EUR 5.00'
+ *
+ * @example
+ * subPriceBags(asIsoPriceBag('USD 10.00'), 'EUR 5.00')
+ * // => bag of 'USD 10.00 + EUR -5.00'
+ */
+export const subPriceBags = (
+  minuend: IsoPriceBag | IsoPrice | string,
+  subtrahend: IsoPriceBag | IsoPrice | string,
+): IsoPriceBag => sumPriceBags(minuend, negatePriceBag(subtrahend));
@@ -6,16 +6,7 @@ import type { IsoPriceShape } from '../../domain.objects/IsoPriceShape';
 import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
 import { asIsoPriceShape } from '../cast/asIsoPriceShape';
 import { asIsoPriceWords } from '../cast/asIsoPriceWords';
-
-/**
- * .what = gets the numeric exponent value from exponent string
- * .why = needed for precision comparison and normalization
- */
-const getExponentValue = (exponent: IsoPriceExponent): number => {
-  const match = exponent.match(/\^(-?\d+)$/);
-  if (!match) return -2; // default to centi
-  return parseInt(match[1]!, 10);
-};
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
 
 /**
  * .what = subtracts second price from first
@@ -61,10 +52,10 @@ export function subPrices<TCurrency extends string = string>(
   const currency = minuendShape.currency as TCurrency;
 
   // find the highest precision (lowest exponent value)
-  const minuendExp = getExponentValue(
+  const minuendExp = getIsoPriceExponentValue(
     minuendShape.exponent ?? IsoPriceExponent.CENTI,
   );
-  const subtrahendExp = getExponentValue(
+  const subtrahendExp = getIsoPriceExponentValue(
     subtrahendShape.exponent ?? IsoPriceExponent.CENTI,
   );
   const targetExponentValue = Math.min(minuendExp, subtrahendExp);
@@ -0,0 +1,44 @@
+import { asIsoPriceBag } from '../cast/asIsoPriceBag';
+import { asIsoPriceBagWords } from '../cast/asIsoPriceBagWords';
+import { addPriceBags, sumPriceBags } from './sumPriceBags';
+
+describe('sumPriceBags', () => {
+  test('adds prices of mixed currencies', () => {
+    expect(
+      asIsoPriceBagWords(sumPriceBags('USD 10.00', 'EUR 5.00', 'USD 2.50')),
+    ).toEqual('USD 12.50 + EUR 5.00');
+  });
+
+  test('adds bags to bags', () => {
+    expect(
+      asIsoPriceBagWords(
+        sumPriceBags(
+          asIsoPriceBag('USD 10.00 + EUR 5.00'),
+          asIsoPriceBag('EUR 1.00 + JPY 500'),
+        ),
+      ),
+    ).toEqual('USD 10.00 + EUR 6.00 + JPY 500');
+  });
+
+  test('merges exponents as sumPrices does', () => {
+    expect(
+      asIsoPriceBagWords(sumPriceBags('USD 1.00', 'USD 0.000_250')),
+    ).toEqual('USD 1.000_250');
+  });
+
+  test('returns a new bag and never mutates its inputs', () => {
+    const bag = asIsoPriceBag('USD 10.00');
+    const sum = sumPriceBags(bag, 'USD 5.00');
+    expect(sum).not.toBe(bag);
+    expect(asIsoPriceBagWords(bag)).toEqual('USD 10.00');
+    expect(asIsoPriceBagWords(sum)).toEqual('USD 15.00');
+  });
+
+  test('is empty when given nothing', () => {
+    expect(sumPriceBags().totals.size).toEqual(0);
+  });
+
+  test('addPriceBags is an alias', () => {
+    expect(addPriceBags).toBe(sumPriceBags);
+  });
+});
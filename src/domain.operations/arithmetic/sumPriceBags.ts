@@ -0,0 +1,24 @@
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import type { IsoPriceBag } from '../../domain.objects/IsoPriceBag';
+import { asIsoPriceBag } from '../cast/asIsoPriceBag';
+
+/**
+ * .what = adds prices and bags of any currencies into a new bag
+ * .why = enables mixed-currency totals, e.g., a cart priced in USD and EUR
+ *
+ * prices of one currency merge at their highest precision, as `sumPrices` merges them.
+ * the inputs are never mutated
+ *
+ * @example
+ * sumPriceBags(asIsoPriceBag('USD 10.00'), 'EUR 5.00', 'USD 2.50')
+ * // => bag of 'USD 12.50 + EUR 5.00'
+ */
+export const sumPriceBags = (
+  ...items: (IsoPriceBag | IsoPrice | string)[]
+): IsoPriceBag => asIsoPriceBag(items);
+
+/**
+ * .what = alias for sumPriceBags
+ * .why = provides semantic name for binary addition
+ */
+export const addPriceBags = sumPriceBags;
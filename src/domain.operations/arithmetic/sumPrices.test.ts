@@ -110,6 +110,27 @@ describe('sumPrices', () => {
       },
       expect: { output: 'USD -70.00' },
     },
+    // arbitrary exponents
+    {
+      description: 'normalizes thousands (x10^3) with cents',
+      given: {
+        input: [
+          { amount: 5n, currency: 'USD', exponent: 'x10^3' as const },
+          { amount: 150n, currency: 'USD' },
+        ],
+      },
+      expect: { output: 'USD 5_001.50' },
+    },
+    {
+      description: 'normalizes satoshis (x10^-8) with cents',
+      given: {
+        input: [
+          { amount: 1n, currency: 'BTC', exponent: 'x10^-8' as const },
+          { amount: 150n, currency: 'BTC' },
+        ],
+      },
+      expect: { output: 'BTC 1.500_000_01' },
+    },
   ];
 
   CASES.forEach(({ description, given, expect: expected }) => {
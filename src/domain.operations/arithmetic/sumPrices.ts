@@ -6,16 +6,7 @@ import type { IsoPriceShape } from '../../domain.objects/IsoPriceShape';
 import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
 import { asIsoPriceShape } from '../cast/asIsoPriceShape';
 import { asIsoPriceWords } from '../cast/asIsoPriceWords';
-
-/**
- * .what = gets the numeric exponent value from exponent string
- * .why = needed for precision comparison and normalization
- */
-const getExponentValue = (exponent: IsoPriceExponent): number => {
-  const match = exponent.match(/\^(-?\d+)$/);
-  if (!match) return -2; // default to centi
-  return parseInt(match[1]!, 10);
-};
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
 
 /**
  * .what = sums multiple prices
@@ -87,7 +78,7 @@ export function sumPrices<TCurrency extends string = string>(
   const exponents = shapes.map(
     (s) => s.exponent ?? IsoPriceExponent.CENTI,
   ) as IsoPriceExponent[];
-  const exponentValues = exponents.map(getExponentValue);
+  const exponentValues = exponents.map(getIsoPriceExponentValue);
   const targetExponentValue = Math.min(...exponentValues);
   const targetExponent =
     exponents[exponentValues.indexOf(targetExponentValue)]!;
@@ -96,7 +87,7 @@ export function sumPrices<TCurrency extends string = string>(
   let total = 0n;
   for (let i = 0; i < shapes.length; i++) {
     const shape = shapes[i]!;
-    const currentExp = getExponentValue(
+    const currentExp = getIsoPriceExponentValue(
       shape.exponent ?? IsoPriceExponent.CENTI,
     );
     const shift = currentExp - targetExponentValue;
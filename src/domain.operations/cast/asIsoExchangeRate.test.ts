@@ -0,0 +1,144 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { asIsoExchangeRate } from './asIsoExchangeRate';
+
+describe('asIsoExchangeRate', () => {
+  const CASES = [
+    {
+      description: 'words',
+      given: { input: 'USD/EUR 0.912_345' },
+      expect: { output: { from: 'USD', to: 'EUR', rate: '0.912345' } },
+    },
+    {
+      description: 'words with an as-of',
+      given: { input: 'USD/EUR 0.912_345 @ 2025-06-02T16:00:00Z' },
+      expect: {
+        output: {
+          from: 'USD',
+          to: 'EUR',
+          rate: '0.912345',
+          asOf: '2025-06-02T16:00:00Z',
+        },
+      },
+    },
+    {
+      description: 'structured rate is kept',
+      given: { input: { from: 'EUR', to: 'JPY', rate: '162.35' } },
+      expect: { output: { from: 'EUR', to: 'JPY', rate: '162.35' } },
+    },
+    {
+      description: 'structured rate loses its underscores',
+      given: { input: { from: 'BTC', to: 'JPY', rate: '15_000_000' } },
+      expect: { output: { from: 'BTC', to: 'JPY', rate: '15000000' } },
+    },
+    {
+      description: 'structured rate keeps its as-of',
+      given: {
+        input: { from: 'USD', to: 'EUR', rate: '0.91', asOf: '2025-06-02' },
+      },
+      expect: {
+        output: { from: 'USD', to: 'EUR', rate: '0.91', asOf: '2025-06-02' },
+      },
+    },
+    {
+      description: 'structured rate keeps an as-of with an offset',
+      given: {
+        input: {
+          from: 'USD',
+          to: 'EUR',
+          rate: '0.91',
+          asOf: '2025-06-02T12:00:00-04:00',
+        },
+      },
+      expect: {
+        output: {
+          from: 'USD',
+          to: 'EUR',
+          rate: '0.91',
+          asOf: '2025-06-02T12:00:00-04:00',
+        },
+      },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(asIsoExchangeRate(given.input)).toEqual(expected.output);
+    });
+  });
+
+  describe('.error', () => {
+    const ERROR_CASES = [
+      {
+        description: 'malformed words',
+        given: { input: 'USD EUR 0.91' },
+        expect: { message: 'value is not a valid IsoExchangeRateWords' },
+      },
+      {
+        description: 'lowercase codes',
+        given: { input: { from: 'usd', to: 'EUR', rate: '0.91' } },
+        expect: { message: 'exchange rate currencies must be codes' },
+      },
+      {
+        description: 'unregistered long code, as the words form rejects it',
+        given: { input: { from: 'USDX', to: 'EUR', rate: '0.91' } },
+        expect: { message: 'exchange rate currencies must be codes' },
+      },
+      {
+        description: 'float-like rate',
+        given: { input: { from: 'USD', to: 'EUR', rate: '9.1e-1' } },
+        expect: { message: 'exchange rate must be an exact decimal' },
+      },
+      {
+        description: 'negative rate',
+        given: { input: { from: 'USD', to: 'EUR', rate: '-0.91' } },
+        expect: { message: 'exchange rate must be an exact decimal' },
+      },
+      {
+        description: 'zero rate',
+        given: { input: 'USD/EUR 0.000' },
+        expect: { message: 'exchange rate must be positive' },
+      },
+      {
+        description: 'loose as-of',
+        given: {
+          input: { from: 'USD', to: 'EUR', rate: '0.91', asOf: 'June 2' },
+        },
+        expect: { message: 'exchange rate asOf must be an iso 8601 moment' },
+      },
+      {
+        description: 'impossible as-of',
+        given: {
+          input: { from: 'USD', to: 'EUR', rate: '0.91', asOf: '2025-13-40' },
+        },
+        expect: { message: 'exchange rate asOf must be an iso 8601 moment' },
+      },
+      {
+        description: 'as-of moment without a zone',
+        given: {
+          input: {
+            from: 'USD',
+            to: 'EUR',
+            rate: '0.91',
+            asOf: '2025-06-02T16:00',
+          },
+        },
+        expect: { message: 'exchange rate asOf must be an iso 8601 moment' },
+      },
+      {
+        description: 'words with an as-of moment without a zone',
+        given: { input: 'USD/EUR 0.91 @ 2025-06-02T16:00:00' },
+        expect: { message: 'exchange rate asOf must be an iso 8601 moment' },
+      },
+    ];
+
+    ERROR_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        const error = getError(() => asIsoExchangeRate(given.input));
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain(expected.message);
+      });
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoExchangeRate } from '../../domain.objects/IsoExchangeRate';
+import type { IsoExchangeRateWords } from '../../domain.objects/IsoExchangeRateWords';
+import { getIsoCurrencyRegistry } from '../currency/getIsoCurrencyRegistry';
+import { isIsoExchangeRateWords } from '../guard/isIsoExchangeRateWords';
+
+/**
+ * .what = pattern for iso 4217 style currency codes
+ * .why = any 3-letter code is accepted; longer codes must be registered, as in IsoExchangeRateWords
+ */
+const ISO_CODE_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * .what = checks whether a code is iso 4217 style or registered as a custom currency
+ * .why = a structured rate must accept exactly the codes its words form accepts
+ */
+const isKnownCode = (code: string): boolean =>
+  ISO_CODE_PATTERN.test(code) || getIsoCurrencyRegistry().definitions.has(code);
+
+/**
+ * .what = pattern for an unsigned decimal, once underscores are removed
+ * .why = rates are exact decimals; floats, signs, and exponents are rejected
+ */
+const RATE_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * .what = pattern for an iso 8601 date, or a moment with a zone
+ * .why = an as-of must sort and compare unambiguously; loose date forms, and moments without `Z` or an offset, which would read in local time, are rejected
+ */
+const AS_OF_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?$/;
+
+/**
+ * .what = validates and normalizes a structured exchange rate
+ * .why = every rate leaves this cast with known codes and an underscore-free, positive decimal
+ */
+const asValidRate = <TFrom extends string, TTo extends string>(
+  rate: IsoExchangeRate<TFrom, TTo>,
+): IsoExchangeRate<TFrom, TTo> => {
+  if (!isKnownCode(rate.from) || !isKnownCode(rate.to)) {
+    throw new BadRequestError('exchange rate currencies must be codes', {
+      from: rate.from,
+      to: rate.to,
+    });
+  }
+  const decimal = String(rate.rate).replace(/_/g, '');
+  if (!RATE_PATTERN.test(decimal)) {
+    throw new BadRequestError('exchange rate must be an exact decimal', {
+      rate: rate.rate,
+    });
+  }
+  if (!/[1-9]/.test(decimal)) {
+    throw new BadRequestError('exchange rate must be positive', {
+      rate: rate.rate,
+    });
+  }
+  if (
+    rate.asOf !== undefined &&
+    (!AS_OF_PATTERN.test(rate.asOf) || Number.isNaN(Date.parse(rate.asOf)))
+  ) {
+    throw new BadRequestError('exchange rate asOf must be an iso 8601 moment', {
+      asOf: rate.asOf,
+    });
+  }
+  return {
+    from: rate.from,
+    to: rate.to,
+    rate: decimal,
+    ...(rate.asOf !== undefined && { asOf: rate.asOf }),
+  };
+};
+
+/**
+ * .what = converts an exchange rate in words or structured form to IsoExchangeRate
+ * .why = gives every conversion one validated reading of its rate
+ *
+ * @throws BadRequestError if the words are malformed, a code is neither iso 4217 style nor registered, or the rate is not a positive exact decimal
+ *
+ * @example
+ * asIsoExchangeRate('USD/EUR 0.912_345')
+ * // => { from: 'USD', to: 'EUR', rate: '0.912345' }
+ *
+ * @example
+ * asIsoExchangeRate('USD/EUR 0.912_345 @ 2025-06-02T16:00:00Z')
+ * // => { from: 'USD', to: 'EUR', rate: '0.912345', asOf: '2025-06-02T16:00:00Z' }
+ */
+export const asIsoExchangeRate = <
+  TFrom extends string = string,
+  TTo extends string = string,
+>(
+  input:
+    | IsoExchangeRate<TFrom, TTo>
+    | IsoExchangeRateWords<TFrom, TTo>
+    | string,
+): IsoExchangeRate<TFrom, TTo> => {
+  if (typeof input !== 'string') return asValidRate(input);
+
+  // parse the words form
+  if (!isIsoExchangeRateWords(input)) {
+    throw new BadRequestError('value is not a valid IsoExchangeRateWords', {
+      value: input,
+    });
+  }
+  const [pair = '', rate = '', , asOf] = input.split(' ');
+  const [from, to] = pair.split('/') as [TFrom, TTo];
+  return asValidRate<TFrom, TTo>({
+    from,
+    to,
+    rate,
+    ...(asOf !== undefined && { asOf }),
+  });
+};
@@ -0,0 +1,55 @@
+import { asIsoExchangeRate } from './asIsoExchangeRate';
+import { asIsoExchangeRateWords } from './asIsoExchangeRateWords';
+
+describe('asIsoExchangeRateWords', () => {
+  const CASES = [
+    {
+      description: 'groups a long fraction',
+      given: { input: { from: 'USD', to: 'EUR', rate: '0.912345' } },
+      expect: { output: 'USD/EUR 0.912_345' },
+    },
+    {
+      description: 'leaves a short fraction',
+      given: { input: { from: 'EUR', to: 'JPY', rate: '162.35' } },
+      expect: { output: 'EUR/JPY 162.35' },
+    },
+    {
+      description: 'groups a partial last group',
+      given: { input: { from: 'USD', to: 'EUR', rate: '0.9123' } },
+      expect: { output: 'USD/EUR 0.912_3' },
+    },
+    {
+      description: 'groups a large whole rate',
+      given: { input: { from: 'BTC', to: 'JPY', rate: '15000000' } },
+      expect: { output: 'BTC/JPY 15_000_000' },
+    },
+    {
+      description: 'appends the as-of',
+      given: {
+        input: {
+          from: 'USD',
+          to: 'EUR',
+          rate: '0.912345',
+          asOf: '2025-06-02T16:00:00Z',
+        },
+      },
+      expect: { output: 'USD/EUR 0.912_345 @ 2025-06-02T16:00:00Z' },
+    },
+    {
+      description: 'normalizes words',
+      given: { input: 'USD/EUR 0.912345' },
+      expect: { output: 'USD/EUR 0.912_345' },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(asIsoExchangeRateWords(given.input)).toEqual(expected.output);
+    });
+  });
+
+  test('round-trips through asIsoExchangeRate', () => {
+    const words = 'USD/EUR 0.912_345 @ 2025-06-02T16:00:00Z';
+    expect(asIsoExchangeRateWords(asIsoExchangeRate(words))).toEqual(words);
+  });
+});
@@ -0,0 +1,44 @@
+import type { IsoExchangeRate } from '../../domain.objects/IsoExchangeRate';
+import type { IsoExchangeRateWords } from '../../domain.objects/IsoExchangeRateWords';
+import { asIsoExchangeRate } from './asIsoExchangeRate';
+
+/**
+ * .what = formats a rate decimal with underscore separators
+ * .why = keeps long rates readable, grouped as IsoPriceWords groups its amounts
+ */
+const formatRate = (rate: string): string => {
+  const [intPart = '0', decPart] = rate.split('.');
+  const formattedInt = intPart.replace(/\B(?=(\d{3})+(?!\d))/g, '_');
+  if (decPart === undefined) return formattedInt;
+  const formattedDec =
+    decPart.length > 3 ? (decPart.match(/\d{1,3}/g) ?? []).join('_') : decPart;
+  return `${formattedInt}.${formattedDec}`;
+};
+
+/**
+ * .what = converts an exchange rate to IsoExchangeRateWords
+ * .why = enables a lossless, readable representation for logs and storage
+ *
+ * @example
+ * asIsoExchangeRateWords({ from: 'USD', to: 'EUR', rate: '0.912345' })
+ * // => 'USD/EUR 0.912_345'
+ *
+ * @example
+ * asIsoExchangeRateWords({ from: 'USD', to: 'EUR', rate: '0.912345', asOf: '2025-06-02T16:00:00Z' })
+ * // => 'USD/EUR 0.912_345 @ 2025-06-02T16:00:00Z'
+ */
+export const asIsoExchangeRateWords = <
+  TFrom extends string = string,
+  TTo extends string = string,
+>(
+  input:
+    | IsoExchangeRate<TFrom, TTo>
+    | IsoExchangeRateWords<TFrom, TTo>
+    | string,
+): IsoExchangeRateWords<TFrom, TTo> => {
+  const rate = asIsoExchangeRate<TFrom, TTo>(input);
+  const words = `${rate.from}/${rate.to} ${formatRate(rate.rate)}`;
+  return (
+    rate.asOf === undefined ? words : `${words} @ ${rate.asOf}`
+  ) as IsoExchangeRateWords<TFrom, TTo>;
+};
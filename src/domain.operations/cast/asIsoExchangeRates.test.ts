@@ -0,0 +1,177 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import type { IsoExchangeRate } from '../../domain.objects/IsoExchangeRate';
+import type { IsoExchangeRateSource } from '../../domain.objects/IsoExchangeRateSource';
+import { asIsoExchangeRates } from './asIsoExchangeRates';
+
+describe('asIsoExchangeRates', () => {
+  const CASES: {
+    description: string;
+    given: {
+      input: IsoExchangeRateSource;
+    };
+    expect: { output: IsoExchangeRate[] };
+  }[] = [
+    {
+      description: 'snapshot',
+      given: {
+        input: {
+          base: 'EUR',
+          asOf: '2025-06-02',
+          rates: { USD: '1.1374', JPY: '162.35' },
+        },
+      },
+      expect: {
+        output: [
+          { from: 'EUR', to: 'USD', rate: '1.1374', asOf: '2025-06-02' },
+          { from: 'EUR', to: 'JPY', rate: '162.35', asOf: '2025-06-02' },
+        ],
+      },
+    },
+    {
+      description: 'snapshot with number rates and its own base',
+      given: { input: { base: 'EUR', rates: { EUR: 1, USD: 1.1374 } } },
+      expect: { output: [{ from: 'EUR', to: 'USD', rate: '1.1374' }] },
+    },
+    {
+      description: 'snapshot with number rates in exponent notation',
+      given: { input: { base: 'USD', rates: { BTC: 1e-7, VND: 2.5e21 } } },
+      expect: {
+        output: [
+          { from: 'USD', to: 'BTC', rate: '0.0000001' },
+          { from: 'USD', to: 'VND', rate: '2500000000000000000000' },
+        ],
+      },
+    },
+    {
+      description: 'array of rates, words, and snapshots',
+      given: {
+        input: [
+          { from: 'USD', to: 'EUR', rate: '0.912345' },
+          'GBP/USD 1.349_5',
+          { base: 'EUR', rates: { CHF: '0.9381' } },
+        ],
+      },
+      expect: {
+        output: [
+          { from: 'USD', to: 'EUR', rate: '0.912345' },
+          { from: 'GBP', to: 'USD', rate: '1.3495' },
+          { from: 'EUR', to: 'CHF', rate: '0.9381' },
+        ],
+      },
+    },
+    {
+      description: 'json snapshot',
+      given: {
+        input:
+          '{ "base": "EUR", "asOf": "2025-06-02", "rates": { "USD": "1.1374" } }',
+      },
+      expect: {
+        output: [
+          { from: 'EUR', to: 'USD', rate: '1.1374', asOf: '2025-06-02' },
+        ],
+      },
+    },
+    {
+      description: 'json array',
+      given: { input: '["USD/EUR 0.912_345", "USD/JPY 157.2349"]' },
+      expect: {
+        output: [
+          { from: 'USD', to: 'EUR', rate: '0.912345' },
+          { from: 'USD', to: 'JPY', rate: '157.2349' },
+        ],
+      },
+    },
+    {
+      description: 'csv with an as-of column',
+      given: {
+        input: [
+          'from,to,rate,asOf',
+          'EUR,USD,1.1374,2025-06-02',
+          'EUR,USD,1.1300,2025-06-01',
+          '',
+        ].join('\n'),
+      },
+      expect: {
+        output: [
+          { from: 'EUR', to: 'USD', rate: '1.1374', asOf: '2025-06-02' },
+          { from: 'EUR', to: 'USD', rate: '1.1300', asOf: '2025-06-01' },
+        ],
+      },
+    },
+    {
+      description: 'csv with columns in another order, crlf, and no as-of',
+      given: { input: 'rate,from,to\r\n0.912345,USD,EUR\r\n' },
+      expect: { output: [{ from: 'USD', to: 'EUR', rate: '0.912345' }] },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(asIsoExchangeRates(given.input)).toEqual(expected.output);
+    });
+  });
+
+  test('honors an explicit format', () => {
+    expect(
+      asIsoExchangeRates('from,to,rate\nUSD,EUR,0.91', { format: 'csv' }),
+    ).toEqual([{ from: 'USD', to: 'EUR', rate: '0.91' }]);
+  });
+
+  describe('.error', () => {
+    const ERROR_CASES = [
+      {
+        description: 'malformed json',
+        given: { input: '{ "base": "EUR", ' },
+        expect: { message: 'exchange rate json is malformed' },
+      },
+      {
+        description: 'csv header without a rate column',
+        given: { input: 'from,to,price\nUSD,EUR,0.91' },
+        expect: {
+          message:
+            'exchange rate csv header must name from, to, and rate columns',
+        },
+      },
+      {
+        description: 'csv row with a missing cell',
+        given: { input: 'from,to,rate\nUSD,EUR' },
+        expect: { message: 'exchange rate csv row does not match the header' },
+      },
+      {
+        description: 'csv row with an invalid rate',
+        given: { input: 'from,to,rate\nUSD,EUR,abc' },
+        expect: { message: 'exchange rate must be an exact decimal' },
+      },
+      {
+        description: 'snapshot with a non-finite rate',
+        given: { input: { base: 'USD', rates: { BTC: Number.NaN } } },
+        expect: { message: 'exchange rate must be an exact decimal' },
+      },
+      {
+        description: 'entry that is not a rate',
+        given: { input: '[42]' },
+        expect: { message: 'exchange rate source entry is not a rate' },
+      },
+      {
+        description: 'json null',
+        given: { input: 'null' },
+        expect: { message: 'exchange rate source entry is not a rate' },
+      },
+      {
+        description: 'json number',
+        given: { input: ' 42 ' },
+        expect: { message: 'exchange rate source entry is not a rate' },
+      },
+    ];
+
+    ERROR_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        const error = getError(() => asIsoExchangeRates(given.input));
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain(expected.message);
+      });
+    });
+  });
+});
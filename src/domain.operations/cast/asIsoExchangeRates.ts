@@ -0,0 +1,147 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoExchangeRate } from '../../domain.objects/IsoExchangeRate';
+import type { IsoExchangeRateSnapshot } from '../../domain.objects/IsoExchangeRateSnapshot';
+import type { IsoExchangeRateSource } from '../../domain.objects/IsoExchangeRateSource';
+import { asIsoExchangeRate } from './asIsoExchangeRate';
+
+/**
+ * .what = checks whether an entry is a snapshot of rates from one base
+ * .why = snapshots expand into one rate per quote currency
+ */
+const isSnapshot = (entry: unknown): entry is IsoExchangeRateSnapshot =>
+  typeof entry === 'object' &&
+  entry !== null &&
+  'base' in entry &&
+  'rates' in entry;
+
+/**
+ * .what = writes a number as the plain decimal of its shortest round-trip form
+ * .why = `String(1e-7)` is '1e-7', which an exact-decimal rate must not be
+ */
+const asDecimalOfNumber = (rate: number): string => {
+  const [mantissa, exponent] = String(rate).split('e') as [string, string?];
+  if (exponent === undefined) return mantissa;
+  const sign = mantissa.startsWith('-') ? '-' : '';
+  const [whole, fraction = ''] = mantissa.replace('-', '').split('.') as [
+    string,
+    string?,
+  ];
+  const digits = `${whole}${fraction}`;
+  const point = whole.length + Number(exponent);
+  if (point <= 0) return `${sign}0.${'0'.repeat(-point)}${digits}`;
+  if (point >= digits.length)
+    return `${sign}${digits}${'0'.repeat(point - digits.length)}`;
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+};
+
+/**
+ * .what = checks whether a string source holds json rather than csv
+ * .why = a json literal (e.g., 'null') must fail as json, not as a csv header
+ */
+const isJsonLike = (source: string): boolean =>
+  /^\s*[[{"]/.test(source) ||
+  /^\s*(null|true|false|-?\d+(\.\d+)?([eE][+-]?\d+)?)\s*$/.test(source);
+
+/**
+ * .what = expands one source entry into rates
+ * .why = normalizes snapshots, words, and structured rates into one list
+ */
+const asRatesOfEntry = (entry: unknown): IsoExchangeRate[] => {
+  if (isSnapshot(entry))
+    return Object.entries(entry.rates)
+      .filter(([code]) => code !== entry.base)
+      .map(([code, rate]) =>
+        asIsoExchangeRate({
+          from: entry.base,
+          to: code,
+          rate: typeof rate === 'number' ? asDecimalOfNumber(rate) : rate,
+          ...(entry.asOf !== undefined && { asOf: entry.asOf }),
+        }),
+      );
+  if (typeof entry === 'string' || (typeof entry === 'object' && entry))
+    return [asIsoExchangeRate(entry as IsoExchangeRate | string)];
+  throw new BadRequestError('exchange rate source entry is not a rate', {
+    entry: String(entry),
+  });
+};
+
+/**
+ * .what = parses csv rows of `from,to,rate[,asOf]` into rates
+ * .why = spreadsheets and bank exports publish rates as csv
+ *
+ * the header row names the columns, in any order; `asOf` is optional
+ */
+const asRatesOfCsv = (csv: string): IsoExchangeRate[] => {
+  const [header, ...rows] = csv
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: index + 1, cells: line.split(',') }))
+    .filter(({ cells }) => cells.join('').trim() !== '');
+  if (!header)
+    throw new BadRequestError('exchange rate csv has no header row', {});
+  const columns = header.cells.map((cell) => cell.trim().toLowerCase());
+  const [from, to, rate, asOf] = ['from', 'to', 'rate', 'asof'].map((name) =>
+    columns.indexOf(name),
+  ) as [number, number, number, number];
+  if (from < 0 || to < 0 || rate < 0) {
+    throw new BadRequestError(
+      'exchange rate csv header must name from, to, and rate columns',
+      { header: header.cells.join(',') },
+    );
+  }
+
+  return rows.map(({ line, cells }) => {
+    if (cells.length !== columns.length) {
+      throw new BadRequestError(
+        'exchange rate csv row does not match the header',
+        { line, row: cells.join(',') },
+      );
+    }
+    const cell = (index: number): string => (cells[index] ?? '').trim();
+    const asOfCell = asOf < 0 ? '' : cell(asOf);
+    return asIsoExchangeRate({
+      from: cell(from),
+      to: cell(to),
+      rate: cell(rate),
+      ...(asOfCell !== '' && { asOf: asOfCell }),
+    });
+  });
+};
+
+/**
+ * .what = converts an exchange rate source into a list of rates
+ * .why = lets rate tables load from a plain object, json, or csv alike
+ *
+ * accepts every `IsoExchangeRateSource`. string sources are read as json when they hold a json object, array, or literal, else as csv; pass `format` to choose
+ *
+ * @throws BadRequestError if the source or any rate within it is malformed
+ *
+ * @example
+ * asIsoExchangeRates({ base: 'EUR', asOf: '2025-06-02', rates: { USD: '1.1374' } })
+ * // => [{ from: 'EUR', to: 'USD', rate: '1.1374', asOf: '2025-06-02' }]
+ *
+ * @example
+ * asIsoExchangeRates('from,to,rate\nUSD,EUR,0.912345')
+ * // => [{ from: 'USD', to: 'EUR', rate: '0.912345' }]
+ */
+export const asIsoExchangeRates = (
+  source: IsoExchangeRateSource,
+  options?: { format?: 'json' | 'csv' },
+): IsoExchangeRate[] => {
+  if (typeof source !== 'string')
+    return (Array.isArray(source) ? source : [source]).flatMap(asRatesOfEntry);
+
+  // read string sources as json or csv
+  const format = options?.format ?? (isJsonLike(source) ? 'json' : 'csv');
+  if (format === 'csv') return asRatesOfCsv(source);
+  const parsed = ((): unknown => {
+    try {
+      return JSON.parse(source);
+    } catch {
+      throw new BadRequestError('exchange rate json is malformed', {
+        source: source.slice(0, 100),
+      });
+    }
+  })();
+  return (Array.isArray(parsed) ? parsed : [parsed]).flatMap(asRatesOfEntry);
+};
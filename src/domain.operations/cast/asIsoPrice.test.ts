@@ -87,6 +87,37 @@ describe('asIsoPrice', () => {
       given: { input: '$50.37', options: { currency: 'USD' } },
       expect: { output: 'USD 50.37' },
     },
+    {
+      description: 'symbol fits shared currency CNY',
+      given: { input: '¥1000', options: { currency: 'CNY' } },
+      expect: { output: 'CNY 1_000.00' },
+    },
+    {
+      description: 'symbol fits alternate currency NIO',
+      given: { input: 'C$50.37', options: { currency: 'NIO' } },
+      expect: { output: 'NIO 50.37' },
+    },
+    {
+      description: 'shared symbol left to caller for currency without a symbol',
+      given: { input: '$50.37', options: { currency: 'BTC' } },
+      expect: { output: 'BTC 50.37' },
+    },
+    // disambiguated symbols
+    {
+      description: 'disambiguated dollar US$',
+      given: { input: 'US$50.37' },
+      expect: { output: 'USD 50.37' },
+    },
+    {
+      description: 'disambiguated dollar HK$',
+      given: { input: 'HK$50.37' },
+      expect: { output: 'HKD 50.37' },
+    },
+    {
+      description: 'code-qualified krone',
+      given: { input: 'NOK 50 kr' },
+      expect: { output: 'NOK 50.00' },
+    },
   ];
 
   CASES.forEach(({ description, given, expect: expected }) => {
@@ -111,6 +142,26 @@ describe('asIsoPrice', () => {
         given: { input: '$50.37', options: { currency: 'EUR' } },
         expect: { throws: true },
       },
+      {
+        description: 'symbol/currency mismatch dollar to gbp',
+        given: { input: '$50.37', options: { currency: 'GBP' } },
+        expect: { throws: true },
+      },
+      {
+        description: 'symbol/currency mismatch disambiguated CA$ to usd',
+        given: { input: 'CA$50.37', options: { currency: 'USD' } },
+        expect: { throws: true },
+      },
+      {
+        description: 'symbol/currency mismatch disambiguated US$ to cad',
+        given: { input: 'US$50.37', options: { currency: 'CAD' } },
+        expect: { throws: true },
+      },
+      {
+        description: 'symbol/currency mismatch qualifier NOK to sek',
+        given: { input: 'NOK 5 kr', options: { currency: 'SEK' } },
+        expect: { throws: true },
+      },
     ];
 
     ERROR_CASES.forEach(({ description, given, expect: expected }) => {
@@ -3,62 +3,30 @@ import { BadRequestError } from 'helpful-errors';
 import type { IsoPrice } from '../../domain.objects/IsoPrice';
 import type { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
 import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import { detectIsoCurrencySymbol } from '../currency/detectIsoCurrencySymbol';
+import { getIsoCurrencySymbol } from '../currency/getIsoCurrencySymbol';
 import { isIsoPriceHuman } from '../guard/isIsoPriceHuman';
 import { asIsoPriceSorted } from './asIsoPriceSorted';
 import { asIsoPriceWords } from './asIsoPriceWords';
 
 /**
- * .what = currency symbol to code mappings
- * .why = validates symbol/currency consistency
- */
-const SYMBOL_TO_CODE: Record<string, string> = {
-  $: 'USD',
-  '€': 'EUR',
-  '£': 'GBP',
-  '¥': 'JPY',
-  '₹': 'INR',
-  '₽': 'RUB',
-  '₩': 'KRW',
-  '₪': 'ILS',
-  '฿': 'THB',
-  '₫': 'VND',
-  kr: 'SEK',
-  R: 'ZAR',
-  zł: 'PLN',
-  Kč: 'CZK',
-  CHF: 'CHF',
-};
-
-/**
- * .what = currencies that have unique, unambiguous symbols
- * .why = throw on currency override if the target has a different unique symbol
+ * .what = checks whether a currency override fits the symbol typed
+ * .why = a symbol that cannot stand for the override currency is a clear mismatch
  *
- * when a currency has a unique symbol (like EUR → €), a different input
- * symbol (like $) with that currency is a clear mismatch.
+ * - a symbol that lists the currency fits (e.g., '$' + CAD, '¥' + CNY)
+ * - a unique symbol fits only its own currency (e.g., '€' + USD → mismatch)
+ * - a shared symbol misfits currencies with symbols of their own (e.g., '$' + EUR → mismatch),
+ *   but is left to the caller for currencies without one (e.g., '$' + BTC)
  *
  * see `define.currency-symbols-lossy.md` for why symbols are ambiguous
  */
-const UNIQUE_SYMBOL_CURRENCIES: Record<string, string> = {
-  EUR: '€',
-  // note: most other currencies share symbols ($ used by USD/CAD/AUD, etc.)
-  // so we only list currencies with truly unique symbols here
-};
-
-/**
- * .what = detects the symbol used in a human format string
- * .why = enables symbol/currency mismatch detection
- */
-const detectSymbol = (value: string): string | null => {
-  for (const symbol of Object.keys(SYMBOL_TO_CODE)) {
-    if (
-      value.startsWith(symbol) ||
-      value.endsWith(symbol) ||
-      value.endsWith(` ${symbol}`)
-    ) {
-      return symbol;
-    }
-  }
-  return null;
+const isSymbolFitForCurrency = (input: {
+  currencies: readonly string[];
+  currency: string;
+}): boolean => {
+  if (input.currencies.includes(input.currency)) return true;
+  if (input.currencies.length === 1) return false;
+  return getIsoCurrencySymbol(input.currency) === null;
 };
 
 /**
@@ -70,6 +38,7 @@ const detectSymbol = (value: string): string | null => {
  * - accepts words format: 'USD 50.37', 'EUR 100.00'
  * - accepts shape format: { amount: 5037n, currency: 'USD' }
  * - normalizes commas to underscores in output
+ * - accepts localized separators and digits, per `locale` or inferred
  *
  * @example
  * asIsoPrice('$50.37')
@@ -84,8 +53,16 @@ const detectSymbol = (value: string): string | null => {
  * // throws BadRequestError (symbol/currency mismatch)
  *
  * @example
+ * asIsoPrice('CA$50.37')
+ * // => 'CAD 50.37'
+ *
+ * @example
  * asIsoPrice('USD 1,000,000.00')
  * // => 'USD 1_000_000.00'
+ *
+ * @example
+ * asIsoPrice('1.234,56 €', { locale: 'de-DE' })
+ * // => 'EUR 1_234.56'
  */
 export const asIsoPrice = <TCurrency extends string = string>(
   input:
@@ -96,40 +73,27 @@ export const asIsoPrice = <TCurrency extends string = string>(
         currency: TCurrency;
         exponent?: IsoPriceExponent;
       },
-  options?: { currency?: TCurrency },
+  options?: { currency?: TCurrency; locale?: string },
 ): IsoPriceWords<TCurrency> => {
   // validate symbol/currency consistency for human format
-  if (typeof input === 'string' && isIsoPriceHuman(input)) {
-    const symbol = detectSymbol(input);
-    if (symbol && options?.currency) {
-      const expectedCode = SYMBOL_TO_CODE[symbol];
-      // check if input symbol belongs to a unique-symbol currency
-      const expectedUniqueSymbol = expectedCode
-        ? UNIQUE_SYMBOL_CURRENCIES[expectedCode]
-        : undefined;
-      // check if override currency has a unique symbol
-      const targetUniqueSymbol = UNIQUE_SYMBOL_CURRENCIES[options.currency];
-
-      // if input symbol is unique to a currency, override must match that currency
-      // e.g., €50.37 + USD → throw (€ uniquely identifies EUR)
-      if (expectedUniqueSymbol && expectedCode !== options.currency) {
-        throw new BadRequestError('symbol/currency mismatch', {
-          symbol,
-          expectedCode,
-          providedCurrency: options.currency,
-        });
-      }
-
-      // if target currency has a unique symbol that differs from input, throw
-      // e.g., $50.37 + EUR → throw (EUR requires €, not $)
-      if (targetUniqueSymbol && targetUniqueSymbol !== symbol) {
-        throw new BadRequestError('symbol/currency mismatch', {
-          symbol,
-          expectedCode,
-          providedCurrency: options.currency,
+  if (
+    typeof input === 'string' &&
+    isIsoPriceHuman(input) &&
+    options?.currency
+  ) {
+    const detected = detectIsoCurrencySymbol(input)!;
+    const isMismatch = detected.qualifier
+      ? detected.qualifier !== options.currency
+      : !isSymbolFitForCurrency({
+          currencies: detected.currencies,
+          currency: options.currency,
         });
-      }
-    }
+    if (isMismatch)
+      throw new BadRequestError('symbol/currency mismatch', {
+        symbol: detected.symbol,
+        expectedCode: detected.qualifier ?? detected.currencies[0],
+        providedCurrency: options.currency,
+      });
   }
 
   return asIsoPriceWords(input as IsoPrice<TCurrency>, options);
@@ -0,0 +1,82 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { asIsoPriceBag } from './asIsoPriceBag';
+
+describe('asIsoPriceBag', () => {
+  test('totals prices per currency, in first-seen order', () => {
+    const bag = asIsoPriceBag(['USD 10.00', 'EUR 5.00', 'USD 2.50']);
+    expect([...bag.totals]).toEqual([
+      [
+        'USD',
+        { amount: 1250n, currency: 'USD', exponent: IsoPriceExponent.CENTI },
+      ],
+      [
+        'EUR',
+        { amount: 500n, currency: 'EUR', exponent: IsoPriceExponent.CENTI },
+      ],
+    ]);
+  });
+
+  test('merges exponents as sumPrices does', () => {
+    const bag = asIsoPriceBag(['USD 10.00', 'USD 0.000_250']);
+    expect(bag.totals.get('USD')).toEqual({
+      amount: 10_000_250n,
+      currency: 'USD',
+      exponent: IsoPriceExponent.MICRO,
+    });
+  });
+
+  test('accepts every price format', () => {
+    const bag = asIsoPriceBag([
+      'USD 1.00',
+      { amount: 100n, currency: 'USD' },
+      '$1.00',
+    ]);
+    expect(bag.totals.get('USD')?.amount).toEqual(300n);
+  });
+
+  test('parses bag words', () => {
+    const bag = asIsoPriceBag('USD 10.00 + JPY 1_000');
+    expect(bag.totals.get('USD')?.amount).toEqual(1000n);
+    expect(bag.totals.get('JPY')?.amount).toEqual(1000n);
+  });
+
+  test('adds the totals of nested bags', () => {
+    const bag = asIsoPriceBag([
+      asIsoPriceBag('USD 10.00 + EUR 5.00'),
+      'EUR 1.00',
+    ]);
+    expect(bag.totals.get('EUR')?.amount).toEqual(600n);
+  });
+
+  test('keeps totals that reach zero', () => {
+    const bag = asIsoPriceBag(['USD 10.00', 'USD -10.00']);
+    expect(bag.totals.get('USD')?.amount).toEqual(0n);
+  });
+
+  test('is empty for an empty array or empty words', () => {
+    expect(asIsoPriceBag([]).totals.size).toEqual(0);
+    expect(asIsoPriceBag('').totals.size).toEqual(0);
+  });
+
+  test('never mutates an input bag', () => {
+    const input = asIsoPriceBag('USD 10.00');
+    asIsoPriceBag([input, 'USD 5.00']);
+    expect(input.totals.get('USD')?.amount).toEqual(1000n);
+  });
+
+  describe('.error', () => {
+    test('throws on malformed bag words', () => {
+      const error = getError(() => asIsoPriceBag('USD 10.00 + USD 5.00'));
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('value is not a valid IsoPriceBagWords');
+    });
+
+    test('throws on a malformed price', () => {
+      const error = getError(() => asIsoPriceBag(['USD 10.00', 'ten bucks']));
+      expect(error).toBeInstanceOf(BadRequestError);
+    });
+  });
+});
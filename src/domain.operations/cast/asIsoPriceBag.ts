@@ -0,0 +1,80 @@
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import type { IsoPriceBag } from '../../domain.objects/IsoPriceBag';
+import type { IsoPriceBagWords } from '../../domain.objects/IsoPriceBagWords';
+import type { IsoPriceShape } from '../../domain.objects/IsoPriceShape';
+import { sumPrices } from '../arithmetic/sumPrices';
+import { isIsoPriceBagWords } from '../guard/isIsoPriceBagWords';
+import { asIsoPriceShape } from './asIsoPriceShape';
+
+/**
+ * .what = checks whether an input is a price bag rather than a price
+ * .why = bags contribute each of their totals; prices contribute themselves
+ */
+const isBag = (input: unknown): input is IsoPriceBag =>
+  typeof input === 'object' &&
+  input !== null &&
+  'totals' in input &&
+  (input as IsoPriceBag).totals instanceof Map;
+
+/**
+ * .what = expands one input into the prices it contributes
+ * .why = normalizes bags, bag words, and single prices into one list
+ */
+const asShapesOfInput = (
+  input: IsoPriceBag | IsoPrice | string,
+): IsoPriceShape[] => {
+  if (isBag(input)) return [...input.totals.values()];
+  if (typeof input === 'string' && input.includes(' + ')) {
+    isIsoPriceBagWords.assure(input);
+    return input.split(' + ').map((part) => asIsoPriceShape(part));
+  }
+  if (input === '') return [];
+  return [asIsoPriceShape(input)];
+};
+
+/**
+ * .what = converts prices of any currencies into an IsoPriceBag
+ * .why = totals mixed-currency prices, one total per currency, where `sumPrices` would throw
+ *
+ * accepts a bag, bag words, a single price, or an array of any of them.
+ * prices of one currency merge at their highest precision, as `sumPrices` merges them
+ *
+ * @throws BadRequestError if any price or bag words is malformed
+ *
+ * @example
+ * asIsoPriceBag(['USD 10.00', 'EUR 5.00', 'USD 2.50'])
+ * // => { totals: Map { 'USD' => { amount: 1250n, ... }, 'EUR' => { amount: 500n, ... } } }
+ *
+ * @example
+ * asIsoPriceBag('USD 10.00 + EUR 5.00')
+ * // => { totals: Map { 'USD' => { amount: 1000n, ... }, 'EUR' => { amount: 500n, ... } } }
+ */
+export const asIsoPriceBag = (
+  input:
+    | IsoPriceBag
+    | IsoPriceBagWords
+    | IsoPrice
+    | string
+    | (IsoPriceBag | IsoPrice | string)[],
+): IsoPriceBag => {
+  // collect the prices of each currency, in first-seen order
+  const byCurrency = new Map<string, IsoPriceShape[]>();
+  const shapes = (Array.isArray(input) ? input : [input]).flatMap(
+    asShapesOfInput,
+  );
+  for (const shape of shapes)
+    byCurrency.set(shape.currency, [
+      ...(byCurrency.get(shape.currency) ?? []),
+      shape,
+    ]);
+
+  // total each currency, as sumPrices would
+  return {
+    totals: new Map(
+      [...byCurrency].map(([currency, prices]) => [
+        currency,
+        sumPrices(prices, { format: 'shape' }),
+      ]),
+    ),
+  };
+};
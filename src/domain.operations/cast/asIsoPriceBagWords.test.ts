@@ -0,0 +1,43 @@
+import { asIsoPriceBag } from './asIsoPriceBag';
+import { asIsoPriceBagWords } from './asIsoPriceBagWords';
+
+describe('asIsoPriceBagWords', () => {
+  const CASES = [
+    {
+      description: 'bag of two currencies',
+      given: { input: asIsoPriceBag(['USD 10.00', 'EUR 5.00']) },
+      expect: { output: 'USD 10.00 + EUR 5.00' },
+    },
+    {
+      description: 'array of prices',
+      given: { input: ['USD 10.00', 'EUR 5.00', 'USD 2.50'] },
+      expect: { output: 'USD 12.50 + EUR 5.00' },
+    },
+    {
+      description: 'merged precision',
+      given: { input: ['USD 10.00', 'USD 0.005'] },
+      expect: { output: 'USD 10.005' },
+    },
+    {
+      description: 'negative and zero totals',
+      given: { input: ['USD -2.50', 'JPY 1000', 'JPY -1000'] },
+      expect: { output: 'USD -2.50 + JPY 0' },
+    },
+    {
+      description: 'words round trip',
+      given: { input: 'USD 10.00 + EUR 5.00' },
+      expect: { output: 'USD 10.00 + EUR 5.00' },
+    },
+    {
+      description: 'empty bag',
+      given: { input: [] },
+      expect: { output: '' },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(asIsoPriceBagWords(given.input)).toEqual(expected.output);
+    });
+  });
+});
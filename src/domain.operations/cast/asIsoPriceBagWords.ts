@@ -0,0 +1,31 @@
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import type { IsoPriceBag } from '../../domain.objects/IsoPriceBag';
+import type { IsoPriceBagWords } from '../../domain.objects/IsoPriceBagWords';
+import { asIsoPriceBag } from './asIsoPriceBag';
+import { asIsoPriceWords } from './asIsoPriceWords';
+
+/**
+ * .what = converts a price bag to IsoPriceBagWords
+ * .why = enables a lossless, readable representation for logs and storage
+ *
+ * currencies appear in the order they were first added to the bag
+ *
+ * @example
+ * asIsoPriceBagWords(asIsoPriceBag(['USD 10.00', 'EUR 5.00']))
+ * // => 'USD 10.00 + EUR 5.00'
+ *
+ * @example
+ * asIsoPriceBagWords(['USD 10.00', 'USD 0.005'])
+ * // => 'USD 10.005'
+ */
+export const asIsoPriceBagWords = (
+  input:
+    | IsoPriceBag
+    | IsoPriceBagWords
+    | IsoPrice
+    | string
+    | (IsoPriceBag | IsoPrice | string)[],
+): IsoPriceBagWords =>
+  [...asIsoPriceBag(input).totals.values()]
+    .map((total) => asIsoPriceWords(total))
+    .join(' + ') as IsoPriceBagWords;
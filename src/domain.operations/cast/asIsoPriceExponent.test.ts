@@ -0,0 +1,63 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { asIsoPriceExponent } from './asIsoPriceExponent';
+
+describe('asIsoPriceExponent', () => {
+  const CASES = [
+    {
+      description: 'number with a named alias',
+      given: { input: -2 as number | IsoPriceExponent },
+      expect: { output: IsoPriceExponent.CENTI },
+    },
+    {
+      description: 'zero is whole',
+      given: { input: 0 },
+      expect: { output: IsoPriceExponent.WHOLE },
+    },
+    {
+      description: 'number without a named alias',
+      given: { input: -8 },
+      expect: { output: 'x10^-8' },
+    },
+    {
+      description: 'positive number',
+      given: { input: 3 },
+      expect: { output: 'x10^3' },
+    },
+    {
+      description: 'unnamed exponent with a named alias is normalized',
+      given: { input: 'x10^-6' as IsoPriceExponent },
+      expect: { output: IsoPriceExponent.MICRO },
+    },
+    {
+      description: 'unnamed exponent without a named alias is preserved',
+      given: { input: 'x10^-18' as IsoPriceExponent },
+      expect: { output: 'x10^-18' },
+    },
+    {
+      description: 'named exponent is preserved',
+      given: { input: IsoPriceExponent.PICO },
+      expect: { output: IsoPriceExponent.PICO },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(asIsoPriceExponent(given.input)).toEqual(expected.output);
+    });
+  });
+
+  test('throws on non-integer power', async () => {
+    const error = await getError(() => asIsoPriceExponent(-2.5));
+    expect(error).toBeInstanceOf(BadRequestError);
+  });
+
+  test('throws on invalid exponent string', async () => {
+    const error = await getError(() =>
+      asIsoPriceExponent('kilo.x10^3' as IsoPriceExponent),
+    );
+    expect(error).toBeInstanceOf(BadRequestError);
+  });
+});
@@ -0,0 +1,41 @@
+import { BadRequestError } from 'helpful-errors';
+
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
+
+/**
+ * .what = named exponent constants by their power of ten
+ * .why = enables normalization to the readable alias when one exists
+ */
+const NAMED_EXPONENT_BY_VALUE: ReadonlyMap<number, IsoPriceExponent> = new Map(
+  Object.values(IsoPriceExponent).map((exponent) => [
+    getIsoPriceExponentValue(exponent),
+    exponent,
+  ]),
+);
+
+/**
+ * .what = converts a power of ten or exponent to its canonical IsoPriceExponent
+ * .why = ensures equal precisions share one representation (named si alias when declared)
+ *
+ * @throws BadRequestError if the input is not an integer or valid exponent
+ *
+ * @example
+ * asIsoPriceExponent(-2)         // => 'centi.x10^-2'
+ * asIsoPriceExponent('x10^-2')   // => 'centi.x10^-2'
+ * asIsoPriceExponent(-8)         // => 'x10^-8'
+ * asIsoPriceExponent(3)          // => 'x10^3'
+ */
+export const asIsoPriceExponent = (
+  input: number | IsoPriceExponent,
+): IsoPriceExponent => {
+  const value =
+    typeof input === 'number' ? input : getIsoPriceExponentValue(input);
+  if (!Number.isSafeInteger(value))
+    throw new BadRequestError('exponent must be an integer power of ten', {
+      input,
+    });
+  return (
+    NAMED_EXPONENT_BY_VALUE.get(value) ?? (`x10^${value}` as IsoPriceExponent)
+  );
+};
@@ -1,4 +1,9 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
 import { isIsoPriceHuman } from '../guard/isIsoPriceHuman';
+import { ISO_PRICE_LOCALES } from '../locale/isoPriceLocales';
+import { asIsoPrice } from './asIsoPrice';
 import { asIsoPriceHuman } from './asIsoPriceHuman';
 
 describe('asIsoPriceHuman', () => {
@@ -60,6 +65,32 @@ describe('asIsoPriceHuman', () => {
       given: { input: 'JPY 1_000' },
       expect: { output: '¥1,000' },
     },
+    // disambiguated symbols
+    {
+      description: 'words to human CAD',
+      given: { input: 'CAD 50.37' },
+      expect: { output: 'CA$50.37' },
+    },
+    {
+      description: 'words to human CNY',
+      given: { input: 'CNY 1_000' },
+      expect: { output: 'CN¥1,000.00' },
+    },
+    {
+      description: 'words to human BRL',
+      given: { input: 'BRL 50.37' },
+      expect: { output: 'R$50.37' },
+    },
+    {
+      description: 'words to human TRY',
+      given: { input: 'TRY 50.37' },
+      expect: { output: '₺50.37' },
+    },
+    {
+      description: 'words to human NOK shares kr',
+      given: { input: 'NOK 50.37' },
+      expect: { output: 'kr50.37' },
+    },
     // from human format (normalization)
     {
       description: 'human passthrough',
@@ -79,6 +110,240 @@ describe('asIsoPriceHuman', () => {
     });
   });
 
+  describe('.locale-option', () => {
+    const LOCALE_CASES = [
+      // symbol placement and separators
+      {
+        description: 'de-DE: suffix symbol, dot groups, comma decimal',
+        given: { input: 'EUR 1_234.56', locale: 'de-DE' },
+        expect: { output: '1.234,56\u00a0€' },
+      },
+      {
+        description: 'de-DE: negative leads the number',
+        given: { input: 'EUR -1_234.56', locale: 'de-DE' },
+        expect: { output: '-1.234,56\u00a0€' },
+      },
+      {
+        description: 'fr-FR: narrow no-break space groups',
+        given: { input: 'EUR 1_234_567.89', locale: 'fr-FR' },
+        expect: { output: '1\u202f234\u202f567,89\u00a0€' },
+      },
+      {
+        description: 'de-CH: apostrophe groups, spaced code prefix',
+        given: { input: 'CHF 1_234.50', locale: 'de-CH' },
+        expect: { output: 'CHF\u00a01\u2019234.50' },
+      },
+      {
+        description: 'de-CH: negative sign joins the code prefix',
+        given: { input: 'CHF -1_234.56', locale: 'de-CH' },
+        expect: { output: 'CHF-1\u2019234.56' },
+      },
+      {
+        description: 'nl-NL: spaced prefix, minus after symbol',
+        given: { input: 'EUR -5', locale: 'nl-NL' },
+        expect: { output: '€\u00a0-5,00' },
+      },
+      {
+        description: 'pt-BR: spaced prefix, minus before symbol',
+        given: { input: 'BRL -1_234.5', locale: 'pt-BR' },
+        expect: { output: '-R$\u00a01.234,50' },
+      },
+      // grouping patterns
+      {
+        description: 'en-IN: lakh grouping',
+        given: { input: 'INR 100_000.00', locale: 'en-IN' },
+        expect: { output: '₹1,00,000.00' },
+      },
+      {
+        description: 'en-IN: crore grouping',
+        given: { input: 'INR 10_000_000.00', locale: 'en-IN' },
+        expect: { output: '₹1,00,00,000.00' },
+      },
+      {
+        description: 'en-IN: thousands stay as-is',
+        given: { input: 'INR 1_000.5', locale: 'en-IN' },
+        expect: { output: '₹1,000.50' },
+      },
+      {
+        description: 'es-ES: 4-digit integers stay ungrouped',
+        given: { input: 'EUR 1_234.00', locale: 'es-ES' },
+        expect: { output: '1234,00\u00a0€' },
+      },
+      {
+        description: 'es-ES: 5-digit integers are grouped',
+        given: { input: 'EUR 12_345.00', locale: 'es-ES' },
+        expect: { output: '12.345,00\u00a0€' },
+      },
+      {
+        description: 'it-IT: 4-digit integers stay ungrouped',
+        given: { input: 'EUR -1_234.50', locale: 'it-IT' },
+        expect: { output: '-1234,50\u00a0€' },
+      },
+      // minus-sign styles
+      {
+        description: 'en-US: minus before symbol',
+        given: { input: 'USD -5.00', locale: 'en-US' },
+        expect: { output: '-$5.00' },
+      },
+      {
+        description: 'sv-SE: unicode minus sign',
+        given: { input: 'SEK -1_234.5', locale: 'sv-SE' },
+        expect: { output: '\u22121\u00a0234,50\u00a0kr' },
+      },
+      // per-locale symbols
+      {
+        description: 'en-CA: CAD displays as $',
+        given: { input: 'CAD 5', locale: 'en-CA' },
+        expect: { output: '$5.00' },
+      },
+      {
+        description: 'en-CA: USD displays as US$',
+        given: { input: 'USD 5', locale: 'en-CA' },
+        expect: { output: 'US$5.00' },
+      },
+      {
+        description: 'fr-CA: USD displays as $ US, with no-break spaces',
+        given: { input: 'USD -1_234.5', locale: 'fr-CA' },
+        expect: { output: '-1\u00a0234,50\u00a0$\u00a0US' },
+      },
+      {
+        description: 'ja-JP: JPY displays as the fullwidth ￥',
+        given: { input: 'JPY -1_234', locale: 'ja-JP' },
+        expect: { output: '-\uffe51,234' },
+      },
+      {
+        description: 'zh-CN: CNY displays as ¥',
+        given: { input: 'CNY 5', locale: 'zh-CN' },
+        expect: { output: '¥5.00' },
+      },
+      {
+        description: 'zh-CN: JPY displays as JP¥',
+        given: { input: 'JPY 5', locale: 'zh-CN' },
+        expect: { output: 'JP¥5' },
+      },
+      {
+        description: 'en-US: code fallback is spaced from digits',
+        given: { input: 'BTC 1.5', locale: 'en-US' },
+        expect: { output: 'BTC\u00a01.50' },
+      },
+      // precision
+      {
+        description: 'ja-JP: whole units',
+        given: { input: 'JPY 1_000', locale: 'ja-JP' },
+        expect: { output: '\uffe51,000' },
+      },
+      {
+        description: 'de-DE: micro precision keeps decimals',
+        given: { input: 'EUR 0.000_001', locale: 'de-DE' },
+        expect: { output: '0,000001\u00a0€' },
+      },
+      // tag resolution
+      {
+        description: 'tags are case-insensitive',
+        given: { input: 'EUR 1_234.56', locale: 'de-de' },
+        expect: { output: '1.234,56\u00a0€' },
+      },
+      {
+        description: 'unbundled regions fall back to the language default',
+        given: { input: 'EUR 1_234.56', locale: 'de-LU' },
+        expect: { output: '1.234,56\u00a0€' },
+      },
+    ];
+
+    LOCALE_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        expect(asIsoPriceHuman(given.input, { locale: given.locale })).toEqual(
+          expected.output,
+        );
+      });
+    });
+
+    test('throws on an unbundled language', async () => {
+      const error = await getError(() =>
+        asIsoPriceHuman('USD 5.00', { locale: 'xx-XX' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('unsupported locale');
+    });
+  });
+
+  describe('.negative-option', () => {
+    const NEGATIVE_CASES = [
+      {
+        description: 'default keeps the minus after the symbol',
+        given: { input: 'USD -1_234.56', options: {} },
+        expect: { output: '$-1,234.56' },
+      },
+      {
+        description: 'minus',
+        given: { input: 'USD -1_234.56', options: { negative: 'minus' } },
+        expect: { output: '$-1,234.56' },
+      },
+      {
+        description: 'minus before symbol',
+        given: {
+          input: 'USD -1_234.56',
+          options: { negative: 'minus-before-symbol' },
+        },
+        expect: { output: '-$1,234.56' },
+      },
+      {
+        description: 'parentheses',
+        given: { input: 'USD -1_234.56', options: { negative: 'parentheses' } },
+        expect: { output: '($1,234.56)' },
+      },
+      {
+        description: 'parentheses leave positives bare',
+        given: { input: 'USD 1_234.56', options: { negative: 'parentheses' } },
+        expect: { output: '$1,234.56' },
+      },
+      {
+        description: 'parentheses wrap a suffix symbol',
+        given: {
+          input: 'EUR -1_234.56',
+          options: { negative: 'parentheses', locale: 'de-DE' },
+        },
+        expect: { output: '(1.234,56\u00a0€)' },
+      },
+      {
+        description: 'minus overrides the locale position',
+        given: {
+          input: 'USD -5',
+          options: { negative: 'minus', locale: 'en-US' },
+        },
+        expect: { output: '$-5.00' },
+      },
+    ] as const;
+
+    NEGATIVE_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        expect(asIsoPriceHuman(given.input, given.options)).toEqual(
+          expected.output,
+        );
+      });
+    });
+
+    describe('round-trip through asIsoPrice', () => {
+      const STYLES = ['minus', 'parentheses', 'minus-before-symbol'] as const;
+      const LOCALES = [
+        undefined,
+        ...ISO_PRICE_LOCALES.map((locale) => locale.tag),
+      ];
+
+      STYLES.forEach((negative) => {
+        test(negative, () => {
+          for (const locale of LOCALES) {
+            const human = asIsoPriceHuman('EUR -1_234.50', {
+              negative,
+              locale,
+            });
+            expect(asIsoPrice(human, { locale })).toEqual('EUR -1_234.50');
+          }
+        });
+      });
+    });
+  });
+
   describe('.output-validation', () => {
     test('output is valid IsoPriceHuman', () => {
       const result = asIsoPriceHuman({ amount: 5037n, currency: 'USD' });
@@ -1,90 +1,150 @@
+import { BadRequestError } from 'helpful-errors';
+
 import type { IsoPrice } from '../../domain.objects/IsoPrice';
-import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import type { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
 import type { IsoPriceHuman } from '../../domain.objects/IsoPriceHuman';
+import type { IsoPriceLocale } from '../../domain.objects/IsoPriceLocale';
+import { getIsoCurrencySymbol } from '../currency/getIsoCurrencySymbol';
+import { getIsoPriceLocale } from '../locale/getIsoPriceLocale';
+import { ISO_PRICE_LOCALES } from '../locale/isoPriceLocales';
 import { getIsoPriceExponentByCurrency } from '../precision/getIsoPriceExponentByCurrency';
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
 import { asIsoPriceShape } from './asIsoPriceShape';
 
 /**
- * .what = currency code to symbol mappings
- * .why = enables conversion from iso 4217 codes to display symbols
+ * .what = the display conventions used when no locale is requested
+ * .why = preserves the original symbol-prefix, comma-grouped, dot-decimal format
  */
-const CODE_TO_SYMBOL: Record<string, string> = {
-  USD: '$',
-  EUR: '€',
-  GBP: '£',
-  JPY: '¥',
-  CNY: '¥',
-  INR: '₹',
-  RUB: '₽',
-  KRW: '₩',
-  ILS: '₪',
-  THB: '฿',
-  VND: '₫',
-  SEK: 'kr',
-  NOK: 'kr',
-  DKK: 'kr',
-  ZAR: 'R',
-  BRL: 'R$',
-  PLN: 'zł',
-  CZK: 'Kč',
-  CHF: 'CHF',
+const DEFAULT_FORMAT: IsoPriceLocale = {
+  tag: 'und',
+  symbolPosition: 'prefix',
+  symbolSpacing: '',
+  groupSeparator: ',',
+  decimalSeparator: '.',
+  grouping: 'thousands',
+  minimumGroupingDigits: 1,
+  minusSign: '-',
+  minusPosition: 'before-number',
 };
 
 /**
- * .what = gets the decimal places for an exponent
- * .why = determines how to format the amount string
+ * .what = groups the digits of an integer part
+ * .why = supports western thousands (1,000,000) and indian lakh/crore (10,00,000) grouping
  */
-const getDecimalPlaces = (exponent: IsoPriceExponent): number => {
-  const match = exponent.match(/\^(-?\d+)$/);
-  if (!match) return 2;
-  return Math.abs(parseInt(match[1]!, 10));
+const groupIntegerDigits = (digits: string, format: IsoPriceLocale): string => {
+  // short integers stay ungrouped (e.g., es-ES shows 1234 but 12.345)
+  if (digits.length < 3 + format.minimumGroupingDigits) return digits;
+
+  // lakh grouping: last 3 digits, then groups of 2
+  if (format.grouping === 'lakh') {
+    const head = digits.slice(0, -3);
+    const tail = digits.slice(-3);
+    const groupedHead = head.replace(
+      /\B(?=(\d{2})+(?!\d))/g,
+      format.groupSeparator,
+    );
+    return `${groupedHead}${format.groupSeparator}${tail}`;
+  }
+
+  return digits.replace(/\B(?=(\d{3})+(?!\d))/g, format.groupSeparator);
 };
 
 /**
- * .what = formats a bigint amount to human-readable string with commas
- * .why = converts 5037n with exponent 2 to '50.37'
+ * .what = formats the absolute value of a bigint amount to a human-readable number
+ * .why = converts 5037n with exponent 2 to '50.37' (or '50,37' per locale)
  */
 const formatAmountHuman = (
-  amount: bigint,
-  exponent: IsoPriceExponent = IsoPriceExponent.CENTI,
+  absAmount: bigint,
+  exponent: IsoPriceExponent,
+  format: IsoPriceLocale,
 ): string => {
-  const decimalPlaces = getDecimalPlaces(exponent);
-  const isNegative = amount < 0n;
-  const absAmount = isNegative ? -amount : amount;
+  // positive exponents scale up to whole units (e.g., x10^3 = thousands)
+  const exponentValue = getIsoPriceExponentValue(exponent);
+  const decimalPlaces = Math.max(-exponentValue, 0);
+  const wholeAmount =
+    exponentValue > 0 ? absAmount * 10n ** BigInt(exponentValue) : absAmount;
 
   // handle zero decimal places (whole units like JPY)
-  if (decimalPlaces === 0) {
-    const formattedInt = absAmount
-      .toString()
-      .replace(/\B(?=(\d{3})+(?!\d))/g, ',');
-    return isNegative ? `-${formattedInt}` : formattedInt;
-  }
+  if (decimalPlaces === 0)
+    return groupIntegerDigits(wholeAmount.toString(), format);
 
   // convert to string and pad with zeros at start if needed
-  const amountStr = absAmount.toString().padStart(decimalPlaces + 1, '0');
+  const amountStr = wholeAmount.toString().padStart(decimalPlaces + 1, '0');
 
   // split into integer and decimal parts
   const intPart = amountStr.slice(0, -decimalPlaces) || '0';
   const decPart = amountStr.slice(-decimalPlaces);
 
-  // format integer part with comma thousands separators (human format)
-  const formattedInt = intPart.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
-
-  // build the result
-  const sign = isNegative ? '-' : '';
-
-  // for whole numbers at centi precision, show .00
-  if (decPart === '00' && decimalPlaces === 2) {
-    return `${sign}${formattedInt}.00`;
-  }
+  // format integer part with the group separator
+  const formattedInt = groupIntegerDigits(intPart, format);
 
   // omit zeros at end of decimal part for higher precision
   const trimmedDec = decPart.replace(/0+$/, '');
-  if (trimmedDec.length === 0 && decimalPlaces > 2) {
-    return `${sign}${formattedInt}`;
-  }
+  if (trimmedDec.length === 0 && decimalPlaces > 2) return formattedInt;
+
+  return `${formattedInt}${format.decimalSeparator}${decPart}`;
+};
+
+/**
+ * .what = picks the spacing between the symbol and the number
+ * .why = some locales drop it beside a minus sign (e.g., 'CHF-5.00'), and letter symbols never touch digits
+ *
+ * letter symbols get a no-break space in localized output (e.g., 'CHF 5.00', not 'CHF5.00')
+ */
+const getSymbolSpacing = (input: {
+  symbol: string;
+  format: IsoPriceLocale;
+  isLocalized: boolean;
+  hasMinus: boolean;
+}): string => {
+  const { symbol, format } = input;
+  if (input.hasMinus && format.negativeSymbolSpacing !== undefined)
+    return format.negativeSymbolSpacing;
+  if (!input.isLocalized || format.symbolSpacing) return format.symbolSpacing;
+  const isLetterAdjacent =
+    format.symbolPosition === 'prefix'
+      ? /\p{L}$/u.test(symbol)
+      : /^\p{L}/u.test(symbol);
+  return isLetterAdjacent ? '\u00a0' : format.symbolSpacing;
+};
 
-  return `${sign}${formattedInt}.${decPart}`;
+/**
+ * .what = joins the symbol, the minus sign, and the number per display conventions
+ * .why = places the symbol and minus sign where the locale (or the requested negative style) expects them
+ *
+ * e.g., '$-5.00' (default), '-$5.00' (en-US), '-5,00 €' (de-DE), '€ -5,00' (nl-NL), 'CHF-5.00' (de-CH), '($5.00)' (parentheses)
+ */
+const composeHuman = (input: {
+  symbol: string;
+  number: string;
+  isNegative: boolean;
+  format: IsoPriceLocale;
+  isLocalized: boolean;
+  negative?: 'minus' | 'parentheses' | 'minus-before-symbol';
+}): string => {
+  const { symbol, number, isNegative, format } = input;
+  const isParenthesized = isNegative && input.negative === 'parentheses';
+  const minus = isNegative && !isParenthesized ? format.minusSign : '';
+  const minusPosition =
+    input.negative === 'minus'
+      ? 'before-number'
+      : input.negative === 'minus-before-symbol'
+        ? 'before-symbol'
+        : format.minusPosition;
+  const spacing = getSymbolSpacing({
+    symbol,
+    format,
+    isLocalized: input.isLocalized,
+    hasMinus: minus !== '',
+  });
+
+  const composed =
+    format.symbolPosition === 'suffix'
+      ? `${minus}${number}${spacing}${symbol}`
+      : minusPosition === 'before-symbol'
+        ? `${minus}${symbol}${spacing}${number}`
+        : `${symbol}${spacing}${minus}${number}`;
+  return isParenthesized ? `(${composed})` : composed;
 };
 
 /**
@@ -102,6 +162,22 @@ const formatAmountHuman = (
  * @example
  * asIsoPriceHuman('USD 1_000_000.00')
  * // => '$1,000,000.00'
+ *
+ * @example
+ * // display per a bcp 47 locale, from bundled cldr conventions
+ * asIsoPriceHuman('EUR 1_000.00', { locale: 'de-DE' })
+ * // => '1.000,00 €'
+ * asIsoPriceHuman('INR 100_000.00', { locale: 'en-IN' })
+ * // => '₹1,00,000.00'
+ *
+ * @example
+ * // accounting-style negatives; each parses back via asIsoPrice
+ * asIsoPriceHuman('USD -1_234.56', { negative: 'parentheses' })
+ * // => '($1,234.56)'
+ * asIsoPriceHuman('USD -5', { negative: 'minus-before-symbol' })
+ * // => '-$5.00'
+ *
+ * @throws BadRequestError if the locale is not bundled
  */
 export const asIsoPriceHuman = <TCurrency extends string = string>(
   input:
@@ -112,21 +188,49 @@ export const asIsoPriceHuman = <TCurrency extends string = string>(
         exponent?: IsoPriceExponent;
       }
     | string,
-  options?: { currency?: TCurrency },
+  options?: {
+    currency?: TCurrency;
+    locale?: string;
+    negative?: 'minus' | 'parentheses' | 'minus-before-symbol';
+  },
 ): IsoPriceHuman => {
   // convert to shape first
   const shape = asIsoPriceShape(input, options);
 
-  // get the symbol for this currency
-  const symbol = CODE_TO_SYMBOL[shape.currency] ?? shape.currency;
+  // resolve the display conventions
+  const format = options?.locale
+    ? getIsoPriceLocale(options.locale)
+    : DEFAULT_FORMAT;
+  if (!format)
+    throw new BadRequestError('unsupported locale', {
+      locale: options?.locale,
+      supported: ISO_PRICE_LOCALES.map((locale) => locale.tag),
+    });
+
+  // get the symbol for this currency (locale overrides first, then the shared symbol table)
+  const symbol =
+    format.symbols?.[shape.currency] ??
+    getIsoCurrencySymbol(shape.currency) ??
+    shape.currency;
 
   // use currency's standard exponent when shape.exponent is not set
   const exponent =
     shape.exponent ?? getIsoPriceExponentByCurrency(shape.currency);
 
-  // format the amount with commas
-  const formatted = formatAmountHuman(shape.amount, exponent);
-
-  // build the human-readable string (symbol prefix)
-  return `${symbol}${formatted}` as IsoPriceHuman;
+  // format the amount per the display conventions
+  const isNegative = shape.amount < 0n;
+  const number = formatAmountHuman(
+    isNegative ? -shape.amount : shape.amount,
+    exponent,
+    format,
+  );
+
+  return composeHuman({
+    symbol,
+    number,
+    isNegative,
+    format,
+    isLocalized: !!options?.locale,
+    negative: options?.negative,
+  }) as IsoPriceHuman;
 };
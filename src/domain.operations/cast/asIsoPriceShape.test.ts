@@ -1,5 +1,13 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
 import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { getIsoCurrencySymbol } from '../currency/getIsoCurrencySymbol';
+import { ISO_CURRENCY_SYMBOLS } from '../currency/isoCurrencySymbols';
 import { isIsoPriceShape } from '../guard/isIsoPriceShape';
+import { ISO_PRICE_LOCALES } from '../locale/isoPriceLocales';
+import { asIsoPrice } from './asIsoPrice';
+import { asIsoPriceHuman } from './asIsoPriceHuman';
 import { asIsoPriceShape } from './asIsoPriceShape';
 
 describe('asIsoPriceShape', () => {
@@ -58,6 +66,31 @@ describe('asIsoPriceShape', () => {
         output: { amount: 1234n, currency: 'BHD', exponent: 'milli.x10^-3' },
       },
     },
+    {
+      description: 'isk whole units per iso 4217',
+      given: { input: 'ISK 1000' },
+      expect: {
+        output: { amount: 1000n, currency: 'ISK', exponent: 'whole.x10^0' },
+      },
+    },
+    {
+      description: 'jod 3-decimal per iso 4217',
+      given: { input: 'JOD 1.5' },
+      expect: {
+        output: { amount: 1500n, currency: 'JOD', exponent: 'milli.x10^-3' },
+      },
+    },
+    {
+      description: 'clf 4-decimal per iso 4217',
+      given: { input: 'CLF 1.5' },
+      expect: {
+        output: {
+          amount: 15000n,
+          currency: 'CLF',
+          exponent: 'decimilli.x10^-4',
+        },
+      },
+    },
     // from shape format
     {
       description: 'bigint amount passthrough',
@@ -163,6 +196,58 @@ describe('asIsoPriceShape', () => {
         output: { amount: 100n, currency: 'ETH', exponent: 'centi.x10^-2' },
       },
     },
+    // arbitrary exponents
+    {
+      description: 'ten-thousandths step up to decimilli',
+      given: { input: 'USD 1.234_5' },
+      expect: {
+        output: {
+          amount: 12345n,
+          currency: 'USD',
+          exponent: 'decimilli.x10^-4',
+        },
+      },
+    },
+    {
+      description: 'beyond pico is exact at x10^-N',
+      given: { input: 'ETH 1.000_000_000_000_000_001' },
+      expect: {
+        output: {
+          amount: 1_000_000_000_000_000_001n,
+          currency: 'ETH',
+          exponent: 'x10^-18',
+        },
+      },
+    },
+    {
+      description: 'shape with x10^-8 is preserved',
+      given: {
+        input: {
+          amount: 150_000_000n,
+          currency: 'BTC',
+          exponent: 'x10^-8' as const,
+        },
+      },
+      expect: {
+        output: { amount: 150_000_000n, currency: 'BTC', exponent: 'x10^-8' },
+      },
+    },
+    {
+      description: 'shape with unnamed alias of si exponent is normalized',
+      given: {
+        input: { amount: 5037n, currency: 'USD', exponent: 'x10^-2' as const },
+      },
+      expect: {
+        output: { amount: 5037n, currency: 'USD', exponent: 'centi.x10^-2' },
+      },
+    },
+    {
+      description: 'shape with positive exponent is preserved',
+      given: {
+        input: { amount: 5n, currency: 'USD', exponent: 'x10^3' as const },
+      },
+      expect: { output: { amount: 5n, currency: 'USD', exponent: 'x10^3' } },
+    },
   ];
 
   CASES.forEach(({ description, given, expect: expected }) => {
@@ -174,6 +259,293 @@ describe('asIsoPriceShape', () => {
     });
   });
 
+  describe('.symbols', () => {
+    const SYMBOL_CASES = [
+      // disambiguated symbols win over their shorter overlaps
+      { given: { input: 'US$5' }, expect: { amount: 500n, currency: 'USD' } },
+      { given: { input: 'CA$5' }, expect: { amount: 500n, currency: 'CAD' } },
+      { given: { input: 'C$5' }, expect: { amount: 500n, currency: 'CAD' } },
+      { given: { input: 'A$5' }, expect: { amount: 500n, currency: 'AUD' } },
+      { given: { input: 'NZ$5' }, expect: { amount: 500n, currency: 'NZD' } },
+      { given: { input: 'MX$5' }, expect: { amount: 500n, currency: 'MXN' } },
+      { given: { input: 'S$5' }, expect: { amount: 500n, currency: 'SGD' } },
+      { given: { input: 'HK$5' }, expect: { amount: 500n, currency: 'HKD' } },
+      { given: { input: 'R$5' }, expect: { amount: 500n, currency: 'BRL' } },
+      { given: { input: 'R5' }, expect: { amount: 500n, currency: 'ZAR' } },
+      { given: { input: 'CN¥5' }, expect: { amount: 500n, currency: 'CNY' } },
+      // letter and sign symbols
+      { given: { input: 'Fr. 5' }, expect: { amount: 500n, currency: 'CHF' } },
+      { given: { input: '5 zł' }, expect: { amount: 500n, currency: 'PLN' } },
+      { given: { input: '₺5' }, expect: { amount: 500n, currency: 'TRY' } },
+      { given: { input: '₴5' }, expect: { amount: 500n, currency: 'UAH' } },
+      { given: { input: '₦5' }, expect: { amount: 500n, currency: 'NGN' } },
+      {
+        given: { input: '5,50 kr.' },
+        expect: { amount: 550n, currency: 'DKK' },
+      },
+      // a leading code qualifies a shared symbol
+      {
+        given: { input: 'NOK 5 kr' },
+        expect: { amount: 500n, currency: 'NOK' },
+      },
+      {
+        given: { input: 'CAD 5 $' },
+        expect: { amount: 500n, currency: 'CAD' },
+      },
+    ];
+
+    SYMBOL_CASES.forEach(({ given, expect: expected }) => {
+      test(given.input, () => {
+        const result = asIsoPriceShape(given.input);
+        expect(result.amount).toEqual(expected.amount);
+        expect(result.currency).toEqual(expected.currency);
+      });
+    });
+  });
+
+  describe('.accounting-negatives', () => {
+    const NEGATIVE_CASES = [
+      {
+        description: 'parentheses around a prefix symbol',
+        given: { input: '($1,234.56)' },
+        expect: { amount: -123456n, currency: 'USD' },
+      },
+      {
+        description: 'parentheses around a suffix symbol, per locale',
+        given: { input: '(1.234,56 €)', options: { locale: 'de-DE' } },
+        expect: { amount: -123456n, currency: 'EUR' },
+      },
+      {
+        description: 'minus before the symbol',
+        given: { input: '-$5' },
+        expect: { amount: -500n, currency: 'USD' },
+      },
+      {
+        description: 'minus before a disambiguated symbol',
+        given: { input: '-US$5' },
+        expect: { amount: -500n, currency: 'USD' },
+      },
+      {
+        description: 'minus after the symbol',
+        given: { input: '$-5' },
+        expect: { amount: -500n, currency: 'USD' },
+      },
+      {
+        description: 'credit marker is negative',
+        given: { input: '$5.00 CR' },
+        expect: { amount: -500n, currency: 'USD' },
+      },
+      {
+        description: 'debit marker is positive',
+        given: { input: '$5.00 DR' },
+        expect: { amount: 500n, currency: 'USD' },
+      },
+      {
+        description: 'credit marker after a suffix symbol',
+        given: { input: '1 234,50 kr CR', options: { locale: 'sv-SE' } },
+        expect: { amount: -123450n, currency: 'SEK' },
+      },
+      {
+        description: 'credit marker after a code-first price',
+        given: { input: 'USD 5.00 CR' },
+        expect: { amount: -500n, currency: 'USD' },
+      },
+      {
+        description: 'debit marker after a code-first price',
+        given: { input: 'USD 5.00 DR' },
+        expect: { amount: 500n, currency: 'USD' },
+      },
+      {
+        description: 'parentheses around a code-first price',
+        given: { input: '(USD 5.00)' },
+        expect: { amount: -500n, currency: 'USD' },
+      },
+      {
+        description: 'parentheses around the amount of a code-first price',
+        given: { input: 'USD (5.00)' },
+        expect: { amount: -500n, currency: 'USD' },
+      },
+      {
+        description: 'credit marker after a code-first price, per locale',
+        given: { input: 'EUR 5,00 CR', options: { locale: 'de-DE' } },
+        expect: { amount: -500n, currency: 'EUR' },
+      },
+      {
+        description:
+          'credit marker after a code-first price with a comma decimal',
+        given: { input: 'EUR 5,00 CR' },
+        expect: { amount: -500n, currency: 'EUR' },
+      },
+    ];
+
+    NEGATIVE_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        const result = asIsoPriceShape(given.input, given.options);
+        expect(result.amount).toEqual(expected.amount);
+        expect(result.currency).toEqual(expected.currency);
+      });
+    });
+
+    test('throws on a doubled negative notation', async () => {
+      const error = await getError(() => asIsoPriceShape('($-5)'));
+      expect(error).toBeInstanceOf(BadRequestError);
+    });
+
+    test('throws on a doubled negative notation around a code-first price', async () => {
+      const error = await getError(() => asIsoPriceShape('(USD -5.00)'));
+      expect(error).toBeInstanceOf(BadRequestError);
+    });
+  });
+
+  describe('.locale-option', () => {
+    const LOCALE_CASES = [
+      {
+        description: 'de-DE suffix symbol with comma decimal',
+        given: { input: '1.234,56 €', options: { locale: 'de-DE' } },
+        expect: { amount: 123456n, currency: 'EUR' },
+      },
+      {
+        description: 'de-DE lone dot groups thousands',
+        given: { input: '1.234 €', options: { locale: 'de-DE' } },
+        expect: { amount: 123400n, currency: 'EUR' },
+      },
+      {
+        description: 'fr-FR no-break space groups',
+        given: { input: '1\u202f234,56\u00a0€', options: { locale: 'fr-FR' } },
+        expect: { amount: 123456n, currency: 'EUR' },
+      },
+      {
+        description: 'en-IN lakh groups',
+        given: { input: '₹1,00,000', options: { locale: 'en-IN' } },
+        expect: { amount: 10000000n, currency: 'INR' },
+      },
+      {
+        description: 'hi-IN devanagari digits',
+        given: { input: '₹१,००,०००.५०', options: { locale: 'hi-IN' } },
+        expect: { amount: 10000050n, currency: 'INR' },
+      },
+      {
+        description: 'sv-SE unicode minus and space groups',
+        given: { input: '−1 234,50 kr', options: { locale: 'sv-SE' } },
+        expect: { amount: -123450n, currency: 'SEK' },
+      },
+      {
+        description: 'de-CH code prefix with apostrophe groups',
+        given: { input: "CHF 1'234.50", options: { locale: 'de-CH' } },
+        expect: { amount: 123450n, currency: 'CHF' },
+      },
+    ];
+
+    LOCALE_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        const result = asIsoPriceShape(given.input, given.options);
+        expect(result.amount).toEqual(expected.amount);
+        expect(result.currency).toEqual(expected.currency);
+      });
+    });
+  });
+
+  describe('.locale-inference', () => {
+    const INFERENCE_CASES = [
+      {
+        description: 'comma decimal after dot groups',
+        given: { input: '1.234,56 €' },
+        expect: { amount: 123456n, currency: 'EUR' },
+      },
+      {
+        description: 'apostrophe groups after code prefix',
+        given: { input: "CHF 1'234.50" },
+        expect: { amount: 123450n, currency: 'CHF' },
+      },
+      {
+        description: 'lakh groups',
+        given: { input: '₹1,00,000' },
+        expect: { amount: 10000000n, currency: 'INR' },
+      },
+      {
+        description: 'arabic-indic digits',
+        given: { input: 'USD ١٬٢٣٤٫٥٠' },
+        expect: { amount: 123450n, currency: 'USD' },
+      },
+      {
+        description: 'symbol-first lone comma stays a group separator',
+        given: { input: '$1,000' },
+        expect: { amount: 100000n, currency: 'USD' },
+      },
+    ];
+
+    INFERENCE_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        const result = asIsoPriceShape(given.input);
+        expect(result.amount).toEqual(expected.amount);
+        expect(result.currency).toEqual(expected.currency);
+      });
+    });
+
+    test('throws on an ambiguous symbol-last amount', async () => {
+      const error = await getError(() => asIsoPriceShape('1.234 €'));
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('ambiguous');
+    });
+  });
+
+  describe('.locale-roundtrip', () => {
+    const AMOUNTS = ['EUR 1_234_567.89', 'EUR 1_000.00', 'EUR 0.50'];
+
+    ISO_PRICE_LOCALES.forEach((locale) => {
+      test(`${locale.tag} parses its own display`, () => {
+        for (const words of AMOUNTS) {
+          const human = asIsoPriceHuman(words, { locale: locale.tag });
+          expect(asIsoPrice(human, { locale: locale.tag })).toEqual(words);
+        }
+      });
+    });
+
+    ISO_PRICE_LOCALES.filter(
+      (locale) => locale.minusPosition === 'before-number',
+    ).forEach((locale) => {
+      test(`${locale.tag} parses its own negative display`, () => {
+        const human = asIsoPriceHuman('EUR -1_234.50', { locale: locale.tag });
+        expect(asIsoPrice(human, { locale: locale.tag })).toEqual(
+          'EUR -1_234.50',
+        );
+      });
+    });
+  });
+
+  describe('.symbol-roundtrip', () => {
+    const CURRENCIES = [
+      ...new Set(ISO_CURRENCY_SYMBOLS.flatMap((row) => row.currencies)),
+    ];
+
+    test('every currency whose display symbol is its own parses back', () => {
+      for (const currency of CURRENCIES) {
+        const human = asIsoPriceHuman(`${currency} 5`);
+        const expected = asIsoPrice(`${currency} 5`);
+        const symbol = getIsoCurrencySymbol(currency);
+        const [symbolDefault] = symbol
+          ? getIsoCurrencySymbol.currencies(symbol)
+          : [];
+        if (symbolDefault === currency)
+          expect(asIsoPrice(human)).toEqual(expected);
+        expect(asIsoPrice(human, { currency })).toEqual(expected);
+      }
+    });
+
+    ISO_PRICE_LOCALES.filter((locale) => locale.symbols).forEach((locale) => {
+      test(`${locale.tag} parses its own symbol overrides`, () => {
+        for (const currency of Object.keys(locale.symbols ?? {})) {
+          const human = asIsoPriceHuman(`${currency} 1_234.50`, {
+            locale: locale.tag,
+          });
+          expect(asIsoPrice(human, { currency, locale: locale.tag })).toEqual(
+            `${currency} 1_234.50`,
+          );
+        }
+      });
+    });
+  });
+
   describe('.type-coercion', () => {
     test('number amount converts to bigint type', () => {
       const result = asIsoPriceShape({ amount: 5037, currency: 'USD' });
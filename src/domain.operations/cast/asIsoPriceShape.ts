@@ -3,89 +3,63 @@ import { BadRequestError } from 'helpful-errors';
 import type { IsoPrice } from '../../domain.objects/IsoPrice';
 import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
 import type { IsoPriceShape } from '../../domain.objects/IsoPriceShape';
+import { detectIsoCurrencySymbol } from '../currency/detectIsoCurrencySymbol';
+import { getIsoCurrencyRegistry } from '../currency/getIsoCurrencyRegistry';
 import { isIsoPriceHuman } from '../guard/isIsoPriceHuman';
 import { isIsoPriceWords } from '../guard/isIsoPriceWords';
+import { normalizeIsoPriceAmount } from '../locale/normalizeIsoPriceAmount';
+import { unwrapIsoPriceNegative } from '../locale/unwrapIsoPriceNegative';
 import { getIsoPriceExponentByCurrency } from '../precision/getIsoPriceExponentByCurrency';
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
+import { asIsoPriceExponent } from './asIsoPriceExponent';
 
 /**
- * .what = currency symbol to code mappings
- * .why = enables conversion from human format symbols to iso 4217 codes
+ * .what = named si exponents, in order of increasing precision
+ * .why = parsed precision steps up to the next named exponent, for readability
  */
-const SYMBOL_TO_CODE: Record<string, string> = {
-  $: 'USD',
-  '€': 'EUR',
-  '£': 'GBP',
-  '¥': 'JPY',
-  '₹': 'INR',
-  '₽': 'RUB',
-  '₩': 'KRW',
-  '₪': 'ILS',
-  '฿': 'THB',
-  '₫': 'VND',
-  kr: 'SEK',
-  R: 'ZAR',
-  zł: 'PLN',
-  Kč: 'CZK',
-  CHF: 'CHF',
-};
+const NAMED_EXPONENTS_BY_PRECISION: {
+  exponent: IsoPriceExponent;
+  value: number;
+}[] = Object.values(IsoPriceExponent)
+  .map((exponent) => ({ exponent, value: getIsoPriceExponentValue(exponent) }))
+  .sort((a, b) => b.value - a.value);
 
 /**
  * .what = parses amount string to bigint in minor units
  * .why = converts decimal string like '50.37' to bigint 5037n
+ *
+ * when the amount has more decimals than the exponent can hold,
+ * steps up to the next named si exponent that fits (e.g., 4 decimals → decimilli),
+ * or to an exact `x10^-N` beyond pico (e.g., 18 decimals → 'x10^-18')
  */
 const parseAmountToMinorUnits = (input: {
   amountStr: string;
   exponent: IsoPriceExponent;
 }): { amount: bigint; exponent: IsoPriceExponent } => {
-  const { amountStr, exponent } = input;
-  // get the decimal places for this exponent
-  const decimalPlaces = Math.abs(parseInt(exponent.split('^')[1] ?? '-2', 10));
-
-  // clean the string: remove underscores and commas
-  const cleaned = amountStr.replace(/[_,]/g, '');
-
-  // split into integer and decimal parts
-  const [intPart, decPart = ''] = cleaned.split('.');
-
-  // pad or truncate decimal part to match exponent
-  const paddedDecimal = decPart.padEnd(decimalPlaces, '0');
-  const truncatedDecimal = paddedDecimal.slice(0, decimalPlaces);
-
-  // detect if we need higher precision
-  if (decPart.length > decimalPlaces) {
-    // use the actual decimal length to determine exponent
-    const actualDecPlaces = decPart.length;
-    const exponentMap: Record<number, IsoPriceExponent> = {
-      0: IsoPriceExponent.WHOLE,
-      2: IsoPriceExponent.CENTI,
-      3: IsoPriceExponent.MILLI,
-      6: IsoPriceExponent.MICRO,
-      9: IsoPriceExponent.NANO,
-      12: IsoPriceExponent.PICO,
-    };
-    // find the smallest exponent that fits
-    const newExponent =
-      Object.entries(exponentMap)
-        .filter(([places]) => parseInt(places) >= actualDecPlaces)
-        .sort((a, b) => parseInt(a[0]) - parseInt(b[0]))[0]?.[1] ??
-      IsoPriceExponent.PICO;
-
-    const newDecPlaces = Math.abs(
-      parseInt(newExponent.split('^')[1] ?? '-2', 10),
-    );
-    const fullDecimal = decPart.padEnd(newDecPlaces, '0');
-
-    return {
-      amount: BigInt(`${intPart ?? '0'}${fullDecimal}`),
-      exponent: newExponent,
-    };
-  }
-
-  // combine integer and decimal parts
-  const combined = `${intPart ?? '0'}${truncatedDecimal}`;
+  // split the canonical amount (see normalizeIsoPriceAmount) into integer and decimal parts
+  const [intPart, decPart = ''] = input.amountStr.split('.');
+  const digits = BigInt(`${intPart || '0'}${decPart}`);
+  const digitsExponentValue = -decPart.length;
+
+  // express the digits at the target exponent, if it holds them
+  const exponentValue = getIsoPriceExponentValue(input.exponent);
+  const shift = exponentValue - digitsExponentValue;
+  if (shift <= 0)
+    return { amount: digits * 10n ** BigInt(-shift), exponent: input.exponent };
+  const isWholeMultiple =
+    decPart.length === 0 && digits % 10n ** BigInt(shift) === 0n;
+  if (isWholeMultiple)
+    return { amount: digits / 10n ** BigInt(shift), exponent: input.exponent };
+
+  // otherwise, step up to the least precise exponent that holds the digits exactly
+  const newExponent =
+    NAMED_EXPONENTS_BY_PRECISION.find(
+      ({ value }) => value < exponentValue && value <= digitsExponentValue,
+    )?.exponent ?? asIsoPriceExponent(digitsExponentValue);
+  const newShift = digitsExponentValue - getIsoPriceExponentValue(newExponent);
   return {
-    amount: BigInt(combined),
-    exponent,
+    amount: digits * 10n ** BigInt(newShift),
+    exponent: newExponent,
   };
 };
 
@@ -96,55 +70,77 @@ const parseAmountToMinorUnits = (input: {
 const parseWordsFormat = (input: {
   value: string;
 }): { currency: string; amountStr: string } => {
-  const match = input.value.match(/^([A-Z]{3}) (.+)$/);
-  if (!match)
+  const [, currency, amountStr] =
+    input.value.match(/^([A-Z][A-Z0-9]*)[ \u00a0](.+)$/) ?? [];
+  if (currency === undefined || amountStr === undefined)
     throw new BadRequestError('invalid words format', { value: input.value });
-  return { currency: match[1]!, amountStr: match[2]! };
+  return { currency, amountStr };
 };
 
 /**
- * .what = relaxed pattern for words-like format that may have commas
- * .why = enables asIsoPrice to normalize 'USD 1,000,000.00' → 'USD 1_000_000.00'
+ * .what = relaxed pattern for words-like format with localized separators or digits
+ * .why = enables asIsoPrice to normalize 'USD 1,000,000.00' → 'USD 1_000_000.00' and "CHF 1'234.50" → 'CHF 1_234.50'
  *
- * this pattern accepts commas for input convenience; isIsoPriceWords is stricter
+ * this pattern accepts commas, apostrophes, spaces, and native digits for input convenience; isIsoPriceWords is stricter
  */
 const isWordsLikeFormat = (value: unknown): value is string => {
   if (typeof value !== 'string') return false;
-  return /^[A-Z]{3} -?[\d,_.]+$/.test(value);
+  const match = value.match(
+    /^([A-Z][A-Z0-9]*)[ \u00a0][-\u2212]?[\d\u0660-\u0669\u06f0-\u06f9\u0966-\u096f][\d\u0660-\u0669\u06f0-\u06f9\u0966-\u096f,._'\u2019 \u00a0\u202f\u2009\u066b\u066c]*$/,
+  );
+  const code = match?.[1];
+  if (code === undefined) return false;
+  return (
+    /^[A-Z]{3}$/.test(code) || getIsoCurrencyRegistry().definitions.has(code)
+  );
+};
+
+/**
+ * .what = rewrites an accounting negative around a code-first price as signed words
+ * .why = bank exports wrap code-first prices as they wrap symbol-first ones, e.g., '(USD 5.00)', 'USD (5.00)', 'USD 5.00 CR'
+ *
+ * the notation may wrap the whole price or only its amount; returns the input, trimmed, when neither is wrapped
+ *
+ * @example
+ * asSignedWordsOfCodeFirst('USD 5.00 CR')  // => 'USD -5.00'
+ * asSignedWordsOfCodeFirst('USD (5.00)')   // => 'USD -5.00'
+ */
+const asSignedWordsOfCodeFirst = (value: string): string => {
+  const outer = unwrapIsoPriceNegative(value);
+  const [, code, space, amount] =
+    outer.value.match(/^([A-Z][A-Z0-9]*)([ \u00a0])(.+)$/) ?? [];
+  if (code === undefined || space === undefined || amount === undefined)
+    return value.trim();
+  const isOuterWrapped = outer.isNegative || outer.value !== value.trim();
+  const inner = isOuterWrapped
+    ? { value: amount.trim(), isNegative: outer.isNegative }
+    : unwrapIsoPriceNegative(amount);
+  return `${code}${space}${inner.isNegative ? '-' : ''}${inner.value}`;
 };
 
 /**
  * .what = extracts currency code and amount from human format
- * .why = parses '$50.37' or '50.37 €' into { currency: 'USD', amount: '50.37' }
+ * .why = parses '$50.37', 'US$50.37', or '50.37 €' into { currency: 'USD', amount: '50.37' }
+ *
+ * the symbol is matched longest first against the shared symbol table (see `ISO_CURRENCY_SYMBOLS`);
+ * a code that qualifies the symbol (e.g., 'NOK 5 kr') picks the currency over the symbol's default
  */
 const parseHumanFormat = (
   input: { value: string },
   options?: { currency?: string },
-): { currency: string; amountStr: string } => {
-  // try prefix symbols
-  for (const [symbol, code] of Object.entries(SYMBOL_TO_CODE)) {
-    if (input.value.startsWith(symbol)) {
-      const amountStr = input.value.slice(symbol.length);
-      const currency = options?.currency ?? code;
-      return { currency, amountStr };
-    }
-  }
-
-  // try suffix symbols
-  for (const [symbol, code] of Object.entries(SYMBOL_TO_CODE)) {
-    if (input.value.endsWith(symbol) || input.value.endsWith(` ${symbol}`)) {
-      const amountStr = input.value.replace(
-        new RegExp(`\\s*${symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`),
-        '',
-      );
-      const currency = options?.currency ?? code;
-      return { currency, amountStr };
-    }
-  }
-
-  throw new BadRequestError('unable to parse human format', {
-    value: input.value,
-  });
+): { currency: string; amountStr: string; position: 'prefix' | 'suffix' } => {
+  const detected = detectIsoCurrencySymbol(input.value);
+  if (!detected)
+    throw new BadRequestError('unable to parse human format', {
+      value: input.value,
+    });
+  const [defaultCurrency = ''] = detected.currencies;
+  const currency = options?.currency ?? detected.qualifier ?? defaultCurrency;
+  return {
+    currency,
+    amountStr: detected.amountStr,
+    position: detected.position,
+  };
 };
 
 /**
@@ -162,6 +158,20 @@ const parseHumanFormat = (
  * @example
  * asIsoPriceShape('$50.37')
  * // => { amount: 5037n, currency: 'USD' }
+ *
+ * @example
+ * // localized separators, per locale or inferred
+ * asIsoPriceShape('1.234,56 €', { locale: 'de-DE' })
+ * // => { amount: 123456n, currency: 'EUR', exponent: 'centi.x10^-2' }
+ * asIsoPriceShape("CHF 1'234.50")
+ * // => { amount: 123450n, currency: 'CHF', exponent: 'centi.x10^-2' }
+ *
+ * @example
+ * // accounting negatives, symbol-first or code-first
+ * asIsoPriceShape('USD 5.00 CR')
+ * // => { amount: -500n, currency: 'USD', exponent: 'centi.x10^-2' }
+ *
+ * @throws BadRequestError if a symbol-last amount has an ambiguous separator and no locale (e.g., '1.234 €')
  */
 export const asIsoPriceShape = <TCurrency extends string = string>(
   input:
@@ -172,7 +182,7 @@ export const asIsoPriceShape = <TCurrency extends string = string>(
         exponent?: IsoPriceExponent;
       }
     | string,
-  options?: { currency?: TCurrency },
+  options?: { currency?: TCurrency; locale?: string },
 ): IsoPriceShape<TCurrency> => {
   // handle shape format (may need number → bigint conversion)
   if (
@@ -184,9 +194,9 @@ export const asIsoPriceShape = <TCurrency extends string = string>(
     const amount =
       typeof input.amount === 'bigint' ? input.amount : BigInt(input.amount);
     // always include exponent for observability and recomposition
-    const exponent =
-      (input.exponent as IsoPriceExponent) ??
-      getIsoPriceExponentByCurrency(input.currency);
+    const exponent = input.exponent
+      ? asIsoPriceExponent(input.exponent)
+      : getIsoPriceExponentByCurrency(input.currency);
     return {
       amount,
       currency: input.currency as TCurrency,
@@ -194,12 +204,18 @@ export const asIsoPriceShape = <TCurrency extends string = string>(
     };
   }
 
-  // handle words format (strict) or words-like format with commas (relaxed)
-  if (isIsoPriceWords(input) || isWordsLikeFormat(input)) {
-    const { currency, amountStr } = parseWordsFormat({ value: input });
+  // handle words format (strict) or words-like format with commas (relaxed), unwrapped of accounting negatives
+  const words =
+    typeof input === 'string' ? asSignedWordsOfCodeFirst(input) : input;
+  if (isIsoPriceWords(words) || isWordsLikeFormat(words)) {
+    const { currency, amountStr } = parseWordsFormat({ value: words });
     const currencyExponent = getIsoPriceExponentByCurrency(currency);
     const { amount, exponent } = parseAmountToMinorUnits({
-      amountStr,
+      // strict words are always dot-decimal; relaxed words may follow the locale
+      amountStr: normalizeIsoPriceAmount(amountStr, {
+        locale: isIsoPriceWords(words) ? undefined : options?.locale,
+        ambiguous: 'assume-dot-decimal',
+      }),
       exponent: currencyExponent,
     });
     // always include exponent for observability and recomposition
@@ -212,10 +228,18 @@ export const asIsoPriceShape = <TCurrency extends string = string>(
 
   // handle human format
   if (isIsoPriceHuman(input)) {
-    const { currency, amountStr } = parseHumanFormat({ value: input }, options);
+    const { currency, amountStr, position } = parseHumanFormat(
+      { value: input },
+      options,
+    );
     const currencyExponent = getIsoPriceExponentByCurrency(currency);
     const { amount, exponent } = parseAmountToMinorUnits({
-      amountStr,
+      // symbol-first amounts default to dot-decimal ('$1,000', '$7.123');
+      // symbol-last amounts span both conventions ('1.234 €', '1,234 kr'), so must not guess
+      amountStr: normalizeIsoPriceAmount(amountStr, {
+        locale: options?.locale,
+        ambiguous: position === 'prefix' ? 'assume-dot-decimal' : 'throw',
+      }),
       exponent: currencyExponent,
     });
     // always include exponent for observability and recomposition
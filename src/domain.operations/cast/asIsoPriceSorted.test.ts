@@ -1,5 +1,6 @@
 import { BadRequestError, getError } from 'helpful-errors';
 
+import { createIsoExchangeRateTable } from '../exchange/createIsoExchangeRateTable';
 import { asIsoPriceSorted } from './asIsoPriceSorted';
 
 describe('asIsoPriceSorted', () => {
@@ -209,4 +210,135 @@ describe('asIsoPriceSorted', () => {
       expect(result).toEqual(['JPY 100', 'JPY 500', 'JPY 1_000']);
     });
   });
+
+  describe('.with-rates', () => {
+    const table = createIsoExchangeRateTable({
+      rates: [
+        {
+          base: 'EUR',
+          asOf: '2025-06-02',
+          rates: { USD: '1.1374', JPY: '162.35' },
+        },
+        { base: 'EUR', asOf: '2025-06-01', rates: { USD: '1.1300' } },
+      ],
+      pivot: 'EUR',
+    });
+
+    test('sorts mixed currencies by their value in the first currency', () => {
+      const prices = ['USD 100.00', 'EUR 80.00', 'JPY 14_000', 'USD 90.00'];
+      expect(asIsoPriceSorted(prices, { rates: table })).toEqual([
+        'USD 90.00',
+        'EUR 80.00',
+        'JPY 14_000',
+        'USD 100.00',
+      ]);
+    });
+
+    test('keeps the original currencies in the output', () => {
+      const prices = ['EUR 80.00', { amount: 9000n, currency: 'USD' }];
+      expect(asIsoPriceSorted(prices, { rates: table, order: 'desc' })).toEqual(
+        ['EUR 80.00', 'USD 90.00'],
+      );
+    });
+
+    test('keeps equal values in their original order', () => {
+      expect(
+        asIsoPriceSorted(['USD 113.74', 'EUR 100.00'], { rates: table }),
+      ).toEqual(['USD 113.74', 'EUR 100.00']);
+      expect(
+        asIsoPriceSorted(['EUR 100.00', 'USD 113.74'], { rates: table }),
+      ).toEqual(['EUR 100.00', 'USD 113.74']);
+    });
+
+    test('sorts by rates as of a moment', () => {
+      const prices = ['USD 113.50', 'EUR 100.00'];
+      expect(asIsoPriceSorted(prices, { rates: table })).toEqual([
+        'USD 113.50',
+        'EUR 100.00',
+      ]);
+      expect(
+        asIsoPriceSorted(prices, { rates: table, asOf: '2025-06-01' }),
+      ).toEqual(['EUR 100.00', 'USD 113.50']);
+    });
+
+    test('reports the rate each other currency was compared by', () => {
+      const prices = ['USD 100.00', 'EUR 80.00', 'JPY 14_000'];
+      expect(asIsoPriceSorted(prices, { rates: table, report: true })).toEqual({
+        prices: ['EUR 80.00', 'JPY 14_000', 'USD 100.00'],
+        report: {
+          into: 'USD',
+          rates: [
+            {
+              from: 'EUR',
+              to: 'USD',
+              rate: '1.1374',
+              asOf: '2025-06-02',
+              ratio: { numerator: 5687n, denominator: 5000n },
+            },
+            {
+              from: 'JPY',
+              to: 'USD',
+              rate: '0.00700585',
+              asOf: '2025-06-02',
+              ratio: { numerator: 5687n, denominator: 811750n },
+            },
+          ],
+        },
+      });
+    });
+
+    test('reports in an explicit reference currency', () => {
+      const result = asIsoPriceSorted(['USD 100.00', 'JPY 14_000'], {
+        rates: table,
+        into: 'EUR',
+        report: true,
+      });
+      expect(result.report).toEqual({
+        into: 'EUR',
+        rates: [
+          {
+            from: 'JPY',
+            to: 'EUR',
+            rate: '0.00615953',
+            asOf: '2025-06-02',
+            ratio: { numerator: 20n, denominator: 3247n },
+          },
+          {
+            from: 'USD',
+            to: 'EUR',
+            rate: '0.879198',
+            asOf: '2025-06-02',
+            ratio: { numerator: 5000n, denominator: 5687n },
+          },
+        ],
+      });
+    });
+
+    test('reports no rates without them', () => {
+      expect(
+        asIsoPriceSorted(['USD 2.00', 'USD 1.00'], { report: true }),
+      ).toEqual({
+        prices: ['USD 1.00', 'USD 2.00'],
+        report: { into: 'USD', rates: [] },
+      });
+    });
+
+    test('accepts rates on the method variants', () => {
+      expect(
+        asIsoPriceSorted.desc(['EUR 80.00', 'USD 100.00'], {
+          rates: ['EUR/USD 1.1374'],
+        }),
+      ).toEqual(['USD 100.00', 'EUR 80.00']);
+    });
+
+    test('throws when the rates have no path between the currencies', async () => {
+      const error = await getError(async () =>
+        asIsoPriceSorted(['GBP 1.00', 'USD 1.00'], { rates: table }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'no exchange rate between the currencies',
+      );
+    });
+  });
 });
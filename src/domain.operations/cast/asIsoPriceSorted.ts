@@ -1,9 +1,37 @@
 import { BadRequestError } from 'helpful-errors';
 
+import type { IsoExchangeRate } from '../../domain.objects/IsoExchangeRate';
+import type { IsoExchangeRateSource } from '../../domain.objects/IsoExchangeRateSource';
+import type { IsoExchangeRateTable } from '../../domain.objects/IsoExchangeRateTable';
 import type { IsoPrice } from '../../domain.objects/IsoPrice';
 import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import type { IsoRatio } from '../../domain.objects/IsoRatio';
 import { subPrices } from '../arithmetic/subPrices';
+import { getIsoExchangeRate } from '../exchange/getIsoExchangeRate';
+import {
+  compareIsoPriceValues,
+  getIsoPriceValuesInto,
+} from '../exchange/getIsoPriceValuesInto';
+import {
+  multiplyIsoExchangeRateLegs,
+  resolveIsoExchangeRatio,
+} from '../exchange/resolveIsoExchangeRatio';
 import { asIsoPriceWords } from './asIsoPriceWords';
+import { asIsoRatio } from './asIsoRatio';
+
+/**
+ * .what = the exchange rates a cross-currency sort compared by
+ * .why = lets price-comparison features show which rate ranked each market
+ */
+type SortReport = {
+  /** reference currency all prices were compared in, or null for no prices */
+  into: string | null;
+  /**
+   * one rate per other currency, into the reference currency.
+   * `rate` is rounded as `getIsoExchangeRate` reports it; `ratio` is the exact ratio the prices were compared by
+   */
+  rates: (IsoExchangeRate & { ratio: IsoRatio })[];
+};
 
 /**
  * .what = sorts an array of prices by numeric value
@@ -22,8 +50,11 @@ import { asIsoPriceWords } from './asIsoPriceWords';
  * - default sort order is asc (lowest first)
  * - immutable — original array is not modified
  * - stable sort — equal values preserve relative order
+ * - with `rates`, sorts mixed currencies by their exact values in `into` — which defaults to the
+ *   first price's currency — while each price keeps its own currency in the output
+ * - with `report: true`, also returns the rate each other currency was compared by, with its exact ratio
  *
- * @throws BadRequestError if prices have different currencies
+ * @throws BadRequestError if prices have different currencies and no rates are given, or the rates have no path between them
  *
  * @example
  * asIsoPriceSorted(['USD 100.00', 'USD 9.00', 'USD 50.00'])
@@ -32,8 +63,109 @@ import { asIsoPriceWords } from './asIsoPriceWords';
  * @example
  * asIsoPriceSorted(['USD 100.00', 'USD 9.00'], { order: 'desc' })
  * // => ['USD 100.00', 'USD 9.00']
+ *
+ * @example
+ * asIsoPriceSorted(['USD 100.00', 'EUR 80.00', 'JPY 14_000'], { rates: table, report: true })
+ * // => {
+ * //   prices: ['EUR 80.00', 'JPY 14_000', 'USD 100.00'],
+ * //   report: { into: 'USD', rates: [{ from: 'EUR', to: 'USD', rate: '1.1374', ratio: { numerator: 5687n, denominator: 5000n }, ... }, { from: 'JPY', ... }] },
+ * // }
+ */
+function _asIsoPriceSorted<TCurrency extends string = string>(
+  prices: (IsoPrice<TCurrency> | string)[],
+  options?: {
+    order?: 'asc' | 'desc';
+    rates?: IsoExchangeRateTable | IsoExchangeRateSource;
+    into?: string;
+    asOf?: string;
+    report?: false;
+  },
+): IsoPriceWords<TCurrency>[];
+function _asIsoPriceSorted<TCurrency extends string = string>(
+  prices: (IsoPrice<TCurrency> | string)[],
+  options: {
+    order?: 'asc' | 'desc';
+    rates?: IsoExchangeRateTable | IsoExchangeRateSource;
+    into?: string;
+    asOf?: string;
+    report: true;
+  },
+): { prices: IsoPriceWords<TCurrency>[]; report: SortReport };
+function _asIsoPriceSorted<TCurrency extends string = string>(
+  prices: (IsoPrice<TCurrency> | string)[],
+  options?: {
+    order?: 'asc' | 'desc';
+    rates?: IsoExchangeRateTable | IsoExchangeRateSource;
+    into?: string;
+    asOf?: string;
+    report?: boolean;
+  },
+):
+  | IsoPriceWords<TCurrency>[]
+  | { prices: IsoPriceWords<TCurrency>[]; report: SortReport } {
+  // sort across currencies by exact values, when rates are given
+  if (options?.rates !== undefined) {
+    const { into, table, values } = getIsoPriceValuesInto({
+      prices,
+      rates: options.rates,
+      into: options.into,
+      asOf: options.asOf,
+    });
+    const direction = (options.order ?? 'asc') === 'asc' ? 1 : -1;
+    const sorted = prices
+      .flatMap((price, originalIndex) => {
+        const value = values[originalIndex];
+        if (!value) return [];
+        const words = asIsoPriceWords<TCurrency>(price as IsoPrice<TCurrency>);
+        return [{ words, value, originalIndex }];
+      })
+      .sort(
+        (a, b) =>
+          direction * compareIsoPriceValues(a.value, b.value) ||
+          a.originalIndex - b.originalIndex,
+      )
+      .map((item) => item.words);
+    if (!options.report) return sorted;
+
+    // report the rate each other currency was compared by, and its exact ratio
+    const currencies = [
+      ...new Set(sorted.map((words) => words.slice(0, words.indexOf(' ')))),
+    ].filter((currency) => currency !== into);
+    return {
+      prices: sorted,
+      report: {
+        into,
+        rates: currencies.map((currency) => {
+          const lookup = {
+            table,
+            from: currency,
+            to: into ?? currency,
+            asOf: options.asOf,
+          };
+          return {
+            ...getIsoExchangeRate(lookup),
+            ratio: asIsoRatio(
+              multiplyIsoExchangeRateLegs(resolveIsoExchangeRatio(lookup)),
+            ),
+          };
+        }),
+      },
+    };
+  }
+
+  const sorted = _asIsoPriceSortedInOneCurrency(prices, options);
+  if (!options?.report) return sorted;
+  return {
+    prices: sorted,
+    report: { into: sorted[0]?.split(' ')[0] ?? null, rates: [] },
+  };
+}
+
+/**
+ * .what = sorts prices of one currency by numeric value
+ * .why = the default sort, which fails fast on mixed currencies
  */
-const _asIsoPriceSorted = <TCurrency extends string = string>(
+const _asIsoPriceSortedInOneCurrency = <TCurrency extends string = string>(
   prices: (IsoPrice<TCurrency> | string)[],
   options?: { order?: 'asc' | 'desc' },
 ): IsoPriceWords<TCurrency>[] => {
@@ -48,7 +180,7 @@ const _asIsoPriceSorted = <TCurrency extends string = string>(
 
   // handle single element — return new array with single element
   if (wordsWithIndex.length === 1) {
-    return [wordsWithIndex[0]!.words];
+    return wordsWithIndex.map(({ words }) => words);
   }
 
   // validate all prices have the same currency
@@ -89,7 +221,13 @@ const _asIsoPriceSorted = <TCurrency extends string = string>(
  */
 const asc = <TCurrency extends string = string>(
   prices: (IsoPrice<TCurrency> | string)[],
-): IsoPriceWords<TCurrency>[] => _asIsoPriceSorted(prices, { order: 'asc' });
+  options?: {
+    rates?: IsoExchangeRateTable | IsoExchangeRateSource;
+    into?: string;
+    asOf?: string;
+  },
+): IsoPriceWords<TCurrency>[] =>
+  _asIsoPriceSorted(prices, { ...options, order: 'asc' });
 
 /**
  * .what = sorts prices in desc order
@@ -97,7 +235,13 @@ const asc = <TCurrency extends string = string>(
  */
 const desc = <TCurrency extends string = string>(
   prices: (IsoPrice<TCurrency> | string)[],
-): IsoPriceWords<TCurrency>[] => _asIsoPriceSorted(prices, { order: 'desc' });
+  options?: {
+    rates?: IsoExchangeRateTable | IsoExchangeRateSource;
+    into?: string;
+    asOf?: string;
+  },
+): IsoPriceWords<TCurrency>[] =>
+  _asIsoPriceSorted(prices, { ...options, order: 'desc' });
 
 /**
  * .what = export with attached method variants
@@ -68,6 +68,22 @@ describe('asIsoPriceWords', () => {
       given: { input: 'USD 1000000.00' },
       expect: { output: 'USD 1_000_000.00' },
     },
+    // iso 4217 registry exponents
+    {
+      description: 'clf 4-decimal from shape',
+      given: { input: { amount: 12345n, currency: 'CLF' } },
+      expect: { output: 'CLF 1.234_5' },
+    },
+    {
+      description: 'clf 4-decimal words round-trip',
+      given: { input: 'CLF 1.234_5' },
+      expect: { output: 'CLF 1.234_5' },
+    },
+    {
+      description: 'isk whole units from shape',
+      given: { input: { amount: 1500n, currency: 'ISK' } },
+      expect: { output: 'ISK 1_500' },
+    },
     // c.13: serialize - high-precision round-trip
     {
       description: 'nano precision shape to words',
@@ -103,6 +119,43 @@ describe('asIsoPriceWords', () => {
       },
       expect: { output: 'ETH 1_000_000.000_000_000_000' },
     },
+    // arbitrary exponents
+    {
+      description: 'satoshi precision (x10^-8)',
+      given: {
+        input: {
+          amount: 150_000_001n,
+          currency: 'BTC',
+          exponent: 'x10^-8' as const,
+        },
+      },
+      expect: { output: 'BTC 1.500_000_01' },
+    },
+    {
+      description: 'wei precision (x10^-18)',
+      given: {
+        input: {
+          amount: 1_000_000_000_000_000_001n,
+          currency: 'ETH',
+          exponent: 'x10^-18' as const,
+        },
+      },
+      expect: { output: 'ETH 1.000_000_000_000_000_001' },
+    },
+    {
+      description: 'thousands (x10^3)',
+      given: {
+        input: { amount: 5n, currency: 'USD', exponent: 'x10^3' as const },
+      },
+      expect: { output: 'USD 5_000' },
+    },
+    {
+      description: 'negative thousands (x10^3)',
+      given: {
+        input: { amount: -1250n, currency: 'USD', exponent: 'x10^3' as const },
+      },
+      expect: { output: 'USD -1_250_000' },
+    },
   ];
 
   CASES.forEach(({ description, given, expect: expected }) => {
@@ -3,18 +3,9 @@ import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
 import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
 import { isIsoPriceWords } from '../guard/isIsoPriceWords';
 import { getIsoPriceExponentByCurrency } from '../precision/getIsoPriceExponentByCurrency';
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
 import { asIsoPriceShape } from './asIsoPriceShape';
 
-/**
- * .what = gets the decimal places for an exponent
- * .why = determines how to format the amount string
- */
-const getDecimalPlaces = (exponent: IsoPriceExponent): number => {
-  const match = exponent.match(/\^(-?\d+)$/);
-  if (!match) return 2; // default to 2 decimal places
-  return Math.abs(parseInt(match[1]!, 10));
-};
-
 /**
  * .what = formats the decimal part with underscore separators for high precision
  * .why = improves readability of micro/nano/pico precision amounts
@@ -39,9 +30,13 @@ const formatAmount = (
   amount: bigint,
   exponent: IsoPriceExponent = IsoPriceExponent.CENTI,
 ): string => {
-  const decimalPlaces = getDecimalPlaces(exponent);
-  const isNegative = amount < 0n;
-  const absAmount = isNegative ? -amount : amount;
+  // positive exponents scale up to whole units (e.g., x10^3 = thousands)
+  const exponentValue = getIsoPriceExponentValue(exponent);
+  const decimalPlaces = Math.max(-exponentValue, 0);
+  const wholeAmount =
+    exponentValue > 0 ? amount * 10n ** BigInt(exponentValue) : amount;
+  const isNegative = wholeAmount < 0n;
+  const absAmount = isNegative ? -wholeAmount : wholeAmount;
 
   // handle zero decimal places (whole units like JPY)
   if (decimalPlaces === 0) {
@@ -103,7 +98,7 @@ export const asIsoPriceWords = <TCurrency extends string = string>(
         exponent?: IsoPriceExponent;
       }
     | string,
-  options?: { currency?: TCurrency },
+  options?: { currency?: TCurrency; locale?: string },
 ): IsoPriceWords<TCurrency> => {
   // if already words format, normalize it (replace commas with underscores)
   if (isIsoPriceWords(input)) {
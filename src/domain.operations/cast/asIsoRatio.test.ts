@@ -0,0 +1,156 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { asIsoRatio } from './asIsoRatio';
+
+describe('asIsoRatio', () => {
+  const CASES = [
+    // numbers
+    {
+      description: 'integer number',
+      given: { input: 3 },
+      expect: { output: { numerator: 3n, denominator: 1n } },
+    },
+    {
+      description: 'float reads as its shortest decimal',
+      given: { input: 0.1 },
+      expect: { output: { numerator: 1n, denominator: 10n } },
+    },
+    {
+      description: 'negative float',
+      given: { input: -1.08 },
+      expect: { output: { numerator: -27n, denominator: 25n } },
+    },
+    {
+      description: 'float in scientific notation',
+      given: { input: 1e-15 },
+      expect: { output: { numerator: 1n, denominator: 10n ** 15n } },
+    },
+    {
+      description: 'huge float',
+      given: { input: 1e25 },
+      expect: { output: { numerator: 10n ** 25n, denominator: 1n } },
+    },
+    // bigints
+    {
+      description: 'bigint',
+      given: { input: 12345678901234567890n },
+      expect: { output: { numerator: 12345678901234567890n, denominator: 1n } },
+    },
+    // decimal strings
+    {
+      description: 'decimal string',
+      given: { input: '1.0825' },
+      expect: { output: { numerator: 433n, denominator: 400n } },
+    },
+    {
+      description: 'decimal string beyond float precision',
+      given: { input: '1.000000000000000000000001' },
+      expect: {
+        output: { numerator: 10n ** 24n + 1n, denominator: 10n ** 24n },
+      },
+    },
+    {
+      description: 'decimal string with underscores',
+      given: { input: '1_000.5' },
+      expect: { output: { numerator: 2001n, denominator: 2n } },
+    },
+    {
+      description: 'decimal string with leading dot',
+      given: { input: '.25' },
+      expect: { output: { numerator: 1n, denominator: 4n } },
+    },
+    {
+      description: 'decimal string in scientific notation',
+      given: { input: '2.5e3' },
+      expect: { output: { numerator: 2500n, denominator: 1n } },
+    },
+    // rationals
+    {
+      description: 'rational is reduced',
+      given: { input: { numerator: 6, denominator: 4 } },
+      expect: { output: { numerator: 3n, denominator: 2n } },
+    },
+    {
+      description: 'rational moves the sign onto the numerator',
+      given: { input: { numerator: 2n, denominator: -6n } },
+      expect: { output: { numerator: -1n, denominator: 3n } },
+    },
+    {
+      description: 'zero',
+      given: { input: { numerator: 0, denominator: 7 } },
+      expect: { output: { numerator: 0n, denominator: 1n } },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(asIsoRatio(given.input)).toEqual(expected.output);
+    });
+  });
+
+  describe('.error', () => {
+    const ERROR_CASES = [
+      { description: 'NaN', given: { input: Number.NaN } },
+      { description: 'infinity', given: { input: Number.POSITIVE_INFINITY } },
+      { description: 'malformed string', given: { input: '1.2.3' } },
+      { description: 'empty string', given: { input: '' } },
+      { description: 'localized string', given: { input: '1,5' } },
+      {
+        description: 'non-integer numerator',
+        given: { input: { numerator: 1.5, denominator: 2 } },
+      },
+      {
+        description: 'zero denominator',
+        given: { input: { numerator: 1, denominator: 0 } },
+      },
+      {
+        description: 'zero bigint denominator',
+        given: { input: { numerator: 1n, denominator: 0n } },
+      },
+      {
+        description: 'huge scientific exponent',
+        given: { input: '1e300000000' },
+      },
+      {
+        description: 'huge negative scientific exponent',
+        given: { input: '1e-300000000' },
+      },
+      {
+        description: 'scientific exponent beyond any bigint',
+        given: { input: `1e${'9'.repeat(400)}` },
+      },
+    ];
+
+    ERROR_CASES.forEach(({ description, given }) => {
+      test(description, async () => {
+        const error = await getError(() => asIsoRatio(given.input));
+        expect(error).toBeInstanceOf(BadRequestError);
+      });
+    });
+
+    test('names the out-of-range scientific exponent', async () => {
+      const error = await getError(() => asIsoRatio('1e401'));
+      expect(error.message).toContain(
+        'ratio scientific exponent is out of range',
+      );
+    });
+  });
+
+  describe('.scientific-bounds', () => {
+    test('reads the largest and smallest finite numbers', () => {
+      expect(asIsoRatio(Number.MAX_VALUE).denominator).toEqual(1n);
+      expect(asIsoRatio(Number.MIN_VALUE)).toEqual({
+        numerator: 1n,
+        denominator: 2n * 10n ** 323n,
+      });
+    });
+
+    test('reads a scientific exponent at the bound', () => {
+      expect(asIsoRatio('1e-400')).toEqual({
+        numerator: 1n,
+        denominator: 10n ** 400n,
+      });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoRatio } from '../../domain.objects/IsoRatio';
+import type { IsoRatioInput } from '../../domain.objects/IsoRatioInput';
+
+/**
+ * .what = pattern for an exact decimal string, with optional scientific notation
+ * .why = accepts '1.0825', '-0.5', '1_000', '.25', and '1e-15' as the literal decimals they declare
+ */
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * .what = the largest scientific exponent a decimal string may declare
+ * .why = '1e300000000' would build a bigint of 300 million digits; every finite number fits well within 400
+ */
+const MAX_SCIENTIFIC_EXPONENT = 400;
+
+/**
+ * .what = greatest common divisor of two bigints, always non-negative
+ * .why = reduces ratios to lowest terms, and finds common denominators
+ */
+export const gcd = (a: bigint, b: bigint): bigint => {
+  let [x, y] = [a < 0n ? -a : a, b < 0n ? -b : b];
+  while (y !== 0n) [x, y] = [y, x % y];
+  return x;
+};
+
+/**
+ * .what = parses an exact decimal string to a ratio over a power of ten
+ * .why = '1.0825' is exactly 10825/10000 — no float ever sees it
+ */
+const parseDecimal = (value: string): IsoRatio | null => {
+  const match = value.replace(/_/g, '').match(DECIMAL_PATTERN);
+  if (!match) return null;
+  const [, sign = '', intPart = '', fracPart = '', exponentPart = '0'] = match;
+  if (!intPart && !fracPart) return null;
+
+  // shift the decimal point per the scientific exponent, within bounds
+  const exponent = parseInt(exponentPart, 10);
+  if (Math.abs(exponent) > MAX_SCIENTIFIC_EXPONENT)
+    throw new BadRequestError('ratio scientific exponent is out of range', {
+      input: value,
+      max: MAX_SCIENTIFIC_EXPONENT,
+    });
+  const digits = BigInt(`${intPart || '0'}${fracPart}`);
+  const shift = exponent - fracPart.length;
+  const signed = sign === '-' ? -digits : digits;
+  return shift >= 0
+    ? { numerator: signed * 10n ** BigInt(shift), denominator: 1n }
+    : { numerator: signed, denominator: 10n ** BigInt(-shift) };
+};
+
+/**
+ * .what = describes a ratio input as a string
+ * .why = error metadata must be json-serializable, which bigints are not
+ */
+export const describeIsoRatioInput = (input: IsoRatioInput): string =>
+  typeof input === 'object'
+    ? `${input.numerator}/${input.denominator}`
+    : `${input}`;
+
+/**
+ * .what = converts a number, bigint, decimal string, or rational to an exact, reduced IsoRatio
+ * .why = gives every operation one exact reading of its multipliers, divisors, and ratios
+ *
+ * numbers are read as the shortest decimal that round-trips them (e.g., 0.1 → 1/10, not 3602879701896397/36028797018963968)
+ *
+ * @throws BadRequestError if the value is not finite, not a decimal, has a zero denominator, or a scientific exponent beyond ±400
+ *
+ * @example
+ * asIsoRatio('1.0825')                          // => { numerator: 433n, denominator: 400n }
+ * asIsoRatio(0.1)                               // => { numerator: 1n, denominator: 10n }
+ * asIsoRatio(3n)                                // => { numerator: 3n, denominator: 1n }
+ * asIsoRatio({ numerator: 2, denominator: -6 }) // => { numerator: -1n, denominator: 3n }
+ */
+export const asIsoRatio = (input: IsoRatioInput): IsoRatio => {
+  const ratio = ((): IsoRatio | null => {
+    if (typeof input === 'bigint') return { numerator: input, denominator: 1n };
+    if (typeof input === 'number')
+      return Number.isFinite(input) ? parseDecimal(String(input)) : null;
+    if (typeof input === 'string') return parseDecimal(input.trim());
+    const isIntegral = [input.numerator, input.denominator].every(
+      (part) => typeof part === 'bigint' || Number.isSafeInteger(part),
+    );
+    return isIntegral
+      ? {
+          numerator: BigInt(input.numerator),
+          denominator: BigInt(input.denominator),
+        }
+      : null;
+  })();
+  if (!ratio)
+    throw new BadRequestError(
+      'ratio must be a finite number, bigint, decimal string, or integer rational',
+      { input: describeIsoRatioInput(input) },
+    );
+  if (ratio.denominator === 0n)
+    throw new BadRequestError('ratio denominator must not be zero', {
+      input: describeIsoRatioInput(input),
+    });
+
+  // reduce to lowest terms with a positive denominator
+  const divisor =
+    gcd(ratio.numerator, ratio.denominator) *
+    (ratio.denominator < 0n ? -1n : 1n);
+  return {
+    numerator: ratio.numerator / divisor,
+    denominator: ratio.denominator / divisor,
+  };
+};
@@ -0,0 +1,167 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import {
+  asIsoRatioDecimal,
+  getIsoRatioExactDecimals,
+} from './asIsoRatioDecimal';
+
+describe('asIsoRatioDecimal', () => {
+  const CASES = [
+    // exact
+    {
+      description: 'terminating ratio renders exactly',
+      given: { ratio: { numerator: 1n, denominator: 4n }, options: {} },
+      expect: { output: '0.25' },
+    },
+    {
+      description: 'unreduced ratio renders reduced',
+      given: { ratio: { numerator: 50n, denominator: 200n }, options: {} },
+      expect: { output: '0.25' },
+    },
+    {
+      description: 'whole ratio renders without decimals',
+      given: { ratio: { numerator: 6n, denominator: 2n }, options: {} },
+      expect: { output: '3' },
+    },
+    {
+      description: 'negative ratio',
+      given: { ratio: { numerator: -1n, denominator: 8n }, options: {} },
+      expect: { output: '-0.125' },
+    },
+    {
+      description: 'negative denominator',
+      given: { ratio: { numerator: 1n, denominator: -8n }, options: {} },
+      expect: { output: '-0.125' },
+    },
+    // decimals
+    {
+      description: 'decimals keep trailing zeros',
+      given: {
+        ratio: { numerator: 1n, denominator: 4n },
+        options: { decimals: 4 },
+      },
+      expect: { output: '0.2500' },
+    },
+    {
+      description: 'decimals round half-up by default',
+      given: {
+        ratio: { numerator: 2n, denominator: 3n },
+        options: { decimals: 2 },
+      },
+      expect: { output: '0.67' },
+    },
+    {
+      description: 'decimals round by the requested mode',
+      given: {
+        ratio: { numerator: 2n, denominator: 3n },
+        options: { decimals: 2, round: IsoPriceRoundMode.FLOOR },
+      },
+      expect: { output: '0.66' },
+    },
+    {
+      description: 'zero decimals',
+      given: {
+        ratio: { numerator: 5n, denominator: 2n },
+        options: { decimals: 0, round: IsoPriceRoundMode.HALF_EVEN },
+      },
+      expect: { output: '2' },
+    },
+    // significant
+    {
+      description: 'significant figures round a ratio that never terminates',
+      given: {
+        ratio: { numerator: 1n, denominator: 3n },
+        options: { significant: 6 },
+      },
+      expect: { output: '0.333333' },
+    },
+    {
+      description: 'significant figures count from the first nonzero digit',
+      given: {
+        ratio: { numerator: 1n, denominator: 7000n },
+        options: { significant: 3 },
+      },
+      expect: { output: '0.000143' },
+    },
+    {
+      description: 'significant figures drop trailing zeros',
+      given: {
+        ratio: { numerator: 2n, denominator: 3n },
+        options: { significant: 1 },
+      },
+      expect: { output: '0.7' },
+    },
+    {
+      description: 'significant figures leave a terminating ratio exact',
+      given: {
+        ratio: { numerator: 1n, denominator: 1024n },
+        options: { significant: 3 },
+      },
+      expect: { output: '0.0009765625' },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(asIsoRatioDecimal(given.ratio, given.options)).toEqual(
+        expected.output,
+      );
+    });
+  });
+
+  describe('.error', () => {
+    const ERROR_CASES = [
+      {
+        description: 'ratio that never terminates, without precision',
+        given: { options: {} },
+        expect: { message: 'ratio has no exact decimal' },
+      },
+      {
+        description: 'negative decimals',
+        given: { options: { decimals: -1 } },
+        expect: { message: 'decimals must be a non-negative integer' },
+      },
+      {
+        description: 'fractional decimals',
+        given: { options: { decimals: 1.5 } },
+        expect: { message: 'decimals must be a non-negative integer' },
+      },
+      {
+        description: 'zero significant figures',
+        given: { options: { significant: 0 } },
+        expect: { message: 'significant must be a positive integer' },
+      },
+      {
+        description: 'fractional significant figures',
+        given: { options: { significant: 1.5 } },
+        expect: { message: 'significant must be a positive integer' },
+      },
+    ];
+
+    ERROR_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, async () => {
+        const error = await getError(() =>
+          asIsoRatioDecimal({ numerator: 1n, denominator: 3n }, given.options),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain(expected.message);
+      });
+    });
+  });
+});
+
+describe('getIsoRatioExactDecimals', () => {
+  test('counts the decimals of a terminating ratio', () => {
+    expect(getIsoRatioExactDecimals({ numerator: 3n, denominator: 40n })).toBe(
+      3,
+    );
+  });
+
+  test('returns null for a ratio that never terminates', () => {
+    expect(
+      getIsoRatioExactDecimals({ numerator: 1n, denominator: 6n }),
+    ).toBeNull();
+  });
+});
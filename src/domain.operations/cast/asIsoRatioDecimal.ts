@@ -0,0 +1,119 @@
+import { BadRequestError } from 'helpful-errors';
+
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import type { IsoRatio } from '../../domain.objects/IsoRatio';
+import { roundBigintByMode } from '../precision/roundBigintByMode';
+import { asIsoRatio } from './asIsoRatio';
+
+/**
+ * .what = finds the decimals needed to express a reduced ratio exactly
+ * .why = a reduced ratio terminates only when its denominator has no prime factors but 2 and 5
+ *
+ * returns null for ratios that never terminate (e.g., 1/3)
+ */
+export const getIsoRatioExactDecimals = (ratio: IsoRatio): number | null => {
+  let rest = ratio.denominator < 0n ? -ratio.denominator : ratio.denominator;
+  let twos = 0;
+  let fives = 0;
+  while (rest % 2n === 0n) [rest, twos] = [rest / 2n, twos + 1];
+  while (rest % 5n === 0n) [rest, fives] = [rest / 5n, fives + 1];
+  return rest === 1n ? Math.max(twos, fives) : null;
+};
+
+/**
+ * .what = finds the decimals that carry a nonzero ratio to a number of significant figures
+ * .why = 0.00700585 needs more decimals than 142.738 for the same six figures
+ */
+const getSignificantDecimals = (
+  ratio: IsoRatio,
+  significant: number,
+): number => {
+  const numerator = ratio.numerator < 0n ? -ratio.numerator : ratio.numerator;
+  const whole = numerator / ratio.denominator;
+  if (whole > 0n) return Math.max(significant - whole.toString().length, 0);
+  let leadingZeros = 0;
+  while (numerator * 10n ** BigInt(leadingZeros + 1) < ratio.denominator)
+    leadingZeros += 1;
+  return leadingZeros + significant;
+};
+
+/**
+ * .what = formats a bigint scaled by 10^decimals as a decimal string
+ * .why = renders 2500n with 4 decimals as '0.2500'
+ */
+const formatScaled = (scaled: bigint, decimals: number): string => {
+  const isNegative = scaled < 0n;
+  const digits = (isNegative ? -scaled : scaled)
+    .toString()
+    .padStart(decimals + 1, '0');
+  const intPart = digits.slice(0, digits.length - decimals);
+  const decPart = digits.slice(digits.length - decimals);
+  const sign = isNegative ? '-' : '';
+  return decimals === 0 ? `${sign}${intPart}` : `${sign}${intPart}.${decPart}`;
+};
+
+/**
+ * .what = renders a ratio as a decimal string
+ * .why = gives ratios, percents, and exchange rates one exact, rounded-once rendering
+ *
+ * the precision, by option:
+ * - `decimals` → rounded once to that many places, zeros kept (e.g., '0.2500')
+ * - `significant` → exact when the ratio terminates, else rounded once to that many figures, zeros dropped
+ * - neither → exact
+ *
+ * @throws BadRequestError if `decimals` or `significant` is invalid, or an exact decimal is required of a ratio that never terminates
+ *
+ * @example
+ * asIsoRatioDecimal({ numerator: 1n, denominator: 4n })                       // => '0.25'
+ * asIsoRatioDecimal({ numerator: 1n, denominator: 4n }, { decimals: 4 })      // => '0.2500'
+ * asIsoRatioDecimal({ numerator: 1n, denominator: 3n }, { significant: 6 })   // => '0.333333'
+ */
+export const asIsoRatioDecimal = (
+  ratio: IsoRatio,
+  options?: {
+    decimals?: number;
+    significant?: number;
+    round?: IsoPriceRoundMode;
+  },
+): string => {
+  const { decimals: requested, significant } = options ?? {};
+  if (
+    requested !== undefined &&
+    (!Number.isSafeInteger(requested) || requested < 0)
+  )
+    throw new BadRequestError('decimals must be a non-negative integer', {
+      decimals: requested,
+    });
+  if (
+    significant !== undefined &&
+    (!Number.isSafeInteger(significant) || significant < 1)
+  )
+    throw new BadRequestError('significant must be a positive integer', {
+      significant,
+    });
+
+  // choose the decimals: as requested, exact, or enough for the significant figures
+  const exact = asIsoRatio(ratio);
+  const exactDecimals = getIsoRatioExactDecimals(exact);
+  const isSignificant = requested === undefined && exactDecimals === null;
+  const decimals = ((): number => {
+    if (requested !== undefined) return requested;
+    if (exactDecimals !== null) return exactDecimals;
+    if (significant !== undefined)
+      return getSignificantDecimals(exact, significant);
+    throw new BadRequestError(
+      'ratio has no exact decimal; request decimals or significant figures',
+      { ratio: `${exact.numerator}/${exact.denominator}` },
+    );
+  })();
+
+  // scale, round once, and place the decimal point
+  const scaled = roundBigintByMode(
+    { of: exact.numerator * 10n ** BigInt(decimals), by: exact.denominator },
+    { round: options?.round ?? IsoPriceRoundMode.HALF_UP },
+  );
+  const decimal = formatScaled(scaled, decimals);
+  return isSignificant && decimals > 0
+    ? decimal.replace(/\.?0+$/, '')
+    : decimal;
+};
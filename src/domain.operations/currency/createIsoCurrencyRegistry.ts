@@ -0,0 +1,15 @@
+import type { IsoCurrencyRegistry } from '../../domain.objects/IsoCurrencyRegistry';
+
+/**
+ * .what = creates an empty, isolated currency registry
+ * .why = enables scoped registrations that do not leak into the process-wide default
+ *
+ * @example
+ * const registry = createIsoCurrencyRegistry();
+ * registerIsoCurrency({ code: 'PTS', exponent: 'whole.x10^0' }, { registry });
+ * withIsoCurrencyRegistry(registry, () => asIsoPrice('PTS 1500'));
+ * // => 'PTS 1_500'
+ */
+export const createIsoCurrencyRegistry = (): IsoCurrencyRegistry => ({
+  definitions: new Map(),
+});
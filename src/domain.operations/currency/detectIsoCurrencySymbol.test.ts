@@ -0,0 +1,67 @@
+import { detectIsoCurrencySymbol } from './detectIsoCurrencySymbol';
+
+describe('detectIsoCurrencySymbol', () => {
+  const CASES = [
+    // longest match
+    {
+      description: 'plain dollar',
+      given: { input: '$5' },
+      expect: { symbol: '$', position: 'prefix', amountStr: '5' },
+    },
+    {
+      description: 'US$ wins over $',
+      given: { input: 'US$5' },
+      expect: { symbol: 'US$', position: 'prefix', amountStr: '5' },
+    },
+    {
+      description: 'R$ wins over R',
+      given: { input: 'R$5' },
+      expect: { symbol: 'R$', position: 'prefix', amountStr: '5' },
+    },
+    {
+      description: 'kr. wins over kr',
+      given: { input: '5,50 kr.' },
+      expect: { symbol: 'kr.', position: 'suffix', amountStr: '5,50' },
+    },
+    {
+      description: '$ US wins over $ as a suffix',
+      given: { input: '5,00 $ US' },
+      expect: { symbol: '$ US', position: 'suffix', amountStr: '5,00' },
+    },
+    // word boundaries
+    {
+      description: 'letter symbol stands apart from words',
+      given: { input: '5 EUR' },
+      expect: null,
+    },
+    {
+      description: 'no symbol',
+      given: { input: '5.00' },
+      expect: null,
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      const result = detectIsoCurrencySymbol(given.input);
+      if (!expected) return expect(result).toBeNull();
+      expect(result).toMatchObject(expected);
+    });
+  });
+
+  describe('.qualifier', () => {
+    test('a code that uses the symbol qualifies it', () => {
+      expect(detectIsoCurrencySymbol('NOK 5 kr')).toEqual({
+        symbol: 'kr',
+        currencies: ['SEK', 'NOK', 'DKK', 'ISK'],
+        position: 'suffix',
+        amountStr: '5',
+        qualifier: 'NOK',
+      });
+    });
+
+    test('a code that does not use the symbol does not qualify it', () => {
+      expect(detectIsoCurrencySymbol('USD 5 €')?.qualifier).toBeNull();
+    });
+  });
+});
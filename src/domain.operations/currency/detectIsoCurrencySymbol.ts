@@ -0,0 +1,107 @@
+import { unwrapIsoPriceNegative } from '../locale/unwrapIsoPriceNegative';
+import { getIsoCurrencyRegistry } from './getIsoCurrencyRegistry';
+import { ISO_CURRENCY_SYMBOLS } from './isoCurrencySymbols';
+
+/**
+ * .what = the bundled and registered symbol rows, longest symbol first
+ * .why = longest match keeps 'US$' from read as '$' and 'R$' from read as 'R'
+ *
+ * registered symbols precede bundled ones of equal length, so they take precedence
+ */
+const getSymbolRowsLongestFirst = (): {
+  symbol: string;
+  currencies: readonly string[];
+}[] => {
+  const registered = [...getIsoCurrencyRegistry().definitions.values()].flatMap(
+    ({ code, symbol }) => (symbol ? [{ symbol, currencies: [code] }] : []),
+  );
+  return [...registered, ...ISO_CURRENCY_SYMBOLS].sort(
+    (a, b) => b.symbol.length - a.symbol.length,
+  );
+};
+
+/**
+ * .what = checks whether a symbol edge sits against a letter
+ * .why = letter symbols must stand apart from adjacent words (e.g., 'R' must not match the end of 'EUR')
+ */
+const isWordJoined = (symbolEdge: string, neighbor: string): boolean =>
+  /\p{L}/u.test(symbolEdge) && /\p{L}/u.test(neighbor);
+
+/**
+ * .what = detects the currency symbol of a human-format price
+ * .why = gives parse, validation, and mismatch detection one longest-match reading of the symbol
+ *
+ * tries the prefix first, then the suffix. a suffix symbol may be qualified by a
+ * leading currency code that uses it (e.g., 'NOK 5 kr'), which then picks the currency
+ *
+ * accounting negatives ('($5)', '-$5', '$5 CR') are unwrapped first; the sign moves onto `amountStr`
+ *
+ * returns null when no symbol is found
+ *
+ * @example
+ * detectIsoCurrencySymbol('US$5')
+ * // => { symbol: 'US$', currencies: ['USD'], position: 'prefix', amountStr: '5', qualifier: null }
+ *
+ * @example
+ * detectIsoCurrencySymbol('NOK 5 kr')
+ * // => { symbol: 'kr', currencies: ['SEK', 'NOK', 'DKK', 'ISK'], position: 'suffix', amountStr: '5', qualifier: 'NOK' }
+ */
+export const detectIsoCurrencySymbol = (
+  input: string,
+): {
+  symbol: string;
+  currencies: readonly string[];
+  position: 'prefix' | 'suffix';
+  amountStr: string;
+  qualifier: string | null;
+} | null => {
+  const rows = getSymbolRowsLongestFirst();
+  const { value, isNegative } = unwrapIsoPriceNegative(input);
+  const asSigned = (amountStr: string): string =>
+    isNegative ? `-${amountStr}` : amountStr;
+
+  // try prefix symbols
+  const prefix = rows.find(
+    (row) =>
+      value.startsWith(row.symbol) &&
+      !isWordJoined(row.symbol.slice(-1), value.charAt(row.symbol.length)),
+  );
+  if (prefix)
+    return {
+      symbol: prefix.symbol,
+      currencies: prefix.currencies,
+      position: 'prefix',
+      amountStr: asSigned(value.slice(prefix.symbol.length).trim()),
+      qualifier: null,
+    };
+
+  // try suffix symbols
+  const suffix = rows.find(
+    (row) =>
+      value.endsWith(row.symbol) &&
+      !isWordJoined(
+        row.symbol.charAt(0),
+        value.charAt(value.length - row.symbol.length - 1),
+      ),
+  );
+  if (!suffix) return null;
+  const rest = value.slice(0, -suffix.symbol.length).trim();
+
+  // a leading code that uses the symbol qualifies it (e.g., 'NOK 5 kr')
+  const qualifier = rest.match(/^([A-Z][A-Z0-9]*)[ \u00a0]/)?.[1] ?? null;
+  if (qualifier && suffix.currencies.includes(qualifier))
+    return {
+      symbol: suffix.symbol,
+      currencies: suffix.currencies,
+      position: 'suffix',
+      amountStr: asSigned(rest.slice(qualifier.length).trim()),
+      qualifier,
+    };
+  return {
+    symbol: suffix.symbol,
+    currencies: suffix.currencies,
+    position: 'suffix',
+    amountStr: asSigned(rest),
+    qualifier: null,
+  };
+};
@@ -0,0 +1,193 @@
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { getIsoCurrency } from './getIsoCurrency';
+import { ISO_4217_CURRENCIES } from './iso4217';
+
+describe('getIsoCurrency', () => {
+  const CASES = [
+    {
+      description: 'USD',
+      given: { input: 'USD' },
+      expect: {
+        output: {
+          code: 'USD',
+          numeric: '840',
+          exponent: IsoPriceExponent.CENTI,
+          name: 'US Dollar',
+          isFund: false,
+          isMetal: false,
+        },
+      },
+    },
+    {
+      description: 'ISK (0-decimal)',
+      given: { input: 'ISK' },
+      expect: {
+        output: {
+          code: 'ISK',
+          numeric: '352',
+          exponent: IsoPriceExponent.WHOLE,
+          name: 'Iceland Krona',
+          isFund: false,
+          isMetal: false,
+        },
+      },
+    },
+    {
+      description: 'JOD (3-decimal)',
+      given: { input: 'JOD' },
+      expect: {
+        output: {
+          code: 'JOD',
+          numeric: '400',
+          exponent: IsoPriceExponent.MILLI,
+          name: 'Jordanian Dinar',
+          isFund: false,
+          isMetal: false,
+        },
+      },
+    },
+    {
+      description: 'CLF (4-decimal fund)',
+      given: { input: 'CLF' },
+      expect: {
+        output: {
+          code: 'CLF',
+          numeric: '990',
+          exponent: IsoPriceExponent.DECIMILLI,
+          name: 'Unidad de Fomento',
+          isFund: true,
+          isMetal: false,
+        },
+      },
+    },
+    {
+      description: "XAU (metal with 'N.A.' minor unit)",
+      given: { input: 'XAU' },
+      expect: {
+        output: {
+          code: 'XAU',
+          numeric: '959',
+          exponent: null,
+          name: 'Gold',
+          isFund: false,
+          isMetal: true,
+        },
+      },
+    },
+    {
+      description: "XDR (special code with 'N.A.' minor unit)",
+      given: { input: 'XDR' },
+      expect: {
+        output: {
+          code: 'XDR',
+          numeric: '960',
+          exponent: null,
+          name: 'SDR (Special Drawing Right)',
+          isFund: false,
+          isMetal: false,
+        },
+      },
+    },
+    {
+      description: 'BTC (absent from iso 4217)',
+      given: { input: 'BTC' },
+      expect: { output: null },
+    },
+    {
+      description: 'BGN (historical since amendment 180)',
+      given: { input: 'BGN' },
+      expect: { output: null },
+    },
+    {
+      description: 'lowercase code is not matched',
+      given: { input: 'usd' },
+      expect: { output: null },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(getIsoCurrency(given.input)).toEqual(expected.output);
+    });
+  });
+
+  describe('.byNumeric', () => {
+    const NUMERIC_CASES = [
+      {
+        description: 'string numeric code',
+        given: { input: '840' },
+        expect: { code: 'USD' },
+      },
+      {
+        description: 'zero-padded numeric code',
+        given: { input: '008' },
+        expect: { code: 'ALL' },
+      },
+      {
+        description: 'number numeric code is padded',
+        given: { input: 8 },
+        expect: { code: 'ALL' },
+      },
+      {
+        description: 'unknown numeric code',
+        given: { input: '001' },
+        expect: { code: undefined },
+      },
+    ];
+
+    NUMERIC_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        expect(getIsoCurrency.byNumeric(given.input)?.code).toEqual(
+          expected.code,
+        );
+      });
+    });
+  });
+
+  describe('.all', () => {
+    test('returns every registry entry without filter', () => {
+      expect(getIsoCurrency.all()).toHaveLength(ISO_4217_CURRENCIES.length);
+    });
+
+    test('filters to precious metals', () => {
+      const codes = getIsoCurrency.all({ isMetal: true }).map((c) => c.code);
+      expect(codes).toEqual(['XAG', 'XAU', 'XPD', 'XPT']);
+    });
+
+    test('filters to fund codes', () => {
+      const codes = getIsoCurrency.all({ isFund: true }).map((c) => c.code);
+      expect(codes).toEqual([
+        'BOV',
+        'CHE',
+        'CHW',
+        'CLF',
+        'COU',
+        'MXV',
+        'USN',
+        'UYI',
+        'UYW',
+      ]);
+    });
+  });
+
+  describe('.registry-integrity', () => {
+    test('codes are unique 3-letter uppercase', () => {
+      const codes = ISO_4217_CURRENCIES.map((c) => c.code);
+      expect(new Set(codes).size).toEqual(codes.length);
+      for (const code of codes) expect(code).toMatch(/^[A-Z]{3}$/);
+    });
+
+    test('numeric codes are unique 3-digit strings', () => {
+      const numerics = ISO_4217_CURRENCIES.map((c) => c.numeric);
+      expect(new Set(numerics).size).toEqual(numerics.length);
+      for (const numeric of numerics) expect(numeric).toMatch(/^\d{3}$/);
+    });
+
+    test("only metals and special X-codes declare 'N.A.' minor units", () => {
+      const codes = ISO_4217_CURRENCIES.filter((c) => c.exponent === null).map(
+        (c) => c.code,
+      );
+      for (const code of codes) expect(code).toMatch(/^X/);
+    });
+  });
+});
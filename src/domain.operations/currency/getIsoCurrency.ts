@@ -0,0 +1,78 @@
+import type { IsoCurrencyDefinition } from '../../domain.objects/IsoCurrencyDefinition';
+import { getIsoCurrencyRegistry } from './getIsoCurrencyRegistry';
+import { ISO_4217_CURRENCIES } from './iso4217';
+
+/**
+ * .what = index of iso 4217 definitions by alphabetic code
+ * .why = enables constant-time lookup on every parse and format
+ */
+const DEFINITION_BY_CODE: ReadonlyMap<string, IsoCurrencyDefinition> = new Map(
+  ISO_4217_CURRENCIES.map((definition) => [definition.code, definition]),
+);
+
+/**
+ * .what = index of iso 4217 definitions by numeric code
+ * .why = enables lookup from numeric-only systems (swift, card networks)
+ */
+const DEFINITION_BY_NUMERIC: ReadonlyMap<string | null, IsoCurrencyDefinition> =
+  new Map(
+    ISO_4217_CURRENCIES.map((definition) => [definition.numeric, definition]),
+  );
+
+/**
+ * .what = looks up the definition of a currency code
+ * .why = exposes exponent, numeric code, name, and fund/metal flags per currency
+ *
+ * consults iso 4217 first, then the active custom currency registry
+ * (see `registerIsoCurrency`). returns null for unknown codes (e.g., BTC, ETH)
+ *
+ * @example
+ * getIsoCurrency('ISK')
+ * // => { code: 'ISK', numeric: '352', exponent: 'whole.x10^0', name: 'Iceland Krona', isFund: false, isMetal: false }
+ *
+ * @example
+ * getIsoCurrency('BTC')
+ * // => null
+ */
+export const getIsoCurrency = (code: string): IsoCurrencyDefinition | null => {
+  return (
+    DEFINITION_BY_CODE.get(code) ??
+    getIsoCurrencyRegistry().definitions.get(code) ??
+    null
+  );
+};
+
+/**
+ * .what = looks up the iso 4217 definition by numeric code
+ * .why = enables translation of numeric codes like '840' to 'USD'
+ *
+ * accepts numbers or strings; pads to 3 digits (8 → '008')
+ */
+getIsoCurrency.byNumeric = (
+  numeric: string | number,
+): IsoCurrencyDefinition | null => {
+  return DEFINITION_BY_NUMERIC.get(String(numeric).padStart(3, '0')) ?? null;
+};
+
+/**
+ * .what = lists the iso 4217 and registered definitions, optionally filtered
+ * .why = enables enumeration of currencies, funds, and metals
+ *
+ * @example
+ * getIsoCurrency.all({ isMetal: true }).map((c) => c.code)
+ * // => ['XAG', 'XAU', 'XPD', 'XPT']
+ */
+getIsoCurrency.all = (filter?: {
+  isFund?: boolean;
+  isMetal?: boolean;
+}): IsoCurrencyDefinition[] => {
+  const definitions = [
+    ...ISO_4217_CURRENCIES,
+    ...getIsoCurrencyRegistry().definitions.values(),
+  ];
+  return definitions.filter(
+    (definition) =>
+      (filter?.isFund === undefined || definition.isFund === filter.isFund) &&
+      (filter?.isMetal === undefined || definition.isMetal === filter.isMetal),
+  );
+};
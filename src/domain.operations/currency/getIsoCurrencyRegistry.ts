@@ -0,0 +1,46 @@
+import type { IsoCurrencyRegistry } from '../../domain.objects/IsoCurrencyRegistry';
+import { createIsoCurrencyRegistry } from './createIsoCurrencyRegistry';
+
+/**
+ * .what = the process-wide default registry
+ * .why = holds registrations made without an explicit registry
+ */
+const DEFAULT_REGISTRY: IsoCurrencyRegistry = createIsoCurrencyRegistry();
+
+/**
+ * .what = the registry consulted by every price operation right now
+ * .why = enables scoped registries to temporarily replace the default
+ */
+let activeRegistry: IsoCurrencyRegistry = DEFAULT_REGISTRY;
+
+/**
+ * .what = returns the currently active currency registry
+ * .why = lets lookups see custom currencies registered at runtime
+ */
+export const getIsoCurrencyRegistry = (): IsoCurrencyRegistry => activeRegistry;
+
+/**
+ * .what = runs a procedure with a scoped registry active
+ * .why = isolates custom currency registrations, e.g., per test
+ *
+ * the scope is synchronous — the prior registry is restored as soon as
+ * `procedure` returns, so do not await inside of it
+ *
+ * @example
+ * const registry = createIsoCurrencyRegistry();
+ * registerIsoCurrency({ code: 'USDC', exponent: 'micro.x10^-6' }, { registry });
+ * withIsoCurrencyRegistry(registry, () => asIsoPriceShape('USDC 1.5'));
+ * // => { amount: 1500000n, currency: 'USDC', exponent: 'micro.x10^-6' }
+ */
+export const withIsoCurrencyRegistry = <TOutput>(
+  registry: IsoCurrencyRegistry,
+  procedure: () => TOutput,
+): TOutput => {
+  const priorRegistry = activeRegistry;
+  activeRegistry = registry;
+  try {
+    return procedure();
+  } finally {
+    activeRegistry = priorRegistry;
+  }
+};
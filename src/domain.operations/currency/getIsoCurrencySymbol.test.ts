@@ -0,0 +1,69 @@
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { createIsoCurrencyRegistry } from './createIsoCurrencyRegistry';
+import { withIsoCurrencyRegistry } from './getIsoCurrencyRegistry';
+import { getIsoCurrencySymbol } from './getIsoCurrencySymbol';
+import { ISO_CURRENCY_SYMBOLS } from './isoCurrencySymbols';
+import { registerIsoCurrency } from './registerIsoCurrency';
+
+describe('getIsoCurrencySymbol', () => {
+  const CASES = [
+    { given: { input: 'USD' }, expect: { output: '$' } },
+    { given: { input: 'EUR' }, expect: { output: '€' } },
+    { given: { input: 'JPY' }, expect: { output: '¥' } },
+    { given: { input: 'CAD' }, expect: { output: 'CA$' } },
+    { given: { input: 'AUD' }, expect: { output: 'A$' } },
+    { given: { input: 'CNY' }, expect: { output: 'CN¥' } },
+    { given: { input: 'BRL' }, expect: { output: 'R$' } },
+    { given: { input: 'SEK' }, expect: { output: 'kr' } },
+    { given: { input: 'NOK' }, expect: { output: 'kr' } },
+    { given: { input: 'ARS' }, expect: { output: '$' } },
+    { given: { input: 'BTC' }, expect: { output: null } },
+  ];
+
+  CASES.forEach(({ given, expect: expected }) => {
+    test(given.input, () => {
+      expect(getIsoCurrencySymbol(given.input)).toEqual(expected.output);
+    });
+  });
+
+  test('prefers registered symbols', () => {
+    const registry = createIsoCurrencyRegistry();
+    registerIsoCurrency(
+      { code: 'PTS', exponent: IsoPriceExponent.WHOLE, symbol: 'pts' },
+      { registry },
+    );
+    expect(
+      withIsoCurrencyRegistry(registry, () => getIsoCurrencySymbol('PTS')),
+    ).toEqual('pts');
+    expect(getIsoCurrencySymbol('PTS')).toBeNull();
+  });
+
+  describe('.currencies', () => {
+    const CURRENCIES_CASES = [
+      { given: { input: '¥' }, expect: { output: ['JPY', 'CNY'] } },
+      { given: { input: 'CA$' }, expect: { output: ['CAD'] } },
+      { given: { input: 'C$' }, expect: { output: ['CAD', 'NIO'] } },
+      { given: { input: '?' }, expect: { output: [] } },
+    ];
+
+    CURRENCIES_CASES.forEach(({ given, expect: expected }) => {
+      test(given.input, () => {
+        expect(getIsoCurrencySymbol.currencies(given.input)).toEqual(
+          expected.output,
+        );
+      });
+    });
+  });
+
+  describe('table integrity', () => {
+    test('symbols are unique', () => {
+      const symbols = ISO_CURRENCY_SYMBOLS.map((row) => row.symbol);
+      expect(new Set(symbols).size).toEqual(symbols.length);
+    });
+
+    test('every row lists at least one currency', () => {
+      for (const row of ISO_CURRENCY_SYMBOLS)
+        expect(row.currencies.length).toBeGreaterThan(0);
+    });
+  });
+});
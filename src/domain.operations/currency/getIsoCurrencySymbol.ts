@@ -0,0 +1,58 @@
+import { getIsoCurrencyRegistry } from './getIsoCurrencyRegistry';
+import { ISO_CURRENCY_SYMBOLS } from './isoCurrencySymbols';
+
+/**
+ * .what = the symbol rows of registered custom currencies
+ * .why = registered symbols (e.g., 'pts') take precedence over the bundled table
+ */
+const getRegisteredSymbolRows = (): {
+  symbol: string;
+  currencies: readonly string[];
+}[] =>
+  [...getIsoCurrencyRegistry().definitions.values()].flatMap(
+    ({ code, symbol }) => (symbol ? [{ symbol, currencies: [code] }] : []),
+  );
+
+/**
+ * .what = looks up the display symbol of a currency
+ * .why = gives every format the same symbol, which parses back to the same currency where possible
+ *
+ * prefers a symbol that defaults to the currency (e.g., CAD → 'CA$'), else a shared one (e.g., NOK → 'kr').
+ * returns null for currencies without a symbol (e.g., BTC)
+ *
+ * @example
+ * getIsoCurrencySymbol('USD')  // => '$'
+ * getIsoCurrencySymbol('CAD')  // => 'CA$'
+ * getIsoCurrencySymbol('BTC')  // => null
+ */
+export const getIsoCurrencySymbol = (code: string): string | null => {
+  const rows = [...getRegisteredSymbolRows(), ...ISO_CURRENCY_SYMBOLS];
+  return (
+    rows.find((row) => row.currencies[0] === code)?.symbol ??
+    rows.find((row) => row.currencies.includes(code))?.symbol ??
+    null
+  );
+};
+
+/**
+ * .what = lists the currencies that a symbol may stand for
+ * .why = enables validation of a currency override against the symbol typed (e.g., '$' fits CAD, not EUR)
+ *
+ * the first currency is the default; returns an empty array for unknown symbols
+ *
+ * @example
+ * getIsoCurrencySymbol.currencies('¥')    // => ['JPY', 'CNY']
+ * getIsoCurrencySymbol.currencies('CA$')  // => ['CAD']
+ */
+getIsoCurrencySymbol.currencies = (symbol: string): string[] => {
+  const registered = getRegisteredSymbolRows().find(
+    (row) => row.symbol === symbol,
+  );
+  const bundled = ISO_CURRENCY_SYMBOLS.find((row) => row.symbol === symbol);
+  return [
+    ...new Set([
+      ...(registered?.currencies ?? []),
+      ...(bundled?.currencies ?? []),
+    ]),
+  ];
+};
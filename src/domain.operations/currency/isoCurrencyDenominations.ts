@@ -0,0 +1,129 @@
+/**
+ * .what = circulating bills and coins per currency, largest first
+ * .why = lets change be made from the pieces a cash drawer actually holds
+ *
+ * amounts are in major units (e.g., '0.25' is a quarter). rarely circulated pieces
+ * are left out (e.g., the USD 2 bill, the EUR 500 note, the JPY 2_000 note), so a
+ * breakdown never asks for a piece a drawer is unlikely to hold
+ */
+export const ISO_CURRENCY_DENOMINATIONS: Readonly<
+  Record<string, readonly string[]>
+> = {
+  USD: ['100', '50', '20', '10', '5', '1', '0.25', '0.10', '0.05', '0.01'],
+  EUR: [
+    '200',
+    '100',
+    '50',
+    '20',
+    '10',
+    '5',
+    '2',
+    '1',
+    '0.50',
+    '0.20',
+    '0.10',
+    '0.05',
+    '0.02',
+    '0.01',
+  ],
+  JPY: ['10000', '5000', '1000', '500', '100', '50', '10', '5', '1'],
+  GBP: [
+    '50',
+    '20',
+    '10',
+    '5',
+    '2',
+    '1',
+    '0.50',
+    '0.20',
+    '0.10',
+    '0.05',
+    '0.02',
+    '0.01',
+  ],
+  CNY: ['100', '50', '20', '10', '5', '1', '0.50', '0.10'],
+  AUD: ['100', '50', '20', '10', '5', '2', '1', '0.50', '0.20', '0.10', '0.05'],
+  CAD: ['100', '50', '20', '10', '5', '2', '1', '0.25', '0.10', '0.05'],
+  CHF: [
+    '1000',
+    '200',
+    '100',
+    '50',
+    '20',
+    '10',
+    '5',
+    '2',
+    '1',
+    '0.50',
+    '0.20',
+    '0.10',
+    '0.05',
+  ],
+  HKD: [
+    '1000',
+    '500',
+    '100',
+    '50',
+    '20',
+    '10',
+    '5',
+    '2',
+    '1',
+    '0.50',
+    '0.20',
+    '0.10',
+  ],
+  NZD: ['100', '50', '20', '10', '5', '2', '1', '0.50', '0.20', '0.10'],
+  SEK: ['1000', '500', '200', '100', '50', '20', '10', '5', '2', '1'],
+  KRW: ['50000', '10000', '5000', '1000', '500', '100', '50', '10'],
+  SGD: [
+    '1000',
+    '100',
+    '50',
+    '10',
+    '5',
+    '2',
+    '1',
+    '0.50',
+    '0.20',
+    '0.10',
+    '0.05',
+  ],
+  NOK: ['1000', '500', '200', '100', '50', '20', '10', '5', '1'],
+  MXN: ['1000', '500', '200', '100', '50', '20', '10', '5', '2', '1', '0.50'],
+  INR: ['500', '200', '100', '50', '20', '10', '5', '2', '1'],
+  ZAR: ['200', '100', '50', '20', '10', '5', '2', '1', '0.50', '0.20', '0.10'],
+  BRL: [
+    '200',
+    '100',
+    '50',
+    '20',
+    '10',
+    '5',
+    '2',
+    '1',
+    '0.50',
+    '0.25',
+    '0.10',
+    '0.05',
+  ],
+  DKK: ['1000', '500', '200', '100', '50', '20', '10', '5', '2', '1', '0.50'],
+  PLN: [
+    '500',
+    '200',
+    '100',
+    '50',
+    '20',
+    '10',
+    '5',
+    '2',
+    '1',
+    '0.50',
+    '0.20',
+    '0.10',
+    '0.05',
+    '0.02',
+    '0.01',
+  ],
+  THB: ['1000', '500', '100', '50', '20', '10', '5', '2', '1', '0.50', '0.25'],
+};
@@ -0,0 +1,104 @@
+/**
+ * .what = currency symbols and the currencies that use each of them
+ * .why = one table for parse, validation, and display, so they never disagree
+ *
+ * each row declares a symbol and the currencies it may stand for:
+ * - the first currency is the default on parse (e.g., '$' → USD, 'kr' → SEK)
+ * - rows with one currency are unambiguous (e.g., 'CA$' → CAD, '€' → EUR)
+ * - symbols are matched longest first, so 'US$5' never reads as '$' and 'R$5' never reads as 'R'
+ *
+ * rows are ordered by display preference: a currency displays with the first symbol
+ * that defaults to it (e.g., USD → '$', not 'US$'), else the first symbol that lists it (e.g., NOK → 'kr')
+ *
+ * see `define.currency-symbols-lossy.md` for why shared symbols are lossy
+ */
+export const ISO_CURRENCY_SYMBOLS: readonly {
+  symbol: string;
+  currencies: readonly string[];
+}[] = [
+  // dollars
+  {
+    symbol: '$',
+    currencies: [
+      'USD',
+      'CAD',
+      'AUD',
+      'NZD',
+      'MXN',
+      'SGD',
+      'HKD',
+      'TWD',
+      'ARS',
+      'CLP',
+      'COP',
+      'UYU',
+      'BSD',
+      'BBD',
+      'BMD',
+      'BND',
+      'BZD',
+      'FJD',
+      'GYD',
+      'JMD',
+      'KYD',
+      'LRD',
+      'NAD',
+      'SBD',
+      'SRD',
+      'TTD',
+      'XCD',
+    ],
+  },
+  { symbol: 'US$', currencies: ['USD'] },
+  { symbol: '$ US', currencies: ['USD'] },
+  { symbol: '$\u00a0US', currencies: ['USD'] },
+  { symbol: 'CA$', currencies: ['CAD'] },
+  { symbol: 'C$', currencies: ['CAD', 'NIO'] },
+  { symbol: 'A$', currencies: ['AUD'] },
+  { symbol: 'AU$', currencies: ['AUD'] },
+  { symbol: 'NZ$', currencies: ['NZD'] },
+  { symbol: 'MX$', currencies: ['MXN'] },
+  { symbol: 'S$', currencies: ['SGD'] },
+  { symbol: 'HK$', currencies: ['HKD'] },
+  { symbol: 'NT$', currencies: ['TWD'] },
+  { symbol: 'R$', currencies: ['BRL'] },
+  // euro, pound, yen, yuan
+  { symbol: '€', currencies: ['EUR'] },
+  { symbol: '£', currencies: ['GBP', 'EGP', 'LBP', 'SYP', 'SDG'] },
+  { symbol: '¥', currencies: ['JPY', 'CNY'] },
+  { symbol: '\uffe5', currencies: ['JPY', 'CNY'] },
+  { symbol: 'JP¥', currencies: ['JPY'] },
+  { symbol: 'CN¥', currencies: ['CNY'] },
+  // krona, krone
+  { symbol: 'kr', currencies: ['SEK', 'NOK', 'DKK', 'ISK'] },
+  { symbol: 'kr.', currencies: ['DKK'] },
+  // franc
+  { symbol: 'CHF', currencies: ['CHF'] },
+  { symbol: 'Fr.', currencies: ['CHF'] },
+  // other currency signs
+  { symbol: '₹', currencies: ['INR', 'PKR', 'NPR', 'LKR'] },
+  { symbol: '₽', currencies: ['RUB'] },
+  { symbol: '₩', currencies: ['KRW', 'KPW'] },
+  { symbol: '₪', currencies: ['ILS'] },
+  { symbol: '฿', currencies: ['THB'] },
+  { symbol: '₫', currencies: ['VND'] },
+  { symbol: '₺', currencies: ['TRY'] },
+  { symbol: '₴', currencies: ['UAH'] },
+  { symbol: '₦', currencies: ['NGN'] },
+  { symbol: '₱', currencies: ['PHP'] },
+  { symbol: '₡', currencies: ['CRC'] },
+  { symbol: '₲', currencies: ['PYG'] },
+  { symbol: '₵', currencies: ['GHS'] },
+  { symbol: '₸', currencies: ['KZT'] },
+  { symbol: '₾', currencies: ['GEL'] },
+  { symbol: '₼', currencies: ['AZN'] },
+  { symbol: '৳', currencies: ['BDT'] },
+  // letter symbols
+  { symbol: 'R', currencies: ['ZAR'] },
+  { symbol: 'zł', currencies: ['PLN'] },
+  { symbol: 'Kč', currencies: ['CZK'] },
+  { symbol: 'Ft', currencies: ['HUF'] },
+  { symbol: 'lei', currencies: ['RON'] },
+  { symbol: 'Rp', currencies: ['IDR'] },
+  { symbol: 'RM', currencies: ['MYR'] },
+];
@@ -0,0 +1,196 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import { asIsoPrice } from '../cast/asIsoPrice';
+import { asIsoPriceHuman } from '../cast/asIsoPriceHuman';
+import { asIsoPriceShape } from '../cast/asIsoPriceShape';
+import { isIsoPriceHuman } from '../guard/isIsoPriceHuman';
+import { isIsoPriceWords } from '../guard/isIsoPriceWords';
+import { roundPrice } from '../precision/roundPrice';
+import { setPricePrecision } from '../precision/setPricePrecision';
+import { createIsoCurrencyRegistry } from './createIsoCurrencyRegistry';
+import { getIsoCurrency } from './getIsoCurrency';
+import {
+  getIsoCurrencyRegistry,
+  withIsoCurrencyRegistry,
+} from './getIsoCurrencyRegistry';
+import { registerIsoCurrency } from './registerIsoCurrency';
+
+describe('registerIsoCurrency', () => {
+  describe('validation', () => {
+    const ERROR_CASES = [
+      {
+        description: 'rejects lowercase code',
+        given: { input: { code: 'usdc', exponent: IsoPriceExponent.MICRO } },
+        expect: { message: 'custom currency code must be 3 to 10' },
+      },
+      {
+        description: 'rejects too short code',
+        given: { input: { code: 'PT', exponent: IsoPriceExponent.WHOLE } },
+        expect: { message: 'custom currency code must be 3 to 10' },
+      },
+      {
+        description: 'rejects code led by a digit',
+        given: { input: { code: '1PTS', exponent: IsoPriceExponent.WHOLE } },
+        expect: { message: 'custom currency code must be 3 to 10' },
+      },
+      {
+        description: 'rejects iso 4217 code',
+        given: { input: { code: 'USD', exponent: IsoPriceExponent.MICRO } },
+        expect: { message: 'iso 4217 already defines' },
+      },
+      {
+        description: 'rejects invalid exponent',
+        given: {
+          input: { code: 'PTS', exponent: 'kilo' as IsoPriceExponent },
+        },
+        expect: { message: 'invalid exponent' },
+      },
+    ];
+
+    ERROR_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, async () => {
+        const registry = createIsoCurrencyRegistry();
+        const error = await getError(() =>
+          registerIsoCurrency(given.input, { registry }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain(expected.message);
+      });
+    });
+
+    test('is idempotent for an identical definition', () => {
+      const registry = createIsoCurrencyRegistry();
+      const first = registerIsoCurrency(
+        { code: 'PTS', exponent: IsoPriceExponent.WHOLE, symbol: 'pts' },
+        { registry },
+      );
+      const second = registerIsoCurrency(
+        { code: 'PTS', exponent: IsoPriceExponent.WHOLE, symbol: 'pts' },
+        { registry },
+      );
+      expect(second).toEqual(first);
+      expect(registry.definitions.size).toEqual(1);
+    });
+
+    test('rejects a conflicting re-registration', async () => {
+      const registry = createIsoCurrencyRegistry();
+      registerIsoCurrency(
+        { code: 'PTS', exponent: IsoPriceExponent.WHOLE },
+        { registry },
+      );
+      const error = await getError(() =>
+        registerIsoCurrency(
+          { code: 'PTS', exponent: IsoPriceExponent.CENTI },
+          { registry },
+        ),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('already registered');
+    });
+  });
+
+  describe('isolation', () => {
+    test('registrations into a scoped registry do not leak', () => {
+      const registry = createIsoCurrencyRegistry();
+      registerIsoCurrency(
+        { code: 'CRED', exponent: IsoPriceExponent.MILLI },
+        { registry },
+      );
+
+      // visible within the scope
+      const inside = withIsoCurrencyRegistry(registry, () =>
+        getIsoCurrency('CRED'),
+      );
+      expect(inside?.exponent).toEqual(IsoPriceExponent.MILLI);
+
+      // invisible outside of it
+      expect(getIsoCurrency('CRED')).toBeNull();
+      expect(getIsoCurrencyRegistry()).not.toBe(registry);
+    });
+
+    test('restores the prior registry when the procedure throws', async () => {
+      const prior = getIsoCurrencyRegistry();
+      await getError(() =>
+        withIsoCurrencyRegistry(createIsoCurrencyRegistry(), () => {
+          throw new Error('boom');
+        }),
+      );
+      expect(getIsoCurrencyRegistry()).toBe(prior);
+    });
+  });
+
+  describe('usage across operations', () => {
+    const registry = createIsoCurrencyRegistry();
+    registerIsoCurrency(
+      {
+        code: 'USDC',
+        exponent: IsoPriceExponent.MICRO,
+        symbol: '₮',
+        name: 'USD Coin',
+      },
+      { registry },
+    );
+    registerIsoCurrency(
+      {
+        code: 'PTS',
+        exponent: IsoPriceExponent.WHOLE,
+        symbol: 'pts',
+        name: 'Loyalty Points',
+      },
+      { registry },
+    );
+    const scoped = <T>(procedure: () => T): T =>
+      withIsoCurrencyRegistry(registry, procedure);
+
+    test('isIsoPriceWords accepts registered codes', () => {
+      expect(scoped(() => isIsoPriceWords('USDC 1.500_000'))).toBe(true);
+      expect(isIsoPriceWords('USDC 1.500_000')).toBe(false);
+    });
+
+    test('asIsoPriceShape parses words with the registered exponent', () => {
+      expect(scoped(() => asIsoPriceShape('USDC 1.5'))).toEqual({
+        amount: 1500000n,
+        currency: 'USDC',
+        exponent: IsoPriceExponent.MICRO,
+      });
+    });
+
+    test('asIsoPriceShape parses human with the registered symbol', () => {
+      expect(scoped(() => isIsoPriceHuman('pts1,500'))).toBe(true);
+      expect(scoped(() => asIsoPriceShape('pts1,500'))).toEqual({
+        amount: 1500n,
+        currency: 'PTS',
+        exponent: IsoPriceExponent.WHOLE,
+      });
+    });
+
+    test('asIsoPrice normalizes to the registered exponent', () => {
+      expect(scoped(() => asIsoPrice('PTS 1500'))).toEqual('PTS 1_500');
+    });
+
+    test('asIsoPriceHuman displays the registered symbol', () => {
+      expect(scoped(() => asIsoPriceHuman('PTS 1500'))).toEqual('pts1,500');
+      expect(scoped(() => asIsoPriceHuman('USDC 2.5'))).toEqual('₮2.500000');
+    });
+
+    test('roundPrice rounds to the registered exponent by default', () => {
+      expect(scoped(() => roundPrice({ of: 'USDC 1.123_456_7' }))).toEqual(
+        'USDC 1.123_457',
+      );
+    });
+
+    test('setPricePrecision rounds to the registered exponent by default', () => {
+      expect(
+        scoped(() =>
+          setPricePrecision(
+            { of: 'PTS 10.5' },
+            { round: IsoPriceRoundMode.FLOOR },
+          ),
+        ),
+      ).toEqual('PTS 10');
+    });
+  });
+});
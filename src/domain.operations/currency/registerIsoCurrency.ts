@@ -0,0 +1,110 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoCurrencyDefinition } from '../../domain.objects/IsoCurrencyDefinition';
+import type { IsoCurrencyRegistry } from '../../domain.objects/IsoCurrencyRegistry';
+import type { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { isIsoPriceExponent } from '../guard/isIsoPriceExponent';
+import { getIsoCurrencyRegistry } from './getIsoCurrencyRegistry';
+import { ISO_4217_CURRENCIES } from './iso4217';
+
+/**
+ * .what = pattern for custom currency codes
+ * .why = codes must stay unambiguous within words format ('USDC 1.50')
+ *
+ * 3 to 10 uppercase letters or digits, led by a letter
+ */
+const CUSTOM_CODE_PATTERN = /^[A-Z][A-Z0-9]{2,9}$/;
+
+/**
+ * .what = codes reserved by iso 4217
+ * .why = custom registrations must not redefine standard currencies
+ */
+const ISO_4217_CODES: ReadonlySet<string> = new Set(
+  ISO_4217_CURRENCIES.map((c) => c.code),
+);
+
+/**
+ * .what = registers a custom currency for parse, round, and display
+ * .why = enables internal currencies (loyalty points, credits, USDC) without a fork
+ *
+ * once registered, the currency's exponent and symbol are used by
+ * asIsoPriceShape, asIsoPriceWords, asIsoPriceHuman, setPricePrecision, and roundPrice
+ *
+ * registration is idempotent for an identical definition
+ *
+ * @throws BadRequestError if the code is invalid, is an iso 4217 code, or is already registered differently
+ *
+ * @example
+ * registerIsoCurrency({ code: 'USDC', exponent: 'micro.x10^-6', symbol: '₮', name: 'USD Coin' });
+ * registerIsoCurrency({ code: 'SATS', exponent: 'x10^-8', name: 'Bitcoin (satoshis)' });
+ * asIsoPriceShape('USDC 1.5');
+ * // => { amount: 1500000n, currency: 'USDC', exponent: 'micro.x10^-6' }
+ *
+ * @example
+ * // register into an isolated registry (e.g., for tests)
+ * const registry = createIsoCurrencyRegistry();
+ * registerIsoCurrency({ code: 'PTS', exponent: 'whole.x10^0' }, { registry });
+ */
+export const registerIsoCurrency = <TCurrency extends string = string>(
+  input: {
+    code: TCurrency;
+    exponent: IsoPriceExponent;
+    symbol?: string;
+    name?: string;
+  },
+  options?: { registry?: IsoCurrencyRegistry },
+): IsoCurrencyDefinition<TCurrency> => {
+  const registry = options?.registry ?? getIsoCurrencyRegistry();
+
+  // validate the code
+  if (!CUSTOM_CODE_PATTERN.test(input.code)) {
+    throw new BadRequestError(
+      'custom currency code must be 3 to 10 uppercase letters or digits, led by a letter',
+      { code: input.code },
+    );
+  }
+  if (ISO_4217_CODES.has(input.code)) {
+    throw new BadRequestError(
+      'cannot register a currency that iso 4217 already defines',
+      { code: input.code },
+    );
+  }
+
+  // validate the exponent
+  if (!isIsoPriceExponent(input.exponent)) {
+    throw new BadRequestError('invalid exponent for custom currency', {
+      code: input.code,
+      exponent: input.exponent,
+    });
+  }
+
+  // build the definition
+  const definition: IsoCurrencyDefinition<TCurrency> = {
+    code: input.code,
+    numeric: null,
+    exponent: input.exponent,
+    name: input.name ?? input.code,
+    ...(input.symbol !== undefined ? { symbol: input.symbol } : {}),
+    isFund: false,
+    isMetal: false,
+  };
+
+  // allow idempotent re-registration; reject conflicts
+  const registered = registry.definitions.get(input.code);
+  if (registered) {
+    const isSame =
+      registered.exponent === definition.exponent &&
+      registered.name === definition.name &&
+      registered.symbol === definition.symbol;
+    if (!isSame) {
+      throw new BadRequestError(
+        'currency is already registered with a different definition',
+        { registered, requested: definition },
+      );
+    }
+    return registered as IsoCurrencyDefinition<TCurrency>;
+  }
+
+  registry.definitions.set(input.code, definition);
+  return definition;
+};
@@ -0,0 +1,244 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import { convertPrice } from './convertPrice';
+import { createIsoExchangeRateTable } from './createIsoExchangeRateTable';
+
+describe('convertPrice', () => {
+  const CASES = [
+    {
+      description: 'words rate, to the quote currency exponent',
+      given: { input: { of: 'USD 100.00', via: 'USD/EUR 0.912_345' } },
+      expect: { output: 'EUR 91.23' },
+    },
+    {
+      description: 'structured rate',
+      given: {
+        input: {
+          of: 'USD 100.00',
+          via: { from: 'USD', to: 'EUR', rate: '0.912345' },
+        },
+      },
+      expect: { output: 'EUR 91.23' },
+    },
+    {
+      description: 'lands on a whole-unit quote currency',
+      given: {
+        input: {
+          of: 'USD 100.00',
+          via: { from: 'USD', to: 'JPY', rate: '157.2349' },
+        },
+      },
+      expect: { output: 'JPY 15_723' },
+    },
+    {
+      description: 'lands on a three-decimal quote currency',
+      given: { input: { of: 'USD 100.00', via: 'USD/KWD 0.306_789' } },
+      expect: { output: 'KWD 30.679' },
+    },
+    {
+      description: 'from a whole-unit base currency',
+      given: { input: { of: 'JPY 15_723', via: 'JPY/USD 0.006_36' } },
+      expect: { output: 'USD 100.00' },
+    },
+    {
+      description: 'explicit target exponent',
+      given: {
+        input: {
+          of: 'USD 100.00',
+          via: 'USD/EUR 0.912_345',
+          to: IsoPriceExponent.MICRO,
+        },
+      },
+      expect: { output: 'EUR 91.234_500' },
+    },
+    {
+      description: 'sub-cent input',
+      given: { input: { of: 'USD 0.000_250', via: 'USD/EUR 0.9' } },
+      expect: { output: 'EUR 0.00' },
+    },
+    {
+      description: 'rounds half-up by default',
+      given: { input: { of: 'USD 1.00', via: 'USD/EUR 0.125' } },
+      expect: { output: 'EUR 0.13' },
+    },
+    {
+      description: 'honors the round mode',
+      given: {
+        input: { of: 'USD 1.00', via: 'USD/EUR 0.125' },
+        options: { round: IsoPriceRoundMode.HALF_EVEN },
+      },
+      expect: { output: 'EUR 0.12' },
+    },
+    {
+      description: 'negative price, half-up away from zero',
+      given: { input: { of: 'USD -1.00', via: 'USD/EUR 0.125' } },
+      expect: { output: 'EUR -0.13' },
+    },
+    {
+      description: 'single rate quoted within a date-only as-of',
+      given: {
+        input: {
+          of: 'USD 100.00',
+          via: 'USD/EUR 0.912_345 @ 2025-06-02T16:00:00Z',
+          asOf: '2025-06-02',
+        },
+      },
+      expect: { output: 'EUR 91.23' },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(convertPrice(given.input, given.options)).toEqual(expected.output);
+    });
+  });
+
+  describe('.by-table', () => {
+    const table = createIsoExchangeRateTable({
+      rates: [
+        {
+          base: 'EUR',
+          asOf: '2025-06-02',
+          rates: { USD: '1.1374', JPY: '162.35' },
+        },
+        { base: 'EUR', asOf: '2025-06-01', rates: { USD: '1.1300' } },
+      ],
+      pivot: 'EUR',
+    });
+
+    test('converts by a quoted rate', () => {
+      expect(
+        convertPrice({ of: 'EUR 100.00', via: table, into: 'USD' }),
+      ).toEqual('USD 113.74');
+    });
+
+    test('converts by an inverse rate', () => {
+      expect(
+        convertPrice({ of: 'USD 100.00', via: table, into: 'EUR' }),
+      ).toEqual('EUR 87.92');
+    });
+
+    test('converts by a cross rate through the pivot', () => {
+      expect(
+        convertPrice({ of: 'USD 100.00', via: table, into: 'JPY' }),
+      ).toEqual('JPY 14_274');
+    });
+
+    test('converts as of an earlier moment', () => {
+      expect(
+        convertPrice({
+          of: 'EUR 100.00',
+          via: table,
+          into: 'USD',
+          asOf: '2025-06-01',
+        }),
+      ).toEqual('USD 113.00');
+    });
+
+    test('rounds to a pivot price first, when the table names a pivot exponent', () => {
+      const pivoted = createIsoExchangeRateTable({
+        rates: [
+          ...(table.rates.get('EUR/USD') ?? []),
+          ...(table.rates.get('EUR/JPY') ?? []),
+        ],
+        pivot: 'EUR',
+        pivotExponent: IsoPriceExponent.CENTI,
+      });
+      expect(convertPrice({ of: 'USD 0.01', via: table, into: 'JPY' })).toEqual(
+        'JPY 1',
+      );
+      expect(
+        convertPrice({ of: 'USD 0.01', via: pivoted, into: 'JPY' }),
+      ).toEqual('JPY 2');
+    });
+
+    test('throws without a currency to convert into', () => {
+      const error = getError(() =>
+        convertPrice({ of: 'USD 100.00', via: table }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'cannot convert by a rate table without a currency to convert into',
+      );
+    });
+
+    test('throws when no rate was quoted by the moment', () => {
+      const error = getError(() =>
+        convertPrice({
+          of: 'USD 100.00',
+          via: table,
+          into: 'EUR',
+          asOf: '2025-05-31',
+        }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'no exchange rate between the currencies',
+      );
+    });
+  });
+
+  describe('.error', () => {
+    test('throws when the price is not in the rate base currency', () => {
+      const error = getError(() =>
+        convertPrice({ of: 'EUR 100.00', via: 'USD/EUR 0.912_345' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'exchange rate base does not match the price currency',
+      );
+    });
+
+    test('throws on an invalid rate', () => {
+      const error = getError(() =>
+        convertPrice({ of: 'USD 100.00', via: 'USD/EUR 0' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('exchange rate must be positive');
+    });
+    test('throws when the rate quote does not match the currency to convert into', () => {
+      const error = getError(() =>
+        convertPrice({
+          of: 'USD 100.00',
+          via: 'USD/EUR 0.912_345',
+          into: 'JPY',
+        }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'exchange rate quote does not match the currency to convert into',
+      );
+    });
+
+    test('throws when a single rate was quoted after the as-of', () => {
+      const error = getError(() =>
+        convertPrice({
+          of: 'USD 100.00',
+          via: 'USD/EUR 0.912_345 @ 2025-06-02',
+          asOf: '2025-06-01',
+        }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'exchange rate was quoted after the moment to convert as of',
+      );
+    });
+
+    test('throws on a malformed as-of with a single rate', () => {
+      const error = getError(() =>
+        convertPrice({
+          of: 'USD 100.00',
+          via: 'USD/EUR 0.912_345',
+          asOf: 'yesterday',
+        }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'exchange rate asOf must be an iso 8601 moment',
+      );
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoExchangeRate } from '../../domain.objects/IsoExchangeRate';
+import type { IsoExchangeRateTable } from '../../domain.objects/IsoExchangeRateTable';
+import type { IsoExchangeRateWords } from '../../domain.objects/IsoExchangeRateWords';
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import type { IsoRatio } from '../../domain.objects/IsoRatio';
+import { asIsoExchangeRate } from '../cast/asIsoExchangeRate';
+import { asIsoExchangeRateWords } from '../cast/asIsoExchangeRateWords';
+import { asIsoPriceShape } from '../cast/asIsoPriceShape';
+import { asIsoPriceWords } from '../cast/asIsoPriceWords';
+import { asIsoRatio } from '../cast/asIsoRatio';
+import { getIsoPriceExponentByCurrency } from '../precision/getIsoPriceExponentByCurrency';
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
+import { roundBigintByMode } from '../precision/roundBigintByMode';
+import type { IsoExchangeRateLeg } from './resolveIsoExchangeRatio';
+import {
+  isIsoExchangeRateQuotedBy,
+  isIsoExchangeRateTable,
+  multiplyIsoExchangeRateLegs,
+  resolveIsoExchangeRatio,
+} from './resolveIsoExchangeRatio';
+
+/**
+ * .what = converts an amount by an exact ratio, from one exponent to another
+ * .why = computes in bigint and rounds once, at the target exponent
+ */
+const convertAmount = (input: {
+  amount: bigint;
+  ratio: IsoRatio;
+  from: IsoPriceExponent;
+  to: IsoPriceExponent;
+  round: IsoPriceRoundMode;
+}): bigint => {
+  const scaleDiff =
+    getIsoPriceExponentValue(input.from) - getIsoPriceExponentValue(input.to);
+  const scale = 10n ** BigInt(Math.abs(scaleDiff));
+  return roundBigintByMode(
+    {
+      of: input.amount * input.ratio.numerator * (scaleDiff > 0 ? scale : 1n),
+      by: input.ratio.denominator * (scaleDiff < 0 ? scale : 1n),
+    },
+    { round: input.round },
+  );
+};
+
+/**
+ * .what = converts a price into another currency by an exchange rate or a rate table
+ * .why = cross-currency operations refuse to mix currencies; this is the explicit way across
+ *
+ * `via` may be:
+ * - a single rate, in words or structured form — the price must be in its base currency, and a dated rate
+ *   must be quoted at or before `asOf`, when given
+ * - a rate table — name the currency to convert `into`, and optionally the `asOf` moment to look up
+ *
+ * the conversion is computed in bigint and rounded once, to `to` — which defaults to the target
+ * currency's iso 4217 exponent. a table with a `pivotExponent` rounds triangulated conversions
+ * once more, to a pivot price at that exponent, before the second leg
+ *
+ * @throws BadRequestError if the price is not in the rate's base currency, the rate was quoted after `asOf`, or the table has no path to `into`
+ *
+ * @example
+ * convertPrice({ of: 'USD 100.00', via: 'USD/EUR 0.912_345' })
+ * // => 'EUR 91.23'
+ *
+ * @example
+ * // lands on the quote currency's exponent
+ * convertPrice({ of: 'USD 100.00', via: { from: 'USD', to: 'JPY', rate: '157.2349' } })
+ * // => 'JPY 15_723'
+ *
+ * @example
+ * // or on an explicit one
+ * convertPrice(
+ *   { of: 'USD 100.00', via: 'USD/EUR 0.912_345', to: 'micro.x10^-6' },
+ *   { round: 'floor' },
+ * )
+ * // => 'EUR 91.234_500'
+ *
+ * @example
+ * // by a table, as of a moment
+ * convertPrice({ of: 'USD 100.00', via: table, into: 'JPY', asOf: '2025-06-02' })
+ * // => 'JPY 14_274'
+ */
+export const convertPrice = <
+  TFrom extends string = string,
+  TTo extends string = string,
+>(
+  input: {
+    of: IsoPrice<TFrom> | string;
+    via:
+      | IsoExchangeRate<TFrom, TTo>
+      | IsoExchangeRateWords<TFrom, TTo>
+      | IsoExchangeRateTable
+      | string;
+    into?: TTo;
+    asOf?: string;
+    to?: IsoPriceExponent;
+  },
+  options?: { round?: IsoPriceRoundMode },
+): IsoPriceWords<TTo> => {
+  const shape = asIsoPriceShape(input.of);
+  const round = options?.round ?? IsoPriceRoundMode.HALF_UP;
+
+  // resolve the conversion path
+  const legs = ((): IsoExchangeRateLeg[] => {
+    if (isIsoExchangeRateTable(input.via)) {
+      if (input.into === undefined) {
+        throw new BadRequestError(
+          'cannot convert by a rate table without a currency to convert into',
+          { of: shape.currency },
+        );
+      }
+      return resolveIsoExchangeRatio({
+        table: input.via,
+        from: shape.currency,
+        to: input.into,
+        asOf: input.asOf,
+      });
+    }
+    const rate = asIsoExchangeRate<TFrom, TTo>(input.via);
+    if (shape.currency !== rate.from) {
+      throw new BadRequestError(
+        'exchange rate base does not match the price currency',
+        { of: shape.currency, via: asIsoExchangeRateWords(rate) },
+      );
+    }
+    if (input.into !== undefined && input.into !== rate.to) {
+      throw new BadRequestError(
+        'exchange rate quote does not match the currency to convert into',
+        { into: input.into, via: asIsoExchangeRateWords(rate) },
+      );
+    }
+    if (
+      input.asOf !== undefined &&
+      !isIsoExchangeRateQuotedBy({ rate, asOf: input.asOf })
+    ) {
+      throw new BadRequestError(
+        'exchange rate was quoted after the moment to convert as of',
+        { asOf: input.asOf, via: asIsoExchangeRateWords(rate) },
+      );
+    }
+    return [{ from: rate.from, to: rate.to, ratio: asIsoRatio(rate.rate) }];
+  })();
+  const currency = legs.reduce<string>(
+    (_, leg) => leg.to,
+    shape.currency,
+  ) as TTo;
+
+  // resolve the target exponent; default to the target currency's standard
+  const to = input.to ?? getIsoPriceExponentByCurrency(currency);
+  const from = shape.exponent ?? IsoPriceExponent.CENTI;
+
+  // triangulate through a pivot price, when the table requires it
+  const pivotExponent = isIsoExchangeRateTable(input.via)
+    ? input.via.pivotExponent
+    : null;
+  if (legs.length === 2 && pivotExponent !== null) {
+    const [toPivot, fromPivot] = legs as [
+      IsoExchangeRateLeg,
+      IsoExchangeRateLeg,
+    ];
+    const pivotAmount = convertAmount({
+      amount: shape.amount,
+      ratio: toPivot.ratio,
+      from,
+      to: pivotExponent,
+      round,
+    });
+    return asIsoPriceWords<TTo>({
+      amount: convertAmount({
+        amount: pivotAmount,
+        ratio: fromPivot.ratio,
+        from: pivotExponent,
+        to,
+        round,
+      }),
+      currency,
+      exponent: to,
+    });
+  }
+
+  // else convert by the product of the legs, rounded once
+  const ratio = multiplyIsoExchangeRateLegs(legs);
+  return asIsoPriceWords<TTo>({
+    amount: convertAmount({ amount: shape.amount, ratio, from, to, round }),
+    currency,
+    exponent: to,
+  });
+};
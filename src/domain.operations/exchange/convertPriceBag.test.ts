@@ -0,0 +1,85 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { asIsoPriceBag } from '../cast/asIsoPriceBag';
+import { convertPriceBag } from './convertPriceBag';
+import { createIsoExchangeRateTable } from './createIsoExchangeRateTable';
+
+describe('convertPriceBag', () => {
+  const table = createIsoExchangeRateTable({
+    rates: [
+      {
+        base: 'EUR',
+        asOf: '2025-06-02',
+        rates: { USD: '1.1374', JPY: '162.35' },
+      },
+      { base: 'EUR', asOf: '2025-06-01', rates: { USD: '1.1300' } },
+    ],
+    pivot: 'EUR',
+  });
+
+  test('collapses a bag by a list of rates', () => {
+    expect(
+      convertPriceBag({
+        of: asIsoPriceBag('USD 10.00 + EUR 5.00'),
+        via: ['USD/EUR 0.912_345'],
+        into: 'EUR',
+      }),
+    ).toEqual('EUR 14.12');
+  });
+
+  test('collapses a bag by a table, with inverse and cross rates', () => {
+    expect(
+      convertPriceBag({
+        of: asIsoPriceBag('USD 100.00 + EUR 10.00 + JPY 1_000'),
+        via: table,
+        into: 'USD',
+      }),
+    ).toEqual('USD 118.38');
+  });
+
+  test('looks up rates as of a moment', () => {
+    expect(
+      convertPriceBag({
+        of: asIsoPriceBag('EUR 100.00 + USD 1.00'),
+        via: table,
+        into: 'USD',
+        asOf: '2025-06-01',
+      }),
+    ).toEqual('USD 114.00');
+  });
+
+  test('honors an explicit exponent', () => {
+    expect(
+      convertPriceBag({
+        of: asIsoPriceBag('USD 10.00 + EUR 5.00'),
+        via: ['USD/EUR 0.912_345'],
+        into: 'EUR',
+        to: IsoPriceExponent.MICRO,
+      }),
+    ).toEqual('EUR 14.123_450');
+  });
+
+  test('collapses an empty bag to zero', () => {
+    expect(
+      convertPriceBag({ of: asIsoPriceBag([]), via: table, into: 'JPY' }),
+    ).toEqual('JPY 0');
+  });
+
+  describe('.error', () => {
+    test('throws when a currency has no rate into the target', () => {
+      const error = getError(() =>
+        convertPriceBag({
+          of: asIsoPriceBag('USD 10.00 + GBP 5.00'),
+          via: table,
+          into: 'EUR',
+        }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'no exchange rate between the currencies',
+      );
+    });
+  });
+});
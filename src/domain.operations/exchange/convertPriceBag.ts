@@ -0,0 +1,66 @@
+import type { IsoExchangeRateSource } from '../../domain.objects/IsoExchangeRateSource';
+import type { IsoExchangeRateTable } from '../../domain.objects/IsoExchangeRateTable';
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import type { IsoPriceBag } from '../../domain.objects/IsoPriceBag';
+import type { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import type { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import { sumPrices } from '../arithmetic/sumPrices';
+import { asIsoPriceBag } from '../cast/asIsoPriceBag';
+import { asIsoPriceWords } from '../cast/asIsoPriceWords';
+import { getIsoPriceExponentByCurrency } from '../precision/getIsoPriceExponentByCurrency';
+import { convertPrice } from './convertPrice';
+import { createIsoExchangeRateTable } from './createIsoExchangeRateTable';
+import { isIsoExchangeRateTable } from './resolveIsoExchangeRatio';
+
+/**
+ * .what = collapses a price bag into a single currency
+ * .why = reports and checkouts need one total, even when the bag holds many currencies
+ *
+ * `via` may be a rate table, or any source `createIsoExchangeRateTable` reads.
+ * each currency total converts as `convertPrice` would convert it, to `to` — which defaults to
+ * the target currency's iso 4217 exponent — and the converted totals are then summed exactly
+ *
+ * @throws BadRequestError if any currency in the bag has no rate into the target currency
+ *
+ * @example
+ * convertPriceBag({
+ *   of: asIsoPriceBag('USD 10.00 + EUR 5.00'),
+ *   via: ['USD/EUR 0.912_345'],
+ *   into: 'EUR',
+ * })
+ * // => 'EUR 14.12'
+ */
+export const convertPriceBag = <TTo extends string = string>(
+  input: {
+    of: IsoPriceBag | IsoPrice | string;
+    via: IsoExchangeRateTable | IsoExchangeRateSource;
+    into: TTo;
+    asOf?: string;
+    to?: IsoPriceExponent;
+  },
+  options?: { round?: IsoPriceRoundMode },
+): IsoPriceWords<TTo> => {
+  const table = isIsoExchangeRateTable(input.via)
+    ? input.via
+    : createIsoExchangeRateTable({ rates: input.via });
+  const to = input.to ?? getIsoPriceExponentByCurrency(input.into);
+
+  // convert each currency total, then sum them exactly
+  const converted = [...asIsoPriceBag(input.of).totals.values()].map((total) =>
+    convertPrice<string, TTo>(
+      {
+        of: total,
+        via: table,
+        into: input.into,
+        asOf: input.asOf,
+        to,
+      },
+      options,
+    ),
+  );
+  return sumPrices<TTo>(
+    asIsoPriceWords<TTo>({ amount: 0n, currency: input.into, exponent: to }),
+    ...converted,
+  );
+};
@@ -0,0 +1,36 @@
+import type { IsoExchangeRate } from '../../domain.objects/IsoExchangeRate';
+import type { IsoExchangeRateProvider } from '../../domain.objects/IsoExchangeRateProvider';
+import type { IsoExchangeRateSource } from '../../domain.objects/IsoExchangeRateSource';
+import { asIsoExchangeRates } from '../cast/asIsoExchangeRates';
+
+/**
+ * .what = creates an exchange rate provider from a loader of any rate source
+ * .why = lets a live feed, a local file, or an in-memory stand-in serve rates through one interface
+ *
+ * the loader may return any source `asIsoExchangeRates` reads — a snapshot, an array of rates,
+ * or a json or csv string — synchronously or as a promise
+ *
+ * @example
+ * // an in-memory stand-in, e.g., for tests
+ * const provider = createIsoExchangeRateProvider({
+ *   load: () => ({ base: 'EUR', asOf: '2025-06-02', rates: { USD: '1.1374' } }),
+ * });
+ *
+ * @example
+ * // a local csv file
+ * const provider = createIsoExchangeRateProvider({
+ *   load: () => fs.promises.readFile('./rates.csv', 'utf8'),
+ * });
+ */
+export const createIsoExchangeRateProvider = (input: {
+  load: (input: {
+    asOf?: string;
+  }) => IsoExchangeRateSource | Promise<IsoExchangeRateSource>;
+  format?: 'json' | 'csv';
+}): IsoExchangeRateProvider => ({
+  getRates: async ({ asOf }: { asOf?: string }): Promise<IsoExchangeRate[]> =>
+    asIsoExchangeRates(
+      await input.load(asOf === undefined ? {} : { asOf }),
+      input.format === undefined ? undefined : { format: input.format },
+    ),
+});
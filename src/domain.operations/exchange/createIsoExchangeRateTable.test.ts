@@ -0,0 +1,55 @@
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { createIsoExchangeRateTable } from './createIsoExchangeRateTable';
+
+describe('createIsoExchangeRateTable', () => {
+  test('indexes rates by pair, oldest first', () => {
+    const table = createIsoExchangeRateTable({
+      rates: [
+        'EUR/USD 1.1374 @ 2025-06-02',
+        'EUR/USD 1.13 @ 2025-06-01',
+        'EUR/USD 1.12',
+        'EUR/JPY 162.35 @ 2025-06-02',
+      ],
+    });
+    expect(table.rates.get('EUR/USD')).toEqual([
+      { from: 'EUR', to: 'USD', rate: '1.12' },
+      { from: 'EUR', to: 'USD', rate: '1.13', asOf: '2025-06-01' },
+      { from: 'EUR', to: 'USD', rate: '1.1374', asOf: '2025-06-02' },
+    ]);
+    expect(table.rates.get('EUR/JPY')).toHaveLength(1);
+  });
+
+  test('keeps the later of two quotes for the same pair and moment', () => {
+    const table = createIsoExchangeRateTable({
+      rates: ['EUR/USD 1.13 @ 2025-06-01', 'EUR/USD 1.14 @ 2025-06-01'],
+    });
+    expect(table.rates.get('EUR/USD')).toEqual([
+      { from: 'EUR', to: 'USD', rate: '1.14', asOf: '2025-06-01' },
+    ]);
+  });
+
+  test('loads from a csv source', () => {
+    const table = createIsoExchangeRateTable({
+      rates: 'from,to,rate,asOf\nEUR,USD,1.1374,2025-06-02',
+    });
+    expect(table.rates.get('EUR/USD')).toEqual([
+      { from: 'EUR', to: 'USD', rate: '1.1374', asOf: '2025-06-02' },
+    ]);
+  });
+
+  test('defaults to no pivot', () => {
+    const table = createIsoExchangeRateTable({ rates: [] });
+    expect(table.pivot).toBeNull();
+    expect(table.pivotExponent).toBeNull();
+  });
+
+  test('keeps the pivot and its exponent', () => {
+    const table = createIsoExchangeRateTable({
+      rates: [],
+      pivot: 'EUR',
+      pivotExponent: IsoPriceExponent.MILLI,
+    });
+    expect(table.pivot).toEqual('EUR');
+    expect(table.pivotExponent).toEqual(IsoPriceExponent.MILLI);
+  });
+});
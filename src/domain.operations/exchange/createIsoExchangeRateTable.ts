@@ -0,0 +1,59 @@
+import type { IsoExchangeRate } from '../../domain.objects/IsoExchangeRate';
+import type { IsoExchangeRateSource } from '../../domain.objects/IsoExchangeRateSource';
+import type { IsoExchangeRateTable } from '../../domain.objects/IsoExchangeRateTable';
+import type { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { asIsoExchangeRates } from '../cast/asIsoExchangeRates';
+
+/**
+ * .what = the moment a rate was quoted at, as epoch milliseconds
+ * .why = orders rates in time; undated rates sort before every dated one
+ */
+const getQuotedAt = (rate: IsoExchangeRate): number =>
+  rate.asOf === undefined ? Number.NEGATIVE_INFINITY : Date.parse(rate.asOf);
+
+/**
+ * .what = creates an exchange rate table from a source of rates
+ * .why = enables conversion among many currencies, with inverse and cross rates derived on lookup
+ *
+ * the source may be a snapshot, an array of rates or snapshots, or a json or csv string
+ * (see `IsoExchangeRateSource`). a rate quoted twice for the same pair and moment keeps the later one
+ *
+ * set `pivot` to derive cross rates by triangulation through it (e.g., 'EUR' for a euro reference feed).
+ * set `pivotExponent` to round to a pivot price before the second leg of a triangulated conversion,
+ * as euro triangulation rules require (e.g., 'milli.x10^-3')
+ *
+ * @example
+ * const table = createIsoExchangeRateTable({
+ *   rates: { base: 'EUR', asOf: '2025-06-02', rates: { USD: '1.1374', JPY: '162.35' } },
+ *   pivot: 'EUR',
+ * });
+ * convertPrice({ of: 'USD 100.00', via: table, into: 'JPY' });
+ * // => 'JPY 14_274'
+ */
+export const createIsoExchangeRateTable = (input: {
+  rates: IsoExchangeRateSource;
+  pivot?: string | null;
+  pivotExponent?: IsoPriceExponent | null;
+}): IsoExchangeRateTable => {
+  // index the rates by pair, keyed by moment so later quotes replace earlier ones
+  const byPair = new Map<string, Map<number, IsoExchangeRate>>();
+  for (const rate of asIsoExchangeRates(input.rates)) {
+    const pair = `${rate.from}/${rate.to}`;
+    const quotes = byPair.get(pair) ?? new Map<number, IsoExchangeRate>();
+    quotes.set(getQuotedAt(rate), rate);
+    byPair.set(pair, quotes);
+  }
+
+  // order each pair oldest first
+  const rates = new Map(
+    [...byPair].map(([pair, quotes]) => [
+      pair,
+      [...quotes].sort(([a], [b]) => a - b).map(([, rate]) => rate),
+    ]),
+  );
+  return {
+    rates,
+    pivot: input.pivot ?? null,
+    pivotExponent: input.pivotExponent ?? null,
+  };
+};
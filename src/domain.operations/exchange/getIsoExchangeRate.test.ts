@@ -0,0 +1,220 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { createIsoExchangeRateTable } from './createIsoExchangeRateTable';
+import { getIsoExchangeRate } from './getIsoExchangeRate';
+
+describe('getIsoExchangeRate', () => {
+  const table = createIsoExchangeRateTable({
+    rates: [
+      {
+        base: 'EUR',
+        asOf: '2025-06-02',
+        rates: { USD: '1.1374', JPY: '162.35', GBP: '0.84280' },
+      },
+      { base: 'EUR', asOf: '2025-06-01', rates: { USD: '1.1300' } },
+      'CHF/EUR 0.8 @ 2025-06-02',
+    ],
+    pivot: 'EUR',
+  });
+
+  const CASES = [
+    {
+      description: 'quoted rate, latest',
+      given: { input: { from: 'EUR', to: 'USD' } },
+      expect: {
+        output: { from: 'EUR', to: 'USD', rate: '1.1374', asOf: '2025-06-02' },
+      },
+    },
+    {
+      description: 'quoted rate, as of an earlier day',
+      given: { input: { from: 'EUR', to: 'USD', asOf: '2025-06-01' } },
+      expect: {
+        output: { from: 'EUR', to: 'USD', rate: '1.13', asOf: '2025-06-01' },
+      },
+    },
+    {
+      description: 'quoted rate, as of a moment within a later day',
+      given: {
+        input: { from: 'EUR', to: 'USD', asOf: '2025-06-01T23:59:59Z' },
+      },
+      expect: {
+        output: { from: 'EUR', to: 'USD', rate: '1.13', asOf: '2025-06-01' },
+      },
+    },
+    {
+      description: 'inverse rate, rounded to 6 significant figures',
+      given: { input: { from: 'USD', to: 'EUR' } },
+      expect: {
+        output: {
+          from: 'USD',
+          to: 'EUR',
+          rate: '0.879198',
+          asOf: '2025-06-02',
+        },
+      },
+    },
+    {
+      description: 'inverse rate that terminates is exact',
+      given: { input: { from: 'EUR', to: 'CHF' } },
+      expect: {
+        output: { from: 'EUR', to: 'CHF', rate: '1.25', asOf: '2025-06-02' },
+      },
+    },
+    {
+      description: 'cross rate through the pivot',
+      given: { input: { from: 'USD', to: 'JPY' } },
+      expect: {
+        output: { from: 'USD', to: 'JPY', rate: '142.738', asOf: '2025-06-02' },
+      },
+    },
+    {
+      description: 'cross rate of two inverse legs',
+      given: { input: { from: 'GBP', to: 'USD' } },
+      expect: {
+        output: { from: 'GBP', to: 'USD', rate: '1.34955', asOf: '2025-06-02' },
+      },
+    },
+    {
+      description: 'cross rate below one',
+      given: { input: { from: 'JPY', to: 'GBP' } },
+      expect: {
+        output: {
+          from: 'JPY',
+          to: 'GBP',
+          rate: '0.00519125',
+          asOf: '2025-06-02',
+        },
+      },
+    },
+    {
+      description: 'same currency',
+      given: { input: { from: 'USD', to: 'USD' } },
+      expect: { output: { from: 'USD', to: 'USD', rate: '1' } },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(getIsoExchangeRate({ table, ...given.input })).toEqual(
+        expected.output,
+      );
+    });
+  });
+
+  test('honors significant figures', () => {
+    expect(
+      getIsoExchangeRate({ table, from: 'USD', to: 'JPY' }, { significant: 10 })
+        .rate,
+    ).toEqual('142.7378231');
+  });
+
+  test('a cross rate is as old as its oldest leg', () => {
+    const mixed = createIsoExchangeRateTable({
+      rates: ['EUR/USD 1.1374 @ 2025-06-02', 'EUR/JPY 162.35 @ 2025-05-30'],
+      pivot: 'EUR',
+    });
+    expect(
+      getIsoExchangeRate({ table: mixed, from: 'USD', to: 'JPY' }).asOf,
+    ).toEqual('2025-05-30');
+  });
+
+  test('prefers the more recent of a quote and an inverse quote', () => {
+    const both = createIsoExchangeRateTable({
+      rates: ['EUR/USD 1.25 @ 2025-06-01', 'USD/EUR 0.5 @ 2025-06-02'],
+    });
+    expect(
+      getIsoExchangeRate({ table: both, from: 'EUR', to: 'USD' }).rate,
+    ).toEqual('2');
+    expect(
+      getIsoExchangeRate({
+        table: both,
+        from: 'EUR',
+        to: 'USD',
+        asOf: '2025-06-01',
+      }).rate,
+    ).toEqual('1.25');
+  });
+
+  test('a date-only as-of sees rates quoted later that day', () => {
+    const intraday = createIsoExchangeRateTable({
+      rates: [
+        'EUR/USD 1.13 @ 2025-06-01T16:00:00Z',
+        'EUR/USD 1.1374 @ 2025-06-02T16:00:00Z',
+      ],
+    });
+    expect(
+      getIsoExchangeRate({
+        table: intraday,
+        from: 'EUR',
+        to: 'USD',
+        asOf: '2025-06-02',
+      }),
+    ).toEqual({
+      from: 'EUR',
+      to: 'USD',
+      rate: '1.1374',
+      asOf: '2025-06-02T16:00:00Z',
+    });
+  });
+
+  describe('.error', () => {
+    test('throws when no rate was quoted by the moment', () => {
+      const error = getError(() =>
+        getIsoExchangeRate({
+          table,
+          from: 'EUR',
+          to: 'USD',
+          asOf: '2025-05-31',
+        }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'no exchange rate between the currencies',
+      );
+    });
+
+    test('throws when the table has no pivot to triangulate through', () => {
+      const unpivoted = createIsoExchangeRateTable({
+        rates: ['EUR/USD 1.1374', 'EUR/JPY 162.35'],
+      });
+      const error = getError(() =>
+        getIsoExchangeRate({ table: unpivoted, from: 'USD', to: 'JPY' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'no exchange rate between the currencies',
+      );
+    });
+
+    test('throws on significant figures that are not a positive integer', () => {
+      [0, 1.5].forEach((significant) => {
+        const error = getError(() =>
+          getIsoExchangeRate(
+            { table, from: 'USD', to: 'JPY' },
+            { significant },
+          ),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain(
+          'significant must be a positive integer',
+        );
+      });
+    });
+
+    test('throws on a loose as-of', () => {
+      const error = getError(() =>
+        getIsoExchangeRate({
+          table,
+          from: 'EUR',
+          to: 'USD',
+          asOf: 'yesterday',
+        }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'exchange rate asOf must be an iso 8601 moment',
+      );
+    });
+  });
+});
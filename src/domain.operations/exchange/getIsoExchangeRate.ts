@@ -0,0 +1,71 @@
+import type { IsoExchangeRate } from '../../domain.objects/IsoExchangeRate';
+import type { IsoExchangeRateTable } from '../../domain.objects/IsoExchangeRateTable';
+import { asIsoRatioDecimal } from '../cast/asIsoRatioDecimal';
+import {
+  multiplyIsoExchangeRateLegs,
+  resolveIsoExchangeRatio,
+} from './resolveIsoExchangeRatio';
+
+/**
+ * .what = looks up the exchange rate between two currencies in a table
+ * .why = answers quoted, inverse, and cross rates alike, as of any moment
+ *
+ * quoted rates come back exactly. derived rates come back exact when their decimal terminates,
+ * else rounded half-up to `significant` figures (default 6, as euro conversion rates are quoted).
+ * a derived rate's `asOf` is that of its oldest leg
+ *
+ * note: `convertPrice` with `via: table` converts by the exact derived rate, not this rounded one
+ *
+ * @throws BadRequestError if the table has no path between the currencies, or `significant` is not a positive integer
+ *
+ * @example
+ * getIsoExchangeRate({ table, from: 'EUR', to: 'USD' })
+ * // => { from: 'EUR', to: 'USD', rate: '1.1374', asOf: '2025-06-02' }
+ *
+ * @example
+ * // inverse
+ * getIsoExchangeRate({ table, from: 'USD', to: 'EUR' })
+ * // => { from: 'USD', to: 'EUR', rate: '0.879198', asOf: '2025-06-02' }
+ *
+ * @example
+ * // cross, through the pivot
+ * getIsoExchangeRate({ table, from: 'USD', to: 'JPY' })
+ * // => { from: 'USD', to: 'JPY', rate: '142.738', asOf: '2025-06-02' }
+ */
+export const getIsoExchangeRate = <
+  TFrom extends string = string,
+  TTo extends string = string,
+>(
+  input: {
+    table: IsoExchangeRateTable;
+    from: TFrom;
+    to: TTo;
+    asOf?: string;
+  },
+  options?: { significant?: number },
+): IsoExchangeRate<TFrom, TTo> => {
+  const legs = resolveIsoExchangeRatio(input);
+
+  // multiply the legs into one exact ratio
+  const ratio = multiplyIsoExchangeRateLegs(legs);
+
+  // the rate is only as fresh as its oldest leg
+  const dates = legs.flatMap((leg) =>
+    leg.asOf === undefined ? [] : [leg.asOf],
+  );
+  const asOf =
+    dates.length === legs.length
+      ? dates.reduce((oldest, candidate) =>
+          Date.parse(candidate) < Date.parse(oldest) ? candidate : oldest,
+        )
+      : undefined;
+
+  return {
+    from: input.from,
+    to: input.to,
+    rate: asIsoRatioDecimal(ratio, {
+      significant: options?.significant ?? 6,
+    }),
+    ...(asOf !== undefined && { asOf }),
+  };
+};
@@ -0,0 +1,72 @@
+import type { IsoExchangeRateSource } from '../../domain.objects/IsoExchangeRateSource';
+import type { IsoExchangeRateTable } from '../../domain.objects/IsoExchangeRateTable';
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import type { IsoRatio } from '../../domain.objects/IsoRatio';
+import { asIsoPriceShape } from '../cast/asIsoPriceShape';
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
+import { createIsoExchangeRateTable } from './createIsoExchangeRateTable';
+import {
+  isIsoExchangeRateTable,
+  multiplyIsoExchangeRateLegs,
+  resolveIsoExchangeRatio,
+} from './resolveIsoExchangeRatio';
+
+/**
+ * .what = values prices of any currencies exactly, in one reference currency
+ * .why = gives cross-currency comparisons one exact, unrounded basis
+ *
+ * each value is the price's major-unit amount times the exact rate into `into`, as a ratio;
+ * `into` defaults to the first price's currency. values line up with the prices, so a pair of prices yields a pair of values
+ *
+ * @throws BadRequestError if any price's currency has no rate into the reference currency
+ */
+export const getIsoPriceValuesInto = <
+  TPrices extends (IsoPrice | string)[],
+>(input: {
+  prices: [...TPrices];
+  rates: IsoExchangeRateTable | IsoExchangeRateSource;
+  into?: string;
+  asOf?: string;
+}): {
+  into: string | null;
+  table: IsoExchangeRateTable;
+  values: { [K in keyof TPrices]: IsoRatio };
+} => {
+  const table = isIsoExchangeRateTable(input.rates)
+    ? input.rates
+    : createIsoExchangeRateTable({ rates: input.rates });
+  const shapes = input.prices.map((price) => asIsoPriceShape(price));
+  const into = input.into ?? shapes[0]?.currency ?? null;
+
+  // scale each amount to major units, then multiply by the exact rate
+  const values = shapes.map((shape): IsoRatio => {
+    const ratio = multiplyIsoExchangeRateLegs(
+      resolveIsoExchangeRatio({
+        table,
+        from: shape.currency,
+        to: into ?? shape.currency,
+        asOf: input.asOf,
+      }),
+    );
+    const exponentValue = getIsoPriceExponentValue(
+      shape.exponent ?? IsoPriceExponent.CENTI,
+    );
+    const scale = 10n ** BigInt(Math.abs(exponentValue));
+    return {
+      numerator:
+        shape.amount * ratio.numerator * (exponentValue > 0 ? scale : 1n),
+      denominator: ratio.denominator * (exponentValue < 0 ? scale : 1n),
+    };
+  });
+  return { into, table, values: values as { [K in keyof TPrices]: IsoRatio } };
+};
+
+/**
+ * .what = compares two exact values, as a sort comparator would
+ * .why = ratios compare exactly by cross multiplication; denominators are always positive
+ */
+export const compareIsoPriceValues = (a: IsoRatio, b: IsoRatio): number => {
+  const diff = a.numerator * b.denominator - b.numerator * a.denominator;
+  return diff === 0n ? 0 : diff < 0n ? -1 : 1;
+};
@@ -0,0 +1,81 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { convertPrice } from './convertPrice';
+import { createIsoExchangeRateProvider } from './createIsoExchangeRateProvider';
+import { loadIsoExchangeRateTable } from './loadIsoExchangeRateTable';
+
+describe('loadIsoExchangeRateTable', () => {
+  test('loads from an in-memory stand-in', async () => {
+    const provider = createIsoExchangeRateProvider({
+      load: () => ({
+        base: 'EUR',
+        asOf: '2025-06-02',
+        rates: { USD: '1.1374', JPY: '162.35' },
+      }),
+    });
+    const table = await loadIsoExchangeRateTable({ provider, pivot: 'EUR' });
+    expect(convertPrice({ of: 'USD 100.00', via: table, into: 'JPY' })).toEqual(
+      'JPY 14_274',
+    );
+  });
+
+  test('loads from an async csv loader', async () => {
+    const provider = createIsoExchangeRateProvider({
+      load: async () => 'from,to,rate,asOf\nUSD,EUR,0.912345,2025-06-02\n',
+    });
+    const table = await loadIsoExchangeRateTable({ provider });
+    expect(table.rates.get('USD/EUR')).toEqual([
+      { from: 'USD', to: 'EUR', rate: '0.912345', asOf: '2025-06-02' },
+    ]);
+  });
+
+  test('passes the as-of moment through to the loader', async () => {
+    const load = jest.fn(({ asOf }: { asOf?: string }) => [
+      `EUR/USD ${asOf === '2025-06-01' ? '1.13' : '1.1374'} @ ${asOf ?? '2025-06-02'}`,
+    ]);
+    const provider = createIsoExchangeRateProvider({ load });
+    const table = await loadIsoExchangeRateTable({
+      provider,
+      asOf: '2025-06-01',
+    });
+    expect(load).toHaveBeenCalledWith({ asOf: '2025-06-01' });
+    expect(table.rates.get('EUR/USD')).toEqual([
+      { from: 'EUR', to: 'USD', rate: '1.13', asOf: '2025-06-01' },
+    ]);
+  });
+
+  test('keeps the pivot and its exponent', async () => {
+    const provider = createIsoExchangeRateProvider({ load: () => [] });
+    const table = await loadIsoExchangeRateTable({
+      provider,
+      pivot: 'USD',
+      pivotExponent: IsoPriceExponent.CENTI,
+    });
+    expect(table.pivot).toEqual('USD');
+    expect(table.pivotExponent).toEqual(IsoPriceExponent.CENTI);
+  });
+
+  test('honors the provider format', async () => {
+    const provider = createIsoExchangeRateProvider({
+      load: () => '[{"from":"USD","to":"EUR","rate":"0.9"}]',
+      format: 'json',
+    });
+    const rates = await provider.getRates({});
+    expect(rates).toEqual([{ from: 'USD', to: 'EUR', rate: '0.9' }]);
+  });
+
+  describe('.error', () => {
+    test('rejects when the source is malformed', async () => {
+      const provider = createIsoExchangeRateProvider({
+        load: () => 'from,to\nUSD,EUR',
+      });
+      const error = await getError(loadIsoExchangeRateTable({ provider }));
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'exchange rate csv header must name from, to, and rate columns',
+      );
+    });
+  });
+});
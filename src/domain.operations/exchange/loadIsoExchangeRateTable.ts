@@ -0,0 +1,32 @@
+import type { IsoExchangeRateProvider } from '../../domain.objects/IsoExchangeRateProvider';
+import type { IsoExchangeRateTable } from '../../domain.objects/IsoExchangeRateTable';
+import type { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { createIsoExchangeRateTable } from './createIsoExchangeRateTable';
+
+/**
+ * .what = loads an exchange rate table from a provider
+ * .why = lets reporting build its table from a live feed in production and a stand-in in tests
+ *
+ * @example
+ * const table = await loadIsoExchangeRateTable({
+ *   provider,
+ *   asOf: '2025-06-02',
+ *   pivot: 'EUR',
+ * });
+ * convertPrice({ of: 'USD 100.00', via: table, into: 'JPY' });
+ */
+export const loadIsoExchangeRateTable = async (input: {
+  provider: IsoExchangeRateProvider;
+  asOf?: string;
+  pivot?: string | null;
+  pivotExponent?: IsoPriceExponent | null;
+}): Promise<IsoExchangeRateTable> => {
+  const rates = await input.provider.getRates(
+    input.asOf === undefined ? {} : { asOf: input.asOf },
+  );
+  return createIsoExchangeRateTable({
+    rates,
+    pivot: input.pivot,
+    pivotExponent: input.pivotExponent,
+  });
+};
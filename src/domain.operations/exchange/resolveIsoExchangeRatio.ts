@@ -0,0 +1,176 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoExchangeRate } from '../../domain.objects/IsoExchangeRate';
+import type { IsoExchangeRateTable } from '../../domain.objects/IsoExchangeRateTable';
+import type { IsoRatio } from '../../domain.objects/IsoRatio';
+import { asIsoRatio } from '../cast/asIsoRatio';
+
+/**
+ * .what = one step of a conversion path, with its exact ratio
+ * .why = triangulated conversions may round between their legs
+ */
+export interface IsoExchangeRateLeg {
+  from: string;
+  to: string;
+  ratio: IsoRatio;
+  asOf?: string;
+}
+
+/**
+ * .what = checks whether a rate source is already a rate table
+ * .why = tables resolve their rates per lookup; single rates and other sources are read first
+ */
+export const isIsoExchangeRateTable = (
+  value: unknown,
+): value is IsoExchangeRateTable =>
+  typeof value === 'object' &&
+  value !== null &&
+  'rates' in value &&
+  (value as IsoExchangeRateTable).rates instanceof Map;
+
+/**
+ * .what = multiplies the legs of a conversion path into one exact ratio
+ * .why = a cross conversion rounds once, by the product of its legs
+ */
+export const multiplyIsoExchangeRateLegs = (
+  legs: IsoExchangeRateLeg[],
+): IsoRatio =>
+  legs.reduce(
+    (product, leg) => ({
+      numerator: product.numerator * leg.ratio.numerator,
+      denominator: product.denominator * leg.ratio.denominator,
+    }),
+    { numerator: 1n, denominator: 1n },
+  );
+
+/**
+ * .what = the moment a rate was quoted at, as epoch milliseconds
+ * .why = compares rates in time; undated rates sort before every dated one
+ */
+const getQuotedAt = (asOf: string | undefined): number =>
+  asOf === undefined ? Number.NEGATIVE_INFINITY : Date.parse(asOf);
+
+/**
+ * .what = pattern for an iso 8601 date without a time
+ * .why = a date-only lookup spans its whole day
+ */
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * .what = the latest moment a lookup may see, as epoch milliseconds
+ * .why = a date-only lookup must see rates quoted later that day, not only at its midnight
+ */
+const getLookupAt = (asOf: string): number => {
+  const lookupAt = DATE_ONLY_PATTERN.test(asOf)
+    ? Date.parse(asOf) + 24 * 60 * 60 * 1000 - 1
+    : Date.parse(asOf);
+  if (Number.isNaN(lookupAt)) {
+    throw new BadRequestError('exchange rate asOf must be an iso 8601 moment', {
+      asOf,
+    });
+  }
+  return lookupAt;
+};
+
+/**
+ * .what = checks whether a rate was quoted at or before a lookup moment
+ * .why = lets a single rate honor `asOf` exactly as a table lookup would
+ *
+ * undated rates count as quoted before every moment, as in a table
+ *
+ * @throws BadRequestError if the `asOf` is not an iso 8601 moment
+ */
+export const isIsoExchangeRateQuotedBy = (input: {
+  rate: IsoExchangeRate;
+  asOf: string;
+}): boolean => getQuotedAt(input.rate.asOf) <= getLookupAt(input.asOf);
+
+/**
+ * .what = finds the latest quote of a pair at or before a moment
+ * .why = historical lookups must not see rates quoted after them
+ */
+const getLatestQuote = (
+  table: IsoExchangeRateTable,
+  pair: string,
+  asOf: number,
+): IsoExchangeRate | null => {
+  const quotes = (table.rates.get(pair) ?? []).filter(
+    (rate) => getQuotedAt(rate.asOf) <= asOf,
+  );
+  return quotes[quotes.length - 1] ?? null;
+};
+
+/**
+ * .what = finds one leg from a quoted rate or the inverse of one
+ * .why = a rate `A/B` answers both directions; the more recent quote wins, the direct one on a tie
+ */
+const getLeg = (
+  table: IsoExchangeRateTable,
+  from: string,
+  to: string,
+  asOf: number,
+): IsoExchangeRateLeg | null => {
+  const direct = getLatestQuote(table, `${from}/${to}`, asOf);
+  const inverse = getLatestQuote(table, `${to}/${from}`, asOf);
+  const isInverse =
+    inverse !== null &&
+    (direct === null || getQuotedAt(inverse.asOf) > getQuotedAt(direct.asOf));
+  const quote = isInverse ? inverse : direct;
+  if (!quote) return null;
+  const ratio = asIsoRatio(quote.rate);
+  return {
+    from,
+    to,
+    ratio: isInverse
+      ? { numerator: ratio.denominator, denominator: ratio.numerator }
+      : ratio,
+    ...(quote.asOf !== undefined && { asOf: quote.asOf }),
+  };
+};
+
+/**
+ * .what = resolves the conversion path between two currencies in a table
+ * .why = gives lookups and conversions one shared resolution of direct, inverse, and cross rates
+ *
+ * resolution order:
+ * - the same currency → a ratio of one
+ * - a quoted rate, or the inverse of one
+ * - triangulation through the table's pivot, each leg quoted or inverse
+ *
+ * `asOf` limits the lookup to rates quoted at or before it; a date-only `asOf` includes its whole day.
+ * omit it for the latest rates
+ *
+ * @throws BadRequestError if no path exists
+ */
+export const resolveIsoExchangeRatio = (input: {
+  table: IsoExchangeRateTable;
+  from: string;
+  to: string;
+  asOf?: string;
+}): IsoExchangeRateLeg[] => {
+  const { table, from, to } = input;
+  if (from === to) return [{ from, to, ratio: asIsoRatio(1n) }];
+  const asOf =
+    input.asOf === undefined
+      ? Number.POSITIVE_INFINITY
+      : getLookupAt(input.asOf);
+
+  // prefer a quoted rate or its inverse
+  const leg = getLeg(table, from, to, asOf);
+  if (leg) return [leg];
+
+  // else triangulate through the pivot
+  const pivot = table.pivot;
+  if (pivot !== null && pivot !== from && pivot !== to) {
+    const toPivot = getLeg(table, from, pivot, asOf);
+    const fromPivot = getLeg(table, pivot, to, asOf);
+    if (toPivot && fromPivot) return [toPivot, fromPivot];
+  }
+
+  throw new BadRequestError('no exchange rate between the currencies', {
+    from,
+    to,
+    asOf: input.asOf ?? null,
+    pivot,
+  });
+};
@@ -0,0 +1,88 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { isIsoExchangeRateWords } from './isIsoExchangeRateWords';
+
+describe('isIsoExchangeRateWords', () => {
+  const CASES = [
+    // valid words format
+    {
+      description: 'basic rate',
+      given: { input: 'USD/EUR 0.912_345' },
+      expect: { output: true },
+    },
+    {
+      description: 'rate without separators',
+      given: { input: 'USD/EUR 0.912345' },
+      expect: { output: true },
+    },
+    {
+      description: 'whole rate with thousands separators',
+      given: { input: 'BTC/JPY 15_000_000' },
+      expect: { output: true },
+    },
+    {
+      description: 'rate with an as-of date',
+      given: { input: 'EUR/JPY 162.35 @ 2025-06-02' },
+      expect: { output: true },
+    },
+    {
+      description: 'rate with an as-of moment',
+      given: { input: 'USD/EUR 0.912_345 @ 2025-06-02T16:00:00Z' },
+      expect: { output: true },
+    },
+    // invalid words format
+    {
+      description: 'no slash between the codes',
+      given: { input: 'USD EUR 0.91' },
+      expect: { output: false },
+    },
+    {
+      description: 'negative rate',
+      given: { input: 'USD/EUR -0.91' },
+      expect: { output: false },
+    },
+    {
+      description: 'lowercase codes',
+      given: { input: 'usd/eur 0.91' },
+      expect: { output: false },
+    },
+    {
+      description: 'unregistered long code',
+      given: { input: 'USDX/EUR 0.91' },
+      expect: { output: false },
+    },
+    {
+      description: 'price words',
+      given: { input: 'USD 0.91' },
+      expect: { output: false },
+    },
+    {
+      description: 'non-string',
+      given: { input: 0.91 },
+      expect: { output: false },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(isIsoExchangeRateWords(given.input)).toEqual(expected.output);
+    });
+  });
+
+  describe('.assure', () => {
+    test('passes on valid words', () => {
+      expect(() =>
+        isIsoExchangeRateWords.assure('USD/EUR 0.912_345'),
+      ).not.toThrow();
+    });
+
+    test('throws on invalid words', () => {
+      const error = getError(() => isIsoExchangeRateWords.assure('USD 0.91'));
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'value is not a valid IsoExchangeRateWords',
+      );
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoExchangeRateWords } from '../../domain.objects/IsoExchangeRateWords';
+import { getIsoCurrencyRegistry } from '../currency/getIsoCurrencyRegistry';
+
+/**
+ * .what = regex pattern for valid exchange rate words format
+ * .why = validates `{FROM}/{TO} {RATE}` with an optional ` @ {AS_OF}` suffix
+ *
+ * pattern breakdown:
+ * - `^([A-Z][A-Z0-9]*)\/([A-Z][A-Z0-9]*)` — base and quote currency codes
+ * - ` ` — single space separator
+ * - `(\d+|\d{1,3}(_\d{3})*)(\.(\d+(_\d{3})*(_\d{1,2})?))?` — unsigned decimal, as in IsoPriceWords
+ * - `( @ (\S+))?$` — optional as-of moment
+ */
+const WORDS_PATTERN =
+  /^([A-Z][A-Z0-9]*)\/([A-Z][A-Z0-9]*) (\d+|\d{1,3}(_\d{3})*)(\.(\d+(_\d{3})*(_\d{1,2})?))?( @ (\S+))?$/;
+
+/**
+ * .what = pattern for iso 4217 style currency codes
+ * .why = any 3-letter code is accepted; longer codes must be registered
+ */
+const ISO_CODE_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * .what = type guard for IsoExchangeRateWords format
+ * .why = validates strings match the `{FROM}/{TO} {RATE}` pattern
+ *
+ * valid examples:
+ * - 'USD/EUR 0.912_345'
+ * - 'EUR/JPY 162.35'
+ * - 'USD/EUR 0.912_345 @ 2025-06-02T16:00:00Z'
+ *
+ * invalid examples:
+ * - 'USD EUR 0.91' (no slash between the codes)
+ * - 'USD/EUR -0.91' (rates are never negative)
+ * - 'usd/eur 0.91' (lowercase currency)
+ */
+export const isIsoExchangeRateWords = (
+  value: unknown,
+): value is IsoExchangeRateWords => {
+  if (typeof value !== 'string') return false;
+  const match = value.match(WORDS_PATTERN);
+  if (!match) return false;
+
+  // codes must be iso 4217 style or registered as custom currencies
+  const isKnownCode = (code: string): boolean =>
+    ISO_CODE_PATTERN.test(code) ||
+    getIsoCurrencyRegistry().definitions.has(code);
+  const [, from = '', to = ''] = match;
+  return isKnownCode(from) && isKnownCode(to);
+};
+
+/**
+ * .what = assertion function that throws on invalid input
+ * .why = enables fail-fast validation with helpful error messages
+ */
+isIsoExchangeRateWords.assure = (
+  value: unknown,
+): asserts value is IsoExchangeRateWords => {
+  if (!isIsoExchangeRateWords(value))
+    throw new BadRequestError('value is not a valid IsoExchangeRateWords', {
+      value,
+    });
+};
@@ -0,0 +1,78 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { isIsoPriceBagWords } from './isIsoPriceBagWords';
+
+describe('isIsoPriceBagWords', () => {
+  const CASES = [
+    // valid words format
+    {
+      description: 'two currencies',
+      given: { input: 'USD 10.00 + EUR 5.00' },
+      expect: { output: true },
+    },
+    {
+      description: 'one currency',
+      given: { input: 'USD -2.50' },
+      expect: { output: true },
+    },
+    {
+      description: 'separators and sub-cent precision',
+      given: { input: 'JPY 1_000 + USD 0.000_250' },
+      expect: { output: true },
+    },
+    {
+      description: 'empty bag',
+      given: { input: '' },
+      expect: { output: true },
+    },
+    // invalid words format
+    {
+      description: 'a currency twice',
+      given: { input: 'USD 10.00 + USD 5.00' },
+      expect: { output: false },
+    },
+    {
+      description: 'no spaces around the plus',
+      given: { input: 'USD 10.00+EUR 5.00' },
+      expect: { output: false },
+    },
+    {
+      description: 'human format',
+      given: { input: '$10.00 + €5.00' },
+      expect: { output: false },
+    },
+    {
+      description: 'dangling plus',
+      given: { input: 'USD 10.00 + ' },
+      expect: { output: false },
+    },
+    {
+      description: 'not a string',
+      given: { input: 1000 },
+      expect: { output: false },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(isIsoPriceBagWords(given.input)).toEqual(expected.output);
+    });
+  });
+
+  describe('.assure', () => {
+    test('passes valid words', () => {
+      expect(() =>
+        isIsoPriceBagWords.assure('USD 10.00 + EUR 5.00'),
+      ).not.toThrow();
+    });
+
+    test('throws on invalid words', () => {
+      const error = getError(() =>
+        isIsoPriceBagWords.assure('USD 10.00 + USD 5.00'),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('value is not a valid IsoPriceBagWords');
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoPriceBagWords } from '../../domain.objects/IsoPriceBagWords';
+import { isIsoPriceWords } from './isIsoPriceWords';
+
+/**
+ * .what = type guard for IsoPriceBagWords format
+ * .why = validates strings match IsoPriceWords per currency, joined by ` + `
+ *
+ * valid examples:
+ * - 'USD 10.00 + EUR 5.00'
+ * - 'USD -2.50'
+ * - '' (an empty bag)
+ *
+ * invalid examples:
+ * - 'USD 10.00 + USD 5.00' (a currency appears twice)
+ * - 'USD 10.00+EUR 5.00' (no spaces around the plus)
+ * - '$10.00 + €5.00' (human format)
+ */
+export const isIsoPriceBagWords = (
+  value: unknown,
+): value is IsoPriceBagWords => {
+  if (typeof value !== 'string') return false;
+  if (value === '') return true;
+  const parts = value.split(' + ');
+  if (!parts.every((part) => isIsoPriceWords(part))) return false;
+
+  // each currency appears at most once
+  const currencies = parts.map((part) => part.slice(0, part.indexOf(' ')));
+  return new Set(currencies).size === currencies.length;
+};
+
+/**
+ * .what = assertion function that throws on invalid input
+ * .why = enables fail-fast validation with helpful error messages
+ */
+isIsoPriceBagWords.assure = (
+  value: unknown,
+): asserts value is IsoPriceBagWords => {
+  if (!isIsoPriceBagWords(value))
+    throw new BadRequestError('value is not a valid IsoPriceBagWords', {
+      value,
+    });
+};
@@ -0,0 +1,44 @@
+import { subPriceBags } from '../arithmetic/subPriceBags';
+import { asIsoPriceBag } from '../cast/asIsoPriceBag';
+import { isIsoPriceBagZero } from './isIsoPriceBagZero';
+
+describe('isIsoPriceBagZero', () => {
+  const CASES = [
+    {
+      description: 'all totals zero',
+      given: { input: asIsoPriceBag('USD 0.00 + EUR 0.00') },
+      expect: { output: true },
+    },
+    {
+      description: 'one total nonzero',
+      given: { input: asIsoPriceBag('USD 0.00 + EUR 0.01') },
+      expect: { output: false },
+    },
+    {
+      description: 'negative total',
+      given: { input: asIsoPriceBag('USD -0.000_001') },
+      expect: { output: false },
+    },
+    {
+      description: 'empty bag',
+      given: { input: asIsoPriceBag([]) },
+      expect: { output: true },
+    },
+    {
+      description: 'bag less itself',
+      given: {
+        input: subPriceBags(
+          asIsoPriceBag('USD 10.00 + EUR 5.00'),
+          asIsoPriceBag('USD 10.00 + EUR 5.00'),
+        ),
+      },
+      expect: { output: true },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(isIsoPriceBagZero(given.input)).toEqual(expected.output);
+    });
+  });
+});
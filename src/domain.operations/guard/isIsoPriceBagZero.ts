@@ -0,0 +1,18 @@
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import type { IsoPriceBag } from '../../domain.objects/IsoPriceBag';
+import { asIsoPriceBag } from '../cast/asIsoPriceBag';
+
+/**
+ * .what = checks whether every total in a bag is zero
+ * .why = enables settlement checks, e.g., that a ledger of mixed currencies balances
+ *
+ * an empty bag is zero
+ *
+ * @example
+ * isIsoPriceBagZero(asIsoPriceBag('USD 0.00 + EUR 0.00'))  // => true
+ * isIsoPriceBagZero(asIsoPriceBag('USD 0.00 + EUR 0.01'))  // => false
+ */
+export const isIsoPriceBagZero = (
+  bag: IsoPriceBag | IsoPrice | string,
+): boolean =>
+  [...asIsoPriceBag(bag).totals.values()].every((total) => total.amount === 0n);
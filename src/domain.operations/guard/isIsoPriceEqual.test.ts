@@ -1,5 +1,6 @@
 import { BadRequestError, getError } from 'helpful-errors';
 
+import { createIsoExchangeRateTable } from '../exchange/createIsoExchangeRateTable';
 import { isIsoPriceEqual } from './isIsoPriceEqual';
 
 describe('isIsoPriceEqual', () => {
@@ -119,6 +120,50 @@ describe('isIsoPriceEqual', () => {
     });
   });
 
+  describe('.with-rates', () => {
+    const table = createIsoExchangeRateTable({
+      rates: [
+        {
+          base: 'EUR',
+          asOf: '2025-06-02',
+          rates: { USD: '1.1374', JPY: '162.35' },
+        },
+        { base: 'EUR', asOf: '2025-06-01', rates: { USD: '1.1300' } },
+      ],
+      pivot: 'EUR',
+    });
+
+    test('is true for equal values in different currencies', () => {
+      expect(
+        isIsoPriceEqual('USD 113.74', 'EUR 100.00', { rates: table }),
+      ).toBe(true);
+      expect(
+        isIsoPriceEqual('JPY 16_235', 'EUR 100.00', { rates: table }),
+      ).toBe(true);
+    });
+
+    test('is false for values that only round to equal', () => {
+      expect(
+        isIsoPriceEqual('USD 113.74', 'EUR 100.01', { rates: table }),
+      ).toBe(false);
+    });
+
+    test('compares by rates as of a moment', () => {
+      expect(
+        isIsoPriceEqual('USD 113.00', 'EUR 100.00', {
+          rates: table,
+          asOf: '2025-06-01',
+        }),
+      ).toBe(true);
+    });
+
+    test('still handles one currency', () => {
+      expect(
+        isIsoPriceEqual('USD 0.25', 'USD 0.250_000', { rates: table }),
+      ).toBe(true);
+    });
+  });
+
   describe('.error', () => {
     // c.5: predicate.currency-mismatch
     test('failsfast on currency mismatch', async () => {
@@ -1,5 +1,11 @@
+import type { IsoExchangeRateSource } from '../../domain.objects/IsoExchangeRateSource';
+import type { IsoExchangeRateTable } from '../../domain.objects/IsoExchangeRateTable';
 import type { IsoPrice } from '../../domain.objects/IsoPrice';
 import { subPrices } from '../arithmetic/subPrices';
+import {
+  compareIsoPriceValues,
+  getIsoPriceValuesInto,
+} from '../exchange/getIsoPriceValuesInto';
 
 /**
  * .what = checks if two prices are numerically equal
@@ -8,18 +14,42 @@ import { subPrices } from '../arithmetic/subPrices';
  * handles precision normalization — two prices that represent the same
  * numeric value are equal regardless of format or exponent.
  *
- * @throws BadRequestError if currencies do not match
+ * with `rates`, prices of different currencies compare by their exact values in `into` —
+ * which defaults to the first price's currency. rates may be a table or any rate source
+ *
+ * @throws BadRequestError if currencies do not match and no rates are given, or the rates have no path between them
  *
  * @example
  * isIsoPriceEqual('USD 100.00', 'USD 100.00')      // => true
  * isIsoPriceEqual('USD 1_000.00', 'USD 1000.00')   // => true (underscores)
  * isIsoPriceEqual('USD 0.25', 'USD 0.250_000')     // => true (precision)
  * isIsoPriceEqual('USD 0.25', 'USD 0.250_001')     // => false
+ *
+ * @example
+ * isIsoPriceEqual('USD 113.74', 'EUR 100.00', { rates: ['EUR/USD 1.1374'] })   // => true
  */
 export const isIsoPriceEqual = <TCurrency extends string = string>(
   a: IsoPrice<TCurrency> | string,
   b: IsoPrice<TCurrency> | string,
+  options?: {
+    rates?: IsoExchangeRateTable | IsoExchangeRateSource;
+    into?: string;
+    asOf?: string;
+  },
 ): boolean => {
+  // compare across currencies by exact values, when rates are given
+  if (options?.rates !== undefined) {
+    const {
+      values: [valueA, valueB],
+    } = getIsoPriceValuesInto({
+      prices: [a, b],
+      rates: options.rates,
+      into: options.into,
+      asOf: options.asOf,
+    });
+    return compareIsoPriceValues(valueA, valueB) === 0;
+  }
+
   const diff = subPrices(a, b, { format: 'shape' });
   return diff.amount === 0n;
 };
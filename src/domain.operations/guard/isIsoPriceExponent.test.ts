@@ -0,0 +1,94 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { isIsoPriceExponent } from './isIsoPriceExponent';
+
+describe('isIsoPriceExponent', () => {
+  const CASES = [
+    // valid exponents
+    ...Object.values(IsoPriceExponent).map((exponent) => ({
+      description: `named ${exponent}`,
+      given: { input: exponent as unknown },
+      expect: { output: true },
+    })),
+    {
+      description: 'satoshis x10^-8',
+      given: { input: 'x10^-8' },
+      expect: { output: true },
+    },
+    {
+      description: 'wei x10^-18',
+      given: { input: 'x10^-18' },
+      expect: { output: true },
+    },
+    {
+      description: 'thousands x10^3',
+      given: { input: 'x10^3' },
+      expect: { output: true },
+    },
+    {
+      description: 'unnamed alias of a named exponent x10^-2',
+      given: { input: 'x10^-2' },
+      expect: { output: true },
+    },
+    {
+      description: 'unnamed zero x10^0',
+      given: { input: 'x10^0' },
+      expect: { output: true },
+    },
+    // invalid exponents
+    {
+      description: 'undeclared named exponent',
+      given: { input: 'kilo.x10^3' },
+      expect: { output: false },
+    },
+    {
+      description: 'named alias with mismatched power',
+      given: { input: 'centi.x10^-3' },
+      expect: { output: false },
+    },
+    {
+      description: 'non-integer power',
+      given: { input: 'x10^-2.5' },
+      expect: { output: false },
+    },
+    {
+      description: 'explicit plus sign',
+      given: { input: 'x10^+3' },
+      expect: { output: false },
+    },
+    {
+      description: 'negative zero',
+      given: { input: 'x10^-0' },
+      expect: { output: false },
+    },
+    {
+      description: 'leading zero',
+      given: { input: 'x10^-08' },
+      expect: { output: false },
+    },
+    {
+      description: 'number instead of string',
+      given: { input: -2 },
+      expect: { output: false },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(isIsoPriceExponent(given.input)).toBe(expected.output);
+    });
+  });
+
+  describe('.assure', () => {
+    test('valid exponent does not throw', () => {
+      expect(() => isIsoPriceExponent.assure('x10^-8')).not.toThrow();
+    });
+
+    test('invalid exponent throws', async () => {
+      const error = await getError(() => isIsoPriceExponent.assure('x10^2.5'));
+      expect(error).toBeInstanceOf(BadRequestError);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { BadRequestError } from 'helpful-errors';
+
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+
+/**
+ * .what = pattern for unnamed exponents
+ * .why = any integer power of ten, without sign or leading zero ambiguity
+ */
+const UNNAMED_EXPONENT_PATTERN = /^x10\^(0|-?[1-9]\d*)$/;
+
+/**
+ * .what = the named si exponent constants
+ * .why = named exponents must match a declared alias exactly
+ */
+const NAMED_EXPONENTS: readonly string[] = Object.values(IsoPriceExponent);
+
+/**
+ * .what = type guard for IsoPriceExponent
+ * .why = validates named si constants and arbitrary integer `x10^N` exponents
+ *
+ * valid examples:
+ * - 'centi.x10^-2'
+ * - 'x10^-8'
+ * - 'x10^-18'
+ * - 'x10^3'
+ *
+ * invalid examples:
+ * - 'kilo.x10^3' (not a declared alias)
+ * - 'centi.x10^-3' (alias does not match its power)
+ * - 'x10^-2.5' (not an integer)
+ * - 'x10^+3' (explicit plus sign)
+ */
+export const isIsoPriceExponent = (
+  value: unknown,
+): value is IsoPriceExponent => {
+  if (typeof value !== 'string') return false;
+  return (
+    NAMED_EXPONENTS.includes(value) || UNNAMED_EXPONENT_PATTERN.test(value)
+  );
+};
+
+/**
+ * .what = assertion function that throws on invalid input
+ * .why = enables fail-fast validation with helpful error messages
+ */
+isIsoPriceExponent.assure = (
+  value: unknown,
+): asserts value is IsoPriceExponent => {
+  if (!isIsoPriceExponent(value))
+    throw new BadRequestError('value is not a valid IsoPriceExponent', {
+      value,
+    });
+};
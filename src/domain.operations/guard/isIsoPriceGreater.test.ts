@@ -1,5 +1,6 @@
 import { BadRequestError, getError } from 'helpful-errors';
 
+import { createIsoExchangeRateTable } from '../exchange/createIsoExchangeRateTable';
 import { isIsoPriceGreater } from './isIsoPriceGreater';
 
 describe('isIsoPriceGreater', () => {
@@ -108,6 +109,78 @@ describe('isIsoPriceGreater', () => {
     });
   });
 
+  describe('.with-rates', () => {
+    const table = createIsoExchangeRateTable({
+      rates: [
+        {
+          base: 'EUR',
+          asOf: '2025-06-02',
+          rates: { USD: '1.1374', JPY: '162.35' },
+        },
+        { base: 'EUR', asOf: '2025-06-01', rates: { USD: '1.1300' } },
+      ],
+      pivot: 'EUR',
+    });
+
+    test('compares across currencies in the first currency', () => {
+      expect(
+        isIsoPriceGreater('USD 100.00', 'EUR 80.00', { rates: table }),
+      ).toBe(true);
+      expect(
+        isIsoPriceGreater('EUR 87.92', 'USD 100.00', { rates: table }),
+      ).toBe(true);
+      expect(
+        isIsoPriceGreater('EUR 87.91', 'USD 100.00', { rates: table }),
+      ).toBe(false);
+    });
+
+    test('compares exactly, without a rounded conversion', () => {
+      // EUR 87.92 is USD 100.000_208, which rounds to USD 100.00
+      expect(
+        isIsoPriceGreater('EUR 87.92', 'USD 100.00', {
+          rates: table,
+          into: 'EUR',
+        }),
+      ).toBe(true);
+    });
+
+    test('compares by cross rates through the pivot', () => {
+      expect(
+        isIsoPriceGreater('USD 100.00', 'JPY 14_000', { rates: table }),
+      ).toBe(true);
+    });
+
+    test('compares by rates as of a moment', () => {
+      expect(
+        isIsoPriceGreater('EUR 100.00', 'USD 113.50', { rates: table }),
+      ).toBe(true);
+      expect(
+        isIsoPriceGreater('EUR 100.00', 'USD 113.50', {
+          rates: table,
+          asOf: '2025-06-01',
+        }),
+      ).toBe(false);
+    });
+
+    test('accepts a list of rates', () => {
+      expect(
+        isIsoPriceGreater('USD 100.00', 'EUR 80.00', {
+          rates: ['EUR/USD 1.1374'],
+        }),
+      ).toBe(true);
+    });
+
+    test('throws when the rates have no path between the currencies', async () => {
+      const error = await getError(async () =>
+        isIsoPriceGreater('GBP 1.00', 'USD 1.00', { rates: table }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'no exchange rate between the currencies',
+      );
+    });
+  });
+
   describe('.error', () => {
     // c.5: predicate.currency-mismatch
     test('failsfast on currency mismatch', async () => {
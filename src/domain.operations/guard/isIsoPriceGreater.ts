@@ -1,21 +1,51 @@
+import type { IsoExchangeRateSource } from '../../domain.objects/IsoExchangeRateSource';
+import type { IsoExchangeRateTable } from '../../domain.objects/IsoExchangeRateTable';
 import type { IsoPrice } from '../../domain.objects/IsoPrice';
 import { subPrices } from '../arithmetic/subPrices';
+import {
+  compareIsoPriceValues,
+  getIsoPriceValuesInto,
+} from '../exchange/getIsoPriceValuesInto';
 
 /**
  * .what = checks if first price is numerically greater than second
  * .why = enables safe price comparison without string comparison footgun
  *
- * @throws BadRequestError if currencies do not match
+ * with `rates`, prices of different currencies compare by their exact values in `into` —
+ * which defaults to the first price's currency. rates may be a table or any rate source
+ *
+ * @throws BadRequestError if currencies do not match and no rates are given, or the rates have no path between them
  *
  * @example
  * isIsoPriceGreater('USD 100.00', 'USD 9.00')   // => true (100 > 9)
  * isIsoPriceGreater('USD 9.00', 'USD 100.00')   // => false
  * isIsoPriceGreater('USD 100.00', 'USD 100.00') // => false
+ *
+ * @example
+ * isIsoPriceGreater('USD 100.00', 'EUR 80.00', { rates: ['EUR/USD 1.1374'] })   // => true (USD 100.00 > USD 90.99)
  */
 export const isIsoPriceGreater = <TCurrency extends string = string>(
   a: IsoPrice<TCurrency> | string,
   b: IsoPrice<TCurrency> | string,
+  options?: {
+    rates?: IsoExchangeRateTable | IsoExchangeRateSource;
+    into?: string;
+    asOf?: string;
+  },
 ): boolean => {
+  // compare across currencies by exact values, when rates are given
+  if (options?.rates !== undefined) {
+    const {
+      values: [valueA, valueB],
+    } = getIsoPriceValuesInto({
+      prices: [a, b],
+      rates: options.rates,
+      into: options.into,
+      asOf: options.asOf,
+    });
+    return compareIsoPriceValues(valueA, valueB) > 0;
+  }
+
   const diff = subPrices(a, b, { format: 'shape' });
   return diff.amount > 0n;
 };
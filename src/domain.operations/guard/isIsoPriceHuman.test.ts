@@ -51,6 +51,41 @@ describe('isIsoPriceHuman', () => {
       given: { input: '₩50,000' },
       expect: { output: true },
     },
+    {
+      description: 'disambiguated dollar prefix',
+      given: { input: 'US$5' },
+      expect: { output: true },
+    },
+    {
+      description: 'brazilian real prefix',
+      given: { input: 'R$5' },
+      expect: { output: true },
+    },
+    {
+      description: 'swiss franc abbreviation prefix',
+      given: { input: 'Fr. 5' },
+      expect: { output: true },
+    },
+    {
+      description: 'code-qualified symbol suffix',
+      given: { input: 'NOK 5 kr' },
+      expect: { output: true },
+    },
+    {
+      description: 'parenthesized negative',
+      given: { input: '($1,234.56)' },
+      expect: { output: true },
+    },
+    {
+      description: 'minus before the symbol',
+      given: { input: '-$5' },
+      expect: { output: true },
+    },
+    {
+      description: 'credit marker',
+      given: { input: '$5.00 CR' },
+      expect: { output: true },
+    },
     // invalid human format
     {
       description: 'words format (code-prefix)',
@@ -67,6 +102,21 @@ describe('isIsoPriceHuman', () => {
       given: { input: '50.37' },
       expect: { output: false },
     },
+    {
+      description: 'code that does not use the suffix symbol',
+      given: { input: 'USD 5 €' },
+      expect: { output: false },
+    },
+    {
+      description: 'parenthesized words format',
+      given: { input: '(USD 5.00)' },
+      expect: { output: false },
+    },
+    {
+      description: 'letter symbol joined to a word',
+      given: { input: '5 EUR' },
+      expect: { output: false },
+    },
     {
       description: 'number type',
       given: { input: 50.37 },
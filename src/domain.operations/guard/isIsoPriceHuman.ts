@@ -1,48 +1,9 @@
 import { BadRequestError } from 'helpful-errors';
 
 import type { IsoPriceHuman } from '../../domain.objects/IsoPriceHuman';
-
-/**
- * .what = common currency symbols for human-readable price formats
- * .why = validates that the string contains a currency symbol (not a code)
- */
-const CURRENCY_SYMBOLS = [
-  '$', // USD, CAD, AUD, etc.
-  '€', // EUR
-  '£', // GBP
-  '¥', // JPY, CNY
-  '₹', // INR
-  '₽', // RUB
-  '₩', // KRW
-  '₪', // ILS
-  '฿', // THB
-  '₫', // VND
-  'kr', // SEK, NOK, DKK
-  'R', // ZAR, BRL
-  'zł', // PLN
-  'Kč', // CZK
-  'CHF', // note: CHF is a code but used as-is in human format
-];
-
-/**
- * .what = regex pattern for human-readable price format
- * .why = matches symbol-prefix or symbol-suffix patterns with optional separators
- *
- * examples:
- * - '$50.37' (symbol prefix)
- * - '€1,000.00' (symbol prefix with commas)
- * - '100 €' (symbol suffix, european style)
- * - '¥1,000' (no decimals)
- */
-const hasSymbolPrefix = (value: string): boolean => {
-  return CURRENCY_SYMBOLS.some((symbol) => value.startsWith(symbol));
-};
-
-const hasSymbolSuffix = (value: string): boolean => {
-  return CURRENCY_SYMBOLS.some(
-    (symbol) => value.endsWith(symbol) || value.endsWith(` ${symbol}`),
-  );
-};
+import { detectIsoCurrencySymbol } from '../currency/detectIsoCurrencySymbol';
+import { getIsoCurrencyRegistry } from '../currency/getIsoCurrencyRegistry';
+import { unwrapIsoPriceNegative } from '../locale/unwrapIsoPriceNegative';
 
 /**
  * .what = type guard for IsoPriceHuman format
@@ -54,6 +15,9 @@ const hasSymbolSuffix = (value: string): boolean => {
  * - '¥1,000'
  * - '$1,000,000.00'
  * - '100 €' (suffix position)
+ * - 'US$5', 'R$5' (disambiguated symbols)
+ * - 'NOK 5 kr' (code-qualified symbol)
+ * - '($1,234.56)', '-$5', '$5.00 CR' (accounting negatives)
  *
  * invalid examples:
  * - 'USD 50.37' (code-prefix is words format, not human)
@@ -63,11 +27,19 @@ const hasSymbolSuffix = (value: string): boolean => {
 export const isIsoPriceHuman = (value: unknown): value is IsoPriceHuman => {
   if (typeof value !== 'string') return false;
 
-  // must not be words format (code-prefix pattern)
-  if (/^[A-Z]{3} /.test(value)) return false;
-
-  // must have a currency symbol (prefix or suffix)
-  return hasSymbolPrefix(value) || hasSymbolSuffix(value);
+  // must have a currency symbol (prefix or suffix), per the shared longest-match table
+  const detected = detectIsoCurrencySymbol(value);
+  if (!detected) return false;
+
+  // must not be words format (code-prefix pattern), unless the code qualifies a symbol (e.g., 'NOK 5 kr')
+  const codePrefix =
+    unwrapIsoPriceNegative(value).value.match(/^([A-Z][A-Z0-9]*) /)?.[1];
+  const isCodePrefix =
+    !!codePrefix &&
+    (/^[A-Z]{3}$/.test(codePrefix) ||
+      getIsoCurrencyRegistry().definitions.has(codePrefix));
+  if (isCodePrefix) return detected.qualifier === codePrefix;
+  return true;
 };
 
 /**
@@ -1,5 +1,6 @@
 import { BadRequestError, getError } from 'helpful-errors';
 
+import { createIsoExchangeRateTable } from '../exchange/createIsoExchangeRateTable';
 import { isIsoPriceLesser } from './isIsoPriceLesser';
 
 describe('isIsoPriceLesser', () => {
@@ -108,6 +109,50 @@ describe('isIsoPriceLesser', () => {
     });
   });
 
+  describe('.with-rates', () => {
+    const table = createIsoExchangeRateTable({
+      rates: [
+        {
+          base: 'EUR',
+          asOf: '2025-06-02',
+          rates: { USD: '1.1374', JPY: '162.35' },
+        },
+        { base: 'EUR', asOf: '2025-06-01', rates: { USD: '1.1300' } },
+      ],
+      pivot: 'EUR',
+    });
+
+    test('compares across currencies in the first currency', () => {
+      expect(
+        isIsoPriceLesser('EUR 80.00', 'USD 100.00', { rates: table }),
+      ).toBe(true);
+      expect(
+        isIsoPriceLesser('USD 100.00', 'EUR 80.00', { rates: table }),
+      ).toBe(false);
+    });
+
+    test('compares by cross rates through the pivot', () => {
+      expect(
+        isIsoPriceLesser('JPY 14_000', 'USD 100.00', { rates: table }),
+      ).toBe(true);
+    });
+
+    test('compares in an explicit reference currency', () => {
+      expect(
+        isIsoPriceLesser('JPY 14_000', 'USD 100.00', {
+          rates: table,
+          into: 'EUR',
+        }),
+      ).toBe(true);
+    });
+
+    test('is false for equal values', () => {
+      expect(
+        isIsoPriceLesser('USD 113.74', 'EUR 100.00', { rates: table }),
+      ).toBe(false);
+    });
+  });
+
   describe('.error', () => {
     // c.5: predicate.currency-mismatch
     test('failsfast on currency mismatch', async () => {
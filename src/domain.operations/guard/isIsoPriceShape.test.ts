@@ -55,7 +55,27 @@ describe('isIsoPriceShape', () => {
       given: { input: { amount: 1234n, currency: 'BHD' } },
       expect: { output: true },
     },
+    {
+      description: 'shape with satoshi exponent (x10^-8)',
+      given: { input: { amount: 1n, currency: 'BTC', exponent: 'x10^-8' } },
+      expect: { output: true },
+    },
+    {
+      description: 'shape with positive exponent (x10^3)',
+      given: { input: { amount: 5n, currency: 'USD', exponent: 'x10^3' } },
+      expect: { output: true },
+    },
     // invalid shape format
+    {
+      description: 'non-integer exponent',
+      given: { input: { amount: 5n, currency: 'USD', exponent: 'x10^-2.5' } },
+      expect: { output: false },
+    },
+    {
+      description: 'undeclared named exponent',
+      given: { input: { amount: 5n, currency: 'USD', exponent: 'kilo.x10^3' } },
+      expect: { output: false },
+    },
     {
       description: 'number instead of bigint',
       given: { input: { amount: 5037, currency: 'USD' } },
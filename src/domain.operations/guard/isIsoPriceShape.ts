@@ -1,6 +1,7 @@
 import { BadRequestError } from 'helpful-errors';
 
 import type { IsoPriceShape } from '../../domain.objects/IsoPriceShape';
+import { isIsoPriceExponent } from './isIsoPriceExponent';
 
 /**
  * .what = type guard for IsoPriceShape format
@@ -11,15 +12,17 @@ import type { IsoPriceShape } from '../../domain.objects/IsoPriceShape';
  * - currency: string
  *
  * optional:
- * - exponent: string (IsoPriceExponent value)
+ * - exponent: IsoPriceExponent (named si constant or `x10^N`)
  *
  * valid examples:
  * - { amount: 5037n, currency: 'USD' }
  * - { amount: 3n, currency: 'USD', exponent: 'micro.x10^-6' }
+ * - { amount: 150_000_000n, currency: 'BTC', exponent: 'x10^-8' }
  *
  * invalid examples:
  * - { amount: 5037, currency: 'USD' } (number instead of bigint)
  * - { amount: 5037n } (currency absent)
+ * - { amount: 5037n, currency: 'USD', exponent: 'x10^-2.5' } (non-integer exponent)
  * - 'USD 50.37' (string instead of object)
  */
 export const isIsoPriceShape = (value: unknown): value is IsoPriceShape => {
@@ -34,8 +37,8 @@ export const isIsoPriceShape = (value: unknown): value is IsoPriceShape => {
   // currency must be string
   if (typeof obj.currency !== 'string') return false;
 
-  // exponent is optional but must be string if present
-  if (obj.exponent !== undefined && typeof obj.exponent !== 'string')
+  // exponent is optional but must be a valid exponent if present
+  if (obj.exponent !== undefined && !isIsoPriceExponent(obj.exponent))
     return false;
 
   return true;
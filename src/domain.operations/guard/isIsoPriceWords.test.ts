@@ -61,6 +61,11 @@ describe('isIsoPriceWords', () => {
       given: { input: 'BHD 1.234' },
       expect: { output: true },
     },
+    {
+      description: 'clf 4-decimal with partial last group',
+      given: { input: 'CLF 1.234_5' },
+      expect: { output: true },
+    },
     // comma separators rejected (use asIsoPrice to normalize)
     {
       description: 'comma separators (invalid)',
@@ -1,21 +1,30 @@
 import { BadRequestError } from 'helpful-errors';
 
 import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import { getIsoCurrencyRegistry } from '../currency/getIsoCurrencyRegistry';
 
 /**
  * .what = regex pattern for valid iso-price words format
  * .why = validates `{CURRENCY_CODE} {AMOUNT}` pattern
  *
  * pattern breakdown:
- * - `^[A-Z]{3}` — 3 uppercase letters for currency code
+ * - `^([A-Z][A-Z0-9]*)` — currency code (3 uppercase letters, or a registered custom code)
  * - ` ` — single space separator
  * - `-?` — optional negative sign
  * - `(\d+|\d{1,3}(_\d{3})*)` — either plain digits OR underscore-separated groups
- * - `(\.(\d+(_\d{3})*))?$` — optional decimal with underscore-separated digits
+ * - `(\.(\d+(_\d{3})*(_\d{1,2})?))?$` — optional decimal with underscore-separated digits
+ *   (grouped from the left, so the last group may be partial, e.g., '1.234_5')
  *
  * note: only underscores allowed as separator; commas are rejected (use asIsoPrice to normalize)
  */
-const WORDS_PATTERN = /^[A-Z]{3} -?(\d+|\d{1,3}(_\d{3})*)(\.(\d+(_\d{3})*))?$/;
+const WORDS_PATTERN =
+  /^([A-Z][A-Z0-9]*) -?(\d+|\d{1,3}(_\d{3})*)(\.(\d+(_\d{3})*(_\d{1,2})?))?$/;
+
+/**
+ * .what = pattern for iso 4217 style currency codes
+ * .why = any 3-letter code is accepted; longer codes must be registered
+ */
+const ISO_CODE_PATTERN = /^[A-Z]{3}$/;
 
 /**
  * .what = type guard for IsoPriceWords format
@@ -26,6 +35,8 @@ const WORDS_PATTERN = /^[A-Z]{3} -?(\d+|\d{1,3}(_\d{3})*)(\.(\d+(_\d{3})*))?$/;
  * - 'USD 1_000_000.00'
  * - 'EUR 0.000003'
  * - 'JPY 1000'
+ * - 'CLF 1.234_5'
+ * - 'USDC 1.50' (when USDC is registered via registerIsoCurrency)
  *
  * invalid examples:
  * - '$50.37' (symbol instead of code)
@@ -34,7 +45,14 @@ const WORDS_PATTERN = /^[A-Z]{3} -?(\d+|\d{1,3}(_\d{3})*)(\.(\d+(_\d{3})*))?$/;
  */
 export const isIsoPriceWords = (value: unknown): value is IsoPriceWords => {
   if (typeof value !== 'string') return false;
-  return WORDS_PATTERN.test(value);
+  const code = value.match(WORDS_PATTERN)?.[1];
+  if (code === undefined) return false;
+
+  // code must be iso 4217 style or registered as a custom currency
+  return (
+    ISO_CODE_PATTERN.test(code) ||
+    getIsoCurrencyRegistry().definitions.has(code)
+  );
 };
 
 /**
@@ -0,0 +1,65 @@
+import { getIsoPriceLocale } from './getIsoPriceLocale';
+import { ISO_PRICE_LOCALES } from './isoPriceLocales';
+
+describe('getIsoPriceLocale', () => {
+  const CASES = [
+    {
+      description: 'exact tag',
+      given: { input: 'de-CH' },
+      expect: { tag: 'de-CH' },
+    },
+    {
+      description: 'case-insensitive tag',
+      given: { input: 'EN-in' },
+      expect: { tag: 'en-IN' },
+    },
+    {
+      description: 'underscore separated tag',
+      given: { input: 'pt_BR' },
+      expect: { tag: 'pt-BR' },
+    },
+    {
+      description: 'language only resolves to its default',
+      given: { input: 'fr' },
+      expect: { tag: 'fr-FR' },
+    },
+    {
+      description: 'unbundled region resolves to the language default',
+      given: { input: 'es-AR' },
+      expect: { tag: 'es-ES' },
+    },
+    {
+      description: 'script subtag is skipped',
+      given: { input: 'zh-Hans-CN' },
+      expect: { tag: 'zh-CN' },
+    },
+    {
+      description: 'unicode extension is ignored',
+      given: { input: 'hi-IN-u-nu-latn' },
+      expect: { tag: 'hi-IN' },
+    },
+    {
+      description: 'unbundled language',
+      given: { input: 'xx-XX' },
+      expect: { tag: undefined },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(getIsoPriceLocale(given.input)?.tag).toEqual(expected.tag);
+    });
+  });
+
+  describe('.bundle-integrity', () => {
+    test('tags are unique', () => {
+      const tags = ISO_PRICE_LOCALES.map((locale) => locale.tag);
+      expect(new Set(tags).size).toEqual(tags.length);
+    });
+
+    test('group and decimal separators differ', () => {
+      for (const locale of ISO_PRICE_LOCALES)
+        expect(locale.groupSeparator).not.toEqual(locale.decimalSeparator);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import type { IsoPriceLocale } from '../../domain.objects/IsoPriceLocale';
+import { ISO_PRICE_LOCALES } from './isoPriceLocales';
+
+/**
+ * .what = index of bundled locales by lowercase tag
+ * .why = bcp 47 tags are case-insensitive ('en-us' = 'en-US')
+ */
+const LOCALE_BY_TAG: ReadonlyMap<string, IsoPriceLocale> = new Map(
+  ISO_PRICE_LOCALES.map((locale) => [locale.tag.toLowerCase(), locale]),
+);
+
+/**
+ * .what = index of the default locale per language
+ * .why = enables fallback from 'de' or 'de-LU' to 'de-DE'
+ */
+const LOCALE_BY_LANGUAGE: Map<string, IsoPriceLocale> = new Map();
+for (const locale of ISO_PRICE_LOCALES) {
+  const [language = ''] = locale.tag.toLowerCase().split('-');
+  if (!LOCALE_BY_LANGUAGE.has(language))
+    LOCALE_BY_LANGUAGE.set(language, locale);
+}
+
+/**
+ * .what = looks up the price display conventions of a bcp 47 locale
+ * .why = resolves any tag to the closest bundled locale, without the host's icu
+ *
+ * resolution order:
+ * 1. exact language-region match (case-insensitive), ignoring extensions like '-u-nu-latn'
+ * 2. the default locale of the language (e.g., 'de-LU' → 'de-DE')
+ *
+ * returns null for languages absent from the bundle
+ *
+ * @example
+ * getIsoPriceLocale('de-DE').decimalSeparator  // => ','
+ * getIsoPriceLocale('en-in').grouping          // => 'lakh'
+ * getIsoPriceLocale('fr').tag                  // => 'fr-FR'
+ * getIsoPriceLocale('xx-XX')                   // => null
+ */
+export const getIsoPriceLocale = (tag: string): IsoPriceLocale | null => {
+  // drop extensions and private use subtags (e.g., '-u-nu-latn', '-x-custom')
+  const [bare = ''] = tag
+    .replace(/_/g, '-')
+    .toLowerCase()
+    .split(/-[a-z0-9](?:-|$)/);
+  const [language = '', ...rest] = bare.split('-');
+
+  // find the region subtag, after an optional script subtag (e.g., 'zh-Hans-CN')
+  const region = rest.find((subtag) => /^([a-z]{2}|\d{3})$/.test(subtag));
+
+  return (
+    (region ? LOCALE_BY_TAG.get(`${language}-${region}`) : undefined) ??
+    LOCALE_BY_LANGUAGE.get(language) ??
+    null
+  );
+};
@@ -0,0 +1,128 @@
+import type { IsoPriceLocale } from '../../domain.objects/IsoPriceLocale';
+
+/**
+ * .what = the unicode cldr release these conventions were taken from
+ * .why = makes the bundled locale data version observable, independent of the host's icu build
+ */
+export const ISO_PRICE_LOCALES_CLDR_VERSION = '46';
+
+/**
+ * .what = the special space characters that locales use
+ * .why = cldr separates symbols and digit groups with no-break spaces, not plain spaces
+ */
+const NBSP = '\u00a0'; // no-break space
+const NNBSP = '\u202f'; // narrow no-break space
+const MINUS = '\u2212'; // minus sign
+
+/**
+ * .what = conventions shared by many locales
+ * .why = keeps each locale row down to what makes it distinct
+ */
+const SYMBOL_FIRST: Omit<IsoPriceLocale, 'tag'> = {
+  symbolPosition: 'prefix',
+  symbolSpacing: '',
+  groupSeparator: ',',
+  decimalSeparator: '.',
+  grouping: 'thousands',
+  minimumGroupingDigits: 1,
+  minusSign: '-',
+  minusPosition: 'before-symbol',
+};
+const SYMBOL_LAST: Omit<IsoPriceLocale, 'tag'> = {
+  symbolPosition: 'suffix',
+  symbolSpacing: NBSP,
+  groupSeparator: '.',
+  decimalSeparator: ',',
+  grouping: 'thousands',
+  minimumGroupingDigits: 1,
+  minusSign: '-',
+  minusPosition: 'before-number',
+};
+
+/**
+ * .what = the bundled locale conventions for price display
+ * .why = enables locale-aware formats that work offline and identically on every host
+ *
+ * the first locale of each language is its default (e.g., 'de' → 'de-DE')
+ */
+export const ISO_PRICE_LOCALES: readonly IsoPriceLocale[] = [
+  // english
+  { tag: 'en-US', ...SYMBOL_FIRST },
+  { tag: 'en-GB', ...SYMBOL_FIRST },
+  { tag: 'en-CA', ...SYMBOL_FIRST, symbols: { CAD: '$', USD: 'US$' } },
+  { tag: 'en-AU', ...SYMBOL_FIRST, symbols: { AUD: '$', USD: 'USD' } },
+  { tag: 'en-IN', ...SYMBOL_FIRST, grouping: 'lakh' },
+  // hindi
+  { tag: 'hi-IN', ...SYMBOL_FIRST, grouping: 'lakh' },
+  // german
+  { tag: 'de-DE', ...SYMBOL_LAST },
+  {
+    tag: 'de-CH',
+    ...SYMBOL_FIRST,
+    symbolSpacing: NBSP,
+    negativeSymbolSpacing: '',
+    groupSeparator: '\u2019',
+    minusPosition: 'before-number',
+  },
+  // french
+  { tag: 'fr-FR', ...SYMBOL_LAST, groupSeparator: NNBSP },
+  {
+    tag: 'fr-CA',
+    ...SYMBOL_LAST,
+    groupSeparator: NBSP,
+    symbols: { CAD: '$', USD: `$${NBSP}US` },
+  },
+  // spanish
+  { tag: 'es-ES', ...SYMBOL_LAST, minimumGroupingDigits: 2 },
+  { tag: 'es-MX', ...SYMBOL_FIRST, symbols: { MXN: '$', USD: 'USD' } },
+  // italian
+  { tag: 'it-IT', ...SYMBOL_LAST, minimumGroupingDigits: 2 },
+  // portuguese
+  {
+    tag: 'pt-BR',
+    ...SYMBOL_FIRST,
+    symbolSpacing: NBSP,
+    groupSeparator: '.',
+    decimalSeparator: ',',
+  },
+  {
+    tag: 'pt-PT',
+    ...SYMBOL_LAST,
+    groupSeparator: NBSP,
+    minimumGroupingDigits: 2,
+  },
+  // dutch
+  {
+    tag: 'nl-NL',
+    ...SYMBOL_FIRST,
+    symbolSpacing: NBSP,
+    groupSeparator: '.',
+    decimalSeparator: ',',
+    minusPosition: 'before-number',
+  },
+  // nordic
+  { tag: 'sv-SE', ...SYMBOL_LAST, groupSeparator: NBSP, minusSign: MINUS },
+  { tag: 'nb-NO', ...SYMBOL_LAST, groupSeparator: NBSP, minusSign: MINUS },
+  { tag: 'da-DK', ...SYMBOL_LAST, symbols: { DKK: 'kr.' } },
+  { tag: 'fi-FI', ...SYMBOL_LAST, groupSeparator: NBSP, minusSign: MINUS },
+  // central and eastern european
+  {
+    tag: 'pl-PL',
+    ...SYMBOL_LAST,
+    groupSeparator: NBSP,
+    minimumGroupingDigits: 2,
+  },
+  { tag: 'cs-CZ', ...SYMBOL_LAST, groupSeparator: NBSP },
+  { tag: 'ru-RU', ...SYMBOL_LAST, groupSeparator: NBSP },
+  {
+    tag: 'tr-TR',
+    ...SYMBOL_FIRST,
+    groupSeparator: '.',
+    decimalSeparator: ',',
+    symbols: { TRY: '₺' },
+  },
+  // east asian
+  { tag: 'ja-JP', ...SYMBOL_FIRST, symbols: { JPY: '\uffe5' } },
+  { tag: 'zh-CN', ...SYMBOL_FIRST, symbols: { CNY: '¥', JPY: 'JP¥' } },
+  { tag: 'ko-KR', ...SYMBOL_FIRST },
+];
@@ -0,0 +1,187 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { normalizeIsoPriceAmount } from './normalizeIsoPriceAmount';
+
+describe('normalizeIsoPriceAmount', () => {
+  describe('.locale', () => {
+    const CASES = [
+      {
+        description: 'de-DE dot groups, comma decimal',
+        given: { amount: '1.234.567,89', locale: 'de-DE' },
+        expect: { output: '1234567.89' },
+      },
+      {
+        description: 'de-DE lone dot is a group separator',
+        given: { amount: '1.234', locale: 'de-DE' },
+        expect: { output: '1234' },
+      },
+      {
+        description: 'en-US lone comma is a group separator',
+        given: { amount: '1,234', locale: 'en-US' },
+        expect: { output: '1234' },
+      },
+      {
+        description: 'de-CH typographic apostrophe groups',
+        given: { amount: '1’234.50', locale: 'de-CH' },
+        expect: { output: '1234.50' },
+      },
+      {
+        description: 'de-CH typewriter apostrophe groups',
+        given: { amount: "1'234.50", locale: 'de-CH' },
+        expect: { output: '1234.50' },
+      },
+      {
+        description: 'fr-FR narrow no-break space groups',
+        given: { amount: '1 234,56', locale: 'fr-FR' },
+        expect: { output: '1234.56' },
+      },
+      {
+        description: 'fr-FR accepts plain and thin spaces too',
+        given: { amount: '1 234 567,5', locale: 'fr-FR' },
+        expect: { output: '1234567.5' },
+      },
+      {
+        description: 'en-IN lakh groups',
+        given: { amount: '1,00,00,000.00', locale: 'en-IN' },
+        expect: { output: '10000000.00' },
+      },
+      {
+        description: 'hi-IN devanagari digits',
+        given: { amount: '१,००,०००.५०', locale: 'hi-IN' },
+        expect: { output: '100000.50' },
+      },
+      {
+        description: 'sv-SE unicode minus',
+        given: { amount: '−1 234,50', locale: 'sv-SE' },
+        expect: { output: '-1234.50' },
+      },
+    ];
+
+    CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        expect(
+          normalizeIsoPriceAmount(given.amount, { locale: given.locale }),
+        ).toEqual(expected.output);
+      });
+    });
+
+    test('rejects a separator the locale does not use', async () => {
+      const error = await getError(() =>
+        normalizeIsoPriceAmount('1,234.56', { locale: 'de-DE' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('invalid amount');
+    });
+
+    test('rejects an unsupported locale', async () => {
+      const error = await getError(() =>
+        normalizeIsoPriceAmount('1', { locale: 'xx' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('unsupported locale');
+    });
+  });
+
+  describe('.inference', () => {
+    const CASES = [
+      {
+        description: 'plain integer',
+        given: { amount: '1234' },
+        expect: { output: '1234' },
+      },
+      {
+        description: 'both separators, comma last',
+        given: { amount: '1.234,56' },
+        expect: { output: '1234.56' },
+      },
+      {
+        description: 'both separators, dot last',
+        given: { amount: '1,234.56' },
+        expect: { output: '1234.56' },
+      },
+      {
+        description: 'repeated dot groups',
+        given: { amount: '1.234.567' },
+        expect: { output: '1234567' },
+      },
+      {
+        description: 'lakh groups',
+        given: { amount: '1,00,000' },
+        expect: { output: '100000' },
+      },
+      {
+        description: 'lone comma before 2 digits is a decimal',
+        given: { amount: '12,50' },
+        expect: { output: '12.50' },
+      },
+      {
+        description: 'lone comma after a leading zero is a decimal',
+        given: { amount: '0,125' },
+        expect: { output: '0.125' },
+      },
+      {
+        description: 'lone dot after 4+ digits is a decimal',
+        given: { amount: '1234.567' },
+        expect: { output: '1234.567' },
+      },
+      {
+        description: 'apostrophe groups',
+        given: { amount: "1'234.50" },
+        expect: { output: '1234.50' },
+      },
+      {
+        description: 'space groups with comma decimal',
+        given: { amount: '1 234,56' },
+        expect: { output: '1234.56' },
+      },
+      {
+        description: 'arabic-indic digits with arabic separators',
+        given: { amount: '١٬٢٣٤٫٥٦' },
+        expect: { output: '1234.56' },
+      },
+      {
+        description: 'extended arabic-indic digits',
+        given: { amount: '۱۲۳' },
+        expect: { output: '123' },
+      },
+    ];
+
+    CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        expect(normalizeIsoPriceAmount(given.amount)).toEqual(expected.output);
+      });
+    });
+
+    const AMBIGUOUS_CASES = [
+      {
+        description: 'lone dot before 3 digits',
+        given: { amount: '1.234' },
+        expect: { assumed: '1.234' },
+      },
+      {
+        description: 'lone comma before 3 digits',
+        given: { amount: '1,234' },
+        expect: { assumed: '1234' },
+      },
+    ];
+
+    AMBIGUOUS_CASES.forEach(({ description, given, expect: expected }) => {
+      test(`${description} throws by default`, async () => {
+        const error = await getError(() =>
+          normalizeIsoPriceAmount(given.amount),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('ambiguous');
+      });
+
+      test(`${description} may assume dot-decimal`, () => {
+        expect(
+          normalizeIsoPriceAmount(given.amount, {
+            ambiguous: 'assume-dot-decimal',
+          }),
+        ).toEqual(expected.assumed);
+      });
+    });
+  });
+});
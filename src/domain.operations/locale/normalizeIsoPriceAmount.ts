@@ -0,0 +1,198 @@
+import { BadRequestError } from 'helpful-errors';
+
+import { getIsoPriceLocale } from './getIsoPriceLocale';
+
+/**
+ * .what = the zero digit of each supported numbering system
+ * .why = enables transliteration of native digits to ascii digits
+ *
+ * - U+0660 arabic-indic (٠١٢٣٤٥٦٧٨٩)
+ * - U+06F0 extended arabic-indic, as in persian and urdu (۰۱۲۳۴۵۶۷۸۹)
+ * - U+0966 devanagari (०१२३४५६७८९)
+ */
+const NATIVE_ZERO_CODE_POINTS: number[] = [0x0660, 0x06f0, 0x0966];
+
+/**
+ * .what = pattern for native digits of the supported numbering systems
+ * .why = finds the digits to transliterate
+ */
+const NATIVE_DIGIT_PATTERN = /[\u0660-\u0669\u06f0-\u06f9\u0966-\u096f]/g;
+
+/**
+ * .what = characters that only ever separate digit groups
+ * .why = spaces and apostrophes group digits (fr-FR, de-CH) but never mark decimals
+ *
+ * covers space, no-break space, narrow no-break space, thin space, apostrophes, and underscores
+ */
+const GROUP_ONLY_PATTERN = /[ \u00a0\u202f\u2009'\u2019_]/g;
+
+/**
+ * .what = pattern for a canonical amount
+ * .why = the normalized output must be plain ascii digits with an optional dot decimal
+ */
+const CANONICAL_AMOUNT_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * .what = converts native digits and signs to ascii
+ * .why = lets scraped prices in arabic-indic or devanagari digits parse like latin ones
+ */
+const asAsciiDigits = (value: string): string =>
+  value
+    .replace(NATIVE_DIGIT_PATTERN, (digit) => {
+      const codePoint = digit.codePointAt(0) ?? 0;
+      const zero =
+        NATIVE_ZERO_CODE_POINTS.find(
+          (start) => codePoint >= start && codePoint <= start + 9,
+        ) ?? 0;
+      return String(codePoint - zero);
+    })
+    .replace(/\u066b/g, '.') // arabic decimal separator
+    .replace(/\u066c/g, ',') // arabic thousands separator
+    .replace(/\u2212/g, '-') // unicode minus sign
+    .trim();
+
+/**
+ * .what = escapes a string for use within a regular expression
+ * .why = separators like '.' are regex metacharacters
+ */
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * .what = patterns for well-formed digit groups of an integer part
+ * .why = a misplaced group separator reveals the wrong locale (e.g., '1,234.56' read as de-DE)
+ */
+const GROUPED_INTEGER_PATTERNS: RegExp[] = [
+  /^-?\d+$/, // ungrouped
+  /^-?\d{1,3}(_\d{3})+$/, // thousands
+  /^-?\d{1,2}(_\d{2})*_\d{3}$/, // lakh, crore
+];
+
+/**
+ * .what = normalizes per the separators of an explicit locale
+ * .why = removes all doubt — the locale declares which character is the decimal
+ */
+const normalizeByLocale = (value: string, localeTag: string): string => {
+  const locale = getIsoPriceLocale(localeTag);
+  if (!locale)
+    throw new BadRequestError('unsupported locale', { locale: localeTag });
+
+  // mark group separators as '_'; space-like and apostrophe-like separators accept their look-alikes
+  const groupPattern = /^[ \u00a0\u202f\u2009]$/.test(locale.groupSeparator)
+    ? /[ \u00a0\u202f\u2009]/g
+    : /^['\u2019]$/.test(locale.groupSeparator)
+      ? /['\u2019]/g
+      : new RegExp(escapeRegExp(locale.groupSeparator), 'g');
+  const marked = value.replace(groupPattern, '_');
+
+  // split at the decimal separator, then validate the digit groups
+  const [intPart = '', fracPart, ...extraParts] = marked.split(
+    locale.decimalSeparator,
+  );
+  const isWellFormed =
+    extraParts.length === 0 &&
+    GROUPED_INTEGER_PATTERNS.some((pattern) => pattern.test(intPart)) &&
+    (fracPart === undefined || /^\d+$/.test(fracPart));
+  if (!isWellFormed)
+    throw new BadRequestError('invalid amount for locale', {
+      amount: value,
+      locale: locale.tag,
+    });
+
+  const digits = intPart.replace(/_/g, '');
+  return fracPart === undefined ? digits : `${digits}.${fracPart}`;
+};
+
+/**
+ * .what = normalizes by inference from the separators present
+ * .why = enables ingestion of prices whose locale is unknown
+ *
+ * rules:
+ * - spaces, apostrophes, and underscores always group
+ * - when both '.' and ',' appear, the last one is the decimal
+ * - when one of them appears more than once, it groups
+ * - when one of them appears once, before anything but exactly 3 digits, it is the decimal
+ * - otherwise, a lone separator before exactly 3 digits is ambiguous ('1.234' or '1,234')
+ */
+const normalizeByInference = (
+  value: string,
+  options: { ambiguous: 'assume-dot-decimal' | 'throw' },
+): string => {
+  const withoutGroups = value.replace(GROUP_ONLY_PATTERN, '');
+  const dots = withoutGroups.split('.').length - 1;
+  const commas = withoutGroups.split(',').length - 1;
+
+  // no separators or both kinds
+  if (dots === 0 && commas === 0) return withoutGroups;
+  if (dots > 0 && commas > 0) {
+    const decimal =
+      withoutGroups.lastIndexOf('.') > withoutGroups.lastIndexOf(',')
+        ? '.'
+        : ',';
+    const group = decimal === '.' ? ',' : '.';
+    return withoutGroups.split(group).join('').replace(decimal, '.');
+  }
+
+  // one kind of separator
+  const separator = dots > 0 ? '.' : ',';
+  if ((dots || commas) > 1) return withoutGroups.split(separator).join('');
+  const [intPart, fracPart] = withoutGroups.split(separator) as [
+    string,
+    string,
+  ];
+  const intDigits = intPart.replace(/^-/, '');
+  const isDecimal =
+    fracPart.length !== 3 || // e.g., '1,5' or '12.50'
+    intDigits.length === 0 || // e.g., '.125'
+    intDigits.length > 3 || // e.g., '1234,567'
+    /^0/.test(intDigits); // e.g., '0.125'
+  if (isDecimal) return `${intPart}.${fracPart}`;
+
+  // a lone separator before exactly 3 digits
+  if (options.ambiguous === 'throw')
+    throw new BadRequestError(
+      'ambiguous decimal separator; specify a locale to disambiguate',
+      {
+        amount: value,
+        hint: "e.g., { locale: 'de-DE' } or { locale: 'en-US' }",
+      },
+    );
+  return separator === '.' ? `${intPart}.${fracPart}` : `${intPart}${fracPart}`;
+};
+
+/**
+ * .what = normalizes a human-typed amount to a canonical ascii decimal string
+ * .why = enables parse of '1.234,56', "1'234.50", '1 234,56', '1,00,000', and native digits
+ *
+ * when a locale is given, its group and decimal separators are authoritative;
+ * otherwise, they are inferred, and `ambiguous` decides how a lone separator
+ * before exactly 3 digits is read
+ *
+ * @throws BadRequestError if the locale is unsupported, the amount is ambiguous, or the amount is malformed
+ *
+ * @example
+ * normalizeIsoPriceAmount('1.234,56', { locale: 'de-DE' })  // => '1234.56'
+ * normalizeIsoPriceAmount("1'234.50")                       // => '1234.50'
+ * normalizeIsoPriceAmount('१,००,०००')                       // => '100000'
+ */
+export const normalizeIsoPriceAmount = (
+  amount: string,
+  options?: {
+    locale?: string;
+    ambiguous?: 'assume-dot-decimal' | 'throw';
+  },
+): string => {
+  const ascii = asAsciiDigits(amount);
+  const normalized = options?.locale
+    ? normalizeByLocale(ascii, options.locale)
+    : normalizeByInference(ascii, {
+        ambiguous: options?.ambiguous ?? 'throw',
+      });
+
+  if (!CANONICAL_AMOUNT_PATTERN.test(normalized))
+    throw new BadRequestError('invalid amount', {
+      amount,
+      locale: options?.locale,
+    });
+  return normalized;
+};
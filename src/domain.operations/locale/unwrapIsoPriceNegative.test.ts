@@ -0,0 +1,55 @@
+import { unwrapIsoPriceNegative } from './unwrapIsoPriceNegative';
+
+describe('unwrapIsoPriceNegative', () => {
+  const CASES = [
+    // parentheses
+    {
+      given: { input: '($1,234.56)' },
+      expect: { value: '$1,234.56', isNegative: true },
+    },
+    {
+      given: { input: '(1.234,56 €)' },
+      expect: { value: '1.234,56 €', isNegative: true },
+    },
+    // credit and debit markers
+    {
+      given: { input: '$5.00 CR' },
+      expect: { value: '$5.00', isNegative: true },
+    },
+    {
+      given: { input: '$5.00 DR' },
+      expect: { value: '$5.00', isNegative: false },
+    },
+    {
+      given: { input: '$5.00CR' },
+      expect: { value: '$5.00', isNegative: true },
+    },
+    {
+      given: { input: '$5.00 cr' },
+      expect: { value: '$5.00', isNegative: true },
+    },
+    {
+      given: { input: '5 kr DR' },
+      expect: { value: '5 kr', isNegative: false },
+    },
+    // leading minus
+    { given: { input: '-$5' }, expect: { value: '$5', isNegative: true } },
+    { given: { input: '−$5' }, expect: { value: '$5', isNegative: true } },
+    {
+      given: { input: '-5,00 €' },
+      expect: { value: '5,00 €', isNegative: true },
+    },
+    // left in place
+    { given: { input: '$-5' }, expect: { value: '$-5', isNegative: false } },
+    {
+      given: { input: '$5.00' },
+      expect: { value: '$5.00', isNegative: false },
+    },
+  ];
+
+  CASES.forEach(({ given, expect: expected }) => {
+    test(given.input, () => {
+      expect(unwrapIsoPriceNegative(given.input)).toEqual(expected);
+    });
+  });
+});
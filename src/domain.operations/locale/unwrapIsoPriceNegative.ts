@@ -0,0 +1,62 @@
+/**
+ * .what = pattern for a parenthesized amount
+ * .why = accountants mark negatives with parentheses, e.g., '($1,234.56)' or '(1.234,56 €)'
+ */
+const PARENTHESES_PATTERN = /^\((.+)\)$/s;
+
+/**
+ * .what = pattern for a trailing credit or debit marker
+ * .why = ledgers and bank exports append 'CR' or 'DR' instead of a sign, e.g., '$5.00 CR'
+ *
+ * the marker must stand apart from letter symbols (e.g., '5 kr DR', not '5 krDR')
+ */
+const CREDIT_DEBIT_PATTERN = /^(.+?)(?:\s+|(?<!\p{L}))(CR|DR)$/iu;
+
+/**
+ * .what = pattern for a leading minus sign
+ * .why = the minus may lead the symbol ('-$5') as well as a suffixed number ('-5 €')
+ */
+const LEADING_MINUS_PATTERN = /^[-\u2212]\s*/;
+
+/**
+ * .what = strips the negative notation that wraps a human-format price
+ * .why = lets '($1,234.56)', '-$5', and '$5.00 CR' reach symbol detection as plain '$1,234.56', '$5', and '$5.00'
+ *
+ * notations:
+ * - parentheses → negative
+ * - a leading minus → negative (a minus after a prefix symbol, as in '$-5', stays in the amount)
+ * - 'CR' → negative, 'DR' → positive, per the debit-positive convention of double-entry ledgers
+ *
+ * @example
+ * unwrapIsoPriceNegative('($1,234.56)')  // => { value: '$1,234.56', isNegative: true }
+ * unwrapIsoPriceNegative('-$5')          // => { value: '$5', isNegative: true }
+ * unwrapIsoPriceNegative('$5.00 DR')     // => { value: '$5.00', isNegative: false }
+ */
+export const unwrapIsoPriceNegative = (
+  value: string,
+): { value: string; isNegative: boolean } => {
+  const trimmed = value.trim();
+
+  // parentheses
+  const parenthesized = trimmed.match(PARENTHESES_PATTERN)?.[1];
+  if (parenthesized !== undefined)
+    return { value: parenthesized.trim(), isNegative: true };
+
+  // credit or debit marker
+  const [, creditDebitValue, creditDebitMarker] =
+    trimmed.match(CREDIT_DEBIT_PATTERN) ?? [];
+  if (creditDebitValue !== undefined && creditDebitMarker !== undefined)
+    return {
+      value: creditDebitValue.trim(),
+      isNegative: creditDebitMarker.toUpperCase() === 'CR',
+    };
+
+  // leading minus
+  if (LEADING_MINUS_PATTERN.test(trimmed))
+    return {
+      value: trimmed.replace(LEADING_MINUS_PATTERN, ''),
+      isNegative: true,
+    };
+
+  return { value: trimmed, isNegative: false };
+};
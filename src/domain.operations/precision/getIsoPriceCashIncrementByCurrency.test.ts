@@ -0,0 +1,69 @@
+import { getIsoPriceCashIncrementByCurrency } from './getIsoPriceCashIncrementByCurrency';
+
+describe('getIsoPriceCashIncrementByCurrency', () => {
+  const CASES = [
+    {
+      description: 'CHF rounds to 5 rappen',
+      given: { input: 'CHF' },
+      expect: { output: 'CHF 0.05' },
+    },
+    {
+      description: 'CAD rounds to 5 cents since the penny was withdrawn',
+      given: { input: 'CAD' },
+      expect: { output: 'CAD 0.05' },
+    },
+    {
+      description: 'AUD rounds to 5 cents',
+      given: { input: 'AUD' },
+      expect: { output: 'AUD 0.05' },
+    },
+    {
+      description: 'NZD rounds to 10 cents',
+      given: { input: 'NZD' },
+      expect: { output: 'NZD 0.10' },
+    },
+    {
+      description: 'SEK rounds to whole kronor',
+      given: { input: 'SEK' },
+      expect: { output: 'SEK 1.00' },
+    },
+    {
+      description: 'DKK rounds to 50 øre',
+      given: { input: 'DKK' },
+      expect: { output: 'DKK 0.50' },
+    },
+    {
+      description: 'HUF rounds to 5 forint',
+      given: { input: 'HUF' },
+      expect: { output: 'HUF 5.00' },
+    },
+    {
+      description: 'USD has no cash increment',
+      given: { input: 'USD' },
+      expect: { output: null },
+    },
+    {
+      description: 'EUR has no cash increment',
+      given: { input: 'EUR' },
+      expect: { output: null },
+    },
+    {
+      description: 'unknown currency has no cash increment',
+      given: { input: 'BTC' },
+      expect: { output: null },
+    },
+    {
+      description: 'object prototype keys have no cash increment',
+      given: { input: 'toString' },
+      expect: { output: null },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(getIsoPriceCashIncrementByCurrency(given.input)).toEqual(
+        expected.output,
+      );
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+
+/**
+ * .what = the smallest increment that cash totals round to, per currency
+ * .why = countries that withdrew their smallest coins round cash payments, not card ones
+ *
+ * e.g., switzerland has no 1 or 2 rappen coins, so cash totals round to CHF 0.05;
+ * canada withdrew the penny in 2013, so cash totals round to CAD 0.05
+ */
+const CASH_INCREMENTS: ReadonlyMap<string, string> = new Map([
+  ['AUD', 'AUD 0.05'],
+  ['CAD', 'CAD 0.05'],
+  ['CHF', 'CHF 0.05'],
+  ['CZK', 'CZK 1.00'],
+  ['DKK', 'DKK 0.50'],
+  ['HKD', 'HKD 0.10'],
+  ['HUF', 'HUF 5.00'],
+  ['ILS', 'ILS 0.10'],
+  ['MYR', 'MYR 0.05'],
+  ['NOK', 'NOK 1.00'],
+  ['NZD', 'NZD 0.10'],
+  ['SEK', 'SEK 1.00'],
+  ['SGD', 'SGD 0.05'],
+]);
+
+/**
+ * .what = returns the cash round increment for a currency
+ * .why = enables point-of-sale totals to round as the local coins require
+ *
+ * returns null for currencies whose cash totals need no round beyond the minor unit (e.g., USD, EUR)
+ *
+ * @example
+ * getIsoPriceCashIncrementByCurrency('CHF')  // => 'CHF 0.05'
+ * getIsoPriceCashIncrementByCurrency('SEK')  // => 'SEK 1.00'
+ * getIsoPriceCashIncrementByCurrency('USD')  // => null
+ */
+export const getIsoPriceCashIncrementByCurrency = <
+  TCurrency extends string = string,
+>(
+  currency: TCurrency,
+): IsoPriceWords<TCurrency> | null => {
+  return (
+    (CASH_INCREMENTS.get(currency) as IsoPriceWords<TCurrency> | undefined) ??
+    null
+  );
+};
@@ -39,6 +39,11 @@ describe('getIsoPriceExponentByCurrency', () => {
       given: { input: 'CNY' },
       expect: { output: IsoPriceExponent.CENTI },
     },
+    {
+      description: 'IDR returns centi (iso 4217 declares 2 minor units)',
+      given: { input: 'IDR' },
+      expect: { output: IsoPriceExponent.CENTI },
+    },
     // whole exponent currencies (0 decimals)
     {
       description: 'JPY returns whole',
@@ -55,11 +60,6 @@ describe('getIsoPriceExponentByCurrency', () => {
       given: { input: 'VND' },
       expect: { output: IsoPriceExponent.WHOLE },
     },
-    {
-      description: 'IDR returns whole',
-      given: { input: 'IDR' },
-      expect: { output: IsoPriceExponent.WHOLE },
-    },
     {
       description: 'CLP returns whole',
       given: { input: 'CLP' },
@@ -75,6 +75,16 @@ describe('getIsoPriceExponentByCurrency', () => {
       given: { input: 'UGX' },
       expect: { output: IsoPriceExponent.WHOLE },
     },
+    {
+      description: 'ISK returns whole',
+      given: { input: 'ISK' },
+      expect: { output: IsoPriceExponent.WHOLE },
+    },
+    {
+      description: 'XOF returns whole',
+      given: { input: 'XOF' },
+      expect: { output: IsoPriceExponent.WHOLE },
+    },
     // milli exponent currencies (3 decimals)
     {
       description: 'BHD returns milli',
@@ -96,6 +106,43 @@ describe('getIsoPriceExponentByCurrency', () => {
       given: { input: 'TND' },
       expect: { output: IsoPriceExponent.MILLI },
     },
+    {
+      description: 'LYD returns milli',
+      given: { input: 'LYD' },
+      expect: { output: IsoPriceExponent.MILLI },
+    },
+    {
+      description: 'IQD returns milli',
+      given: { input: 'IQD' },
+      expect: { output: IsoPriceExponent.MILLI },
+    },
+    {
+      description: 'JOD returns milli',
+      given: { input: 'JOD' },
+      expect: { output: IsoPriceExponent.MILLI },
+    },
+    // decimilli exponent currencies (4 decimals)
+    {
+      description: 'CLF returns decimilli',
+      given: { input: 'CLF' },
+      expect: { output: IsoPriceExponent.DECIMILLI },
+    },
+    {
+      description: 'UYW returns decimilli',
+      given: { input: 'UYW' },
+      expect: { output: IsoPriceExponent.DECIMILLI },
+    },
+    // 'N.A.' minor unit codes default to centi
+    {
+      description: 'XAU defaults to centi',
+      given: { input: 'XAU' },
+      expect: { output: IsoPriceExponent.CENTI },
+    },
+    {
+      description: 'XDR defaults to centi',
+      given: { input: 'XDR' },
+      expect: { output: IsoPriceExponent.CENTI },
+    },
     // unknown currencies default to centi
     {
       description: 'BTC defaults to centi',
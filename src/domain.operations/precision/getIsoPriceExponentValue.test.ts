@@ -0,0 +1,53 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { getIsoPriceExponentValue } from './getIsoPriceExponentValue';
+
+describe('getIsoPriceExponentValue', () => {
+  const CASES = [
+    {
+      description: 'whole',
+      given: { input: IsoPriceExponent.WHOLE as IsoPriceExponent },
+      expect: { output: 0 },
+    },
+    {
+      description: 'centi',
+      given: { input: IsoPriceExponent.CENTI },
+      expect: { output: -2 },
+    },
+    {
+      description: 'pico',
+      given: { input: IsoPriceExponent.PICO },
+      expect: { output: -12 },
+    },
+    {
+      description: 'satoshis',
+      given: { input: 'x10^-8' as const },
+      expect: { output: -8 },
+    },
+    {
+      description: 'wei',
+      given: { input: 'x10^-18' as const },
+      expect: { output: -18 },
+    },
+    {
+      description: 'thousands',
+      given: { input: 'x10^3' as const },
+      expect: { output: 3 },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(getIsoPriceExponentValue(given.input)).toEqual(expected.output);
+    });
+  });
+
+  test('throws on invalid exponent', async () => {
+    const error = await getError(() =>
+      getIsoPriceExponentValue('x10^-2.5' as IsoPriceExponent),
+    );
+    expect(error).toBeInstanceOf(BadRequestError);
+  });
+});
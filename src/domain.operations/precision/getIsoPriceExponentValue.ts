@@ -0,0 +1,20 @@
+import type { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { isIsoPriceExponent } from '../guard/isIsoPriceExponent';
+
+/**
+ * .what = extracts the integer power of ten from an exponent
+ * .why = enables arithmetic on named and arbitrary exponents alike
+ *
+ * @throws BadRequestError if the exponent is invalid
+ *
+ * @example
+ * getIsoPriceExponentValue('centi.x10^-2')  // => -2
+ * getIsoPriceExponentValue('x10^-18')       // => -18
+ * getIsoPriceExponentValue('x10^3')         // => 3
+ */
+export const getIsoPriceExponentValue = (
+  exponent: IsoPriceExponent,
+): number => {
+  isIsoPriceExponent.assure(exponent);
+  return parseInt(exponent.slice(exponent.indexOf('^') + 1), 10);
+};
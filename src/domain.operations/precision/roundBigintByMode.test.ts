@@ -0,0 +1,482 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import { dividePrice } from '../arithmetic/dividePrice';
+import { multiplyPrice } from '../arithmetic/multiplyPrice';
+import { asIsoPriceShape } from '../cast/asIsoPriceShape';
+import { calcPriceRatio } from '../statistics/calcPriceRatio';
+import { getIsoPriceExponentValue } from './getIsoPriceExponentValue';
+import { roundBigintByMode } from './roundBigintByMode';
+import { roundPriceToIncrement } from './roundPriceToIncrement';
+import { setPricePrecision } from './setPricePrecision';
+
+/**
+ * .what = a seeded prng (mulberry32)
+ * .why = property runs stay reproducible, so a failure can be replayed
+ */
+const createPrng = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * .what = generates dividend and divisor pairs of mixed sign and magnitude
+ * .why = covers negatives, odd divisors, exact quotients and exact ties alike
+ */
+const genPairs = (
+  seed: number,
+  count: number,
+): { of: bigint; by: bigint }[] => {
+  const random = createPrng(seed);
+  const int = (max: number): bigint => BigInt(Math.floor(random() * max));
+  const signed = (value: bigint): bigint => (random() < 0.5 ? -value : value);
+  return Array.from({ length: count }, (_, index) => {
+    const by = signed(int(random() < 0.5 ? 10 : 1_000_000) + 1n);
+    const quotient = signed(int(random() < 0.5 ? 100 : 1_000_000_000));
+    // every third pair sits on an exact tie or an exact multiple, when the divisor allows
+    const shape = index % 3;
+    const absBy = by < 0n ? -by : by;
+    const offset =
+      shape === 0 && absBy % 2n === 0n
+        ? absBy / 2n
+        : shape === 1
+          ? 0n
+          : int(Number(absBy));
+    return { of: quotient * by + signed(offset), by };
+  });
+};
+
+/**
+ * .what = brackets an exact quotient between its floor and the next integer up
+ * .why = the reference rounding picks one of the two, from floor division alone
+ *
+ * `nearest` is null at an exact half
+ */
+const bracketByFloor = (
+  of: bigint,
+  by: bigint,
+): {
+  lower: bigint;
+  upper: bigint;
+  isExact: boolean;
+  nearest: bigint | null;
+} => {
+  // normalize to a positive divisor, then floor
+  const n = by < 0n ? -of : of;
+  const d = by < 0n ? -by : by;
+  const truncated = n / d;
+  const lower = n % d !== 0n && n < 0n ? truncated - 1n : truncated;
+  const upper = lower + 1n;
+  const fraction = n - lower * d; // in [0, d)
+  const nearest = 2n * fraction < d ? lower : 2n * fraction > d ? upper : null;
+  return { lower, upper, isExact: fraction === 0n, nearest };
+};
+
+/**
+ * .what = a reference rounding, written from floor division rather than truncation
+ * .why = an independent oracle for the engine to agree with
+ */
+const roundByReference = (
+  of: bigint,
+  by: bigint,
+  round: IsoPriceRoundMode,
+): bigint => {
+  const { lower, upper, isExact, nearest } = bracketByFloor(of, by);
+  if (isExact) return lower;
+
+  // which neighbor sits on which side of zero; the exact quotient lies strictly between them
+  const towardZero = lower >= 0n ? lower : upper;
+  const awayFromZero = lower >= 0n ? upper : lower;
+  const isEven = (value: bigint): boolean => value % 2n === 0n;
+
+  switch (round) {
+    case IsoPriceRoundMode.FLOOR:
+      return lower;
+    case IsoPriceRoundMode.CEIL:
+      return upper;
+    case IsoPriceRoundMode.TRUNC:
+      return towardZero;
+    case IsoPriceRoundMode.AWAY_FROM_ZERO:
+      return awayFromZero;
+    case IsoPriceRoundMode.HALF_UP:
+    case IsoPriceRoundMode.HALF_AWAY_FROM_ZERO:
+      return nearest ?? awayFromZero;
+    case IsoPriceRoundMode.HALF_DOWN:
+    case IsoPriceRoundMode.HALF_TOWARD_ZERO:
+      return nearest ?? towardZero;
+    case IsoPriceRoundMode.HALF_EVEN:
+      return nearest ?? (isEven(lower) ? lower : upper);
+    case IsoPriceRoundMode.HALF_ODD:
+      return nearest ?? (isEven(lower) ? upper : lower);
+  }
+};
+
+const MODES: IsoPriceRoundMode[] = Object.values(IsoPriceRoundMode);
+const SYMMETRIC_MODES: IsoPriceRoundMode[] = MODES.filter(
+  (mode) => mode !== IsoPriceRoundMode.FLOOR && mode !== IsoPriceRoundMode.CEIL,
+);
+
+describe('roundBigintByMode', () => {
+  // values in tenths: 5.5, 2.5, 1.6, 1.1, 1.0, -1.0, -1.1, -1.6, -2.5, -5.5
+  const TENTHS = [55n, 25n, 16n, 11n, 10n, -10n, -11n, -16n, -25n, -55n];
+
+  const CASES = [
+    {
+      description: 'floor',
+      given: { round: IsoPriceRoundMode.FLOOR },
+      expect: { output: [5n, 2n, 1n, 1n, 1n, -1n, -2n, -2n, -3n, -6n] },
+    },
+    {
+      description: 'ceil',
+      given: { round: IsoPriceRoundMode.CEIL },
+      expect: { output: [6n, 3n, 2n, 2n, 1n, -1n, -1n, -1n, -2n, -5n] },
+    },
+    {
+      description: 'trunc',
+      given: { round: IsoPriceRoundMode.TRUNC },
+      expect: { output: [5n, 2n, 1n, 1n, 1n, -1n, -1n, -1n, -2n, -5n] },
+    },
+    {
+      description: 'away-from-zero',
+      given: { round: IsoPriceRoundMode.AWAY_FROM_ZERO },
+      expect: { output: [6n, 3n, 2n, 2n, 1n, -1n, -2n, -2n, -3n, -6n] },
+    },
+    {
+      description: 'half-up',
+      given: { round: IsoPriceRoundMode.HALF_UP },
+      expect: { output: [6n, 3n, 2n, 1n, 1n, -1n, -1n, -2n, -3n, -6n] },
+    },
+    {
+      description: 'half-away-from-zero',
+      given: { round: IsoPriceRoundMode.HALF_AWAY_FROM_ZERO },
+      expect: { output: [6n, 3n, 2n, 1n, 1n, -1n, -1n, -2n, -3n, -6n] },
+    },
+    {
+      description: 'half-down',
+      given: { round: IsoPriceRoundMode.HALF_DOWN },
+      expect: { output: [5n, 2n, 2n, 1n, 1n, -1n, -1n, -2n, -2n, -5n] },
+    },
+    {
+      description: 'half-toward-zero',
+      given: { round: IsoPriceRoundMode.HALF_TOWARD_ZERO },
+      expect: { output: [5n, 2n, 2n, 1n, 1n, -1n, -1n, -2n, -2n, -5n] },
+    },
+    {
+      description: 'half-even',
+      given: { round: IsoPriceRoundMode.HALF_EVEN },
+      expect: { output: [6n, 2n, 2n, 1n, 1n, -1n, -1n, -2n, -2n, -6n] },
+    },
+    {
+      description: 'half-odd',
+      given: { round: IsoPriceRoundMode.HALF_ODD },
+      expect: { output: [5n, 3n, 2n, 1n, 1n, -1n, -1n, -2n, -3n, -5n] },
+    },
+  ];
+
+  test('cases cover every round mode', () => {
+    expect(CASES.map(({ given }) => given.round).sort()).toEqual(
+      Object.values(IsoPriceRoundMode).sort(),
+    );
+  });
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(`${description}: 5.5, 2.5, 1.6, 1.1, 1.0 and their negatives`, () => {
+      expect(
+        TENTHS.map((of) => roundBigintByMode({ of, by: 10n }, given)),
+      ).toEqual(expected.output);
+    });
+
+    test(`${description}: a negative divisor rounds as a negative dividend`, () => {
+      expect(
+        TENTHS.map((of) => roundBigintByMode({ of: -of, by: -10n }, given)),
+      ).toEqual(expected.output);
+    });
+  });
+
+  describe('.odd-divisors', () => {
+    const ODD_CASES = [
+      {
+        description: 'a third rounds toward zero under half-up',
+        given: { of: 4n, by: 3n, round: IsoPriceRoundMode.HALF_UP },
+        expect: { output: 1n },
+      },
+      {
+        description: 'a negative third rounds toward zero under half-up',
+        given: { of: -4n, by: 3n, round: IsoPriceRoundMode.HALF_UP },
+        expect: { output: -1n },
+      },
+      {
+        description: 'two thirds round away from zero under half-down',
+        given: { of: -5n, by: 3n, round: IsoPriceRoundMode.HALF_DOWN },
+        expect: { output: -2n },
+      },
+      {
+        description: 'a third is not a tie under half-even',
+        given: { of: -7n, by: 3n, round: IsoPriceRoundMode.HALF_EVEN },
+        expect: { output: -2n },
+      },
+      {
+        description: 'a third is not a tie under half-odd',
+        given: { of: 7n, by: 3n, round: IsoPriceRoundMode.HALF_ODD },
+        expect: { output: 2n },
+      },
+      {
+        description: 'a tie on an odd multiple under half-even',
+        given: { of: -15n, by: 6n, round: IsoPriceRoundMode.HALF_EVEN },
+        expect: { output: -2n },
+      },
+    ];
+
+    ODD_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        expect(
+          roundBigintByMode(
+            { of: given.of, by: given.by },
+            { round: given.round },
+          ),
+        ).toEqual(expected.output);
+      });
+    });
+  });
+
+  test('defaults to half-up', () => {
+    expect(roundBigintByMode({ of: -25n, by: 10n })).toEqual(-3n);
+  });
+
+  describe('.error', () => {
+    test('throws on a zero divisor', () => {
+      const error = getError(() => roundBigintByMode({ of: 5n, by: 0n }));
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('cannot divide by zero');
+    });
+
+    test('throws on an unknown round mode, rather than truncate', () => {
+      const error = getError(() =>
+        roundBigintByMode(
+          { of: 55n, by: 10n },
+          { round: 'round' as IsoPriceRoundMode },
+        ),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('unsupported round mode');
+    });
+
+    test('throws on an unknown round mode, even when exact', () => {
+      const error = getError(() =>
+        roundBigintByMode(
+          { of: 50n, by: 10n },
+          { round: 'round' as IsoPriceRoundMode },
+        ),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+    });
+  });
+
+  describe('.properties', () => {
+    const PAIRS = genPairs(20_250_611, 400);
+
+    MODES.forEach((round) => {
+      describe(round, () => {
+        test('agrees with a reference written from floor division', () => {
+          PAIRS.forEach(({ of, by }) => {
+            expect(roundBigintByMode({ of, by }, { round })).toEqual(
+              roundByReference(of, by, round),
+            );
+          });
+        });
+
+        test('lands on a neighbor of the exact quotient', () => {
+          PAIRS.forEach(({ of, by }) => {
+            const n = by < 0n ? -of : of;
+            const d = by < 0n ? -by : by;
+            const distance = roundBigintByMode({ of, by }, { round }) * d - n;
+            expect(distance > -d && distance < d).toBe(true);
+          });
+        });
+
+        test('returns exact quotients unchanged', () => {
+          PAIRS.forEach(({ of, by }) => {
+            expect(roundBigintByMode({ of: of * by, by }, { round })).toEqual(
+              of,
+            );
+          });
+        });
+
+        test('is unchanged by moving the sign from the dividend to the divisor', () => {
+          PAIRS.forEach(({ of, by }) => {
+            expect(roundBigintByMode({ of: -of, by: -by }, { round })).toEqual(
+              roundBigintByMode({ of, by }, { round }),
+            );
+          });
+        });
+      });
+    });
+
+    SYMMETRIC_MODES.forEach((round) => {
+      test(`${round}: rounds a negation to the negation of the round`, () => {
+        PAIRS.forEach(({ of, by }) => {
+          expect(roundBigintByMode({ of: -of, by }, { round })).toEqual(
+            -roundBigintByMode({ of, by }, { round }),
+          );
+        });
+      });
+    });
+
+    test('floor of a negation is the negation of ceil', () => {
+      PAIRS.forEach(({ of, by }) => {
+        expect(
+          roundBigintByMode(
+            { of: -of, by },
+            { round: IsoPriceRoundMode.FLOOR },
+          ),
+        ).toEqual(
+          -roundBigintByMode({ of, by }, { round: IsoPriceRoundMode.CEIL }),
+        );
+      });
+    });
+
+    test('half modes pick the nearest neighbor, and differ only on ties', () => {
+      const HALF_MODES = MODES.filter((mode) => mode.startsWith('half-'));
+      PAIRS.forEach(({ of, by }) => {
+        const d = by < 0n ? -by : by;
+        const isTie = (2n * of) % d === 0n && of % d !== 0n;
+        const results = HALF_MODES.map((round) =>
+          roundBigintByMode({ of, by }, { round }),
+        );
+        results.forEach((result) => {
+          const doubledDistance = 2n * (result * by - of);
+          const absDistance =
+            doubledDistance < 0n ? -doubledDistance : doubledDistance;
+          expect(absDistance <= d).toBe(true);
+        });
+        if (!isTie) expect(new Set(results).size).toEqual(1);
+      });
+    });
+
+    test('odd divisors never produce a tie', () => {
+      PAIRS.filter(({ by }) => by % 2n !== 0n).forEach(({ of, by }) => {
+        expect(
+          roundBigintByMode({ of, by }, { round: IsoPriceRoundMode.HALF_EVEN }),
+        ).toEqual(
+          roundBigintByMode({ of, by }, { round: IsoPriceRoundMode.HALF_ODD }),
+        );
+      });
+    });
+  });
+
+  describe('.agreement-across-operations', () => {
+    const PAIRS = genPairs(4_242, 60);
+
+    MODES.forEach((round) => {
+      test(`${round}: every operation rounds as the engine does`, () => {
+        PAIRS.forEach(({ of, by }) => {
+          const absBy = by < 0n ? -by : by;
+
+          // setPricePrecision divides by a power of ten
+          const precise = setPricePrecision(
+            {
+              of: {
+                amount: of,
+                currency: 'USD',
+                exponent: IsoPriceExponent.MILLI,
+              },
+              to: IsoPriceExponent.CENTI,
+            },
+            { round },
+          );
+          expect(asIsoPriceShape(precise).amount).toEqual(
+            roundBigintByMode({ of, by: 10n }, { round }),
+          );
+
+          // multiplyPrice divides by the multiplier's denominator
+          const product = multiplyPrice(
+            {
+              of: {
+                amount: of,
+                currency: 'USD',
+                exponent: IsoPriceExponent.CENTI,
+              },
+              by: { numerator: 7n, denominator: absBy },
+            },
+            { round, format: 'shape' },
+          );
+          expect(product.amount).toEqual(
+            roundBigintByMode({ of: of * 7n, by: absBy }, { round }),
+          );
+
+          // dividePrice divides by the divisor, at its output precision
+          const quotient = dividePrice(
+            {
+              of: {
+                amount: of,
+                currency: 'USD',
+                exponent: IsoPriceExponent.CENTI,
+              },
+              by: { numerator: by, denominator: 3n },
+            },
+            { round, format: 'shape' },
+          );
+          const scale =
+            10n **
+            BigInt(
+              getIsoPriceExponentValue(IsoPriceExponent.CENTI) -
+                getIsoPriceExponentValue(
+                  quotient.exponent ?? IsoPriceExponent.CENTI,
+                ),
+            );
+          expect(quotient.amount).toEqual(
+            roundBigintByMode({ of: of * scale * 3n, by }, { round }),
+          );
+
+          // roundPriceToIncrement divides by the increment
+          const { rounded } = roundPriceToIncrement(
+            {
+              of: {
+                amount: of,
+                currency: 'USD',
+                exponent: IsoPriceExponent.CENTI,
+              },
+              increment: {
+                amount: absBy,
+                currency: 'USD',
+                exponent: IsoPriceExponent.CENTI,
+              },
+            },
+            { round },
+          );
+          expect(asIsoPriceShape(rounded).amount).toEqual(
+            roundBigintByMode({ of, by: absBy }, { round }) * absBy,
+          );
+
+          // calcPriceRatio divides one price by another
+          const ratio = calcPriceRatio(
+            {
+              of: {
+                amount: of,
+                currency: 'USD',
+                exponent: IsoPriceExponent.CENTI,
+              },
+              to: {
+                amount: by,
+                currency: 'USD',
+                exponent: IsoPriceExponent.CENTI,
+              },
+            },
+            { format: 'decimal', decimals: 0, round },
+          );
+          expect(BigInt(ratio)).toEqual(
+            roundBigintByMode({ of, by }, { round }),
+          );
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { BadRequestError } from 'helpful-errors';
+
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+
+/**
+ * .what = what a round mode sees of an inexact quotient
+ * .why = every mode decides from the sign, the remainder against the half, and the parity
+ */
+type RoundFacts = {
+  isNegative: boolean;
+  isHalf: boolean;
+  isPastHalf: boolean;
+  isTowardZeroEven: boolean;
+};
+
+/**
+ * .what = decides whether a round mode moves an inexact quotient away from zero
+ * .why = the modes differ only in this one decision, so each is a single rule
+ *
+ * returns null for an unknown mode
+ */
+const isRoundedAwayFromZero = (
+  mode: IsoPriceRoundMode,
+  facts: RoundFacts,
+): boolean | null => {
+  const { isNegative, isHalf, isPastHalf, isTowardZeroEven } = facts;
+  switch (mode) {
+    case IsoPriceRoundMode.FLOOR:
+      return isNegative;
+    case IsoPriceRoundMode.CEIL:
+      return !isNegative;
+    case IsoPriceRoundMode.TRUNC:
+      return false;
+    case IsoPriceRoundMode.AWAY_FROM_ZERO:
+      return true;
+    case IsoPriceRoundMode.HALF_UP:
+    case IsoPriceRoundMode.HALF_AWAY_FROM_ZERO:
+      return isPastHalf || isHalf;
+    case IsoPriceRoundMode.HALF_DOWN:
+    case IsoPriceRoundMode.HALF_TOWARD_ZERO:
+      return isPastHalf;
+    case IsoPriceRoundMode.HALF_EVEN:
+      return isHalf ? !isTowardZeroEven : isPastHalf;
+    case IsoPriceRoundMode.HALF_ODD:
+      return isHalf ? isTowardZeroEven : isPastHalf;
+    default:
+      return null;
+  }
+};
+
+/**
+ * .what = divides a bigint by another and rounds the quotient per round mode
+ * .why = the one rounding engine behind every price operation, so all modes agree everywhere
+ *
+ * the half comparison doubles the remainder rather than halving the divisor,
+ * so odd divisors find their exact half. the sign may sit on either operand
+ *
+ * @throws BadRequestError if the divisor is zero or the round mode is unknown
+ *
+ * @example
+ * roundBigintByMode({ of: 55n, by: 10n }, { round: IsoPriceRoundMode.HALF_EVEN })
+ * // => 6n
+ *
+ * @example
+ * roundBigintByMode({ of: -55n, by: 10n }, { round: IsoPriceRoundMode.TRUNC })
+ * // => -5n
+ */
+export const roundBigintByMode = (
+  input: { of: bigint; by: bigint },
+  options?: { round?: IsoPriceRoundMode },
+): bigint => {
+  if (input.by === 0n) {
+    throw new BadRequestError('cannot divide by zero', { of: `${input.of}` });
+  }
+
+  // carry the sign on the dividend, so the divisor is positive
+  const sign = input.by < 0n ? -1n : 1n;
+  const dividend = input.of * sign;
+  const divisor = input.by * sign;
+
+  // bigint division truncates toward zero
+  const towardZero = dividend / divisor;
+  const remainder = dividend % divisor;
+  const mode = options?.round ?? IsoPriceRoundMode.HALF_UP;
+  const isNegative = dividend < 0n;
+  const doubledRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+  const isAway = isRoundedAwayFromZero(mode, {
+    isNegative,
+    isHalf: doubledRemainder === divisor,
+    isPastHalf: doubledRemainder > divisor,
+    isTowardZeroEven: towardZero % 2n === 0n,
+  });
+
+  // unreachable for typed callers; guards untyped ones from a silent truncation
+  if (isAway === null) {
+    throw new BadRequestError('unsupported round mode', {
+      round: mode,
+      supported: Object.values(IsoPriceRoundMode),
+    });
+  }
+
+  // an exact quotient needs no rounding; else move away from zero when the mode says so
+  if (remainder === 0n || !isAway) return towardZero;
+  return isNegative ? towardZero - 1n : towardZero + 1n;
+};
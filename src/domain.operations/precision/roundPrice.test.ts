@@ -80,6 +80,22 @@ describe('roundPrice', () => {
       given: { input: { of: '$50.375', to: IsoPriceExponent.CENTI } },
       expect: { output: 'USD 50.38' },
     },
+    // default target exponent
+    {
+      description: 'defaults to the currency exponent (USD)',
+      given: { input: { of: 'USD 5.555_555' } },
+      expect: { output: 'USD 5.56' },
+    },
+    {
+      description: 'defaults to the currency exponent (JPY)',
+      given: { input: { of: 'JPY 1500.5' } },
+      expect: { output: 'JPY 1_501' },
+    },
+    {
+      description: 'defaults to the currency exponent (BHD)',
+      given: { input: { of: 'BHD 1.234_5' } },
+      expect: { output: 'BHD 1.235' },
+    },
   ];
 
   CASES.forEach(({ description, given, expect: expected }) => {
@@ -18,11 +18,16 @@ import { setPricePrecision } from './setPricePrecision';
  * @example
  * roundPrice({ of: 'USD 50.375', to: 'centi.x10^-2' }, { round: 'floor' })
  * // => 'USD 50.37'
+ *
+ * @example
+ * // omit `to` to round to the currency's standard exponent
+ * roundPrice({ of: 'USD 5.555_555' })
+ * // => 'USD 5.56'
  */
 export const roundPrice = <TCurrency extends string = string>(
   input: {
     of: IsoPrice<TCurrency> | string;
-    to: IsoPriceExponent;
+    to?: IsoPriceExponent;
   },
   options?: { round?: IsoPriceRoundMode },
 ): IsoPriceWords<TCurrency> => {
@@ -0,0 +1,207 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import { sumPrices } from '../arithmetic/sumPrices';
+import { roundPriceToIncrement } from './roundPriceToIncrement';
+
+describe('roundPriceToIncrement', () => {
+  const CASES = [
+    // explicit increments
+    {
+      description: 'CHF 10.03 to 0.05 rounds up',
+      given: { input: { of: 'CHF 10.03', increment: 'CHF 0.05' } },
+      expect: { rounded: 'CHF 10.05', difference: 'CHF 0.02' },
+    },
+    {
+      description: 'CHF 10.02 to 0.05 rounds down',
+      given: { input: { of: 'CHF 10.02', increment: 'CHF 0.05' } },
+      expect: { rounded: 'CHF 10.00', difference: 'CHF -0.02' },
+    },
+    {
+      description: 'CHF 10.025 to 0.05 ties up by default',
+      given: { input: { of: 'CHF 10.025', increment: 'CHF 0.05' } },
+      expect: { rounded: 'CHF 10.050', difference: 'CHF 0.025' },
+    },
+    {
+      description: 'multiple of the increment is unchanged',
+      given: { input: { of: 'CHF 10.05', increment: 'CHF 0.05' } },
+      expect: { rounded: 'CHF 10.05', difference: 'CHF 0.00' },
+    },
+    {
+      description: 'whole dollar increment',
+      given: { input: { of: 'USD 12.49', increment: 'USD 1' } },
+      expect: { rounded: 'USD 12.00', difference: 'USD -0.49' },
+    },
+    {
+      description: 'increment coarser than a power of ten',
+      given: { input: { of: 'JPY 1_234', increment: 'JPY 50' } },
+      expect: { rounded: 'JPY 1_250', difference: 'JPY 16' },
+    },
+    {
+      description: 'negative amount ties away from zero',
+      given: { input: { of: 'CHF -10.025', increment: 'CHF 0.05' } },
+      expect: { rounded: 'CHF -10.050', difference: 'CHF -0.025' },
+    },
+    // cash increments by currency
+    {
+      description: 'CAD defaults to the 5 cent cash increment',
+      given: { input: { of: 'CAD 4.92' } },
+      expect: { rounded: 'CAD 4.90', difference: 'CAD -0.02' },
+    },
+    {
+      description: 'CAD 4.93 rounds up to 4.95',
+      given: { input: { of: 'CAD 4.93' } },
+      expect: { rounded: 'CAD 4.95', difference: 'CAD 0.02' },
+    },
+    {
+      description: 'NZD defaults to the 10 cent cash increment',
+      given: { input: { of: 'NZD 7.45' } },
+      expect: { rounded: 'NZD 7.50', difference: 'NZD 0.05' },
+    },
+    {
+      description: 'SEK defaults to whole kronor',
+      given: { input: { of: 'SEK 99.49' } },
+      expect: { rounded: 'SEK 99.00', difference: 'SEK -0.49' },
+    },
+    // explicit round modes
+    {
+      description: 'floor',
+      given: {
+        input: { of: 'CHF 10.04', increment: 'CHF 0.05' },
+        options: { round: IsoPriceRoundMode.FLOOR },
+      },
+      expect: { rounded: 'CHF 10.00', difference: 'CHF -0.04' },
+    },
+    {
+      description: 'floor on a negative amount',
+      given: {
+        input: { of: 'CHF -10.01', increment: 'CHF 0.05' },
+        options: { round: IsoPriceRoundMode.FLOOR },
+      },
+      expect: { rounded: 'CHF -10.05', difference: 'CHF -0.04' },
+    },
+    {
+      description: 'ceil',
+      given: {
+        input: { of: 'CHF 10.01', increment: 'CHF 0.05' },
+        options: { round: IsoPriceRoundMode.CEIL },
+      },
+      expect: { rounded: 'CHF 10.05', difference: 'CHF 0.04' },
+    },
+    {
+      description: 'ceil on a negative amount',
+      given: {
+        input: { of: 'CHF -10.04', increment: 'CHF 0.05' },
+        options: { round: IsoPriceRoundMode.CEIL },
+      },
+      expect: { rounded: 'CHF -10.00', difference: 'CHF 0.04' },
+    },
+    {
+      description: 'half-down tie goes toward zero',
+      given: {
+        input: { of: 'SEK 99.50' },
+        options: { round: IsoPriceRoundMode.HALF_DOWN },
+      },
+      expect: { rounded: 'SEK 99.00', difference: 'SEK -0.50' },
+    },
+    {
+      description: 'half-even tie goes to the even count of increments',
+      given: {
+        input: { of: 'SEK 98.50' },
+        options: { round: IsoPriceRoundMode.HALF_EVEN },
+      },
+      expect: { rounded: 'SEK 98.00', difference: 'SEK -0.50' },
+    },
+    {
+      description: 'half-even tie on an odd count rounds up',
+      given: {
+        input: { of: 'SEK 99.50' },
+        options: { round: IsoPriceRoundMode.HALF_EVEN },
+      },
+      expect: { rounded: 'SEK 100.00', difference: 'SEK 0.50' },
+    },
+    {
+      description:
+        'half-even applies to the count of increments, not the last digit',
+      given: {
+        input: { of: 'CHF 0.075', increment: 'CHF 0.05' },
+        options: { round: IsoPriceRoundMode.HALF_EVEN },
+      },
+      expect: { rounded: 'CHF 0.100', difference: 'CHF 0.025' },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      const result = roundPriceToIncrement(given.input, given.options);
+      expect(result).toEqual(expected);
+      // the difference books the round exactly
+      expect(sumPrices(given.input.of, result.difference)).toEqual(
+        result.rounded,
+      );
+    });
+  });
+
+  describe('.error', () => {
+    test('throws when the currency has no cash increment', () => {
+      const error = getError(() => roundPriceToIncrement({ of: 'USD 10.03' }));
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'currency has no cash increment; pass an increment',
+      );
+    });
+
+    test('throws on an increment in another currency', () => {
+      const error = getError(() =>
+        roundPriceToIncrement({ of: 'CHF 10.03', increment: 'EUR 0.05' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain(
+        'cannot round to an increment in another currency',
+      );
+    });
+
+    test('throws on a zero increment', () => {
+      const error = getError(() =>
+        roundPriceToIncrement({ of: 'CHF 10.03', increment: 'CHF 0.00' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('increment must be positive');
+    });
+
+    test('throws on a negative increment', () => {
+      const error = getError(() =>
+        roundPriceToIncrement({ of: 'CHF 10.03', increment: 'CHF -0.05' }),
+      );
+      expect(error.message).toContain('increment must be positive');
+    });
+  });
+
+  describe('.round-modes-on-negatives', () => {
+    // a tie at -200.5 increments, whose toward-zero neighbor (200) is even
+    const MODE_CASES = [
+      { round: IsoPriceRoundMode.FLOOR, output: 'CHF -10.050' },
+      { round: IsoPriceRoundMode.CEIL, output: 'CHF -10.000' },
+      { round: IsoPriceRoundMode.TRUNC, output: 'CHF -10.000' },
+      { round: IsoPriceRoundMode.AWAY_FROM_ZERO, output: 'CHF -10.050' },
+      { round: IsoPriceRoundMode.HALF_UP, output: 'CHF -10.050' },
+      { round: IsoPriceRoundMode.HALF_AWAY_FROM_ZERO, output: 'CHF -10.050' },
+      { round: IsoPriceRoundMode.HALF_DOWN, output: 'CHF -10.000' },
+      { round: IsoPriceRoundMode.HALF_TOWARD_ZERO, output: 'CHF -10.000' },
+      { round: IsoPriceRoundMode.HALF_EVEN, output: 'CHF -10.000' },
+      { round: IsoPriceRoundMode.HALF_ODD, output: 'CHF -10.050' },
+    ];
+
+    MODE_CASES.forEach(({ round, output }) => {
+      test(`${round}: CHF -10.025 to CHF 0.05`, () => {
+        expect(
+          roundPriceToIncrement(
+            { of: 'CHF -10.025', increment: 'CHF 0.05' },
+            { round },
+          ).rounded,
+        ).toEqual(output);
+      });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import { asIsoPriceShape } from '../cast/asIsoPriceShape';
+import { asIsoPriceWords } from '../cast/asIsoPriceWords';
+import { getIsoPriceCashIncrementByCurrency } from './getIsoPriceCashIncrementByCurrency';
+import { getIsoPriceExponentValue } from './getIsoPriceExponentValue';
+import { roundBigintByMode } from './roundBigintByMode';
+
+/**
+ * .what = rounds a price to a multiple of an increment
+ * .why = point-of-sale cash totals round to the smallest coin (e.g., CHF 0.05, SEK 1.00), not to a power of ten
+ *
+ * the increment defaults to the currency's cash increment (see `getIsoPriceCashIncrementByCurrency`).
+ * returns the rounded price and the difference (rounded − original), so the round can be booked separately.
+ * both are expressed in the more precise exponent of the price and the increment
+ *
+ * @throws BadRequestError if the increment is not positive, is in another currency, or the currency has no cash increment
+ *
+ * @example
+ * roundPriceToIncrement({ of: 'CHF 10.03', increment: 'CHF 0.05' })
+ * // => { rounded: 'CHF 10.05', difference: 'CHF 0.02' }
+ *
+ * @example
+ * // omit `increment` to use the currency's cash increment
+ * roundPriceToIncrement({ of: 'CAD 4.92' })
+ * // => { rounded: 'CAD 4.90', difference: 'CAD -0.02' }
+ *
+ * @example
+ * roundPriceToIncrement({ of: 'SEK 99.50' }, { round: 'floor' })
+ * // => { rounded: 'SEK 99.00', difference: 'SEK -0.50' }
+ */
+export const roundPriceToIncrement = <TCurrency extends string = string>(
+  input: {
+    of: IsoPrice<TCurrency> | string;
+    increment?: IsoPrice<TCurrency> | string;
+  },
+  options?: { round?: IsoPriceRoundMode },
+): {
+  rounded: IsoPriceWords<TCurrency>;
+  difference: IsoPriceWords<TCurrency>;
+} => {
+  const shape = asIsoPriceShape(input.of);
+  const currency = shape.currency as TCurrency;
+
+  // resolve the increment
+  const increment =
+    input.increment ?? getIsoPriceCashIncrementByCurrency(currency);
+  if (increment === null) {
+    throw new BadRequestError(
+      'currency has no cash increment; pass an increment',
+      { currency },
+    );
+  }
+  const incrementShape = asIsoPriceShape(increment);
+  if (incrementShape.currency !== currency) {
+    throw new BadRequestError(
+      'cannot round to an increment in another currency',
+      { of: currency, increment: incrementShape.currency },
+    );
+  }
+
+  // normalize both to the more precise exponent
+  const ofExponent = shape.exponent ?? IsoPriceExponent.CENTI;
+  const incrementExponent = incrementShape.exponent ?? IsoPriceExponent.CENTI;
+  const ofExpValue = getIsoPriceExponentValue(ofExponent);
+  const incrementExpValue = getIsoPriceExponentValue(incrementExponent);
+  const exponent =
+    ofExpValue <= incrementExpValue ? ofExponent : incrementExponent;
+  const targetExpValue = Math.min(ofExpValue, incrementExpValue);
+  const amount = shape.amount * 10n ** BigInt(ofExpValue - targetExpValue);
+  const step =
+    incrementShape.amount * 10n ** BigInt(incrementExpValue - targetExpValue);
+  if (step <= 0n) {
+    throw new BadRequestError('increment must be positive', {
+      increment: asIsoPriceWords(incrementShape),
+    });
+  }
+
+  // round to a whole count of increments
+  const rounded =
+    roundBigintByMode(
+      { of: amount, by: step },
+      { round: options?.round ?? IsoPriceRoundMode.HALF_UP },
+    ) * step;
+  return {
+    rounded: asIsoPriceWords<TCurrency>({
+      amount: rounded,
+      currency,
+      exponent,
+    }),
+    difference: asIsoPriceWords<TCurrency>({
+      amount: rounded - amount,
+      currency,
+      exponent,
+    }),
+  };
+};
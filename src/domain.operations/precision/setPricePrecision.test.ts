@@ -1,3 +1,6 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
 import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
 import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
 import { setPricePrecision } from './setPricePrecision';
@@ -47,6 +50,17 @@ describe('setPricePrecision', () => {
       given: { input: { of: '$50.37', to: IsoPriceExponent.MICRO } },
       expect: { output: 'USD 50.370_000' },
     },
+    // arbitrary exponents
+    {
+      description: 'centi to satoshis (x10^-8)',
+      given: { input: { of: 'BTC 1.50', to: 'x10^-8' as const } },
+      expect: { output: 'BTC 1.500_000_00' },
+    },
+    {
+      description: 'centi to thousands (x10^3), half-up',
+      given: { input: { of: 'USD 12_500.00', to: 'x10^3' as const } },
+      expect: { output: 'USD 13_000' },
+    },
   ];
 
   CASES.forEach(({ description, given, expect: expected }) => {
@@ -204,4 +218,50 @@ describe('setPricePrecision', () => {
       });
     });
   });
+
+  describe('.round-modes-on-negatives', () => {
+    // a tie, whose toward-zero neighbor (555) is odd
+    const MODE_CASES = [
+      { round: IsoPriceRoundMode.FLOOR, output: 'USD -5.56' },
+      { round: IsoPriceRoundMode.CEIL, output: 'USD -5.55' },
+      { round: IsoPriceRoundMode.TRUNC, output: 'USD -5.55' },
+      { round: IsoPriceRoundMode.AWAY_FROM_ZERO, output: 'USD -5.56' },
+      { round: IsoPriceRoundMode.HALF_UP, output: 'USD -5.56' },
+      { round: IsoPriceRoundMode.HALF_AWAY_FROM_ZERO, output: 'USD -5.56' },
+      { round: IsoPriceRoundMode.HALF_DOWN, output: 'USD -5.55' },
+      { round: IsoPriceRoundMode.HALF_TOWARD_ZERO, output: 'USD -5.55' },
+      { round: IsoPriceRoundMode.HALF_EVEN, output: 'USD -5.56' },
+      { round: IsoPriceRoundMode.HALF_ODD, output: 'USD -5.55' },
+    ];
+
+    MODE_CASES.forEach(({ round, output }) => {
+      test(`${round}: USD -5.555 → cents`, () => {
+        expect(
+          setPricePrecision(
+            {
+              of: {
+                amount: -5555n,
+                currency: 'USD',
+                exponent: IsoPriceExponent.MILLI,
+              },
+              to: IsoPriceExponent.CENTI,
+            },
+            { round },
+          ),
+        ).toEqual(output);
+      });
+    });
+  });
+
+  describe('.error', () => {
+    test('throws on an unparseable exponent, rather than assume cents', () => {
+      const error = getError(() =>
+        setPricePrecision({
+          of: 'USD 5.00',
+          to: 'x10^two' as IsoPriceExponent,
+        }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+    });
+  });
 });
@@ -4,77 +4,9 @@ import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
 import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
 import { asIsoPriceShape } from '../cast/asIsoPriceShape';
 import { asIsoPriceWords } from '../cast/asIsoPriceWords';
-
-/**
- * .what = extracts numeric exponent from exponent string
- * .why = enables arithmetic on exponent values
- */
-const getExponentValue = (exponent: IsoPriceExponent): number => {
-  const match = exponent.match(/\^(-?\d+)$/);
-  if (!match) return -2; // default to centi
-  return parseInt(match[1]!, 10);
-};
-
-/**
- * .what = applies round mode to a bigint value
- * .why = enables precision decrease with correct round behavior
- */
-const applyRoundMode = (
-  value: bigint,
-  divisor: bigint,
-  mode: IsoPriceRoundMode,
-): bigint => {
-  const quotient = value / divisor;
-  const remainder = value % divisor;
-
-  // no remainder = no need to round
-  if (remainder === 0n) return quotient;
-
-  const isNegative = value < 0n;
-  const absRemainder = isNegative ? -remainder : remainder;
-  const halfDivisor = divisor / 2n;
-
-  switch (mode) {
-    case IsoPriceRoundMode.FLOOR:
-      // always toward negative infinity
-      return isNegative ? quotient - 1n : quotient;
-
-    case IsoPriceRoundMode.CEIL:
-      // always toward positive infinity
-      return isNegative ? quotient : quotient + 1n;
-
-    case IsoPriceRoundMode.HALF_UP:
-      // round half toward positive infinity
-      if (absRemainder >= halfDivisor) {
-        return isNegative ? quotient - 1n : quotient + 1n;
-      }
-      return quotient;
-
-    case IsoPriceRoundMode.HALF_DOWN:
-      // round half toward zero
-      if (absRemainder > halfDivisor) {
-        return isNegative ? quotient - 1n : quotient + 1n;
-      }
-      return quotient;
-
-    case IsoPriceRoundMode.HALF_EVEN:
-      // round half to nearest even (bankers round)
-      if (absRemainder > halfDivisor) {
-        return isNegative ? quotient - 1n : quotient + 1n;
-      }
-      if (absRemainder === halfDivisor) {
-        // round to even
-        const absQuotient = isNegative ? -quotient : quotient;
-        if (absQuotient % 2n !== 0n) {
-          return isNegative ? quotient - 1n : quotient + 1n;
-        }
-      }
-      return quotient;
-
-    default:
-      return quotient;
-  }
-};
+import { getIsoPriceExponentByCurrency } from './getIsoPriceExponentByCurrency';
+import { getIsoPriceExponentValue } from './getIsoPriceExponentValue';
+import { roundBigintByMode } from './roundBigintByMode';
 
 /**
  * .what = changes the precision of a price to a target exponent
@@ -94,20 +26,30 @@ const applyRoundMode = (
  * // decrease precision with explicit round mode
  * setPricePrecision({ of: 'USD 5.555', to: 'centi.x10^-2' }, { round: 'floor' })
  * // => 'USD 5.55'
+ *
+ * @example
+ * // omit `to` to use the currency's standard exponent (incl. registered custom currencies)
+ * setPricePrecision({ of: 'JPY 1500.5' })
+ * // => 'JPY 1_501'
  */
 export const setPricePrecision = <TCurrency extends string = string>(
   input: {
     of: IsoPrice<TCurrency> | string;
-    to: IsoPriceExponent;
+    to?: IsoPriceExponent;
   },
   options?: { round?: IsoPriceRoundMode },
 ): IsoPriceWords<TCurrency> => {
   // parse the input price
   const shape = asIsoPriceShape(input.of);
 
+  // resolve the target exponent; default to the currency's standard
+  const to = input.to ?? getIsoPriceExponentByCurrency(shape.currency);
+
   // get current and target exponent values
-  const currentExp = getExponentValue(shape.exponent ?? IsoPriceExponent.CENTI);
-  const targetExp = getExponentValue(input.to);
+  const currentExp = getIsoPriceExponentValue(
+    shape.exponent ?? IsoPriceExponent.CENTI,
+  );
+  const targetExp = getIsoPriceExponentValue(to);
 
   // calculate the scale difference
   const scaleDiff = currentExp - targetExp;
@@ -122,7 +64,10 @@ export const setPricePrecision = <TCurrency extends string = string>(
     // precision decrease — divide with round
     const divisor = 10n ** BigInt(-scaleDiff);
     const mode = options?.round ?? IsoPriceRoundMode.HALF_UP;
-    newAmount = applyRoundMode(shape.amount, divisor, mode);
+    newAmount = roundBigintByMode(
+      { of: shape.amount, by: divisor },
+      { round: mode },
+    );
   } else {
     // same precision
     newAmount = shape.amount;
@@ -132,7 +77,7 @@ export const setPricePrecision = <TCurrency extends string = string>(
   const newShape = {
     amount: newAmount,
     currency: shape.currency as TCurrency,
-    exponent: input.to,
+    exponent: to,
   };
 
   return asIsoPriceWords(newShape);
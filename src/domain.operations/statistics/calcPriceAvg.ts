@@ -6,6 +6,7 @@ import type { IsoPriceShape } from '../../domain.objects/IsoPriceShape';
 import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
 import { asIsoPriceShape } from '../cast/asIsoPriceShape';
 import { asIsoPriceWords } from '../cast/asIsoPriceWords';
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
 
 /**
  * .what = calculates the average of an array of prices
@@ -93,10 +94,10 @@ const findHighestPrecisionExponent = (
   exponents: IsoPriceExponent[],
 ): IsoPriceExponent => {
   let highestPrecision = exponents[0]!;
-  let highestValue = getExponentValue(highestPrecision);
+  let highestValue = getIsoPriceExponentValue(highestPrecision);
 
   for (const exp of exponents) {
-    const value = getExponentValue(exp);
+    const value = getIsoPriceExponentValue(exp);
     if (value < highestValue) {
       highestValue = value;
       highestPrecision = exp;
@@ -106,16 +107,6 @@ const findHighestPrecisionExponent = (
   return highestPrecision;
 };
 
-/**
- * .what = extracts numeric exponent value from exponent string
- * .why = enables comparison of exponent precision
- */
-const getExponentValue = (exponent: IsoPriceExponent): number => {
-  const match = exponent.match(/\^(-?\d+)$/);
-  if (!match) return -2; // default to centi
-  return parseInt(match[1]!, 10);
-};
-
 /**
  * .what = normalizes amount from source exponent to target exponent
  * .why = enables arithmetic on amounts with different precisions
@@ -125,8 +116,8 @@ const normalizeAmount = (
   sourceExponent: IsoPriceExponent,
   targetExponent: IsoPriceExponent,
 ): bigint => {
-  const sourceValue = getExponentValue(sourceExponent);
-  const targetValue = getExponentValue(targetExponent);
+  const sourceValue = getIsoPriceExponentValue(sourceExponent);
+  const targetValue = getIsoPriceExponentValue(targetExponent);
   const diff = sourceValue - targetValue;
 
   if (diff > 0) {
@@ -0,0 +1,298 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { multiplyPrice } from '../arithmetic/multiplyPrice';
+import { sumPrices } from '../arithmetic/sumPrices';
+import { ISO_CURRENCY_DENOMINATIONS } from '../currency/isoCurrencyDenominations';
+import { calcPriceDenominations } from './calcPriceDenominations';
+
+/**
+ * .what = totals a breakdown back into a price
+ * .why = proves the breakdown is exact
+ */
+const totalOf = (
+  breakdown: { denomination: string; count: number }[],
+  zero: string,
+): string =>
+  sumPrices(
+    zero,
+    ...breakdown.map(({ denomination, count }) =>
+      multiplyPrice({ of: denomination, by: count }),
+    ),
+  );
+
+describe('calcPriceDenominations', () => {
+  const CASES = [
+    {
+      description: 'USD 38.41 with the built-in set',
+      given: { input: { of: 'USD 38.41' } },
+      expect: {
+        output: [
+          { denomination: 'USD 20.00', count: 1 },
+          { denomination: 'USD 10.00', count: 1 },
+          { denomination: 'USD 5.00', count: 1 },
+          { denomination: 'USD 1.00', count: 3 },
+          { denomination: 'USD 0.25', count: 1 },
+          { denomination: 'USD 0.10', count: 1 },
+          { denomination: 'USD 0.05', count: 1 },
+          { denomination: 'USD 0.01', count: 1 },
+        ],
+      },
+    },
+    {
+      description: 'EUR 3.88 uses 2 euro and 2 cent coins',
+      given: { input: { of: 'EUR 3.88' } },
+      expect: {
+        output: [
+          { denomination: 'EUR 2.00', count: 1 },
+          { denomination: 'EUR 1.00', count: 1 },
+          { denomination: 'EUR 0.50', count: 1 },
+          { denomination: 'EUR 0.20', count: 1 },
+          { denomination: 'EUR 0.10', count: 1 },
+          { denomination: 'EUR 0.05', count: 1 },
+          { denomination: 'EUR 0.02', count: 1 },
+          { denomination: 'EUR 0.01', count: 1 },
+        ],
+      },
+    },
+    {
+      description: 'JPY 16_666 with a zero-decimal currency',
+      given: { input: { of: 'JPY 16_666' } },
+      expect: {
+        output: [
+          { denomination: 'JPY 10_000', count: 1 },
+          { denomination: 'JPY 5_000', count: 1 },
+          { denomination: 'JPY 1_000', count: 1 },
+          { denomination: 'JPY 500', count: 1 },
+          { denomination: 'JPY 100', count: 1 },
+          { denomination: 'JPY 50', count: 1 },
+          { denomination: 'JPY 10', count: 1 },
+          { denomination: 'JPY 5', count: 1 },
+          { denomination: 'JPY 1', count: 1 },
+        ],
+      },
+    },
+    {
+      description: 'zero needs no pieces',
+      given: { input: { of: 'USD 0.00' } },
+      expect: { output: [] },
+    },
+    {
+      description: 'custom denominations in any order',
+      given: {
+        input: {
+          of: 'USD 60.00',
+          denominations: ['USD 5.00', 'USD 50.00', 'USD 10.00'],
+        },
+      },
+      expect: {
+        output: [
+          { denomination: 'USD 50.00', count: 1 },
+          { denomination: 'USD 10.00', count: 1 },
+        ],
+      },
+    },
+    {
+      description: 'limited inventory spills into smaller pieces',
+      given: {
+        input: {
+          of: 'USD 60.00',
+          denominations: [
+            { denomination: 'USD 20.00', available: 2 },
+            { denomination: 'USD 5.00', available: 10 },
+          ],
+        },
+      },
+      expect: {
+        output: [
+          { denomination: 'USD 20.00', count: 2 },
+          { denomination: 'USD 5.00', count: 4 },
+        ],
+      },
+    },
+    {
+      description:
+        'greedy falls back when largest-first cannot reach the amount',
+      given: {
+        input: {
+          of: 'USD 0.30',
+          denominations: [
+            { denomination: 'USD 0.25', available: 4 },
+            { denomination: 'USD 0.10', available: 3 },
+          ],
+        },
+      },
+      expect: { output: [{ denomination: 'USD 0.10', count: 3 }] },
+    },
+    {
+      description: 'greedy keeps largest-first even when it is not the fewest',
+      given: {
+        input: {
+          of: 'USD 0.30',
+          denominations: ['USD 0.25', 'USD 0.10', 'USD 0.01'],
+        },
+      },
+      expect: {
+        output: [
+          { denomination: 'USD 0.25', count: 1 },
+          { denomination: 'USD 0.01', count: 5 },
+        ],
+      },
+    },
+    {
+      description: 'optimal finds the fewest pieces of a non-canonical set',
+      given: {
+        input: {
+          of: 'USD 0.30',
+          denominations: ['USD 0.25', 'USD 0.10', 'USD 0.01'],
+        },
+        options: { strategy: 'optimal' as const },
+      },
+      expect: { output: [{ denomination: 'USD 0.10', count: 3 }] },
+    },
+    {
+      description: 'optimal respects limited inventory',
+      given: {
+        input: {
+          of: 'USD 0.30',
+          denominations: [
+            { denomination: 'USD 0.25', available: 1 },
+            { denomination: 'USD 0.10', available: 2 },
+            { denomination: 'USD 0.01', available: 100 },
+          ],
+        },
+        options: { strategy: 'optimal' as const },
+      },
+      expect: {
+        output: [
+          { denomination: 'USD 0.25', count: 1 },
+          { denomination: 'USD 0.01', count: 5 },
+        ],
+      },
+    },
+    {
+      description: 'denominations coarser than the price',
+      given: {
+        input: { of: 'USD 7.000', denominations: ['USD 5', 'USD 1'] },
+      },
+      expect: {
+        output: [
+          { denomination: 'USD 5.000', count: 1 },
+          { denomination: 'USD 1.000', count: 2 },
+        ],
+      },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      const output = calcPriceDenominations(given.input, given.options);
+      expect(output).toEqual(expected.output);
+    });
+  });
+
+  describe('.exact-total', () => {
+    Object.keys(ISO_CURRENCY_DENOMINATIONS).forEach((currency) => {
+      test(`${currency} breakdowns total the input`, () => {
+        const denominations = ISO_CURRENCY_DENOMINATIONS[currency] ?? [];
+        const smallest = denominations[denominations.length - 1];
+        [1, 7, 19, 123, 4_567, 98_765].forEach((multiple) => {
+          const of = multiplyPrice({
+            of: `${currency} ${smallest}`,
+            by: multiple,
+          });
+          (['greedy', 'optimal'] as const).forEach((strategy) => {
+            const breakdown = calcPriceDenominations({ of }, { strategy });
+            expect(totalOf(breakdown, `${currency} 0`)).toEqual(of);
+          });
+        });
+      });
+    });
+
+    test('optimal never uses more pieces than greedy', () => {
+      const denominations = ['USD 0.25', 'USD 0.10', 'USD 0.01'];
+      for (let cents = 1; cents <= 200; cents++) {
+        const of = `USD ${(cents / 100).toFixed(2)}`;
+        const count = (breakdown: { count: number }[]): number =>
+          breakdown.reduce((sum, entry) => sum + entry.count, 0);
+        const greedy = calcPriceDenominations({ of, denominations });
+        const optimal = calcPriceDenominations(
+          { of, denominations },
+          { strategy: 'optimal' },
+        );
+        expect(count(optimal)).toBeLessThanOrEqual(count(greedy));
+        expect(totalOf(optimal, 'USD 0.00')).toEqual(of);
+      }
+    });
+  });
+
+  describe('.error', () => {
+    const ERROR_CASES = [
+      {
+        description: 'no exact breakdown exists',
+        given: {
+          input: {
+            of: 'USD 0.30',
+            denominations: [
+              { denomination: 'USD 0.25', available: 4 },
+              { denomination: 'USD 0.10', available: 2 },
+            ],
+          },
+        },
+        expect: 'cannot make exact change from the denominations',
+      },
+      {
+        description: 'price finer than the smallest piece',
+        given: { input: { of: 'USD 0.005' } },
+        expect: 'cannot make exact change from the denominations',
+      },
+      {
+        description: 'currency without built-in denominations',
+        given: { input: { of: 'BTC 1.00' } },
+        expect: 'currency has no built-in denominations; pass denominations',
+      },
+      {
+        description: 'negative price',
+        given: { input: { of: 'USD -5.00' } },
+        expect: 'cannot break a negative price into denominations',
+      },
+      {
+        description: 'denomination in another currency',
+        given: { input: { of: 'USD 5.00', denominations: ['EUR 5.00'] } },
+        expect: 'cannot break a price into denominations of another currency',
+      },
+      {
+        description: 'zero denomination',
+        given: {
+          input: { of: 'USD 5.00', denominations: ['USD 1.00', 'USD 0.00'] },
+        },
+        expect: 'denominations must be positive',
+      },
+      {
+        description: 'duplicate denominations',
+        given: {
+          input: { of: 'USD 5.00', denominations: ['USD 1.00', 'USD 1'] },
+        },
+        expect: 'denominations must be distinct',
+      },
+      {
+        description: 'fractional availability',
+        given: {
+          input: {
+            of: 'USD 5.00',
+            denominations: [{ denomination: 'USD 1.00', available: 1.5 }],
+          },
+        },
+        expect: 'available must be a non-negative integer',
+      },
+    ];
+
+    ERROR_CASES.forEach(({ description, given, expect: expected }) => {
+      test(`throws when ${description}`, () => {
+        const error = getError(() => calcPriceDenominations(given.input));
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain(expected);
+      });
+    });
+  });
+});
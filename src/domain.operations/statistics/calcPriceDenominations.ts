@@ -0,0 +1,335 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import type { IsoPriceShape } from '../../domain.objects/IsoPriceShape';
+import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import { asIsoPriceShape } from '../cast/asIsoPriceShape';
+import { asIsoPriceWords } from '../cast/asIsoPriceWords';
+import { ISO_CURRENCY_DENOMINATIONS } from '../currency/isoCurrencyDenominations';
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
+
+/**
+ * .what = a denomination in minor units, with the pieces available of it
+ * .why = the search works on bigints; null availability is unlimited
+ */
+type Piece = { value: bigint; available: bigint | null };
+
+/**
+ * .what = breaks an amount into pieces, largest first
+ * .why = the way a cashier counts change; fewest pieces for canonical sets like USD and EUR
+ *
+ * returns null when the largest-first pass cannot reach the amount exactly (e.g., a drawer out of dimes)
+ */
+const breakGreedy = (amount: bigint, pieces: Piece[]): bigint[] | null => {
+  let remaining = amount;
+  const counts = pieces.map(({ value, available }) => {
+    const fit = remaining / value;
+    const count = available !== null && available < fit ? available : fit;
+    remaining -= count * value;
+    return count;
+  });
+  return remaining === 0n ? counts : null;
+};
+
+/**
+ * .what = the state of a search for the fewest pieces
+ * .why = the recursive steps share the counts in progress, the best breakdown so far, and the dead ends
+ */
+type BreakdownSearch = {
+  pieces: Piece[];
+  counts: bigint[];
+  unsolvable: Set<string>;
+  best: { counts: bigint[]; total: bigint } | null;
+};
+
+/**
+ * .what = how a branch of the search ended
+ * .why = only branches proven 'unsolvable' may be remembered; 'pruned' ones were cut short by a bound
+ */
+type BreakdownOutcome = 'solved' | 'unsolvable' | 'pruned';
+
+/**
+ * .what = searches the breakdowns of the rest from one piece on
+ * .why = records a breakdown once the rest is covered, and remembers states with none
+ */
+const searchBreakdowns = (
+  search: BreakdownSearch,
+  index: number,
+  remaining: bigint,
+  used: bigint,
+): BreakdownOutcome => {
+  if (remaining === 0n) {
+    if (!search.best || used < search.best.total)
+      search.best = { counts: [...search.counts], total: used };
+    return 'solved';
+  }
+  const piece = search.pieces[index];
+  if (!piece) return 'unsolvable';
+  const key = `${index}:${remaining}`;
+  if (search.unsolvable.has(key)) return 'unsolvable';
+
+  const fit = remaining / piece.value;
+  const most =
+    piece.available !== null && piece.available < fit ? piece.available : fit;
+  const next = search.pieces[index + 1]?.value;
+  const outcome =
+    next === undefined
+      ? searchSmallestPiece(search, { index, piece, most, remaining, used })
+      : searchPieceCounts(search, {
+          index,
+          piece,
+          most,
+          next,
+          remaining,
+          used,
+        });
+  if (outcome === 'unsolvable') search.unsolvable.add(key);
+  return outcome;
+};
+
+/**
+ * .what = covers the rest with the smallest piece
+ * .why = the smallest piece must cover the rest exactly, or the branch has no breakdown
+ */
+const searchSmallestPiece = (
+  search: BreakdownSearch,
+  at: {
+    index: number;
+    piece: Piece;
+    most: bigint;
+    remaining: bigint;
+    used: bigint;
+  },
+): BreakdownOutcome => {
+  if (at.remaining !== at.most * at.piece.value) return 'unsolvable';
+  search.counts[at.index] = at.most;
+  const outcome = searchBreakdowns(search, at.index + 1, 0n, at.used + at.most);
+  search.counts[at.index] = 0n;
+  return outcome;
+};
+
+/**
+ * .what = tries each count of one piece, most first
+ * .why = the first breakdown found is the greedy one; later ones only replace it with fewer pieces
+ *
+ * stops once the pieces still needed cannot beat the best breakdown; fewer of this piece only needs more
+ */
+const searchPieceCounts = (
+  search: BreakdownSearch,
+  at: {
+    index: number;
+    piece: Piece;
+    most: bigint;
+    next: bigint;
+    remaining: bigint;
+    used: bigint;
+  },
+): BreakdownOutcome => {
+  let outcome: BreakdownOutcome = 'unsolvable';
+  for (let count: bigint = at.most; count >= 0n; count--) {
+    const rest = at.remaining - count * at.piece.value;
+    const needed = count + (rest + at.next - 1n) / at.next;
+    if (search.best && at.used + needed >= search.best.total) {
+      if (outcome !== 'solved') outcome = 'pruned';
+      break;
+    }
+
+    search.counts[at.index] = count;
+    const result = searchBreakdowns(
+      search,
+      at.index + 1,
+      rest,
+      at.used + count,
+    );
+    if (result === 'solved') outcome = 'solved';
+    if (result === 'pruned' && outcome !== 'solved') outcome = 'pruned';
+  }
+  search.counts[at.index] = 0n;
+  return outcome;
+};
+
+/**
+ * .what = breaks an amount into the fewest pieces, within availability
+ * .why = finds change where largest-first fails or uses more pieces than needed
+ *
+ * depth-first search over counts, largest piece first, pruned by a lower bound on the
+ * pieces still needed; states proven to have no exact breakdown are remembered
+ *
+ * returns null when no exact breakdown exists
+ */
+const breakOptimal = (amount: bigint, pieces: Piece[]): bigint[] | null => {
+  const search: BreakdownSearch = {
+    pieces,
+    counts: pieces.map(() => 0n),
+    unsolvable: new Set<string>(),
+    best: null,
+  };
+  searchBreakdowns(search, 0, amount, 0n);
+  return search.best?.counts ?? null;
+};
+
+/**
+ * .what = breaks a price into bills and coins
+ * .why = enables kiosks to make change and cash drawers to reconcile, with an exact total
+ *
+ * denominations default to the currency's circulating bills and coins (see `ISO_CURRENCY_DENOMINATIONS`).
+ * pass `{ denomination, available }` entries to break from a limited drawer inventory
+ *
+ * strategies:
+ * - `'greedy'` (default) → largest piece first, as a cashier counts; falls back to `'optimal'` when that cannot reach the amount
+ * - `'optimal'` → the fewest pieces
+ *
+ * entries are listed largest first, with pieces of count zero left out; their total always equals the input
+ *
+ * @throws BadRequestError if the price is negative, the denominations are invalid, or no exact breakdown exists
+ *
+ * @example
+ * calcPriceDenominations({ of: 'USD 38.41' })
+ * // => [
+ * //   { denomination: 'USD 20.00', count: 1 },
+ * //   { denomination: 'USD 10.00', count: 1 },
+ * //   { denomination: 'USD 5.00', count: 1 },
+ * //   { denomination: 'USD 1.00', count: 3 },
+ * //   { denomination: 'USD 0.25', count: 1 },
+ * //   { denomination: 'USD 0.10', count: 1 },
+ * //   { denomination: 'USD 0.05', count: 1 },
+ * //   { denomination: 'USD 0.01', count: 1 },
+ * // ]
+ *
+ * @example
+ * // a drawer out of dimes
+ * calcPriceDenominations({
+ *   of: 'USD 0.30',
+ *   denominations: [
+ *     { denomination: 'USD 0.25', available: 4 },
+ *     { denomination: 'USD 0.10', available: 0 },
+ *     { denomination: 'USD 0.05', available: 10 },
+ *   ],
+ * })
+ * // => [{ denomination: 'USD 0.25', count: 1 }, { denomination: 'USD 0.05', count: 1 }]
+ */
+export const calcPriceDenominations = <TCurrency extends string = string>(
+  input: {
+    of: IsoPrice<TCurrency> | string;
+    denominations?: (
+      | IsoPrice<TCurrency>
+      | string
+      | { denomination: IsoPrice<TCurrency> | string; available: number }
+    )[];
+  },
+  options?: { strategy?: 'greedy' | 'optimal' },
+): { denomination: IsoPriceWords<TCurrency>; count: number }[] => {
+  const shape = asIsoPriceShape(input.of);
+  const currency = shape.currency as TCurrency;
+  if (shape.amount < 0n) {
+    throw new BadRequestError(
+      'cannot break a negative price into denominations',
+      { of: asIsoPriceWords(shape) },
+    );
+  }
+
+  // resolve the denominations
+  const entries =
+    input.denominations ??
+    ISO_CURRENCY_DENOMINATIONS[currency]?.map(
+      (amount) => `${currency} ${amount}`,
+    );
+  if (!entries) {
+    throw new BadRequestError(
+      'currency has no built-in denominations; pass denominations',
+      { currency },
+    );
+  }
+  const denominations = entries.map((entry) => {
+    const isInventory = typeof entry === 'object' && 'denomination' in entry;
+    const denomination = asIsoPriceShape(
+      isInventory ? entry.denomination : entry,
+    );
+    const available = isInventory ? entry.available : null;
+    if (denomination.currency !== currency) {
+      throw new BadRequestError(
+        'cannot break a price into denominations of another currency',
+        { of: currency, denomination: denomination.currency },
+      );
+    }
+    if (denomination.amount <= 0n) {
+      throw new BadRequestError('denominations must be positive', {
+        denomination: asIsoPriceWords(denomination),
+      });
+    }
+    if (
+      available !== null &&
+      (!Number.isSafeInteger(available) || available < 0)
+    ) {
+      throw new BadRequestError('available must be a non-negative integer', {
+        denomination: asIsoPriceWords(denomination),
+        available,
+      });
+    }
+    return { denomination, available };
+  });
+
+  // normalize the price and denominations to the most precise exponent
+  const exponentOf = (price: IsoPriceShape): IsoPriceExponent =>
+    price.exponent ?? IsoPriceExponent.CENTI;
+  const exponent = [shape, ...denominations.map((d) => d.denomination)]
+    .map(exponentOf)
+    .reduce((finest, candidate) =>
+      getIsoPriceExponentValue(candidate) < getIsoPriceExponentValue(finest)
+        ? candidate
+        : finest,
+    );
+  const toUnits = (price: IsoPriceShape): bigint =>
+    price.amount *
+    10n **
+      BigInt(
+        getIsoPriceExponentValue(exponentOf(price)) -
+          getIsoPriceExponentValue(exponent),
+      );
+  const pieces: Piece[] = denominations
+    .map(({ denomination, available }) => ({
+      value: toUnits(denomination),
+      available: available === null ? null : BigInt(available),
+    }))
+    .sort((a, b) => (a.value > b.value ? -1 : a.value < b.value ? 1 : 0));
+  pieces.forEach((piece, index) => {
+    if (pieces[index - 1]?.value === piece.value) {
+      throw new BadRequestError('denominations must be distinct', {
+        denomination: asIsoPriceWords({
+          amount: piece.value,
+          currency,
+          exponent,
+        }),
+      });
+    }
+  });
+
+  // break the amount per strategy
+  const amount = toUnits(shape);
+  const strategy = options?.strategy ?? 'greedy';
+  const counts =
+    (strategy === 'greedy' ? breakGreedy(amount, pieces) : null) ??
+    breakOptimal(amount, pieces);
+  if (!counts) {
+    throw new BadRequestError(
+      'cannot make exact change from the denominations',
+      { of: asIsoPriceWords(shape), strategy },
+    );
+  }
+
+  return pieces.flatMap((piece, index) => {
+    const count = counts[index] ?? 0n;
+    if (count === 0n) return [];
+    return [
+      {
+        denomination: asIsoPriceWords<TCurrency>({
+          amount: piece.value,
+          currency,
+          exponent,
+        }),
+        count: Number(count),
+      },
+    ];
+  });
+};
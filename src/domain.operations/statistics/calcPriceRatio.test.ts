@@ -0,0 +1,217 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import { multiplyPrice } from '../arithmetic/multiplyPrice';
+import { calcPriceRatio } from './calcPriceRatio';
+
+describe('calcPriceRatio', () => {
+  const CASES = [
+    {
+      description: 'quarter of the budget',
+      given: { input: { of: 'USD 25.00', to: 'USD 100.00' } },
+      expect: { output: { numerator: 1n, denominator: 4n } },
+    },
+    {
+      description: 'one third stays exact',
+      given: { input: { of: 'USD 1.00', to: 'USD 3.00' } },
+      expect: { output: { numerator: 1n, denominator: 3n } },
+    },
+    {
+      description: 'greater than one',
+      given: { input: { of: 'USD 150.00', to: 'USD 100.00' } },
+      expect: { output: { numerator: 3n, denominator: 2n } },
+    },
+    {
+      description: 'negative numerator',
+      given: { input: { of: 'USD -5.00', to: 'USD 20.00' } },
+      expect: { output: { numerator: -1n, denominator: 4n } },
+    },
+    {
+      description: 'negative denominator moves the sign up',
+      given: { input: { of: 'USD 5.00', to: 'USD -20.00' } },
+      expect: { output: { numerator: -1n, denominator: 4n } },
+    },
+    {
+      description: 'zero of',
+      given: { input: { of: 'USD 0.00', to: 'USD 20.00' } },
+      expect: { output: { numerator: 0n, denominator: 1n } },
+    },
+    {
+      description: 'mixed precision is normalized',
+      given: {
+        input: {
+          of: {
+            amount: 50n,
+            currency: 'USD',
+            exponent: IsoPriceExponent.CENTI,
+          },
+          to: {
+            amount: 2_000_000n,
+            currency: 'USD',
+            exponent: IsoPriceExponent.MICRO,
+          },
+        },
+      },
+      expect: { output: { numerator: 1n, denominator: 4n } },
+    },
+    {
+      description: 'human format input',
+      given: { input: { of: '$30', to: '$40' } },
+      expect: { output: { numerator: 3n, denominator: 4n } },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      expect(calcPriceRatio(given.input)).toEqual(expected.output);
+    });
+  });
+
+  describe('.format-option', () => {
+    const FORMAT_CASES = [
+      {
+        description: 'exact decimal',
+        given: {
+          input: { of: 'USD 25.00', to: 'USD 100.00' },
+          options: { format: 'decimal' },
+        },
+        expect: { output: '0.25' },
+      },
+      {
+        description: 'exact decimal of a whole ratio',
+        given: {
+          input: { of: 'USD 300.00', to: 'USD 100.00' },
+          options: { format: 'decimal' },
+        },
+        expect: { output: '3' },
+      },
+      {
+        description: 'exact decimal of a negative ratio',
+        given: {
+          input: { of: 'USD -1.00', to: 'USD 8.00' },
+          options: { format: 'decimal' },
+        },
+        expect: { output: '-0.125' },
+      },
+      {
+        description: 'rounded decimal',
+        given: {
+          input: { of: 'USD 2.00', to: 'USD 3.00' },
+          options: { format: 'decimal', decimals: 4 },
+        },
+        expect: { output: '0.6667' },
+      },
+      {
+        description: 'percent defaults to 2 decimals',
+        given: {
+          input: { of: 'USD 1.00', to: 'USD 3.00' },
+          options: { format: 'percent' },
+        },
+        expect: { output: '33.33' },
+      },
+      {
+        description: 'percent with explicit decimals and round',
+        given: {
+          input: { of: 'USD 2.00', to: 'USD 3.00' },
+          options: {
+            format: 'percent',
+            decimals: 1,
+            round: IsoPriceRoundMode.FLOOR,
+          },
+        },
+        expect: { output: '66.6' },
+      },
+      {
+        description: 'margin percent',
+        given: {
+          input: { of: 'USD 12.50', to: 'USD 40.00' },
+          options: { format: 'percent' },
+        },
+        expect: { output: '31.25' },
+      },
+    ] as const;
+
+    FORMAT_CASES.forEach(({ description, given, expect: expected }) => {
+      test(description, () => {
+        expect(calcPriceRatio(given.input, given.options)).toEqual(
+          expected.output,
+        );
+      });
+    });
+  });
+
+  describe('.composition', () => {
+    test('ratio feeds back into multiplyPrice without loss', () => {
+      const ratio = calcPriceRatio({ of: 'USD 1.00', to: 'USD 3.00' });
+      expect(multiplyPrice({ of: 'USD 3.00', by: ratio })).toEqual('USD 1.00');
+    });
+  });
+
+  describe('.error', () => {
+    test('throws on mixed currencies', async () => {
+      const error = await getError(() =>
+        calcPriceRatio({ of: 'USD 10.00', to: 'EUR 20.00' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('mixed currencies');
+    });
+
+    test('throws on a zero price to compare to', async () => {
+      const error = await getError(() =>
+        calcPriceRatio({ of: 'USD 10.00', to: 'USD 0.00' }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('zero price');
+    });
+
+    test('throws on an exact decimal that never terminates', async () => {
+      const error = await getError(() =>
+        calcPriceRatio(
+          { of: 'USD 1.00', to: 'USD 3.00' },
+          { format: 'decimal' },
+        ),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('no exact decimal');
+    });
+
+    test('throws on negative decimals', async () => {
+      const error = await getError(() =>
+        calcPriceRatio(
+          { of: 'USD 1.00', to: 'USD 3.00' },
+          { format: 'percent', decimals: -1 },
+        ),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+    });
+  });
+
+  describe('.round-modes-on-negatives', () => {
+    // a tie at -0.125, whose toward-zero neighbor (12) is even
+    const MODE_CASES = [
+      { round: IsoPriceRoundMode.FLOOR, output: '-0.13' },
+      { round: IsoPriceRoundMode.CEIL, output: '-0.12' },
+      { round: IsoPriceRoundMode.TRUNC, output: '-0.12' },
+      { round: IsoPriceRoundMode.AWAY_FROM_ZERO, output: '-0.13' },
+      { round: IsoPriceRoundMode.HALF_UP, output: '-0.13' },
+      { round: IsoPriceRoundMode.HALF_AWAY_FROM_ZERO, output: '-0.13' },
+      { round: IsoPriceRoundMode.HALF_DOWN, output: '-0.12' },
+      { round: IsoPriceRoundMode.HALF_TOWARD_ZERO, output: '-0.12' },
+      { round: IsoPriceRoundMode.HALF_EVEN, output: '-0.12' },
+      { round: IsoPriceRoundMode.HALF_ODD, output: '-0.13' },
+    ];
+
+    MODE_CASES.forEach(({ round, output }) => {
+      test(`${round}: USD -1.00 / USD 8.00 to 2 decimals`, () => {
+        expect(
+          calcPriceRatio(
+            { of: 'USD -1.00', to: 'USD 8.00' },
+            { format: 'decimal', decimals: 2, round },
+          ),
+        ).toEqual(output);
+      });
+    });
+  });
+});
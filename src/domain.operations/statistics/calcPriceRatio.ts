@@ -0,0 +1,120 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import type { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import type { IsoRatio } from '../../domain.objects/IsoRatio';
+import { asIsoPriceShape } from '../cast/asIsoPriceShape';
+import { asIsoRatio } from '../cast/asIsoRatio';
+import {
+  asIsoRatioDecimal,
+  getIsoRatioExactDecimals,
+} from '../cast/asIsoRatioDecimal';
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
+
+/**
+ * .what = calculates the exact ratio of one price to another
+ * .why = answers "what fraction of the budget is this line item" or "what is the margin" without floats
+ *
+ * normalizes exponents like `sumPrices`, so 'USD 0.5' and 'USD 2.000_000' compare exactly.
+ * the default `ratio` format feeds straight into `multiplyPrice({ by })` and `allocatePrice` without loss
+ *
+ * formats:
+ * - `'ratio'` (default) → exact, reduced `{ numerator, denominator }`
+ * - `'decimal'` → exact decimal string; or rounded to `decimals`, when given
+ * - `'percent'` → percent string, rounded to `decimals` (default 2)
+ *
+ * @throws BadRequestError if currencies differ, `to` is zero, or an exact decimal is requested for a ratio that never terminates
+ *
+ * @example
+ * calcPriceRatio({ of: 'USD 25.00', to: 'USD 100.00' })
+ * // => { numerator: 1n, denominator: 4n }
+ *
+ * @example
+ * calcPriceRatio({ of: 'USD 25.00', to: 'USD 100.00' }, { format: 'decimal' })
+ * // => '0.25'
+ *
+ * @example
+ * calcPriceRatio({ of: 'USD 1.00', to: 'USD 3.00' }, { format: 'percent' })
+ * // => '33.33'
+ */
+export function calcPriceRatio<TCurrency extends string = string>(
+  input: {
+    of: IsoPrice<TCurrency> | string;
+    to: IsoPrice<TCurrency> | string;
+  },
+  options?: { format?: 'ratio' },
+): IsoRatio;
+export function calcPriceRatio<TCurrency extends string = string>(
+  input: {
+    of: IsoPrice<TCurrency> | string;
+    to: IsoPrice<TCurrency> | string;
+  },
+  options: {
+    format: 'decimal' | 'percent';
+    decimals?: number;
+    round?: IsoPriceRoundMode;
+  },
+): string;
+export function calcPriceRatio<TCurrency extends string = string>(
+  input: {
+    of: IsoPrice<TCurrency> | string;
+    to: IsoPrice<TCurrency> | string;
+  },
+  options?: {
+    format?: 'ratio' | 'decimal' | 'percent';
+    decimals?: number;
+    round?: IsoPriceRoundMode;
+  },
+): IsoRatio | string {
+  const ofShape = asIsoPriceShape(input.of);
+  const toShape = asIsoPriceShape(input.to);
+
+  // validate currencies match
+  if (ofShape.currency !== toShape.currency) {
+    throw new BadRequestError('cannot calculate ratio of mixed currencies', {
+      of: ofShape.currency,
+      to: toShape.currency,
+    });
+  }
+
+  // normalize both amounts to the highest precision
+  const ofExpValue = getIsoPriceExponentValue(
+    ofShape.exponent ?? IsoPriceExponent.CENTI,
+  );
+  const toExpValue = getIsoPriceExponentValue(
+    toShape.exponent ?? IsoPriceExponent.CENTI,
+  );
+  const targetExpValue = Math.min(ofExpValue, toExpValue);
+  const ofAmount = ofShape.amount * 10n ** BigInt(ofExpValue - targetExpValue);
+  const toAmount = toShape.amount * 10n ** BigInt(toExpValue - targetExpValue);
+  if (toAmount === 0n) {
+    throw new BadRequestError('cannot calculate ratio to a zero price', {
+      currency: toShape.currency,
+    });
+  }
+
+  // reduce to an exact ratio
+  const ratio = asIsoRatio({ numerator: ofAmount, denominator: toAmount });
+  const format = options?.format ?? 'ratio';
+  if (format === 'ratio') return ratio;
+
+  // require an exact decimal, when no decimals were requested
+  const decimals = options?.decimals ?? (format === 'percent' ? 2 : undefined);
+  if (decimals === undefined && getIsoRatioExactDecimals(ratio) === null) {
+    throw new BadRequestError(
+      'ratio has no exact decimal; request decimals or the ratio format',
+      { ratio: `${ratio.numerator}/${ratio.denominator}` },
+    );
+  }
+
+  // render exact, or rounded once to the requested decimals
+  const percentScale = format === 'percent' ? 100n : 1n;
+  return asIsoRatioDecimal(
+    {
+      numerator: ratio.numerator * percentScale,
+      denominator: ratio.denominator,
+    },
+    { decimals, round: options?.round },
+  );
+}
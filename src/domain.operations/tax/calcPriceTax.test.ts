@@ -0,0 +1,237 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError } from 'test-fns';
+
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import type { IsoTaxRate } from '../../domain.objects/IsoTaxRate';
+import { sumPrices } from '../arithmetic/sumPrices';
+import { calcPriceTax } from './calcPriceTax';
+
+describe('calcPriceTax', () => {
+  const CASES: {
+    description: string;
+    given: { of: string | string[]; rates: IsoTaxRate[] };
+    expect: { net: string; taxes: string[]; gross: string };
+  }[] = [
+    {
+      description: 'exclusive sales tax',
+      given: { of: 'USD 100.00', rates: [{ name: 'state', percent: '8.25' }] },
+      expect: { net: 'USD 100.00', taxes: ['USD 8.25'], gross: 'USD 108.25' },
+    },
+    {
+      description: 'exclusive tax, rounded half-up',
+      given: { of: 'USD 19.99', rates: [{ name: 'state', percent: '8.25' }] },
+      expect: { net: 'USD 19.99', taxes: ['USD 1.65'], gross: 'USD 21.64' },
+    },
+    {
+      description: 'inclusive vat, extracted from the gross',
+      given: {
+        of: 'EUR 119.00',
+        rates: [{ name: 'vat', percent: '19', inclusive: true }],
+      },
+      expect: { net: 'EUR 100.00', taxes: ['EUR 19.00'], gross: 'EUR 119.00' },
+    },
+    {
+      description: 'inclusive vat, with the net absorbing the rounding',
+      given: {
+        of: 'EUR 10.00',
+        rates: [{ name: 'vat', percent: '19', inclusive: true }],
+      },
+      expect: { net: 'EUR 8.40', taxes: ['EUR 1.60'], gross: 'EUR 10.00' },
+    },
+    {
+      description: 'two simple taxes',
+      given: {
+        of: 'CAD 100.00',
+        rates: [
+          { name: 'gst', percent: '5' },
+          { name: 'qst', percent: '9.975' },
+        ],
+      },
+      expect: {
+        net: 'CAD 100.00',
+        taxes: ['CAD 5.00', 'CAD 9.98'],
+        gross: 'CAD 114.98',
+      },
+    },
+    {
+      description: 'compound tax on a prior tax',
+      given: {
+        of: 'CAD 100.00',
+        rates: [
+          { name: 'gst', percent: '5' },
+          { name: 'pst', percent: '7', compound: true },
+        ],
+      },
+      expect: {
+        net: 'CAD 100.00',
+        taxes: ['CAD 5.00', 'CAD 7.35'],
+        gross: 'CAD 112.35',
+      },
+    },
+    {
+      description: 'inclusive compound taxes',
+      given: {
+        of: 'CAD 112.35',
+        rates: [
+          { name: 'gst', percent: '5', inclusive: true },
+          { name: 'pst', percent: '7', compound: true, inclusive: true },
+        ],
+      },
+      expect: {
+        net: 'CAD 100.00',
+        taxes: ['CAD 5.00', 'CAD 7.35'],
+        gross: 'CAD 112.35',
+      },
+    },
+    {
+      description: 'inclusive vat plus an exclusive levy',
+      given: {
+        of: 'EUR 119.00',
+        rates: [
+          { name: 'vat', percent: '19', inclusive: true },
+          { name: 'levy', percent: '1' },
+        ],
+      },
+      expect: {
+        net: 'EUR 100.00',
+        taxes: ['EUR 19.00', 'EUR 1.00'],
+        gross: 'EUR 120.00',
+      },
+    },
+    {
+      description: 'invoice rounding, once on the sum of the lines',
+      given: {
+        of: ['EUR 0.02', 'EUR 0.02', 'EUR 0.02'],
+        rates: [{ name: 'vat', percent: '19' }],
+      },
+      expect: { net: 'EUR 0.06', taxes: ['EUR 0.01'], gross: 'EUR 0.07' },
+    },
+    {
+      description: 'line rounding, on each line then summed',
+      given: {
+        of: ['EUR 0.02', 'EUR 0.02', 'EUR 0.02'],
+        rates: [{ name: 'vat', percent: '19', rounding: 'line' }],
+      },
+      expect: { net: 'EUR 0.06', taxes: ['EUR 0.00'], gross: 'EUR 0.06' },
+    },
+    {
+      description: 'lines of mixed precision',
+      given: {
+        of: ['USD 1.00', 'USD 0.000_250'],
+        rates: [{ name: 'state', percent: '10' }],
+      },
+      expect: {
+        net: 'USD 1.000_250',
+        taxes: ['USD 0.100_025'],
+        gross: 'USD 1.100_275',
+      },
+    },
+    {
+      description: 'no rates',
+      given: { of: 'USD 10.00', rates: [] },
+      expect: { net: 'USD 10.00', taxes: [], gross: 'USD 10.00' },
+    },
+    {
+      description: 'zero-rated',
+      given: { of: 'GBP 10.00', rates: [{ name: 'vat', percent: '0' }] },
+      expect: { net: 'GBP 10.00', taxes: ['GBP 0.00'], gross: 'GBP 10.00' },
+    },
+    {
+      description: 'percent as a number',
+      given: { of: 'USD 100.00', rates: [{ name: 'state', percent: 8.25 }] },
+      expect: { net: 'USD 100.00', taxes: ['USD 8.25'], gross: 'USD 108.25' },
+    },
+    {
+      description: 'percent as an exact rational',
+      given: {
+        of: 'USD 12.00',
+        rates: [{ name: 'levy', percent: { numerator: 25n, denominator: 3n } }],
+      },
+      expect: { net: 'USD 12.00', taxes: ['USD 1.00'], gross: 'USD 13.00' },
+    },
+    {
+      description: 'refund, negative price',
+      given: { of: 'USD -19.99', rates: [{ name: 'state', percent: '8.25' }] },
+      expect: { net: 'USD -19.99', taxes: ['USD -1.65'], gross: 'USD -21.64' },
+    },
+  ];
+
+  CASES.forEach(({ description, given, expect: expected }) => {
+    test(description, () => {
+      const result = calcPriceTax(given);
+      expect(result).toEqual({
+        net: expected.net,
+        taxes: given.rates.map((rate, index) => ({
+          rate,
+          amount: expected.taxes[index],
+        })),
+        gross: expected.gross,
+      });
+    });
+  });
+
+  test('honors the round mode', () => {
+    const result = calcPriceTax(
+      { of: 'USD 19.99', rates: [{ name: 'state', percent: '8.25' }] },
+      { round: IsoPriceRoundMode.FLOOR },
+    );
+    expect(result.taxes[0]?.amount).toEqual('USD 1.64');
+    expect(result.gross).toEqual('USD 21.63');
+  });
+
+  describe('.properties', () => {
+    const RATES: IsoTaxRate[][] = [
+      [{ name: 'vat', percent: '19', inclusive: true }],
+      [{ name: 'vat', percent: '7.7', inclusive: true, rounding: 'line' }],
+      [
+        { name: 'gst', percent: '5' },
+        { name: 'qst', percent: '9.975', compound: true, rounding: 'line' },
+      ],
+      [
+        { name: 'vat', percent: '21', inclusive: true },
+        { name: 'levy', percent: '0.5', compound: true },
+      ],
+    ];
+    const LINES = [
+      ['EUR 0.01'],
+      ['EUR 9.99', 'EUR 0.33', 'EUR 12.345'],
+      ['EUR -4.99', 'EUR 10.00'],
+      ['EUR 1_234_567.89'],
+    ];
+
+    RATES.forEach((rates, rateIndex) => {
+      LINES.forEach((of, lineIndex) => {
+        test(`net + sum(taxes) = gross, rates ${rateIndex}, lines ${lineIndex}`, () => {
+          const result = calcPriceTax({ of, rates });
+          expect(
+            sumPrices(result.net, ...result.taxes.map((tax) => tax.amount)),
+          ).toEqual(result.gross);
+        });
+      });
+    });
+  });
+
+  describe('.error', () => {
+    test('throws on a negative percent', () => {
+      const error = getError(() =>
+        calcPriceTax({
+          of: 'USD 10.00',
+          rates: [{ name: 'credit', percent: '-5' }],
+        }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('tax rate percent must not be negative');
+    });
+
+    test('throws on lines of mixed currencies', () => {
+      const error = getError(() =>
+        calcPriceTax({
+          of: ['USD 10.00', 'EUR 10.00'],
+          rates: [{ name: 'vat', percent: '19' }],
+        }),
+      );
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('currency mismatch');
+    });
+  });
+});
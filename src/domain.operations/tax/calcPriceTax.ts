@@ -0,0 +1,164 @@
+import { BadRequestError } from 'helpful-errors';
+
+import type { IsoPrice } from '../../domain.objects/IsoPrice';
+import { IsoPriceExponent } from '../../domain.objects/IsoPriceExponent';
+import { IsoPriceRoundMode } from '../../domain.objects/IsoPriceRoundMode';
+import type { IsoPriceWords } from '../../domain.objects/IsoPriceWords';
+import type { IsoRatio } from '../../domain.objects/IsoRatio';
+import type { IsoTaxRate } from '../../domain.objects/IsoTaxRate';
+import { sumPrices } from '../arithmetic/sumPrices';
+import { asIsoPriceShape } from '../cast/asIsoPriceShape';
+import { asIsoPriceWords } from '../cast/asIsoPriceWords';
+import { asIsoRatio, describeIsoRatioInput } from '../cast/asIsoRatio';
+import { getIsoPriceExponentValue } from '../precision/getIsoPriceExponentValue';
+import { roundBigintByMode } from '../precision/roundBigintByMode';
+
+/**
+ * .what = adds two exact ratios
+ * .why = accumulates tax coefficients without float loss
+ */
+const addRatios = (a: IsoRatio, b: IsoRatio): IsoRatio => ({
+  numerator: a.numerator * b.denominator + b.numerator * a.denominator,
+  denominator: a.denominator * b.denominator,
+});
+
+/**
+ * .what = multiplies two exact ratios
+ * .why = scales tax coefficients without float loss
+ */
+const multiplyRatios = (a: IsoRatio, b: IsoRatio): IsoRatio => ({
+  numerator: a.numerator * b.numerator,
+  denominator: a.denominator * b.denominator,
+});
+
+/**
+ * .what = computes the tax of each rate as an exact multiple of the net
+ * .why = simple taxes apply to the net; compound taxes apply to the net plus every prior tax
+ */
+const getTaxCoefficients = (
+  rates: IsoTaxRate[],
+): { rate: IsoTaxRate; coefficient: IsoRatio }[] => {
+  const levies: { rate: IsoTaxRate; coefficient: IsoRatio }[] = [];
+  for (const rate of rates) {
+    const percent = asIsoRatio(rate.percent);
+    if (percent.numerator < 0n) {
+      throw new BadRequestError('tax rate percent must not be negative', {
+        name: rate.name,
+        percent: describeIsoRatioInput(rate.percent),
+      });
+    }
+    const fraction = { ...percent, denominator: percent.denominator * 100n };
+    const base = rate.compound
+      ? levies.reduce(
+          (sum, levy) => addRatios(sum, levy.coefficient),
+          asIsoRatio(1n),
+        )
+      : asIsoRatio(1n);
+    levies.push({ rate, coefficient: multiplyRatios(fraction, base) });
+  }
+  return levies;
+};
+
+/**
+ * .what = computes the net, the tax per rate, and the gross of a price or invoice lines
+ * .why = enables checkout tax from exact percents, with totals that always reconcile
+ *
+ * each rate declares its own behavior:
+ * - `inclusive` — the price already includes this tax; it is extracted, not added
+ * - `compound` — this tax applies to the net plus every prior tax, in the order given
+ * - `rounding` — `'invoice'` rounds the tax once, on the sum of the lines; `'line'` rounds it on each line, then sums
+ *
+ * every tax is computed from the exact net and rounded once, at the highest precision of the lines.
+ * the net absorbs the rounding of inclusive taxes, so `net + sum(taxes) = gross` always holds exactly
+ *
+ * @throws BadRequestError if a percent is negative, or the lines mix currencies
+ *
+ * @example
+ * calcPriceTax({ of: 'USD 100.00', rates: [{ name: 'state', percent: '8.25' }] })
+ * // => { net: 'USD 100.00', taxes: [{ rate: { name: 'state', ... }, amount: 'USD 8.25' }], gross: 'USD 108.25' }
+ *
+ * @example
+ * // extract vat from a vat-inclusive gross
+ * calcPriceTax({ of: 'EUR 10.00', rates: [{ name: 'vat', percent: '19', inclusive: true }] })
+ * // => { net: 'EUR 8.40', taxes: [{ rate: { name: 'vat', ... }, amount: 'EUR 1.60' }], gross: 'EUR 10.00' }
+ *
+ * @example
+ * // compound, across invoice lines
+ * calcPriceTax({
+ *   of: ['CAD 60.00', 'CAD 40.00'],
+ *   rates: [
+ *     { name: 'gst', percent: '5' },
+ *     { name: 'pst', percent: '7', compound: true },
+ *   ],
+ * })
+ * // => { net: 'CAD 100.00', taxes: [{ ..., amount: 'CAD 5.00' }, { ..., amount: 'CAD 7.35' }], gross: 'CAD 112.35' }
+ */
+export const calcPriceTax = <TCurrency extends string = string>(
+  input: {
+    of: IsoPrice<TCurrency> | string | (IsoPrice<TCurrency> | string)[];
+    rates: IsoTaxRate[];
+  },
+  options?: { round?: IsoPriceRoundMode },
+): {
+  net: IsoPriceWords<TCurrency>;
+  taxes: { rate: IsoTaxRate; amount: IsoPriceWords<TCurrency> }[];
+  gross: IsoPriceWords<TCurrency>;
+} => {
+  const round = options?.round ?? IsoPriceRoundMode.HALF_UP;
+  const prices = Array.isArray(input.of) ? input.of : [input.of];
+
+  // scale every line to the highest precision, as sumPrices merges them
+  const total = sumPrices<TCurrency>(prices, { format: 'shape' });
+  const exponent = total.exponent ?? IsoPriceExponent.CENTI;
+  const lines = prices.map((price) => {
+    const shape = asIsoPriceShape(price);
+    const shift =
+      getIsoPriceExponentValue(shape.exponent ?? IsoPriceExponent.CENTI) -
+      getIsoPriceExponentValue(exponent);
+    return shape.amount * 10n ** BigInt(shift);
+  });
+
+  // the exact net is the price over one plus its inclusive taxes
+  const levies = getTaxCoefficients(input.rates);
+  const inclusive = levies.reduce(
+    (sum, { rate, coefficient }) =>
+      rate.inclusive ? addRatios(sum, coefficient) : sum,
+    asIsoRatio(1n),
+  );
+
+  // round each tax once, per line or per invoice
+  const taxes = levies.map(({ rate, coefficient }) => {
+    const roundTax = (amount: bigint): bigint =>
+      roundBigintByMode(
+        {
+          of: amount * coefficient.numerator * inclusive.denominator,
+          by: coefficient.denominator * inclusive.numerator,
+        },
+        { round },
+      );
+    const amount =
+      rate.rounding === 'line'
+        ? lines.reduce((sum, line) => sum + roundTax(line), 0n)
+        : roundTax(total.amount);
+    return { rate, amount };
+  });
+
+  // the net absorbs the rounding of inclusive taxes; the gross adds every tax to it
+  const net =
+    total.amount -
+    taxes.reduce(
+      (sum, { rate, amount }) => (rate.inclusive ? sum + amount : sum),
+      0n,
+    );
+  const gross = taxes.reduce((sum, { amount }) => sum + amount, net);
+  const asWords = (amount: bigint): IsoPriceWords<TCurrency> =>
+    asIsoPriceWords<TCurrency>({ amount, currency: total.currency, exponent });
+  return {
+    net: asWords(net),
+    taxes: taxes.map(({ rate, amount }) => ({
+      rate,
+      amount: asWords(amount),
+    })),
+    gross: asWords(gross),
+  };
+};